@@ -1,10 +1,12 @@
 // arXivTeXplorer Content Script
 // Adds a button to arXiv abstract pages to view TeX source
 
+import { getArxivIdFromUrl } from '../viewer/arxiv'
+
+// Returns the identifier including its version suffix (e.g. 1706.03762v5) when the page has one,
+// so the viewer opens the same version the user is looking at.
 function getArxivId(): string | null {
-  const url = window.location.href
-  const match = url.match(/arxiv\.org\/abs\/([^/?#]+)/)
-  return match ? match[1] : null
+  return getArxivIdFromUrl(window.location.href)
 }
 
 function getPaperTitle(): string {
@@ -24,7 +26,7 @@ function createViewerButton(arxivId: string): HTMLElement {
   link.rel = 'noopener noreferrer'
 
   const title = encodeURIComponent(getPaperTitle())
-  link.href = chrome.runtime.getURL(`viewer.html?id=${arxivId}&title=${title}`)
+  link.href = chrome.runtime.getURL(`viewer.html?id=${encodeURIComponent(arxivId)}&title=${title}`)
 
   return link
 }
@@ -1,30 +1,236 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import {
+  CachedPaperInfo,
+  listCachedPapers,
+  deleteCachedPaper,
+  getCacheQuota,
+  setCacheQuota,
+  enforceCacheQuota,
+  exportLibrary,
+  importLibrary,
+} from '../viewer/source-cache'
 
 import './Options.css'
 
+type SortKey = 'key' | 'title' | 'version' | 'size' | 'lastOpened'
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'key', label: 'arXiv ID' },
+  { key: 'title', label: 'Title' },
+  { key: 'version', label: 'Version' },
+  { key: 'size', label: 'Size' },
+  { key: 'lastOpened', label: 'Last opened' },
+]
+
+const MB = 1024 * 1024
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 B'
+  const k = 1024
+  const sizes = ['B', 'KB', 'MB', 'GB']
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i]
+}
+
+function comparePapers(a: CachedPaperInfo, b: CachedPaperInfo, key: SortKey): number {
+  switch (key) {
+    case 'key':
+      return a.key.localeCompare(b.key, undefined, { numeric: true })
+    case 'title':
+      return a.title.localeCompare(b.title)
+    case 'version':
+      return (a.version ?? 0) - (b.version ?? 0)
+    case 'size':
+      return a.size - b.size
+    case 'lastOpened':
+      return a.lastOpened - b.lastOpened
+  }
+}
+
+function openInViewer(paper: CachedPaperInfo) {
+  const title = encodeURIComponent(paper.title)
+  chrome.tabs.create({ url: chrome.runtime.getURL(`viewer.html?id=${encodeURIComponent(paper.key)}&title=${title}`) })
+}
+
 export const Options = () => {
-  const [countSync, setCountSync] = useState(0)
-  const link = 'https://github.com/guocaoyi/create-chrome-ext'
+  const [papers, setPapers] = useState<CachedPaperInfo[]>([])
+  const [loading, setLoading] = useState(true)
+  const [sortKey, setSortKey] = useState<SortKey>('lastOpened')
+  const [sortAscending, setSortAscending] = useState(false)
+  const [quota, setQuota] = useState(0)
+  const [quotaInput, setQuotaInput] = useState('')
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  const refresh = useCallback(async () => {
+    const [cachedPapers, currentQuota] = await Promise.all([listCachedPapers(), getCacheQuota()])
+    setPapers(cachedPapers)
+    setQuota(currentQuota)
+    setQuotaInput(String(Math.round(currentQuota / MB)))
+    setLoading(false)
+  }, [])
 
   useEffect(() => {
-    chrome.storage.sync.get(['count'], (result) => {
-      setCountSync(result.count || 0)
+    refresh().catch((err) => {
+      setMessage({ text: `Failed to read the library: ${err.message}`, isError: true })
+      setLoading(false)
     })
+  }, [refresh])
 
-    chrome.runtime.onMessage.addListener((request) => {
-      if (request.type === 'COUNT') {
-        setCountSync(request.count || 0)
-      }
+  const sortedPapers = useMemo(() => {
+    const sorted = [...papers].sort((a, b) => comparePapers(a, b, sortKey))
+    return sortAscending ? sorted : sorted.reverse()
+  }, [papers, sortKey, sortAscending])
+
+  const totalSize = papers.reduce((sum, paper) => sum + paper.size, 0)
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(prev => !prev)
+    } else {
+      setSortKey(key)
+      setSortAscending(key === 'key' || key === 'title')
+    }
+  }
+
+  const handleDelete = async (paper: CachedPaperInfo) => {
+    if (!window.confirm(`Remove ${paper.key} from the library?`)) return
+    await deleteCachedPaper(paper.key)
+    await refresh()
+  }
+
+  const handleSaveQuota = async () => {
+    const megabytes = parseFloat(quotaInput)
+    if (!Number.isFinite(megabytes) || megabytes <= 0) {
+      setMessage({ text: 'Enter a storage limit greater than 0 MB', isError: true })
+      return
+    }
+    const bytes = Math.round(megabytes * MB)
+    await setCacheQuota(bytes)
+    const evicted = await enforceCacheQuota(bytes)
+    setMessage({
+      text: evicted.length > 0
+        ? `Storage limit saved, evicted ${evicted.length} least recently opened paper(s)`
+        : 'Storage limit saved',
+      isError: false,
     })
-  }, [])
+    await refresh()
+  }
+
+  const handleExport = async () => {
+    const data = await exportLibrary()
+    const url = URL.createObjectURL(new Blob([data.buffer as ArrayBuffer], { type: 'application/zip' }))
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `arxiv-texplorer-library-${new Date().toISOString().slice(0, 10)}.zip`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      const count = await importLibrary(new Uint8Array(await file.arrayBuffer()))
+      setMessage({ text: `Imported ${count} paper(s)`, isError: false })
+    } catch (err) {
+      setMessage({ text: `Import failed: ${err instanceof Error ? err.message : 'the file could not be read'}`, isError: true })
+    }
+    await refresh()
+  }
 
   return (
-    <main>
-      <h3>Options Page</h3>
-      <h4>Count from Popup: {countSync}</h4>
-      <a href={link} target="_blank">
-        generated by create-chrome-ext
-      </a>
+    <main className="library">
+      <header className="library-header">
+        <h1>Library</h1>
+        <p className="library-subtitle">Paper sources cached locally by the TeX viewer</p>
+      </header>
+
+      <section className="library-toolbar">
+        <div className="library-usage">
+          <div className="usage-text">
+            {formatBytes(totalSize)} of {formatBytes(quota)} used · {papers.length} paper(s)
+          </div>
+          <div className="usage-bar">
+            <div
+              className="usage-fill"
+              style={{ width: `${quota ? Math.min(100, (totalSize / quota) * 100) : 0}%` }}
+            />
+          </div>
+        </div>
+        <label className="quota-field">
+          Storage limit
+          <input
+            type="number"
+            min="1"
+            value={quotaInput}
+            onChange={(e) => setQuotaInput(e.target.value)}
+          />
+          MB
+        </label>
+        <button onClick={handleSaveQuota}>Save</button>
+        <div className="toolbar-spacer" />
+        <button onClick={handleExport} disabled={papers.length === 0}>Export</button>
+        <button onClick={() => importInputRef.current?.click()}>Import</button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".zip,application/zip"
+          style={{ display: 'none' }}
+          onChange={handleImport}
+        />
+      </section>
+
+      {message && (
+        <div className={`library-message ${message.isError ? 'error' : ''}`}>{message.text}</div>
+      )}
+
+      {loading ? (
+        <div className="library-empty">Loading…</div>
+      ) : papers.length === 0 ? (
+        <div className="library-empty">
+          No cached papers yet. Open a paper's TeX source from its arXiv page to add it here.
+        </div>
+      ) : (
+        <table className="library-table">
+          <thead>
+            <tr>
+              {COLUMNS.map(column => (
+                <th
+                  key={column.key}
+                  className={sortKey === column.key ? 'sorted' : ''}
+                  onClick={() => handleSort(column.key)}
+                >
+                  {column.label}
+                  {sortKey === column.key && <span className="sort-arrow">{sortAscending ? '▲' : '▼'}</span>}
+                </th>
+              ))}
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {sortedPapers.map(paper => (
+              <tr key={paper.key}>
+                <td className="cell-id">{paper.arxivId}</td>
+                <td className="cell-title" title={paper.title}>{paper.title}</td>
+                <td>{paper.version !== null ? `v${paper.version}` : '—'}</td>
+                <td>{formatBytes(paper.size)}</td>
+                <td title={`Cached ${new Date(paper.cachedAt).toLocaleString()}`}>
+                  {new Date(paper.lastOpened).toLocaleString()}
+                </td>
+                <td className="cell-actions">
+                  <button onClick={() => openInViewer(paper)}>Open</button>
+                  <button className="danger" onClick={() => handleDelete(paper)}>Delete</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
     </main>
   )
 }
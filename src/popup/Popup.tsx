@@ -26,6 +26,10 @@ export const Popup = () => {
         </ol>
       </div>
       <div className="footer">
+        <a href="#" onClick={(e) => { e.preventDefault(); chrome.runtime.openOptionsPage() }}>
+          Open Library
+        </a>
+        {' · '}
         <a href="https://arxiv.org" target="_blank" rel="noopener noreferrer">
           Visit arXiv.org
         </a>
@@ -1,14 +1,44 @@
-import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
-import { unzipSync, strFromU8, gunzipSync } from 'fflate'
-import Editor, { loader } from '@monaco-editor/react'
+import { Fragment, useState, useEffect, useCallback, useRef, useMemo } from 'react'
+import Editor, { DiffEditor, loader } from '@monaco-editor/react'
 import * as monaco from 'monaco-editor'
 import { 
   FileEntry, 
   SectionInfo, 
   parseDocumentOutline, 
   createDefinitionProvider, 
-  createCompletionProvider 
+  createCompletionProvider,
+  createHoverProvider,
+  createReferenceProvider,
+  findReferences,
+  findReferenceTargetAt,
+  ReferenceLocation,
+  ReferenceTarget,
+  getFileUri,
+  getFileNameFromUri
 } from './latex-features'
+import { getCachedPaper, putCachedPaper, setCachedEncoding, touchCachedPaper } from './source-cache'
+import { ArxivVersion, splitArxivVersion, formatArxivId, fetchArxivVersions } from './arxiv'
+import { FileChange, FileChangeKind, countLineChanges, diffSources } from './source-diff'
+import { ExportFormat, exportSource, getFileBytes } from './source-export'
+import { UnsupportedEntry } from './archive'
+import { ENCODINGS, decodeText, getEncodingName } from './encoding'
+import { LatexProject, applyEncodings, buildProject } from './project'
+import { GraphEdgeKind, GraphNode, GraphRow, buildDependencyGraph, layoutDependencyGraph } from './dependency-graph'
+import { Diagnostic, DiagnosticSeverity, collectDiagnostics } from './diagnostics'
+import { createMathHoverProvider, renderMath } from './math'
+import { findMathAt } from './math-regions'
+import { renderReaderHtml } from './reader'
+import { FigureGraphic, collectFigures } from './figures'
+import { PDFDocumentProxy, getPdfThumbnail, isCancelled, loadPdf, renderPage } from './pdf'
+import { FileSearchResult, MAX_SEARCH_MATCHES, SearchLineMatch, SearchOptions, SearchResults, SearchScope } from './search'
+import {
+  FileMatch, FuzzyMatch, KeybindingOverrides, assignKeybinding, formatKeybinding, fuzzyMatch, getKeybinding, getMatchRanges,
+  isTypingKeybinding, loadKeybindings, matchFiles, resolveKeybindings, saveKeybindings
+} from './commands'
+import { SYMBOL_KIND_LABELS, WorkspaceSymbol, collectSymbols, createDocumentSymbolProvider } from './symbols'
+import { BoundingBox, EpsPreviewSource, EpsRendering, getEpsInfo, getEpsThumbnail, isPostScriptFile, renderEps } from './eps'
+import type { DownloadProgress, SourceWorkerMessage, SourceWorkerRequest } from './source-worker'
+import type { SearchWorkerMessage, SearchWorkerRequest } from './search-worker'
 import './Viewer.css'
 
 // Configure Monaco to use local bundled version
@@ -200,19 +230,16 @@ monaco.languages.setMonarchTokensProvider('bibtex', {
 // Use types from latex-features
 
 
-interface DownloadProgress {
-  phase: 'downloading' | 'extracting' | 'done'
-  loaded: number
-  total: number
-  percent: number
+interface SourceArchive {
+  files: FileEntry[]
+  unsupported: UnsupportedEntry[] // archive entries that could not be extracted
+  version: number | null // resolved from the download's file name when available
 }
 
-interface SearchResult {
-  file: FileEntry
-  line: number
-  lineContent: string
-  matchStart: number
-  matchEnd: number
+interface DiffView {
+  change: FileChange
+  originalLabel: string
+  modifiedLabel: string
 }
 
 interface TreeNode {
@@ -326,12 +353,12 @@ function FileIcon({ filename, className }: { filename: string; className?: strin
     )
   }
 
-  // EPS file - teal
-  if (ext === 'eps') {
+  // EPS and PostScript files - teal
+  if (ext === 'eps' || ext === 'ps') {
     return (
       <svg className={cls} viewBox="0 0 16 16" fill="none">
         <path d="M13 1H5L3 3v10l2 2h8l2-2V3l-2-2z" fill="#16a085"/>
-        <text x="8" y="11" textAnchor="middle" fill="white" fontSize="4.5" fontWeight="bold" fontFamily="sans-serif">EPS</text>
+        <text x="8" y="11" textAnchor="middle" fill="white" fontSize="4.5" fontWeight="bold" fontFamily="sans-serif">{ext.toUpperCase()}</text>
       </svg>
     )
   }
@@ -413,35 +440,6 @@ function getLanguage(filename: string): string {
   }
 }
 
-function getMimeType(filename: string): string {
-  const ext = filename.split('.').pop()?.toLowerCase()
-  switch (ext) {
-    case 'png':
-      return 'image/png'
-    case 'jpg':
-    case 'jpeg':
-      return 'image/jpeg'
-    case 'gif':
-      return 'image/gif'
-    case 'svg':
-      return 'image/svg+xml'
-    case 'pdf':
-      return 'application/pdf'
-    case 'eps':
-      return 'application/postscript'
-    default:
-      return 'application/octet-stream'
-  }
-}
-
-function isTextFile(filename: string): boolean {
-  const textExtensions = [
-    'tex', 'bib', 'sty', 'cls', 'bst', 'txt', 'md', 'cfg', 'def', 'fd', 'ins', 'dtx', 'ltx', 'bbx', 'cbx', 'lbx'
-  ]
-  const ext = filename.split('.').pop()?.toLowerCase()
-  return ext ? textExtensions.includes(ext) : false
-}
-
 function isImageFile(filename: string): boolean {
   const imageExtensions = ['png', 'jpg', 'jpeg', 'gif', 'svg']
   const ext = filename.split('.').pop()?.toLowerCase()
@@ -452,207 +450,99 @@ function isPdfFile(filename: string): boolean {
   return filename.toLowerCase().endsWith('.pdf')
 }
 
-async function fetchAndExtractTexSource(
+// Download and extract the source in a worker; onFiles receives files while extraction is still running
+function fetchAndExtractTexSource(
   arxivId: string,
-  onProgress: (progress: DownloadProgress) => void
-): Promise<FileEntry[]> {
-  const sourceUrl = `https://arxiv.org/src/${arxivId}`
-
-  const response = await fetch(sourceUrl)
-  if (!response.ok) {
-    throw new Error(`Failed to fetch TeX source: ${response.status} ${response.statusText}`)
-  }
-
-  const contentLength = response.headers.get('content-length')
-  const total = contentLength ? parseInt(contentLength, 10) : 0
-
-  const reader = response.body?.getReader()
-  if (!reader) {
-    throw new Error('Failed to get response reader')
-  }
-
-  const chunks: Uint8Array[] = []
-  let loaded = 0
-
-  while (true) {
-    const { done, value } = await reader.read()
-    if (done) break
-
-    chunks.push(value)
-    loaded += value.length
-
-    onProgress({
-      phase: 'downloading',
-      loaded,
-      total: total || loaded,
-      percent: total ? Math.round((loaded / total) * 100) : 0
+  onProgress: (progress: DownloadProgress) => void,
+  onFiles?: (files: FileEntry[]) => void,
+  signal?: AbortSignal
+): Promise<SourceArchive> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./source-worker.ts', import.meta.url), { type: 'module' })
+    const files: FileEntry[] = []
+
+    signal?.addEventListener('abort', () => {
+      worker.terminate()
+      reject(new DOMException('Loading was cancelled', 'AbortError'))
     })
-  }
-
-  const data = new Uint8Array(loaded)
-  let offset = 0
-  for (const chunk of chunks) {
-    data.set(chunk, offset)
-    offset += chunk.length
-  }
 
-  onProgress({
-    phase: 'extracting',
-    loaded,
-    total: loaded,
-    percent: 100
-  })
-
-  const contentType = response.headers.get('content-type') || ''
-  const files: FileEntry[] = []
-
-  if (data[0] === 0x1f && data[1] === 0x8b) {
-    try {
-      const decompressed = gunzipSync(data)
-
-      if (isTarArchive(decompressed)) {
-        const tarFiles = extractTar(decompressed)
-        files.push(...tarFiles)
-      } else {
-        const content = strFromU8(decompressed)
-        files.push({
-          name: `${arxivId.replace(/\//g, '_')}.tex`,
-          content,
-          isTeX: true,
-          isBinary: false
-        })
-      }
-    } catch {
-      const content = new TextDecoder().decode(data)
-      files.push({
-        name: `${arxivId.replace(/\//g, '_')}.tex`,
-        content,
-        isTeX: true,
-        isBinary: false
-      })
-    }
-  } else if (contentType.includes('application/x-eprint-tar') || contentType.includes('application/x-tar')) {
-    const tarFiles = extractTar(data)
-    files.push(...tarFiles)
-  } else if (contentType.includes('text/') || contentType.includes('application/x-tex')) {
-    const content = new TextDecoder().decode(data)
-    files.push({
-      name: `${arxivId.replace(/\//g, '_')}.tex`,
-      content,
-      isTeX: true,
-      isBinary: false
-    })
-  } else {
-    try {
-      const unzipped = unzipSync(data)
-      for (const [filename, fileData] of Object.entries(unzipped)) {
-        if (isTextFile(filename)) {
-          files.push({
-            name: filename,
-            content: strFromU8(fileData),
-            isTeX: filename.endsWith('.tex'),
-            isBinary: false
+    worker.onmessage = (event: MessageEvent<SourceWorkerMessage>) => {
+      const message = event.data
+      switch (message.type) {
+        case 'progress':
+          onProgress(message.progress)
+          break
+        case 'files':
+          files.push(...message.files)
+          onFiles?.(message.files)
+          break
+        case 'done':
+          worker.terminate()
+          files.sort((a, b) => {
+            if (a.isTeX && !b.isTeX) return -1
+            if (!a.isTeX && b.isTeX) return 1
+            return a.name.localeCompare(b.name)
           })
-        } else {
-          files.push({
-            name: filename,
-            content: '',
-            isTeX: false,
-            isBinary: true,
-            binaryData: fileData,
-            mimeType: getMimeType(filename)
-          })
-        }
+          resolve({ files, unsupported: message.unsupported, version: message.version })
+          break
+        case 'error':
+          worker.terminate()
+          reject(new Error(message.message))
+          break
       }
-    } catch {
-      const content = new TextDecoder().decode(data)
-      files.push({
-        name: `${arxivId.replace(/\//g, '_')}.tex`,
-        content,
-        isTeX: true,
-        isBinary: false
-      })
     }
-  }
 
-  files.sort((a, b) => {
-    if (a.isTeX && !b.isTeX) return -1
-    if (!a.isTeX && b.isTeX) return 1
-    return a.name.localeCompare(b.name)
-  })
+    worker.onerror = (event) => {
+      worker.terminate()
+      reject(new Error(event.message || 'Failed to load TeX source'))
+    }
 
-  onProgress({
-    phase: 'done',
-    loaded,
-    total: loaded,
-    percent: 100
+    const request: SourceWorkerRequest = { type: 'load', arxivId }
+    worker.postMessage(request)
   })
-
-  return files
 }
 
-function isTarArchive(data: Uint8Array): boolean {
-  if (data.length < 263) return false
-  const magic = new TextDecoder().decode(data.slice(257, 262))
-  return magic === 'ustar' || magic.startsWith('ustar')
+interface LoadedSource {
+  files: FileEntry[]
+  unsupported: UnsupportedEntry[]
+  version: number | null
+  cachedAt: number | null // set when the files were served from the local cache
 }
 
-function extractTar(data: Uint8Array): FileEntry[] {
-  const files: FileEntry[] = []
-  let offset = 0
-
-  while (offset < data.length - 512) {
-    const nameBytes = data.slice(offset, offset + 100)
-    const name = new TextDecoder().decode(nameBytes).replace(/\0/g, '').trim()
-
-    if (!name) break
-
-    const sizeBytes = data.slice(offset + 124, offset + 136)
-    const sizeStr = new TextDecoder().decode(sizeBytes).replace(/\0/g, '').trim()
-    const size = parseInt(sizeStr, 8) || 0
-
-    const typeFlag = data[offset + 156]
-    const contentOffset = offset + 512
-
-    if ((typeFlag === 0 || typeFlag === 48) && size > 0) {
-      const contentBytes = data.slice(contentOffset, contentOffset + size)
-
-      if (isTextFile(name)) {
-        try {
-          const content = new TextDecoder().decode(contentBytes)
-          files.push({
-            name,
-            content,
-            isTeX: name.endsWith('.tex'),
-            isBinary: false
-          })
-        } catch {
-          files.push({
-            name,
-            content: '',
-            isTeX: false,
-            isBinary: true,
-            binaryData: new Uint8Array(contentBytes),
-            mimeType: getMimeType(name)
-          })
-        }
-      } else {
-        files.push({
-          name,
-          content: '',
-          isTeX: false,
-          isBinary: true,
-          binaryData: new Uint8Array(contentBytes),
-          mimeType: getMimeType(name)
-        })
+// Load a paper's source from the local cache, or download it and add it to the cache
+async function loadPaperSource(
+  id: string,
+  title: string,
+  refresh: boolean,
+  onProgress: (progress: DownloadProgress) => void,
+  onFiles?: (files: FileEntry[]) => void,
+  signal?: AbortSignal
+): Promise<LoadedSource> {
+  if (!refresh) {
+    const cached = await getCachedPaper(id).catch((err) => {
+      console.warn('arXivTeXplorer: failed to read source cache', err)
+      return null
+    })
+    if (cached) {
+      touchCachedPaper(cached.info.key).catch(() => {})
+      return {
+        files: applyEncodings(cached.files, cached.info.encodings),
+        unsupported: cached.info.unsupported || [],
+        version: cached.info.version,
+        cachedAt: cached.info.cachedAt
       }
     }
-
-    const blocks = Math.ceil(size / 512)
-    offset = contentOffset + blocks * 512
   }
 
-  return files
+  onProgress({ phase: 'downloading', loaded: 0, total: 0, percent: 0, decompressed: 0, filesExtracted: 0 })
+  const archive = await fetchAndExtractTexSource(id, onProgress, onFiles, signal)
+  // Each file was decoded on its own while extracting; included files follow the root's encoding
+  const files = applyEncodings(archive.files)
+
+  putCachedPaper(splitArxivVersion(id).arxivId, archive.version, title, files, archive.unsupported)
+    .catch((err) => console.warn('arXivTeXplorer: failed to cache source', err))
+
+  return { files, unsupported: archive.unsupported, version: archive.version, cachedAt: null }
 }
 
 function formatBytes(bytes: number): string {
@@ -698,19 +588,114 @@ function ImageViewer({ file }: { file: FileEntry }) {
   )
 }
 
+const PDF_ZOOM_STEPS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4]
+
 function PdfViewer({ file }: { file: FileEntry }) {
-  const [pdfUrl, setPdfUrl] = useState<string | null>(null)
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [pageNumber, setPageNumber] = useState(1)
+  const [pageInput, setPageInput] = useState('1')
+  // Points to CSS pixels, or null to fit the page to the width of the viewer
+  const [zoom, setZoom] = useState<number | null>(null)
+  const [scale, setScale] = useState(1)
+  const [containerWidth, setContainerWidth] = useState(0)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const textLayerRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
-    if (file.binaryData) {
-      const blob = new Blob([file.binaryData.buffer as ArrayBuffer], { type: 'application/pdf' })
-      const url = URL.createObjectURL(blob)
-      setPdfUrl(url)
-      return () => URL.revokeObjectURL(url)
+    let cancelled = false
+    let loaded: PDFDocumentProxy | null = null
+    setPdf(null)
+    setError(null)
+    setPageNumber(1)
+    loadPdf(file).then(
+      (doc) => {
+        loaded = doc
+        if (cancelled) doc.destroy()
+        else setPdf(doc)
+      },
+      (err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err))
+      }
+    )
+    return () => {
+      cancelled = true
+      loaded?.destroy()
     }
   }, [file])
 
-  if (!pdfUrl) {
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(() => setContainerWidth(container.clientWidth))
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [pdf])
+
+  useEffect(() => {
+    setPageInput(String(pageNumber))
+  }, [pageNumber])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!pdf || !canvas || (zoom === null && containerWidth === 0)) return
+    let cancelRender: (() => void) | null = null
+    let cancelled = false
+
+    pdf.getPage(pageNumber).then((page) => {
+      if (cancelled) return
+      // Leave room for the padding around the page
+      const pageScale = zoom ?? Math.max(0.1, (containerWidth - 40) / page.getViewport({ scale: 1 }).width)
+      setScale(pageScale)
+      const rendered = renderPage(page, pageScale, canvas, textLayerRef.current ?? undefined)
+      cancelRender = rendered.cancel
+      rendered.done.catch((err) => {
+        if (!isCancelled(err)) setError(err instanceof Error ? err.message : String(err))
+      })
+    }, (err) => {
+      // A document destroyed while the page loads (e.g. when switching files) rejects too
+      if (!cancelled && !isCancelled(err)) setError(err instanceof Error ? err.message : String(err))
+    })
+    return () => {
+      cancelled = true
+      cancelRender?.()
+    }
+  }, [pdf, pageNumber, zoom, containerWidth])
+
+  const goToPage = (page: number) => {
+    if (!pdf) return
+    setPageNumber(Math.min(Math.max(1, page), pdf.numPages))
+  }
+
+  const zoomBy = (direction: 1 | -1) => {
+    const steps = direction === 1 ? PDF_ZOOM_STEPS : [...PDF_ZOOM_STEPS].reverse()
+    const next = steps.find(step => direction === 1 ? step > scale + 0.001 : step < scale - 0.001)
+    setZoom(next ?? steps[steps.length - 1])
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target instanceof HTMLInputElement) return
+    if (e.key === 'PageDown' || e.key === 'ArrowRight') {
+      e.preventDefault()
+      goToPage(pageNumber + 1)
+    } else if (e.key === 'PageUp' || e.key === 'ArrowLeft') {
+      e.preventDefault()
+      goToPage(pageNumber - 1)
+    }
+  }
+
+  if (error) {
+    return (
+      <div className="binary-viewer">
+        <div className="binary-icon">📑</div>
+        <div className="binary-name">{file.name}</div>
+        <div className="binary-info">Could not render PDF: {error}</div>
+      </div>
+    )
+  }
+
+  if (!pdf) {
     return (
       <div className="binary-viewer">
         <div className="binary-icon">📑</div>
@@ -721,8 +706,168 @@ function PdfViewer({ file }: { file: FileEntry }) {
   }
 
   return (
-    <div className="pdf-viewer">
-      <iframe src={pdfUrl} title={file.name} />
+    <div className="pdf-viewer" tabIndex={0} onKeyDown={handleKeyDown}>
+      <div className="pdf-toolbar">
+        <button className="pdf-button" onClick={() => goToPage(pageNumber - 1)} disabled={pageNumber <= 1} title="Previous page (Page Up)">‹</button>
+        <input
+          className="pdf-page-input"
+          value={pageInput}
+          onChange={(e) => setPageInput(e.target.value)}
+          onBlur={() => setPageInput(String(pageNumber))}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') goToPage(parseInt(pageInput, 10) || pageNumber)
+          }}
+          title="Page number"
+        />
+        <span className="pdf-page-count">/ {pdf.numPages}</span>
+        <button className="pdf-button" onClick={() => goToPage(pageNumber + 1)} disabled={pageNumber >= pdf.numPages} title="Next page (Page Down)">›</button>
+        <span className="pdf-separator" />
+        <button className="pdf-button" onClick={() => zoomBy(-1)} disabled={scale <= PDF_ZOOM_STEPS[0]} title="Zoom out">−</button>
+        <span className="pdf-zoom">{Math.round(scale * 100)}%</span>
+        <button className="pdf-button" onClick={() => zoomBy(1)} disabled={scale >= PDF_ZOOM_STEPS[PDF_ZOOM_STEPS.length - 1]} title="Zoom in">+</button>
+        <button className={`pdf-button pdf-fit ${zoom === null ? 'active' : ''}`} onClick={() => setZoom(null)} title="Fit to width">Fit width</button>
+        <button className={`pdf-button pdf-fit ${zoom === 1 ? 'active' : ''}`} onClick={() => setZoom(1)} title="Actual size">100%</button>
+        <span className="pdf-file-info">{file.binaryData ? formatBytes(file.binaryData.length) : ''}</span>
+      </div>
+      <div ref={containerRef} className="pdf-container">
+        <div className="pdf-page">
+          <canvas ref={canvasRef} />
+          <div ref={textLayerRef} className="textLayer" />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// Canvas pixels per point PostScript is drawn at, before the screen's pixel ratio
+const EPS_RENDER_SCALE = 2
+
+const EPS_SOURCE_LABELS: Record<EpsPreviewSource, string> = {
+  postscript: 'Rendered',
+  tiff: 'TIFF preview',
+  epsi: 'EPSI preview'
+}
+
+function formatBoundingBox(box: BoundingBox | null): string | null {
+  if (!box) return null
+  const [x1, y1, x2, y2] = box
+  const size = (n: number) => parseFloat(n.toFixed(2))
+  return `${box.join(' ')} (${size(x2 - x1)} × ${size(y2 - y1)} pt)`
+}
+
+function EpsViewer({ file }: { file: FileEntry }) {
+  const info = useMemo(() => getEpsInfo(file), [file])
+  const [selectedSource, setSelectedSource] = useState<EpsPreviewSource | null>(null)
+  const [rendering, setRendering] = useState<EpsRendering | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // Points to CSS pixels, or null to fit the figure in the viewer
+  const [zoom, setZoom] = useState<number | null>(null)
+  const source = selectedSource && info.previews.includes(selectedSource) ? selectedSource : info.previews[0]
+
+  useEffect(() => {
+    setSelectedSource(null)
+    setZoom(null)
+  }, [file])
+
+  useEffect(() => {
+    setRendering(null)
+    setError(null)
+    if (!source) return
+    // Aborting stops a program still running in the worker when another file or preview is shown
+    const controller = new AbortController()
+    renderEps(file, source, EPS_RENDER_SCALE * (window.devicePixelRatio || 1), null, controller.signal).then(
+      (rendered) => { if (!controller.signal.aborted) setRendering(rendered) },
+      (err) => { if (!controller.signal.aborted) setError(err instanceof Error ? err.message : String(err)) }
+    )
+    return () => controller.abort()
+  }, [file, source])
+
+  const zoomBy = (direction: 1 | -1) => {
+    const current = zoom ?? 1
+    const steps = direction === 1 ? PDF_ZOOM_STEPS : [...PDF_ZOOM_STEPS].reverse()
+    const next = steps.find(step => direction === 1 ? step > current + 0.001 : step < current - 0.001)
+    setZoom(next ?? steps[steps.length - 1])
+  }
+
+  const details: [string, string | null][] = [
+    ['Bounding box', formatBoundingBox(info.boundingBox)],
+    ['High-resolution bounding box', formatBoundingBox(info.hiResBoundingBox)],
+    ['Title', info.title],
+    ['Creator', info.creator],
+    ['Created', info.creationDate],
+    ['For', info.for],
+    ['Language level', info.languageLevel],
+    ['Embedded preview', [
+      ...info.previews.filter(preview => preview !== 'postscript').map(preview => preview.toUpperCase()),
+      ...(info.hasWmfPreview ? ['WMF (not shown)'] : [])
+    ].join(', ') || null]
+  ]
+  const problems = rendering ? [...(rendering.error ? [rendering.error] : []), ...rendering.warnings] : []
+
+  return (
+    <div className="pdf-viewer eps-viewer">
+      <div className="pdf-toolbar">
+        {info.previews.length > 1 && (
+          <>
+            {info.previews.map(preview => (
+              <button
+                key={preview}
+                className={`pdf-button pdf-fit ${preview === source ? 'active' : ''}`}
+                onClick={() => setSelectedSource(preview)}
+                title={preview === 'postscript' ? 'Draw the figure by running its PostScript' : 'Show the preview image embedded in the file'}
+              >
+                {EPS_SOURCE_LABELS[preview]}
+              </button>
+            ))}
+            <span className="pdf-separator" />
+          </>
+        )}
+        <button className="pdf-button" onClick={() => zoomBy(-1)} disabled={zoom !== null && zoom <= PDF_ZOOM_STEPS[0]} title="Zoom out">−</button>
+        <span className="pdf-zoom">{zoom === null ? 'Fit' : `${Math.round(zoom * 100)}%`}</span>
+        <button className="pdf-button" onClick={() => zoomBy(1)} disabled={zoom !== null && zoom >= PDF_ZOOM_STEPS[PDF_ZOOM_STEPS.length - 1]} title="Zoom in">+</button>
+        <button className={`pdf-button pdf-fit ${zoom === null ? 'active' : ''}`} onClick={() => setZoom(null)} title="Fit to the viewer">Fit</button>
+        <button className={`pdf-button pdf-fit ${zoom === 1 ? 'active' : ''}`} onClick={() => setZoom(1)} title="Actual size">100%</button>
+        <span className="pdf-file-info">{file.binaryData ? formatBytes(file.binaryData.length) : ''}</span>
+      </div>
+      <div className="pdf-container eps-container">
+        {rendering ? (
+          <img
+            className="eps-image"
+            src={rendering.url}
+            alt={info.title || file.name}
+            // Fitting enlarges small figures, but no further than twice their size
+            style={zoom === null ? { width: '100%', maxWidth: rendering.width * 2 } : { width: rendering.width * zoom }}
+          />
+        ) : (
+          <div className="binary-viewer">
+            <div className="binary-icon">
+              <FileIcon filename={file.name} className="binary-icon-svg" />
+            </div>
+            <div className="binary-name">{file.name}</div>
+            <div className="binary-info">
+              {!source ? 'This file has no PostScript to preview' : error ? `Could not render: ${error}` : 'Rendering…'}
+            </div>
+          </div>
+        )}
+      </div>
+      <div className="eps-info">
+        <dl>
+          {details.filter(([, value]) => value).map(([label, value]) => (
+            <Fragment key={label}>
+              <dt>{label}</dt>
+              <dd>{value}</dd>
+            </Fragment>
+          ))}
+        </dl>
+        {problems.length > 0 && (
+          <details className="eps-warnings">
+            <summary>{problems.length} {problems.length === 1 ? 'problem' : 'problems'} while drawing; the preview may be incomplete</summary>
+            <ul>
+              {problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          </details>
+        )}
+      </div>
     </div>
   )
 }
@@ -754,9 +899,12 @@ interface ContextMenuProps {
   onCopyAsLatex: (file: FileEntry) => void
   onFindReferences: (file: FileEntry) => void
   onOpenInNewTab: (file: FileEntry) => void
+  isModified: boolean
+  onCompareWithOriginal: (file: FileEntry) => void
+  onRevert: (file: FileEntry) => void
 }
 
-function ContextMenu({ x, y, file, onClose, onDownload, onCopyPath, onCopyContent, onCopyAsLatex, onFindReferences, onOpenInNewTab }: ContextMenuProps) {
+function ContextMenu({ x, y, file, onClose, onDownload, onCopyPath, onCopyContent, onCopyAsLatex, onFindReferences, onOpenInNewTab, isModified, onCompareWithOriginal, onRevert }: ContextMenuProps) {
   const menuRef = useRef<HTMLDivElement>(null)
   const [position, setPosition] = useState({ x, y })
 
@@ -838,13 +986,28 @@ function ContextMenu({ x, y, file, onClose, onDownload, onCopyPath, onCopyConten
         </div>
       )}
       <div className="context-menu-separator" />
-      {isTeX && (
-        <div className="context-menu-item" onClick={() => { onFindReferences(file); onClose() }}>
-          <span className="context-menu-icon">
-            <svg viewBox="0 0 16 16"><path d="M11.742 10.344a6.5 6.5 0 1 0-1.397 1.398h-.001c.03.04.062.078.098.115l3.85 3.85a1 1 0 0 0 1.415-1.414l-3.85-3.85a1.007 1.007 0 0 0-.115-.1zM12 6.5a5.5 5.5 0 1 1-11 0 5.5 5.5 0 0 1 11 0z"/></svg>
-          </span>
-          Find References
-        </div>
+      <div className="context-menu-item" onClick={() => { onFindReferences(file); onClose() }}>
+        <span className="context-menu-icon">
+          <svg viewBox="0 0 16 16"><path d="M11.742 10.344a6.5 6.5 0 1 0-1.397 1.398h-.001c.03.04.062.078.098.115l3.85 3.85a1 1 0 0 0 1.415-1.414l-3.85-3.85a1.007 1.007 0 0 0-.115-.1zM12 6.5a5.5 5.5 0 1 1-11 0 5.5 5.5 0 0 1 11 0z"/></svg>
+        </span>
+        Find References
+      </div>
+      {isModified && (
+        <>
+          <div className="context-menu-separator" />
+          <div className="context-menu-item" onClick={() => { onCompareWithOriginal(file); onClose() }}>
+            <span className="context-menu-icon">
+              <svg viewBox="0 0 16 16"><path d="M1 2a1 1 0 0 1 1-1h5v14H2a1 1 0 0 1-1-1V2zm1 0v12h4V2H2zm7-1h5a1 1 0 0 1 1 1v12a1 1 0 0 1-1 1H9V1zm1 1v12h4V2h-4z"/></svg>
+            </span>
+            Compare with Original
+          </div>
+          <div className="context-menu-item" onClick={() => { onRevert(file); onClose() }}>
+            <span className="context-menu-icon">
+              <svg viewBox="0 0 16 16"><path d="M8 3a5 5 0 1 1-4.546 2.914.5.5 0 0 0-.908-.417A6 6 0 1 0 8 2v1z"/><path d="M8 4.466V.534a.25.25 0 0 0-.41-.192L5.23 2.308a.25.25 0 0 0 0 .384l2.36 1.966A.25.25 0 0 0 8 4.466z"/></svg>
+            </span>
+            Revert File
+          </div>
+        </>
       )}
     </div>
   )
@@ -932,51 +1095,218 @@ function FileTreeNode({
   )
 }
 
-function SearchPanel({ files, onResultClick, onClose }: {
+const SEARCH_SCOPES: { value: SearchScope; label: string }[] = [
+  { value: 'everywhere', label: 'Everywhere' },
+  { value: 'prose', label: 'Prose only' },
+  { value: 'math', label: 'Math only' },
+  { value: 'comments', label: 'Comments only' }
+]
+
+// Delay between the last keystroke and running the search
+const SEARCH_DEBOUNCE = 150
+
+// Heights of the rows of the virtualized result list, and how far beyond the visible part rows are kept
+const SEARCH_FILE_ROW_HEIGHT = 26
+const SEARCH_LINE_ROW_HEIGHT = 22
+const SEARCH_OVERSCAN = 400
+
+type SearchRunner = (options: SearchOptions, onMessage: (message: SearchWorkerMessage) => void) => () => void
+
+type SearchRow =
+  | { kind: 'file'; top: number; result: FileSearchResult }
+  | { kind: 'line'; top: number; fileName: string; match: SearchLineMatch }
+
+// Keeps the text files indexed in the search worker from the moment they load, sending only the
+// files added, changed or removed since the last update. Returns a function that starts a search
+// and returns its cancellation; the results of the latest search are sent again when files change.
+function useSearchIndex(files: FileEntry[]): SearchRunner {
+  const workerRef = useRef<Worker | null>(null)
+  const indexedRef = useRef(new Map<string, FileEntry>())
+  const listenerRef = useRef<{ id: number; onMessage: (message: SearchWorkerMessage) => void } | null>(null)
+  const nextIdRef = useRef(0)
+
+  const getWorker = useCallback(() => {
+    if (!workerRef.current) {
+      const worker = new Worker(new URL('./search-worker.ts', import.meta.url), { type: 'module' })
+      worker.onmessage = (event: MessageEvent<SearchWorkerMessage>) => {
+        const listener = listenerRef.current
+        if (listener?.id === event.data.id) listener.onMessage(event.data)
+      }
+      workerRef.current = worker
+    }
+    return workerRef.current
+  }, [])
+
+  useEffect(() => () => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+    indexedRef.current = new Map()
+  }, [])
+
+  useEffect(() => {
+    const indexed = indexedRef.current
+    const textFiles = files.filter(file => !file.isBinary)
+    const names = new Set(textFiles.map(file => file.name))
+    const removed = [...indexed.keys()].filter(name => !names.has(name))
+    const changed = textFiles.filter(file => indexed.get(file.name) !== file)
+    if (removed.length === 0 && changed.length === 0) return
+
+    removed.forEach(name => indexed.delete(name))
+    changed.forEach(file => indexed.set(file.name, file))
+    const post = (request: SearchWorkerRequest) => getWorker().postMessage(request)
+    if (removed.length > 0) post({ type: 'remove', names: removed })
+    if (changed.length > 0) post({ type: 'update', files: changed.map(({ name, content }) => ({ name, content })) })
+  }, [files, getWorker])
+
+  return useCallback((options, onMessage) => {
+    const id = ++nextIdRef.current
+    listenerRef.current = { id, onMessage }
+    const request: SearchWorkerRequest = { type: 'search', id, options }
+    getWorker().postMessage(request)
+    return () => {
+      if (listenerRef.current?.id === id) listenerRef.current = null
+      const cancel: SearchWorkerRequest = { type: 'cancel', id }
+      workerRef.current?.postMessage(cancel)
+    }
+  }, [getWorker])
+}
+
+// Text with every range in `ranges` highlighted
+function HighlightedText({ text, ranges }: { text: string; ranges: [number, number][] }) {
+  const parts: React.ReactNode[] = []
+  let last = 0
+  ranges.forEach(([start, end], i) => {
+    if (start > last) parts.push(<span key={`t${i}`}>{text.slice(last, start)}</span>)
+    parts.push(<mark key={`m${i}`}>{text.slice(start, end)}</mark>)
+    last = end
+  })
+  if (last < text.length) parts.push(<span key="rest">{text.slice(last)}</span>)
+  return <>{parts}</>
+}
+
+function SearchPanel({ files, runSearch, onResultClick, onClose }: {
   files: FileEntry[]
+  runSearch: SearchRunner
   onResultClick: (file: FileEntry, line: number) => void
   onClose: () => void
 }) {
-  const [query, setQuery] = useState('')
-  const [results, setResults] = useState<SearchResult[]>([])
+  const [options, setOptions] = useState<SearchOptions>({
+    query: '', isRegex: false, matchCase: false, wholeWord: false, include: '', exclude: '', scope: 'everywhere'
+  })
+  const [results, setResults] = useState<SearchResults | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [searching, setSearching] = useState(false)
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  const [scrollTop, setScrollTop] = useState(0)
+  const [viewportHeight, setViewportHeight] = useState(0)
   const inputRef = useRef<HTMLInputElement>(null)
+  const resultsRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
     inputRef.current?.focus()
   }, [])
 
   useEffect(() => {
-    if (!query.trim()) {
-      setResults([])
+    const element = resultsRef.current
+    if (!element) return
+    const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight))
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  useEffect(() => {
+    if (!options.query) {
+      setResults(null)
+      setError(null)
+      setSearching(false)
       return
     }
-
-    const searchResults: SearchResult[] = []
-    const lowerQuery = query.toLowerCase()
-
-    for (const file of files) {
-      if (file.isBinary) continue
-
-      const lines = file.content.split('\n')
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i]
-        const lowerLine = line.toLowerCase()
-        const matchIndex = lowerLine.indexOf(lowerQuery)
-
-        if (matchIndex !== -1) {
-          searchResults.push({
-            file,
-            line: i + 1,
-            lineContent: line,
-            matchStart: matchIndex,
-            matchEnd: matchIndex + query.length
-          })
+    setSearching(true)
+    let cancel: (() => void) | null = null
+    const timer = setTimeout(() => {
+      cancel = runSearch(options, (message) => {
+        setSearching(false)
+        if (message.type === 'results') {
+          setResults(message.results)
+          setError(null)
+        } else {
+          setResults(null)
+          setError(message.message)
         }
+      })
+    }, SEARCH_DEBOUNCE)
+    return () => {
+      clearTimeout(timer)
+      cancel?.()
+    }
+  }, [options, runSearch])
+
+  // The worker indexes files in the order they loaded; results follow the order of the file list
+  const resultFiles = useMemo(() => {
+    if (!results) return []
+    const order = new Map(files.map((file, i) => [file.name, i]))
+    return [...results.files].sort((a, b) => (order.get(a.fileName) ?? 0) - (order.get(b.fileName) ?? 0))
+  }, [files, results])
+
+  const { rows, totalHeight } = useMemo(() => {
+    const rows: SearchRow[] = []
+    let top = 0
+    for (const result of resultFiles) {
+      rows.push({ kind: 'file', top, result })
+      top += SEARCH_FILE_ROW_HEIGHT
+      if (collapsed.has(result.fileName)) continue
+      for (const match of result.lines) {
+        rows.push({ kind: 'line', top, fileName: result.fileName, match })
+        top += SEARCH_LINE_ROW_HEIGHT
       }
     }
+    return { rows, totalHeight: top }
+  }, [resultFiles, collapsed])
+
+  // Only the rows in view (and a margin around it) are rendered
+  const visibleRows = useMemo(() => {
+    let low = 0
+    let high = rows.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (rows[mid].top + SEARCH_LINE_ROW_HEIGHT < scrollTop - SEARCH_OVERSCAN) low = mid + 1
+      else high = mid
+    }
+    const bottom = scrollTop + viewportHeight + SEARCH_OVERSCAN
+    const visible: SearchRow[] = []
+    for (let i = low; i < rows.length && rows[i].top < bottom; i++) visible.push(rows[i])
+    return visible
+  }, [rows, scrollTop, viewportHeight])
+
+  const update = (changes: Partial<SearchOptions>) => setOptions(prev => ({ ...prev, ...changes }))
+
+  const toggleFile = (fileName: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev)
+      if (next.has(fileName)) next.delete(fileName)
+      else next.add(fileName)
+      return next
+    })
+  }
+
+  const openResult = (fileName: string, line: number) => {
+    const file = files.find(f => f.name === fileName)
+    if (file) onResultClick(file, line)
+  }
+
+  // Alt+C, Alt+W and Alt+R toggle the options, as in VS Code
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!e.altKey) return
+    const key = e.key.toLowerCase()
+    if (key === 'c') update({ matchCase: !options.matchCase })
+    else if (key === 'w') update({ wholeWord: !options.wholeWord })
+    else if (key === 'r') update({ isRegex: !options.isRegex })
+    else return
+    e.preventDefault()
+  }
 
-    setResults(searchResults.slice(0, 100))
-  }, [query, files])
+  const hasMatches = results !== null && results.matchCount > 0
+  const allCollapsed = resultFiles.length > 0 && resultFiles.every(r => collapsed.has(r.fileName))
 
   return (
     <div className="search-panel">
@@ -991,76 +1321,1151 @@ function SearchPanel({ files, onResultClick, onClose }: {
             type="text"
             className="search-input"
             placeholder="Search in files..."
-            value={query}
-            onChange={(e) => setQuery(e.target.value)}
+            value={options.query}
+            onChange={(e) => update({ query: e.target.value })}
+            onKeyDown={handleKeyDown}
           />
-          {query && (
-            <button className="search-clear" onClick={() => setQuery('')}>×</button>
+          {options.query && (
+            <button className="search-clear" onClick={() => update({ query: '' })}>×</button>
           )}
+          <button
+            className={`search-toggle ${options.matchCase ? 'active' : ''}`}
+            onClick={() => update({ matchCase: !options.matchCase })}
+            title="Match Case (Alt+C)"
+          >Aa</button>
+          <button
+            className={`search-toggle search-toggle-word ${options.wholeWord ? 'active' : ''}`}
+            onClick={() => update({ wholeWord: !options.wholeWord })}
+            title="Match Whole Word (Alt+W)"
+          >ab</button>
+          <button
+            className={`search-toggle ${options.isRegex ? 'active' : ''}`}
+            onClick={() => update({ isRegex: !options.isRegex })}
+            title="Use Regular Expression (Alt+R)"
+          >.*</button>
         </div>
         <button className="search-close" onClick={onClose}>×</button>
       </div>
-      <div className="search-results">
-        {query && results.length === 0 && (
+      <div className="search-filters">
+        <input
+          type="text"
+          className="search-filter-input"
+          placeholder="files to include (e.g. *.tex, sections/)"
+          value={options.include}
+          onChange={(e) => update({ include: e.target.value })}
+        />
+        <input
+          type="text"
+          className="search-filter-input"
+          placeholder="files to exclude"
+          value={options.exclude}
+          onChange={(e) => update({ exclude: e.target.value })}
+        />
+        <select
+          className="search-scope"
+          value={options.scope}
+          onChange={(e) => update({ scope: e.target.value as SearchScope })}
+          title="Where matches may be"
+        >
+          {SEARCH_SCOPES.map(scope => <option key={scope.value} value={scope.value}>{scope.label}</option>)}
+        </select>
+      </div>
+      {(searching || hasMatches) && (
+        <div className="references-summary search-summary">
+          <span>
+            {searching || !results
+              ? 'Searching…'
+              : `${results.matchCount.toLocaleString()} ${results.matchCount === 1 ? 'result' : 'results'} in ${resultFiles.length} ${resultFiles.length === 1 ? 'file' : 'files'}`}
+          </span>
+          {hasMatches && (
+            <button
+              className="search-collapse-all"
+              onClick={() => setCollapsed(allCollapsed ? new Set() : new Set(resultFiles.map(r => r.fileName)))}
+            >
+              {allCollapsed ? 'Expand all' : 'Collapse all'}
+            </button>
+          )}
+        </div>
+      )}
+      <div className="search-results" ref={resultsRef} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}>
+        {error && (
+          <div className="search-no-results search-error">{error}</div>
+        )}
+        {results && !searching && options.query && results.matchCount === 0 && (
           <div className="search-no-results">No results found</div>
         )}
-        {results.map((result, index) => (
-          <div
-            key={`${result.file.name}-${result.line}-${index}`}
-            className="search-result"
-            onClick={() => onResultClick(result.file, result.line)}
-          >
-            <div className="result-file">
-              <span className="result-file-icon"><FileIcon filename={result.file.name} /></span>
-              <span className="result-file-name">{result.file.name}</span>
-              <span className="result-line-number">:{result.line}</span>
-            </div>
-            <div className="result-content">
-              <span>{result.lineContent.substring(0, result.matchStart)}</span>
-              <mark>{result.lineContent.substring(result.matchStart, result.matchEnd)}</mark>
-              <span>{result.lineContent.substring(result.matchEnd)}</span>
-            </div>
+        {rows.length > 0 && (
+          <div className="search-rows" style={{ height: totalHeight }}>
+            {visibleRows.map(row => row.kind === 'file' ? (
+              <div
+                key={`file:${row.result.fileName}`}
+                className="result-file references-group-header search-group-header search-row"
+                style={{ top: row.top, height: SEARCH_FILE_ROW_HEIGHT }}
+                onClick={() => toggleFile(row.result.fileName)}
+              >
+                <span className={`search-group-chevron ${collapsed.has(row.result.fileName) ? 'collapsed' : ''}`}>▾</span>
+                <span className="result-file-icon"><FileIcon filename={row.result.fileName} /></span>
+                <span className="result-file-name">{row.result.fileName}</span>
+                <span className="references-count">{row.result.matchCount}</span>
+              </div>
+            ) : (
+              <div
+                key={`line:${row.fileName}:${row.match.line}`}
+                className="search-result references-result search-row"
+                style={{ top: row.top, height: SEARCH_LINE_ROW_HEIGHT }}
+                onClick={() => openResult(row.fileName, row.match.line)}
+              >
+                <div className="result-content">
+                  <span className="result-line-number">{row.match.line}: </span>
+                  <HighlightedText text={row.match.preview} ranges={row.match.ranges} />
+                </div>
+              </div>
+            ))}
           </div>
-        ))}
-        {results.length >= 100 && (
-          <div className="search-limit-notice">Showing first 100 results</div>
+        )}
+        {results?.truncated && (
+          <div className="search-limit-notice">Showing the first {MAX_SEARCH_MATCHES.toLocaleString()} results</div>
         )}
       </div>
     </div>
   )
 }
 
-export default function Viewer() {
-  const [files, setFiles] = useState<FileEntry[]>([])
-  const [selectedFile, setSelectedFile] = useState<FileEntry | null>(null)
-  const [openTabs, setOpenTabs] = useState<FileEntry[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const [arxivId, setArxivId] = useState<string>('')
-  const [title, setTitle] = useState<string>('')
-  const [progress, setProgress] = useState<DownloadProgress>({
-    phase: 'downloading',
-    loaded: 0,
-    total: 0,
-    percent: 0
-  })
-  const [showSearch, setShowSearch] = useState(false)
-  const [goToLine, setGoToLine] = useState<number | null>(null)
-  const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set())
-  const [activeView, setActiveView] = useState<'explorer' | 'outline'>('explorer')
-  const [outline, setOutline] = useState<SectionInfo[]>([])
-  const [fontSize, setFontSize] = useState(14)
-  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; file: FileEntry } | null>(null)
-  const editorRef = useRef<any>(null)
+// Results of Find All References, grouped by file in the order the files were found
+function ReferencesPanel({ target, results, onResultClick, onClose }: {
+  target: ReferenceTarget
+  results: ReferenceLocation[]
+  onResultClick: (fileName: string, line: number) => void
+  onClose: () => void
+}) {
+  const groups = useMemo(() => {
+    const byFile = new Map<string, ReferenceLocation[]>()
+    for (const result of results) {
+      const group = byFile.get(result.file) || []
+      group.push(result)
+      byFile.set(result.file, group)
+    }
+    return [...byFile.entries()]
+  }, [results])
+  const useCount = results.filter(r => !r.isDefinition).length
 
-  const fileTree = buildFileTree(files)
+  return (
+    <div className="search-panel">
+      <div className="search-header">
+        <div className="references-title" title={target.name}>
+          <span className="references-kind">{target.kind}</span>
+          <span className="references-name">{target.name}</span>
+        </div>
+        <button className="search-close" onClick={onClose}>×</button>
+      </div>
+      <div className="references-summary">
+        {useCount} {useCount === 1 ? 'reference' : 'references'} in {groups.length} {groups.length === 1 ? 'file' : 'files'}
+      </div>
+      <div className="search-results">
+        {results.length === 0 && (
+          <div className="search-no-results">No references found</div>
+        )}
+        {groups.map(([fileName, locations]) => (
+          <div key={fileName} className="references-group">
+            <div className="result-file references-group-header">
+              <span className="result-file-icon"><FileIcon filename={fileName} /></span>
+              <span className="result-file-name">{fileName}</span>
+              <span className="references-count">{locations.length}</span>
+            </div>
+            {locations.map((location, index) => (
+              <div
+                key={`${location.line}-${location.column}-${index}`}
+                className="search-result references-result"
+                onClick={() => onResultClick(location.file, location.line)}
+              >
+                <div className="result-content">
+                  <span className="result-line-number">{location.line}: </span>
+                  <span>{location.lineContent.substring(0, location.column - 1).trimStart()}</span>
+                  <mark>{location.lineContent.substring(location.column - 1, location.endColumn - 1)}</mark>
+                  <span>{location.lineContent.substring(location.endColumn - 1)}</span>
+                  {location.isDefinition && <span className="references-definition">definition</span>}
+                </div>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
 
-  // Memoize outline parsing
-  useEffect(() => {
-    if (files.length > 0) {
-      setOutline(parseDocumentOutline(files))
-    }
-  }, [files])
+const SIDEBAR_TITLES = {
+  explorer: 'EXPLORER',
+  outline: 'OUTLINE',
+  graph: 'DEPENDENCY GRAPH',
+  figures: 'FIGURES',
+  compare: 'COMPARE VERSIONS',
+  problems: 'PROBLEMS'
+}
+
+const SEVERITY_LABELS: { severity: DiagnosticSeverity; label: string }[] = [
+  { severity: 'error', label: 'Errors' },
+  { severity: 'warning', label: 'Warnings' },
+  { severity: 'info', label: 'Info' }
+]
+
+function SeverityIcon({ severity }: { severity: DiagnosticSeverity }) {
+  return (
+    <svg className={`severity-icon ${severity}`} viewBox="0 0 16 16">
+      {severity === 'error' && <path d="M8 1a7 7 0 1 0 0 14A7 7 0 0 0 8 1zm2.8 8.7-1.1 1.1L8 9.1l-1.7 1.7-1.1-1.1L6.9 8 5.2 6.3l1.1-1.1L8 6.9l1.7-1.7 1.1 1.1L9.1 8l1.7 1.7z" />}
+      {severity === 'warning' && <path d="M8.6 1.5a.7.7 0 0 0-1.2 0L.6 13.9a.7.7 0 0 0 .6 1.1h13.6a.7.7 0 0 0 .6-1.1L8.6 1.5zM8.8 13H7.2v-1.6h1.6V13zm0-3H7.2V5.5h1.6V10z" />}
+      {severity === 'info' && <path d="M8 1a7 7 0 1 0 0 14A7 7 0 0 0 8 1zm.8 11H7.2V7h1.6v5zm0-6.4H7.2V4h1.6v1.6z" />}
+    </svg>
+  )
+}
+
+// Diagnostics grouped by file, with a toggle per severity so the informational ones can be hidden
+function ProblemsPanel({ diagnostics, onOpenProblem }: {
+  diagnostics: Diagnostic[]
+  onOpenProblem: (fileName: string, line: number) => void
+}) {
+  const [hidden, setHidden] = useState<Set<DiagnosticSeverity>>(new Set())
+
+  const groups = useMemo(() => {
+    const byFile = new Map<string, Diagnostic[]>()
+    for (const diagnostic of diagnostics) {
+      if (hidden.has(diagnostic.severity)) continue
+      const group = byFile.get(diagnostic.file) || []
+      group.push(diagnostic)
+      byFile.set(diagnostic.file, group)
+    }
+    return [...byFile.entries()]
+  }, [diagnostics, hidden])
+
+  const toggle = (severity: DiagnosticSeverity) => {
+    setHidden(prev => {
+      const next = new Set(prev)
+      if (next.has(severity)) next.delete(severity)
+      else next.add(severity)
+      return next
+    })
+  }
+
+  return (
+    <div className="problems-panel">
+      <div className="problems-filters">
+        {SEVERITY_LABELS.map(({ severity, label }) => (
+          <button
+            key={severity}
+            className={`problems-filter ${hidden.has(severity) ? '' : 'active'}`}
+            onClick={() => toggle(severity)}
+            title={`${hidden.has(severity) ? 'Show' : 'Hide'} ${label.toLowerCase()}`}
+          >
+            <SeverityIcon severity={severity} />
+            {diagnostics.filter(d => d.severity === severity).length} {label}
+          </button>
+        ))}
+      </div>
+      <div className="problems-list">
+        {groups.length === 0 && (
+          <div className="graph-empty">{diagnostics.length === 0 ? 'No problems found' : 'All problems are filtered out'}</div>
+        )}
+        {groups.map(([fileName, fileDiagnostics]) => (
+          <div key={fileName}>
+            <div className="result-file references-group-header">
+              <span className="result-file-icon"><FileIcon filename={fileName} /></span>
+              <span className="result-file-name">{fileName}</span>
+              <span className="references-count">{fileDiagnostics.length}</span>
+            </div>
+            {fileDiagnostics.map((diagnostic, index) => (
+              <div
+                key={`${diagnostic.line}-${diagnostic.column}-${index}`}
+                className="problem-item"
+                onClick={() => onOpenProblem(diagnostic.file, diagnostic.line)}
+                title={`${diagnostic.message} (${diagnostic.code})`}
+              >
+                <SeverityIcon severity={diagnostic.severity} />
+                <span className="problem-message">{diagnostic.message}</span>
+                <span className="problem-location">[{diagnostic.line}, {diagnostic.column}]</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// Typeset formula under the cursor, shown below the editor while the preview is switched on
+function MathPreview({ files, file, offset }: {
+  files: FileEntry[]
+  file: FileEntry
+  offset: number
+}) {
+  const region = useMemo(() => file.isTeX ? findMathAt(file.content, offset) : null, [file, offset])
+  const rendered = useMemo(() => region && region.tex.trim() ? renderMath(files, region.tex, region.display) : null, [files, region])
+
+  return (
+    <div className="math-preview">
+      {!rendered && <div className="math-preview-empty">Place the cursor in a formula to preview it</div>}
+      {rendered && 'error' in rendered && <div className="math-preview-error">Could not render formula: {rendered.error}</div>}
+      {rendered && 'svg' in rendered && (
+        <div className="math-preview-formula" dangerouslySetInnerHTML={{ __html: rendered.svg }} />
+      )}
+    </div>
+  )
+}
+
+// Size PDF and EPS figures are rendered at in the reader, in CSS pixels
+const READER_FIGURE_SIZE = 640
+
+// The paper rendered as HTML next to the editor; clicking an element reveals its source
+function ReaderPanel({ files, project, onReveal, onOpenFile, onClose }: {
+  files: FileEntry[]
+  project: LatexProject
+  onReveal: (fileName: string, line: number) => void
+  onOpenFile: (fileName: string) => void
+  onClose: () => void
+}) {
+  const [showComments, setShowComments] = useState(false)
+  const [html, setHtml] = useState<string | null>(null)
+  const contentRef = useRef<HTMLDivElement>(null)
+
+  // Object URLs of the figures, released when the files change or the reader closes
+  const imageUrls = useMemo(() => new Map<string, string>(), [files])
+  useEffect(() => () => imageUrls.forEach(url => URL.revokeObjectURL(url)), [imageUrls])
+
+  useEffect(() => {
+    setHtml(null)
+    // Let the loading state paint before the conversion, which typesets every formula
+    const timer = setTimeout(() => {
+      setHtml(renderReaderHtml(files, project, {
+        showComments,
+        getImageUrl: (file) => {
+          if (!file.binaryData) return null
+          let url = imageUrls.get(file.name)
+          if (!url) {
+            url = URL.createObjectURL(new Blob([file.binaryData.buffer as ArrayBuffer], { type: file.mimeType }))
+            imageUrls.set(file.name, url)
+          }
+          return url
+        }
+      }))
+    }, 0)
+    return () => clearTimeout(timer)
+  }, [files, project, showComments, imageUrls])
+
+  // PDF and EPS figures cannot go in an <img>, so their placeholders are replaced once they are rendered
+  useEffect(() => {
+    const content = contentRef.current
+    if (!html || !content) return
+    // Aborting also drops EPS figures still waiting to be rendered
+    const controller = new AbortController()
+    for (const element of content.querySelectorAll<HTMLElement>('.reader-graphic-file[data-open]')) {
+      const file = files.find(f => f.name === element.dataset.open)
+      if (!file || !(isPdfFile(file.name) || isPostScriptFile(file.name))) continue
+      const thumbnail = isPdfFile(file.name)
+        ? getPdfThumbnail(file, READER_FIGURE_SIZE)
+        : getEpsThumbnail(file, READER_FIGURE_SIZE, controller.signal)
+      thumbnail.then((url) => {
+        if (controller.signal.aborted) return
+        const image = document.createElement('img')
+        image.src = url
+        image.alt = file.name
+        element.replaceChildren(image)
+        element.className = 'reader-graphic-pdf'
+      }, () => {})
+    }
+    return () => controller.abort()
+  }, [html, files])
+
+  const revealElement = (element: HTMLElement | null | undefined) => {
+    const located = element?.closest<HTMLElement>('[data-line]')
+    if (located?.dataset.file) onReveal(located.dataset.file, parseInt(located.dataset.line || '1', 10))
+  }
+
+  const handleClick = (e: React.MouseEvent) => {
+    const target = e.target as HTMLElement
+    if (target.closest('a[href]')) return
+
+    // Cross-references and citations scroll to what they point at
+    const link = target.closest<HTMLElement>('[data-target]')
+    if (link) {
+      const element = contentRef.current?.querySelector<HTMLElement>(`#${CSS.escape(link.dataset.target || '')}`)
+      element?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+      revealElement(element)
+      return
+    }
+    const graphic = target.closest<HTMLElement>('[data-open]')
+    if (graphic?.dataset.open) {
+      onOpenFile(graphic.dataset.open)
+      return
+    }
+    revealElement(target)
+  }
+
+  return (
+    <div className="reader-panel">
+      <div className="reader-header">
+        <span className="sidebar-title">Reader</span>
+        <label className="reader-option" title="Show comments, \iffalse blocks and comment environments">
+          <input type="checkbox" checked={showComments} onChange={(e) => setShowComments(e.target.checked)} />
+          Show comments
+        </label>
+        <button className="reader-close" onClick={onClose} title="Close the reader">×</button>
+      </div>
+      {html === null ? (
+        <div className="graph-empty">Rendering document…</div>
+      ) : !project.root ? (
+        <div className="graph-empty">No root document found</div>
+      ) : (
+        <div ref={contentRef} className="reader-content" onClick={handleClick} dangerouslySetInnerHTML={{ __html: html }} />
+      )}
+    </div>
+  )
+}
+
+// Size of the PDF and EPS thumbnails in the figures view, in CSS pixels
+const FIGURE_THUMBNAIL_SIZE = 160
+
+// First page of a PDF, or an EPS figure, rendered in the background
+function FigureThumbnail({ file, size }: { file: FileEntry; size: number }) {
+  const [url, setUrl] = useState<string | null>(null)
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    setUrl(null)
+    setFailed(false)
+    const thumbnail = isPdfFile(file.name) ? getPdfThumbnail(file, size) : getEpsThumbnail(file, size, controller.signal)
+    thumbnail.then(
+      (rendered) => { if (!controller.signal.aborted) setUrl(rendered) },
+      () => { if (!controller.signal.aborted) setFailed(true) }
+    )
+    return () => controller.abort()
+  }, [file, size])
+
+  if (url) return <img src={url} alt={file.name} />
+  return (
+    <span className="figure-placeholder" title={failed ? 'Could not render this file' : undefined}>
+      <FileIcon filename={file.name} className="figure-placeholder-icon" />
+      <span>{failed ? file.name.split('.').pop()?.toUpperCase() : 'Rendering…'}</span>
+    </span>
+  )
+}
+
+// Thumbnail grid of the graphics the document includes, with the caption and label of each
+function FiguresPanel({ figures, files, onOpenGraphic, onReveal }: {
+  figures: FigureGraphic[]
+  files: FileEntry[]
+  onOpenGraphic: (fileName: string) => void
+  onReveal: (fileName: string, line: number) => void
+}) {
+  const byName = useMemo(() => new Map(files.map(f => [f.name, f])), [files])
+
+  // Object URLs of the thumbnails, released when the files change or the view unmounts
+  const imageUrls = useMemo(() => new Map<string, string>(), [files])
+  useEffect(() => () => imageUrls.forEach(url => URL.revokeObjectURL(url)), [imageUrls])
+
+  const getImageUrl = (file: FileEntry) => {
+    if (!file.binaryData || !isImageFile(file.name)) return null
+    let url = imageUrls.get(file.name)
+    if (!url) {
+      url = URL.createObjectURL(new Blob([file.binaryData.buffer as ArrayBuffer], { type: file.mimeType }))
+      imageUrls.set(file.name, url)
+    }
+    return url
+  }
+
+  if (figures.length === 0) {
+    return <div className="graph-empty">No \includegraphics found</div>
+  }
+
+  const missing = figures.filter(figure => !figure.graphic).length
+
+  return (
+    <div className="figures-panel">
+      <div className="section-header">
+        <span className="section-title">Graphics</span>
+        <span className="file-count">{figures.length} used{missing > 0 ? ` · ${missing} missing` : ''}</span>
+      </div>
+      <div className="figures-grid">
+        {figures.map((figure, i) => {
+          const file = figure.graphic ? byName.get(figure.graphic) : undefined
+          const url = file ? getImageUrl(file) : null
+          return (
+            <div key={`${figure.file}-${figure.line}-${i}`} className={`figure-card ${file ? '' : 'missing'}`}>
+              <button
+                className={`figure-thumbnail ${url || (file && (isPdfFile(file.name) || isPostScriptFile(file.name))) ? '' : 'placeholder'}`}
+                onClick={() => file && onOpenGraphic(file.name)}
+                disabled={!file}
+                title={file ? `Open ${file.name}` : `${figure.path} is not in the source archive`}
+              >
+                {url ? (
+                  <img src={url} alt={figure.caption || file?.name} loading="lazy" />
+                ) : file && (isPdfFile(file.name) || isPostScriptFile(file.name)) ? (
+                  <FigureThumbnail file={file} size={FIGURE_THUMBNAIL_SIZE} />
+                ) : (
+                  <span className="figure-placeholder">
+                    <FileIcon filename={file?.name || figure.path} className="figure-placeholder-icon" />
+                    <span>{file ? file.name.split('.').pop()?.toUpperCase() : 'Missing'}</span>
+                  </span>
+                )}
+              </button>
+              <div className="figure-caption" title={figure.caption || undefined}>
+                {figure.caption || <span className="figure-no-caption">No caption</span>}
+              </div>
+              {figure.label && <div className="figure-label" title={figure.label}>{figure.label}</div>}
+              <div
+                className="figure-source"
+                onClick={() => onReveal(figure.file, figure.line)}
+                title={`Go to the \\includegraphics{${figure.path}}`}
+              >
+                used in {figure.file.split('/').pop()}:{figure.line}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+const GRAPH_ROW_HEIGHT = 22
+const GRAPH_INDENT = 16
+
+const GRAPH_EDGE_KINDS: { kind: GraphEdgeKind; label: string; color: string }[] = [
+  { kind: 'input', label: '\\input / \\include', color: '#4a9c5d' },
+  { kind: 'package', label: '\\usepackage', color: '#9876aa' },
+  { kind: 'bibliography', label: '\\bibliography', color: '#cc7832' },
+  { kind: 'graphic', label: '\\includegraphics', color: '#3498db' }
+]
+
+function getEdgeColor(kind: GraphEdgeKind): string {
+  return GRAPH_EDGE_KINDS.find(k => k.kind === kind)?.color || 'var(--text-secondary)'
+}
+
+function GraphPanel({ rows, selectedFile, onOpenNode }: {
+  rows: GraphRow[]
+  selectedFile: FileEntry | null
+  onOpenNode: (node: GraphNode, row: GraphRow) => void
+}) {
+  const [hovered, setHovered] = useState<string | null>(null)
+
+  if (rows.length === 0) {
+    return <div className="graph-empty">No TeX files found</div>
+  }
+
+  // Rows the root does not reach are drawn as a separate block below the document tree
+  const split = rows.findIndex(row => row.detached)
+  const blocks = split === -1 ? [[0, rows.length]] : [[0, split], [split, rows.length]]
+  const edgeCount = rows.filter(row => row.edge).length
+
+  const renderBlock = (start: number, end: number) => {
+    const blockRows = rows.slice(start, end)
+    const x = (row: GraphRow) => 8 + row.depth * GRAPH_INDENT
+    const y = (index: number) => (index - start) * GRAPH_ROW_HEIGHT
+
+    return (
+      <div className="graph-block" style={{ height: blockRows.length * GRAPH_ROW_HEIGHT }}>
+        <svg className="graph-edges" width="100%" height={blockRows.length * GRAPH_ROW_HEIGHT}>
+          {blockRows.map((row, i) => {
+            if (row.parent === null || !row.edge) return null
+            const parent = rows[row.parent]
+            const px = x(parent) + 8
+            const py = y(row.parent) + GRAPH_ROW_HEIGHT - 3
+            const cy = y(start + i) + GRAPH_ROW_HEIGHT / 2
+            const isHighlighted = hovered !== null && (row.node.id === hovered || parent.node.id === hovered)
+            return (
+              <path
+                key={start + i}
+                d={`M ${px} ${py} V ${cy} H ${x(row) - 2}`}
+                fill="none"
+                stroke={getEdgeColor(row.edge.kind)}
+                strokeWidth={isHighlighted ? 2 : 1}
+                strokeDasharray={row.duplicate ? '3 2' : undefined}
+                opacity={hovered === null || isHighlighted ? 0.9 : 0.35}
+              />
+            )
+          })}
+        </svg>
+        {blockRows.map((row, i) => {
+          const { node } = row
+          const classes = [
+            'graph-node',
+            node.kind,
+            row.duplicate ? 'duplicate' : '',
+            node.file && node.file === selectedFile?.name ? 'active' : '',
+            hovered === node.id ? 'highlight' : ''
+          ].filter(Boolean).join(' ')
+          const parentName = row.parent !== null ? rows[row.parent].node.label : null
+          const tooltip = node.kind === 'missing'
+            ? `${node.label} is not in the source archive (referenced from ${parentName}:${row.edge?.line})`
+            : row.duplicate
+              ? `${node.label} (also referenced from ${parentName}:${row.edge?.line})`
+              : parentName ? `${node.label} (from ${parentName}:${row.edge?.line})` : node.label
+          return (
+            <div
+              key={start + i}
+              className={classes}
+              style={{ top: y(start + i), left: x(row) }}
+              title={tooltip}
+              onClick={() => onOpenNode(node, row)}
+              onMouseEnter={() => setHovered(node.id)}
+              onMouseLeave={() => setHovered(null)}
+            >
+              <span className="tree-icon"><FileIcon filename={node.label} /></span>
+              <span className="graph-node-label">{node.label.split('/').pop()}</span>
+              {row.duplicate && <span className="graph-node-ref">↑</span>}
+            </div>
+          )
+        })}
+      </div>
+    )
+  }
+
+  return (
+    <div className="graph-panel">
+      <div className="section-header">
+        <span className="section-title">Files</span>
+        <span className="file-count">{rows.filter(row => !row.duplicate).length} nodes · {edgeCount} edges</span>
+      </div>
+      <div className="graph-scroll">
+        {blocks.map(([start, end]) => (
+          <div key={start}>
+            {start > 0 && <div className="graph-block-title">Not reached from the root document</div>}
+            {renderBlock(start, end)}
+          </div>
+        ))}
+      </div>
+      <div className="graph-legend">
+        {GRAPH_EDGE_KINDS.map(({ kind, label, color }) => (
+          <span key={kind} className="graph-legend-item">
+            <span className="graph-legend-swatch" style={{ backgroundColor: color }} />
+            {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+const CHANGE_GROUPS: { kind: FileChangeKind; label: string }[] = [
+  { kind: 'modified', label: 'Modified' },
+  { kind: 'added', label: 'Added' },
+  { kind: 'removed', label: 'Removed' }
+]
+
+function ComparePanel({ arxivId, title, versions, currentVersion, onOpenChange }: {
+  arxivId: string // without version suffix
+  title: string
+  versions: ArxivVersion[]
+  currentVersion: number | null
+  onOpenChange: (view: DiffView) => void
+}) {
+  const versionNumbers = versions.length > 0
+    ? versions.map(v => v.version)
+    : currentVersion !== null ? [currentVersion] : []
+  const defaultTarget = currentVersion ?? versionNumbers[versionNumbers.length - 1] ?? 1
+
+  const [baseVersion, setBaseVersion] = useState(Math.max(1, defaultTarget - 1))
+  const [targetVersion, setTargetVersion] = useState(defaultTarget)
+  const [changes, setChanges] = useState<FileChange[] | null>(null)
+  const [comparing, setComparing] = useState(false)
+  const [status, setStatus] = useState('')
+  const [compareError, setCompareError] = useState<string | null>(null)
+
+  const handleCompare = async () => {
+    setComparing(true)
+    setCompareError(null)
+    setChanges(null)
+
+    const reportProgress = (label: string) => (progress: DownloadProgress) => {
+      setStatus(progress.phase === 'downloading'
+        ? `Downloading ${label} (${formatBytes(progress.loaded)})`
+        : `Extracting ${label}`)
+    }
+
+    try {
+      const base = await loadPaperSource(formatArxivId(arxivId, baseVersion), title, false, reportProgress(`v${baseVersion}`))
+      const target = await loadPaperSource(formatArxivId(arxivId, targetVersion), title, false, reportProgress(`v${targetVersion}`))
+      setChanges(diffSources(base.files, target.files))
+    } catch (err) {
+      setCompareError(err instanceof Error ? err.message : 'Failed to compare versions')
+    } finally {
+      setComparing(false)
+      setStatus('')
+    }
+  }
+
+  const renderVersionSelect = (value: number, onChange: (version: number) => void) => (
+    <select className="compare-select" value={value} onChange={(e) => onChange(parseInt(e.target.value, 10))}>
+      {versionNumbers.map(v => <option key={v} value={v}>v{v}</option>)}
+    </select>
+  )
+
+  if (versionNumbers.length < 2) {
+    return <div className="compare-empty">This paper has only one known version</div>
+  }
+
+  return (
+    <div className="compare-panel">
+      <div className="compare-controls">
+        {renderVersionSelect(baseVersion, setBaseVersion)}
+        <span className="compare-arrow">→</span>
+        {renderVersionSelect(targetVersion, setTargetVersion)}
+        <button
+          className="compare-button"
+          disabled={comparing || baseVersion === targetVersion}
+          onClick={handleCompare}
+        >
+          Compare
+        </button>
+      </div>
+      {status && <div className="compare-status">{status}</div>}
+      {compareError && <div className="compare-error">{compareError}</div>}
+      {changes && changes.length === 0 && (
+        <div className="compare-empty">The sources of v{baseVersion} and v{targetVersion} are identical</div>
+      )}
+      {changes && changes.length > 0 && (
+        <div className="compare-results">
+          {CHANGE_GROUPS.map(({ kind, label }) => {
+            const group = changes.filter(c => c.kind === kind)
+            if (group.length === 0) return null
+            return (
+              <div key={kind}>
+                <div className="compare-group-header">
+                  <span>{label}</span>
+                  <span className="file-count">{group.length}</span>
+                </div>
+                {group.map(change => {
+                  const isBinary = Boolean(change.original?.isBinary || change.modified?.isBinary)
+                  return (
+                    <div
+                      key={change.name}
+                      className={`compare-item ${kind} ${isBinary ? 'binary' : ''}`}
+                      title={isBinary ? `${change.name} (binary file)` : change.name}
+                      onClick={() => {
+                        if (!isBinary) {
+                          onOpenChange({ change, originalLabel: `v${baseVersion}`, modifiedLabel: `v${targetVersion}` })
+                        }
+                      }}
+                    >
+                      <span className="tree-icon"><FileIcon filename={change.name} /></span>
+                      <span className="tree-name">{change.name}</span>
+                      {!isBinary && (
+                        <span className="compare-stats">
+                          {change.linesAdded > 0 && <span className="stat-added">+{change.linesAdded}</span>}
+                          {change.linesRemoved > 0 && <span className="stat-removed">−{change.linesRemoved}</span>}
+                        </span>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface ViewerCommand {
+  id: string
+  label: string
+  keybinding?: string // the default shortcut
+  enabled?: boolean // false hides it from the palette and turns off its shortcut
+  run: () => void
+}
+
+// Most files listed in Quick Open at once
+const QUICK_OPEN_LIMIT = 200
+
+type QuickOpenItem =
+  | { kind: 'file'; match: FileMatch }
+  | { kind: 'command'; command: ViewerCommand; positions: number[] }
+  | { kind: 'symbol'; symbol: WorkspaceSymbol; positions: number[] }
+  | { kind: 'line'; line: number }
+
+function isTextInput(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+// Ctrl+P lists files, recently opened first; a leading ">" lists commands as in Ctrl+Shift+P,
+// "#" the symbols of the whole paper as in Ctrl+Shift+Alt+O, and ":" goes to a line of the open file
+function QuickOpen({ value, files, recentFiles, commands, keybindings, lineCount, onChange, onOpenFile, onOpenSymbol, onRunCommand, onGoToLine, onClose }: {
+  value: string
+  files: FileEntry[]
+  recentFiles: string[]
+  commands: ViewerCommand[]
+  keybindings: Map<string, string>
+  lineCount: number | null // null when no text file is open
+  onChange: (value: string) => void
+  onOpenFile: (fileName: string) => void
+  onOpenSymbol: (symbol: WorkspaceSymbol) => void
+  onRunCommand: (command: ViewerCommand) => void
+  onGoToLine: (line: number) => void
+  onClose: () => void
+}) {
+  const [selected, setSelected] = useState(0)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  const mode = value.startsWith('>') ? 'commands' : value.startsWith('#') ? 'symbols' : value.startsWith(':') ? 'line' : 'files'
+  const query = (mode === 'files' ? value : value.slice(1)).trim()
+
+  useEffect(() => {
+    inputRef.current?.focus()
+  }, [])
+
+  useEffect(() => {
+    setSelected(0)
+  }, [value])
+
+  useEffect(() => {
+    listRef.current?.children[selected]?.scrollIntoView({ block: 'nearest' })
+  }, [selected])
+
+  const items = useMemo((): QuickOpenItem[] => {
+    if (mode === 'line') {
+      const line = parseInt(query, 10)
+      return lineCount !== null && line >= 1 && line <= lineCount ? [{ kind: 'line', line }] : []
+    }
+    if (mode === 'commands') {
+      return commands
+        .filter(command => command.enabled !== false)
+        .map(command => ({ command, match: fuzzyMatch(query, command.label) }))
+        .filter((entry): entry is { command: ViewerCommand; match: FuzzyMatch } => entry.match !== null)
+        .sort((a, b) => b.match.score - a.match.score)
+        .map(({ command, match }) => ({ kind: 'command', command, positions: match.positions }))
+    }
+    if (mode === 'symbols') {
+      return collectSymbols(files)
+        .map(symbol => ({ symbol, match: fuzzyMatch(query, symbol.name) }))
+        .filter((entry): entry is { symbol: WorkspaceSymbol; match: FuzzyMatch } => entry.match !== null)
+        .sort((a, b) => b.match.score - a.match.score)
+        .slice(0, QUICK_OPEN_LIMIT)
+        .map(({ symbol, match }) => ({ kind: 'symbol', symbol, positions: match.positions }))
+    }
+    return matchFiles(query, files.map(f => f.name), recentFiles)
+      .slice(0, QUICK_OPEN_LIMIT)
+      .map(match => ({ kind: 'file', match }))
+  }, [mode, query, files, recentFiles, commands, lineCount])
+
+  const accept = (item: QuickOpenItem | undefined) => {
+    if (!item) return
+    if (item.kind === 'file') onOpenFile(item.match.name)
+    else if (item.kind === 'command') onRunCommand(item.command)
+    else if (item.kind === 'symbol') onOpenSymbol(item.symbol)
+    else onGoToLine(item.line)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      if (items.length === 0) return
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setSelected(prev => (prev + step + items.length) % items.length)
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      accept(items[selected])
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      e.stopPropagation()
+      onClose()
+    }
+  }
+
+  let hint: string | null = null
+  if (mode === 'line') {
+    if (lineCount === null) hint = 'Open a text file to go to a line'
+    else if (items.length === 0) hint = `Type a line number between 1 and ${lineCount}`
+  } else if (items.length === 0) {
+    hint = mode === 'commands' ? 'No matching commands' : mode === 'symbols' ? 'No matching symbols' : 'No matching files'
+  }
+
+  return (
+    <div className="quick-open-backdrop" onMouseDown={onClose}>
+      <div className="quick-open" onMouseDown={(e) => e.stopPropagation()}>
+        <input
+          ref={inputRef}
+          type="text"
+          className="quick-open-input"
+          placeholder="Search files by name (type > for commands, # for symbols, : to go to a line)"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+        />
+        <div className="quick-open-list" ref={listRef}>
+          {items.map((item, i) => {
+            const className = `quick-open-item ${i === selected ? 'selected' : ''}`
+            if (item.kind === 'file') {
+              const { name, positions, recent } = item.match
+              const slash = name.lastIndexOf('/')
+              return (
+                <div key={name} className={className} onMouseMove={() => setSelected(i)} onClick={() => accept(item)}>
+                  <span className="quick-open-icon"><FileIcon filename={name} /></span>
+                  <span className="quick-open-label">
+                    <HighlightedText text={name.slice(slash + 1)} ranges={getMatchRanges(positions.filter(p => p > slash), slash + 1)} />
+                  </span>
+                  {slash !== -1 && (
+                    <span className="quick-open-detail">
+                      <HighlightedText text={name.slice(0, slash)} ranges={getMatchRanges(positions.filter(p => p < slash))} />
+                    </span>
+                  )}
+                  {recent && <span className="quick-open-badge">recently opened</span>}
+                </div>
+              )
+            }
+            if (item.kind === 'command') {
+              const keybinding = keybindings.get(item.command.id)
+              return (
+                <div key={item.command.id} className={className} onMouseMove={() => setSelected(i)} onClick={() => accept(item)}>
+                  <span className="quick-open-label">
+                    <HighlightedText text={item.command.label} ranges={getMatchRanges(item.positions)} />
+                  </span>
+                  {keybinding && <kbd className="quick-open-keybinding">{formatKeybinding(keybinding)}</kbd>}
+                </div>
+              )
+            }
+            if (item.kind === 'symbol') {
+              const { symbol } = item
+              return (
+                <div
+                  key={`${symbol.kind}:${symbol.file}:${symbol.line}:${symbol.column}:${symbol.name}`}
+                  className={className}
+                  onMouseMove={() => setSelected(i)}
+                  onClick={() => accept(item)}
+                >
+                  <span className={`quick-open-kind ${symbol.kind}`}>{SYMBOL_KIND_LABELS[symbol.kind]}</span>
+                  <span className="quick-open-label quick-open-symbol">
+                    <HighlightedText text={symbol.name} ranges={getMatchRanges(item.positions)} />
+                  </span>
+                  {symbol.detail && <span className="quick-open-detail">{symbol.detail}</span>}
+                  <span className="quick-open-location">{symbol.file}:{symbol.line}</span>
+                </div>
+              )
+            }
+            return (
+              <div key="line" className={className} onClick={() => accept(item)}>
+                <span className="quick-open-label">Go to line {item.line}</span>
+              </div>
+            )
+          })}
+        </div>
+        {hint && <div className="quick-open-hint">{hint}</div>}
+      </div>
+    </div>
+  )
+}
+
+// Lists every command with its shortcut; click a command and press keys to rebind it
+function KeybindingsEditor({ commands, keybindings, overrides, onChange, onClose }: {
+  commands: ViewerCommand[]
+  keybindings: Map<string, string>
+  overrides: KeybindingOverrides
+  onChange: (overrides: KeybindingOverrides) => void
+  onClose: () => void
+}) {
+  const [filter, setFilter] = useState('')
+  const [recording, setRecording] = useState<string | null>(null)
+  const dialogRef = useRef<HTMLDivElement>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    inputRef.current?.focus()
+  }, [])
+
+  const lowerFilter = filter.trim().toLowerCase()
+  const visible = commands.filter(command =>
+    command.label.toLowerCase().includes(lowerFilter) ||
+    (keybindings.get(command.id) ?? '').toLowerCase().includes(lowerFilter)
+  )
+
+  const startRecording = (id: string) => {
+    setRecording(id)
+    dialogRef.current?.focus()
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (recording) {
+      e.preventDefault()
+      e.stopPropagation()
+      if (e.key === 'Escape') {
+        setRecording(null)
+        return
+      }
+      const keybinding = getKeybinding(e)
+      if (!keybinding) return
+      onChange(assignKeybinding(commands, overrides, recording, keybinding))
+      setRecording(null)
+    } else if (e.key === 'Escape') {
+      e.stopPropagation()
+      onClose()
+    }
+  }
+
+  const update = (id: string, keybinding: string | null | undefined) => {
+    const next = { ...overrides }
+    if (keybinding === undefined) delete next[id]
+    else next[id] = keybinding
+    onChange(next)
+  }
+
+  return (
+    <div className="quick-open-backdrop" onMouseDown={onClose}>
+      <div
+        ref={dialogRef}
+        className="keybindings-dialog"
+        tabIndex={-1}
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="keybindings-header">
+          <span>Keyboard Shortcuts</span>
+          <button className="search-close" onClick={onClose}>×</button>
+        </div>
+        <input
+          ref={inputRef}
+          type="text"
+          className="quick-open-input"
+          placeholder="Search commands or shortcuts"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+        />
+        <div className="keybindings-list">
+          {visible.map(command => {
+            const keybinding = keybindings.get(command.id)
+            return (
+              <div
+                key={command.id}
+                className={`keybindings-row ${recording === command.id ? 'recording' : ''}`}
+                onClick={() => startRecording(command.id)}
+                title="Click, then press the new key combination"
+              >
+                <span className="keybindings-label">{command.label}</span>
+                {recording === command.id ? (
+                  <span className="keybindings-prompt">Press a key combination, Escape to cancel</span>
+                ) : keybinding ? (
+                  <kbd className="quick-open-keybinding">{formatKeybinding(keybinding)}</kbd>
+                ) : (
+                  <span className="keybindings-none">—</span>
+                )}
+                <span className="keybindings-actions">
+                  {keybinding && (
+                    <button onClick={(e) => { e.stopPropagation(); update(command.id, null) }}>Remove</button>
+                  )}
+                  {command.id in overrides && (
+                    <button onClick={(e) => { e.stopPropagation(); update(command.id, undefined) }}>Reset</button>
+                  )}
+                </span>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// Milliseconds typing has to pause before edits reach the outline, diagnostics and search
+const EDIT_APPLY_DELAY = 400
+
+// Milliseconds the files have to stay unchanged before diagnostics are collected again, as a
+// pass over a large paper blocks the page for a while
+const DIAGNOSTICS_DELAY = 600
+
+function isModifiedFile(file: FileEntry, original: FileEntry | undefined): boolean {
+  return original !== undefined && (file.content !== original.content || file.encoding !== original.encoding)
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+export default function Viewer() {
+  const [files, setFiles] = useState<FileEntry[]>([])
+  const [selectedFile, setSelectedFile] = useState<FileEntry | null>(null)
+  const [openTabs, setOpenTabs] = useState<FileEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [arxivId, setArxivId] = useState<string>('')
+  const [title, setTitle] = useState<string>('')
+  const [progress, setProgress] = useState<DownloadProgress>({
+    phase: 'downloading',
+    loaded: 0,
+    total: 0,
+    percent: 0,
+    decompressed: 0,
+    filesExtracted: 0
+  })
+  const [extracting, setExtracting] = useState(false)
+  const [showSearch, setShowSearch] = useState(false)
+  const [goToLine, setGoToLine] = useState<number | null>(null)
+  const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set())
+  const [activeView, setActiveView] = useState<'explorer' | 'outline' | 'graph' | 'figures' | 'compare' | 'problems'>('explorer')
+  const [outline, setOutline] = useState<SectionInfo[]>([])
+  const [fontSize, setFontSize] = useState(14)
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; file: FileEntry } | null>(null)
+  const [cachedAt, setCachedAt] = useState<number | null>(null)
+  const [version, setVersion] = useState<number | null>(null)
+  const [versions, setVersions] = useState<ArxivVersion[]>([])
+  const [diffView, setDiffView] = useState<DiffView | null>(null)
+  const [unsupported, setUnsupported] = useState<UnsupportedEntry[]>([])
+  const [referenceTarget, setReferenceTarget] = useState<ReferenceTarget | null>(null)
+  const [showMathPreview, setShowMathPreview] = useState(false)
+  const [showReader, setShowReader] = useState(false)
+  const [cursor, setCursor] = useState<{ file: string; offset: number } | null>(null)
+  const [quickOpen, setQuickOpen] = useState<string | null>(null) // the Quick Open input, null when closed
+  const [showKeybindings, setShowKeybindings] = useState(false)
+  const [keybindingOverrides, setKeybindingOverrides] = useState<KeybindingOverrides>({})
+  const [recentFiles, setRecentFiles] = useState<string[]>([])
+  const [editMode, setEditMode] = useState(false)
+  // Edited files as they were before their first change, by name
+  const [originals, setOriginals] = useState<Map<string, FileEntry>>(new Map())
+  const editorRef = useRef<any>(null)
+  const loadControllerRef = useRef<AbortController | null>(null)
+  // Set once the user opens a file, so a finished load does not switch away from it
+  const navigatedRef = useRef(false)
+  // Edits not yet applied to the files, by name; they are applied once typing pauses
+  const draftsRef = useRef(new Map<string, string>())
+  const draftTimerRef = useRef<number | null>(null)
+  const filesRef = useRef(files)
+  filesRef.current = files
+
+  const fileTree = buildFileTree(files)
+  const project = useMemo(() => buildProject(files), [files])
+  const graphRows = useMemo(
+    () => activeView === 'graph' ? layoutDependencyGraph(buildDependencyGraph(files, project)) : [],
+    [activeView, files, project]
+  )
+  const figures = useMemo(
+    () => activeView === 'figures' ? collectFigures(files, project) : [],
+    [activeView, files, project]
+  )
+  const references = useMemo(
+    () => referenceTarget ? findReferences(files, referenceTarget) : [],
+    [files, referenceTarget]
+  )
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([])
+  const modifiedFiles = useMemo(
+    () => new Set(files.filter(file => isModifiedFile(file, originals.get(file.name))).map(file => file.name)),
+    [files, originals]
+  )
+  const runSearch = useSearchIndex(files)
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length
+  const warningCount = diagnostics.filter(d => d.severity === 'warning').length
+
+  // Memoize outline parsing
+  useEffect(() => {
+    if (files.length > 0) {
+      setOutline(parseDocumentOutline(files, project))
+    }
+  }, [files, project])
 
   // Register providers
   useEffect(() => {
@@ -1080,13 +2485,73 @@ export default function Viewer() {
     
     const defProvider = monaco.languages.registerDefinitionProvider('latex', createDefinitionProvider(() => files))
     const compProvider = monaco.languages.registerCompletionItemProvider('latex', createCompletionProvider(() => files))
+    const hoverProvider = monaco.languages.registerHoverProvider('latex', createHoverProvider(() => files))
+    const refProvider = monaco.languages.registerReferenceProvider('latex', createReferenceProvider(() => files))
+    const mathHoverProvider = monaco.languages.registerHoverProvider('latex', createMathHoverProvider(() => files))
+    const symbolProvider = monaco.languages.registerDocumentSymbolProvider(['latex', 'bibtex'], createDocumentSymbolProvider(() => files))
     
     return () => {
       defProvider.dispose()
       compProvider.dispose()
+      hoverProvider.dispose()
+      refProvider.dispose()
+      mathHoverProvider.dispose()
+      symbolProvider.dispose()
+    }
+  }, [files])
+
+  // Keep a model for every text file, so definitions in other files can be previewed and opened
+  useEffect(() => {
+    const uris = new Set<string>()
+    for (const file of files) {
+      if (file.isBinary) continue
+      const uri = getFileUri(file.name)
+      uris.add(uri.toString())
+      const model = monaco.editor.getModel(uri)
+      if (!model) {
+        monaco.editor.createModel(file.content, getLanguage(file.name), uri)
+      } else if (model.getValue() !== file.content && !draftsRef.current.has(file.name)) {
+        model.setValue(file.content)
+      }
+    }
+    for (const model of monaco.editor.getModels()) {
+      if (model.uri.scheme === 'file' && !uris.has(model.uri.toString())) {
+        model.dispose()
+      }
     }
   }, [files])
 
+  // Collected once the source is extracted and edits have settled, not on every batch or keystroke
+  useEffect(() => {
+    if (extracting) return
+    const timer = setTimeout(() => setDiagnostics(collectDiagnostics(files, project)), DIAGNOSTICS_DELAY)
+    return () => clearTimeout(timer)
+  }, [files, project, extracting])
+
+  // Show diagnostics as markers in every text file
+  useEffect(() => {
+    const severities: Record<DiagnosticSeverity, monaco.MarkerSeverity> = {
+      error: monaco.MarkerSeverity.Error,
+      warning: monaco.MarkerSeverity.Warning,
+      info: monaco.MarkerSeverity.Info
+    }
+    for (const file of files) {
+      if (file.isBinary) continue
+      const model = monaco.editor.getModel(getFileUri(file.name))
+      if (!model) continue
+      monaco.editor.setModelMarkers(model, 'latex', diagnostics
+        .filter(diagnostic => diagnostic.file === file.name)
+        .map(diagnostic => ({
+          severity: severities[diagnostic.severity],
+          message: diagnostic.message,
+          code: diagnostic.code,
+          startLineNumber: diagnostic.line,
+          startColumn: diagnostic.column,
+          endLineNumber: diagnostic.line,
+          endColumn: diagnostic.endColumn
+        })))
+    }
+  }, [files, diagnostics])
 
   const handleToggleFolder = useCallback((path: string) => {
     setExpandedFolders(prev => {
@@ -1100,13 +2565,73 @@ export default function Viewer() {
     })
   }, [])
 
+  // Show a freshly loaded source tree with its root document open
+  const showFiles = useCallback((extractedFiles: FileEntry[]) => {
+    setFiles(extractedFiles)
+    const root = buildProject(extractedFiles).root
+    setSelectedFile(root)
+    setOpenTabs(root ? [root] : [])
+  }, [])
+
+  const loadSource = useCallback(async (id: string, paperTitle: string, refresh: boolean) => {
+    // Cancel a download that is still running, e.g. when switching versions quickly
+    loadControllerRef.current?.abort()
+    const controller = new AbortController()
+    loadControllerRef.current = controller
+
+    setLoading(true)
+    setError(null)
+    showFiles([])
+    navigatedRef.current = false
+    if (draftTimerRef.current !== null) clearTimeout(draftTimerRef.current)
+    draftsRef.current = new Map()
+    setOriginals(new Map())
+
+    // Leave the loading screen as soon as the first extracted files arrive
+    let receivedFiles = false
+    const handleFiles = (batch: FileEntry[]) => {
+      receivedFiles = true
+      const firstTeX = batch.find(f => f.isTeX)
+      setFiles(prev => [...prev, ...batch])
+      if (firstTeX) {
+        setSelectedFile(prev => prev ?? firstTeX)
+        setOpenTabs(prev => prev.length > 0 ? prev : [firstTeX])
+      }
+      setExtracting(true)
+      setLoading(false)
+    }
+
+    try {
+      const source = await loadPaperSource(id, paperTitle, refresh, setProgress, handleFiles, controller.signal)
+      if (controller.signal.aborted) return
+      if (receivedFiles && navigatedRef.current) {
+        // Files opened while streaming may have been decoded again in the root's encoding
+        const byName = new Map(source.files.map(f => [f.name, f]))
+        const swap = (f: FileEntry) => byName.get(f.name) ?? f
+        setFiles(source.files)
+        setOpenTabs(prev => prev.map(swap))
+        setSelectedFile(prev => prev && swap(prev))
+      } else {
+        showFiles(source.files)
+      }
+      setUnsupported(source.unsupported)
+      setCachedAt(source.cachedAt)
+      setVersion(source.version)
+    } catch (err) {
+      if (controller.signal.aborted) return
+      setError(err instanceof Error ? err.message : 'Failed to load TeX source')
+    }
+    setExtracting(false)
+    setLoading(false)
+  }, [showFiles])
+
   useEffect(() => {
     const params = new URLSearchParams(window.location.search)
     const id = params.get('id') || ''
-    const paperTitle = params.get('title') || 'arXiv Paper'
+    const paperTitle = decodeURIComponent(params.get('title') || 'arXiv Paper')
 
     setArxivId(id)
-    setTitle(decodeURIComponent(paperTitle))
+    setTitle(paperTitle)
 
     if (!id) {
       setError('No arXiv ID provided')
@@ -1114,55 +2639,190 @@ export default function Viewer() {
       return
     }
 
-    fetchAndExtractTexSource(id, setProgress)
-      .then((extractedFiles) => {
-        setFiles(extractedFiles)
-        const firstTeX = extractedFiles.find(f => f.isTeX)
-        if (firstTeX) {
-          setSelectedFile(firstTeX)
-          setOpenTabs([firstTeX])
-        }
-        setLoading(false)
-      })
-      .catch((err) => {
-        setError(err.message || 'Failed to load TeX source')
-        setLoading(false)
-      })
-  }, [])
+    loadSource(id, paperTitle, false)
+    fetchArxivVersions(splitArxivVersion(id).arxivId)
+      .then(setVersions)
+      .catch((err) => console.warn('arXivTeXplorer: failed to list versions', err))
+
+    return () => loadControllerRef.current?.abort()
+  }, [loadSource])
+
+  // Loading the source again drops the edits, so ask first
+  const hasEdits = modifiedFiles.size > 0 || draftsRef.current.size > 0
+  const confirmDiscardEdits = useCallback(() => {
+    return !hasEdits || window.confirm('Discard your changes to the source files?')
+  }, [hasEdits])
+
+  const handleRefreshSource = useCallback(() => {
+    if (!confirmDiscardEdits()) return
+    loadSource(arxivId, title, true)
+  }, [loadSource, confirmDiscardEdits, arxivId, title])
+
+  const handleVersionChange = useCallback((nextVersion: number) => {
+    if (!confirmDiscardEdits()) return
+    const id = formatArxivId(splitArxivVersion(arxivId).arxivId, nextVersion)
+    const params = new URLSearchParams(window.location.search)
+    params.set('id', id)
+    window.history.replaceState(null, '', `${window.location.pathname}?${params}`)
+    setArxivId(id)
+    setExpandedFolders(new Set())
+    loadSource(id, title, false)
+  }, [loadSource, confirmDiscardEdits, arxivId, title])
 
-  // Keyboard shortcuts
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.metaKey || e.ctrlKey) && e.shiftKey && e.key === 'f') {
-        e.preventDefault()
-        setShowSearch(prev => !prev)
-      }
-      if (e.key === 'Escape') {
-        setShowSearch(false)
-      }
-    }
-    window.addEventListener('keydown', handleKeyDown)
-    return () => window.removeEventListener('keydown', handleKeyDown)
+    loadKeybindings()
+      .then(setKeybindingOverrides)
+      .catch((err) => console.warn('arXivTeXplorer: failed to load keyboard shortcuts', err))
   }, [])
 
+  const handleKeybindingsChange = useCallback((overrides: KeybindingOverrides) => {
+    setKeybindingOverrides(overrides)
+    saveKeybindings(overrides).catch((err) => console.warn('arXivTeXplorer: failed to save keyboard shortcuts', err))
+  }, [])
+
+  // Most recently opened first, for Quick Open
+  useEffect(() => {
+    if (!selectedFile) return
+    const name = selectedFile.name
+    setRecentFiles(prev => [name, ...prev.filter(n => n !== name)].slice(0, 50))
+  }, [selectedFile?.name])
+
   // Jump to line when goToLine changes
   useEffect(() => {
     if (goToLine && editorRef.current) {
       editorRef.current.revealLineInCenter(goToLine)
       editorRef.current.setPosition({ lineNumber: goToLine, column: 1 })
+      editorRef.current.focus()
       setGoToLine(null)
     }
   }, [goToLine, selectedFile])
 
   const handleFileClick = useCallback((file: FileEntry) => {
+    navigatedRef.current = true
+    setDiffView(null)
     setSelectedFile(file)
     if (!openTabs.find(t => t.name === file.name)) {
       setOpenTabs(prev => [...prev, file])
     }
   }, [openTabs])
 
+  // Swap in an updated version of a file everywhere it is referenced
+  const replaceFile = useCallback((updated: FileEntry) => {
+    const swap = (f: FileEntry) => f.name === updated.name ? updated : f
+    setFiles(prev => prev.map(swap))
+    setOpenTabs(prev => prev.map(swap))
+    setSelectedFile(prev => prev && swap(prev))
+  }, [])
+
+  // Unchanged files are decoded again, and the choice is kept with the cached paper; edited ones
+  // keep their text and are exported in the new encoding
+  const handleEncodingChange = useCallback((file: FileEntry, encoding: string) => {
+    if (file.rawData) {
+      replaceFile({ ...file, encoding, content: decodeText(file.rawData, encoding) })
+      setCachedEncoding(formatArxivId(splitArxivVersion(arxivId).arxivId, version), file.name, encoding)
+        .catch((err) => console.warn('arXivTeXplorer: failed to save the encoding', err))
+    } else if (originals.has(file.name)) {
+      replaceFile({ ...file, encoding })
+    }
+  }, [replaceFile, originals, arxivId, version])
+
+  // Apply the pending edits to the files, which updates the outline, diagnostics and search
+  const applyDrafts = useCallback(() => {
+    if (draftTimerRef.current !== null) clearTimeout(draftTimerRef.current)
+    draftTimerRef.current = null
+    const drafts = draftsRef.current
+    draftsRef.current = new Map()
+    const updated = new Map<string, FileEntry>()
+    for (const file of filesRef.current) {
+      const content = drafts.get(file.name)
+      if (content !== undefined && content !== file.content) {
+        // The decoded text no longer matches the original bytes
+        updated.set(file.name, { ...file, content, rawData: undefined })
+      }
+    }
+    if (updated.size === 0) return
+    const swap = (f: FileEntry) => updated.get(f.name) ?? f
+    setFiles(prev => prev.map(swap))
+    setOpenTabs(prev => prev.map(swap))
+    setSelectedFile(prev => prev && swap(prev))
+  }, [])
+
+  // Changes typed in the editor; the first change of a file keeps the file for revert and diff
+  const handleEditorChange = useCallback((value: string | undefined) => {
+    const model = editorRef.current?.getModel()
+    if (!model || value === undefined) return
+    const name = getFileNameFromUri(model.uri)
+    const file = filesRef.current.find(f => f.name === name)
+    // The editor also reports the new text of a file that was decoded again or reverted
+    if (!file || file.isBinary || (value === file.content && !draftsRef.current.has(name))) return
+    draftsRef.current.set(name, value)
+    setOriginals(prev => prev.has(name) ? prev : new Map(prev).set(name, file))
+    if (draftTimerRef.current !== null) clearTimeout(draftTimerRef.current)
+    draftTimerRef.current = window.setTimeout(applyDrafts, EDIT_APPLY_DELAY)
+  }, [applyDrafts])
+
+  const toggleEditMode = useCallback(() => {
+    applyDrafts()
+    setEditMode(prev => !prev)
+  }, [applyDrafts])
+
+  const handleRevertFile = useCallback((file: FileEntry) => {
+    const original = originals.get(file.name)
+    if (!original) return
+    draftsRef.current.delete(file.name)
+    replaceFile(original)
+    setOriginals(prev => {
+      const next = new Map(prev)
+      next.delete(file.name)
+      return next
+    })
+    setDiffView(prev => prev?.change.name === file.name && prev.change.original === original ? null : prev)
+  }, [originals, replaceFile])
+
+  const handleCompareWithOriginal = useCallback((file: FileEntry) => {
+    const original = originals.get(file.name)
+    if (!original) return
+    const current = filesRef.current.find(f => f.name === file.name) ?? file
+    const modified = { ...current, content: draftsRef.current.get(file.name) ?? current.content }
+    applyDrafts()
+    setDiffView({
+      change: { name: file.name, kind: 'modified', original, modified, ...countLineChanges(original.content, modified.content) },
+      originalLabel: 'original',
+      modifiedLabel: 'edited'
+    })
+  }, [originals, applyDrafts])
+
+  // The whole source with the edits, in the folder structure of the submission
+  const handleExport = useCallback((format: ExportFormat) => {
+    const drafts = draftsRef.current
+    const current = files.map((file) => {
+      const content = drafts.get(file.name)
+      return content === undefined || content === file.content ? file : { ...file, content, rawData: undefined }
+    })
+    applyDrafts()
+    const edited = current.some(file => isModifiedFile(file, originals.get(file.name)))
+    const baseName = `${splitArxivVersion(arxivId).arxivId.replace(/\//g, '_')}${version !== null ? `v${version}` : ''}${edited ? '-edited' : ''}`
+    const { data, fileName, reencoded } = exportSource(current, format, baseName)
+    downloadBlob(new Blob([new Uint8Array(data)], { type: format === 'zip' ? 'application/zip' : 'application/gzip' }), fileName)
+    if (reencoded.length > 0) {
+      window.alert(`These files were saved as UTF-8, as their encoding cannot represent the edited text:\n\n${reencoded.join('\n')}`)
+    }
+  }, [files, originals, applyDrafts, arxivId, version])
+
+  // Edits only live in memory, so warn before the page is closed or reloaded
+  useEffect(() => {
+    if (!hasEdits) return
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault()
+      e.returnValue = ''
+    }
+    window.addEventListener('beforeunload', handleBeforeUnload)
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload)
+  }, [hasEdits])
+
   const handleCloseTab = useCallback((file: FileEntry, e: React.MouseEvent) => {
     e.stopPropagation()
+    navigatedRef.current = true
     setOpenTabs(prev => {
       const newTabs = prev.filter(t => t.name !== file.name)
       if (selectedFile?.name === file.name) {
@@ -1177,6 +2837,23 @@ export default function Viewer() {
     setGoToLine(line)
   }, [handleFileClick])
 
+  // Go to Definition targets in other files open them in a tab
+  useEffect(() => {
+    const opener = monaco.editor.registerEditorOpener({
+      openCodeEditor: (source, resource, selectionOrPosition) => {
+        if (source.getModel()?.uri.toString() === resource.toString()) return false
+        const file = files.find(f => f.name === getFileNameFromUri(resource))
+        if (!file) return false
+        const line = selectionOrPosition
+          ? 'startLineNumber' in selectionOrPosition ? selectionOrPosition.startLineNumber : selectionOrPosition.lineNumber
+          : 1
+        handleSearchResultClick(file, line)
+        return true
+      }
+    })
+    return () => opener.dispose()
+  }, [files, handleSearchResultClick])
+
   const handleEditorMount = (editor: any) => {
     editorRef.current = editor
 
@@ -1190,27 +2867,22 @@ export default function Viewer() {
         })
       }
     }, { passive: false })
+
+    // Track the cursor for the math preview
+    editor.onDidChangeCursorPosition((e: monaco.editor.ICursorPositionChangedEvent) => {
+      const model = editor.getModel()
+      if (!model) return
+      setCursor({ file: getFileNameFromUri(model.uri), offset: model.getOffsetAt(e.position) })
+    })
   }
 
   // Context menu handlers
   const handleDownload = useCallback((file: FileEntry) => {
-    let content: Blob
-    let filename = file.name.split('/').pop() || file.name
-    
-    if (file.isBinary && file.binaryData) {
-      content = new Blob([new Uint8Array(file.binaryData)], { type: file.mimeType || 'application/octet-stream' })
-    } else {
-      content = new Blob([file.content], { type: 'text/plain' })
-    }
-    
-    const url = URL.createObjectURL(content)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = filename
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    URL.revokeObjectURL(url)
+    const filename = file.name.split('/').pop() || file.name
+    // The original bytes while the file is unchanged, rather than the decoded text re-encoded as UTF-8
+    const { data } = getFileBytes(file)
+    const type = file.isBinary ? file.mimeType || 'application/octet-stream' : 'text/plain'
+    downloadBlob(new Blob([new Uint8Array(data)], { type }), filename)
   }, [])
 
   const handleCopyPath = useCallback((file: FileEntry) => {
@@ -1228,18 +2900,146 @@ export default function Viewer() {
     navigator.clipboard.writeText(`\\input{${basename}}`)
   }, [])
 
-  const handleFindReferences = useCallback((file: FileEntry) => {
-    // Switch to search mode and pre-fill with the filename pattern
-    const basename = file.name.replace(/\.tex$/, '').split('/').pop()
-    setShowSearch(true)
-    // We could set a search query here if SearchPanel supported it
-    // For now, just open search - user sees the feature
+  const showReferences = useCallback((target: ReferenceTarget) => {
+    setShowSearch(false)
+    setReferenceTarget(target)
   }, [])
 
+  const handleFindReferences = useCallback((file: FileEntry) => {
+    showReferences({ kind: 'file', name: file.name })
+  }, [showReferences])
+
+  const handleReferenceClick = useCallback((fileName: string, line: number) => {
+    const file = files.find(f => f.name === fileName)
+    if (file) handleSearchResultClick(file, line)
+  }, [files, handleSearchResultClick])
+
+  // Find All References in the editor lists the results in the references panel
+  useEffect(() => {
+    const action = monaco.editor.addEditorAction({
+      id: 'latex.findAllReferences',
+      label: 'Find All References',
+      keybindings: [monaco.KeyMod.Shift | monaco.KeyMod.Alt | monaco.KeyCode.F12],
+      contextMenuGroupId: 'navigation',
+      contextMenuOrder: 1.5,
+      run: (editor) => {
+        const model = editor.getModel()
+        const position = editor.getPosition()
+        if (!model || !position) return
+        const target = findReferenceTargetAt(
+          files,
+          getFileNameFromUri(model.uri),
+          position.lineNumber,
+          model.getLineContent(position.lineNumber),
+          position.column
+        )
+        if (target) showReferences(target)
+      }
+    })
+    return () => action.dispose()
+  }, [files, showReferences])
+
+  // Missing files cannot be opened, so jump to the command that references them instead
+  const handleGraphNodeClick = useCallback((node: GraphNode, row: GraphRow) => {
+    const target = node.file ?? (row.edge ? row.edge.from : null)
+    const file = files.find(f => f.name === target)
+    if (!file) return
+    if (node.file) {
+      handleFileClick(file)
+    } else if (row.edge) {
+      handleSearchResultClick(file, row.edge.line)
+    }
+  }, [files, handleFileClick, handleSearchResultClick])
+
   const handleOpenInNewTab = useCallback((file: FileEntry) => {
     handleFileClick(file)
   }, [handleFileClick])
 
+  const showView = (view: typeof activeView) => {
+    setShowSearch(false)
+    setActiveView(view)
+  }
+  const changeFontSize = (delta: number) => setFontSize(prev => Math.max(8, Math.min(32, prev + delta)))
+  const textFile = selectedFile && !selectedFile.isBinary ? selectedFile : null
+  const modifiedFile = selectedFile && modifiedFiles.has(selectedFile.name) ? selectedFile : null
+
+  const commands: ViewerCommand[] = [
+    { id: 'quickOpen', label: 'Go to File…', keybinding: 'Ctrl+P', run: () => setQuickOpen('') },
+    { id: 'commandPalette', label: 'Show All Commands', keybinding: 'Ctrl+Shift+P', run: () => setQuickOpen('>') },
+    // Chrome keeps Ctrl+T for a new tab and never passes it to the page
+    { id: 'goToSymbol', label: 'Go to Symbol in Workspace…', keybinding: 'Ctrl+Shift+Alt+O', run: () => setQuickOpen('#') },
+    { id: 'goToLine', label: 'Go to Line…', keybinding: 'Ctrl+G', enabled: textFile !== null, run: () => setQuickOpen(':') },
+    { id: 'search', label: 'View: Toggle Search', keybinding: 'Ctrl+Shift+F', run: () => setShowSearch(prev => !prev) },
+    { id: 'view.explorer', label: 'View: Show Explorer', run: () => showView('explorer') },
+    { id: 'view.outline', label: 'View: Show Outline', run: () => showView('outline') },
+    { id: 'view.graph', label: 'View: Show Dependency Graph', run: () => showView('graph') },
+    { id: 'view.figures', label: 'View: Show Figures', run: () => showView('figures') },
+    { id: 'view.compare', label: 'View: Compare Versions', run: () => showView('compare') },
+    { id: 'view.problems', label: 'View: Show Problems', run: () => showView('problems') },
+    { id: 'view.reader', label: 'View: Toggle Reader', enabled: project.root !== null, run: () => setShowReader(prev => !prev) },
+    {
+      id: 'view.mathPreview',
+      label: 'View: Toggle Math Preview',
+      enabled: Boolean(textFile?.isTeX),
+      run: () => setShowMathPreview(prev => !prev)
+    },
+    { id: 'view.zoomIn', label: 'View: Increase Font Size', run: () => changeFontSize(1) },
+    { id: 'view.zoomOut', label: 'View: Decrease Font Size', run: () => changeFontSize(-1) },
+    { id: 'view.zoomReset', label: 'View: Reset Font Size', run: () => setFontSize(14) },
+    { id: 'file.download', label: 'File: Download', enabled: selectedFile !== null, run: () => selectedFile && handleDownload(selectedFile) },
+    { id: 'file.copyPath', label: 'File: Copy Path', enabled: selectedFile !== null, run: () => selectedFile && handleCopyPath(selectedFile) },
+    { id: 'file.copyContent', label: 'File: Copy Content', enabled: textFile !== null, run: () => textFile && handleCopyContent(textFile) },
+    {
+      id: 'file.findReferences',
+      label: 'File: Find References',
+      enabled: selectedFile !== null,
+      run: () => selectedFile && handleFindReferences(selectedFile)
+    },
+    {
+      id: 'file.compareWithOriginal',
+      label: 'File: Compare with Original',
+      enabled: modifiedFile !== null,
+      run: () => modifiedFile && handleCompareWithOriginal(modifiedFile)
+    },
+    { id: 'file.revert', label: 'File: Revert File', enabled: modifiedFile !== null, run: () => modifiedFile && handleRevertFile(modifiedFile) },
+    { id: 'edit.toggle', label: 'Edit: Toggle Edit Mode', enabled: files.length > 0, run: toggleEditMode },
+    { id: 'source.exportTarGz', label: 'Source: Export as .tar.gz', enabled: files.length > 0, run: () => handleExport('tar.gz') },
+    { id: 'source.exportZip', label: 'Source: Export as .zip', enabled: files.length > 0, run: () => handleExport('zip') },
+    { id: 'source.refresh', label: 'Source: Download Again from arXiv', enabled: Boolean(arxivId), run: handleRefreshSource },
+    { id: 'keybindings', label: 'Preferences: Keyboard Shortcuts', run: () => setShowKeybindings(true) }
+  ]
+  const keybindings = resolveKeybindings(commands, keybindingOverrides)
+
+  // The shortcut listener is registered once and reads the current commands from here
+  const shortcutsRef = useRef({ commands, keybindings, paused: showKeybindings })
+  shortcutsRef.current = { commands, keybindings, paused: showKeybindings }
+
+  // Keyboard shortcuts, in the capture phase so they take precedence over the editor's own
+  useEffect(() => {
+    const handleShortcut = (e: KeyboardEvent) => {
+      const { commands, keybindings, paused } = shortcutsRef.current
+      const keybinding = getKeybinding(e)
+      if (paused || !keybinding) return
+      if (isTypingKeybinding(keybinding) && isTextInput(e.target)) return
+      const command = commands.find(c => c.enabled !== false && keybindings.get(c.id) === keybinding)
+      if (!command) return
+      e.preventDefault()
+      e.stopPropagation()
+      command.run()
+    }
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setShowSearch(false)
+      }
+    }
+    window.addEventListener('keydown', handleShortcut, true)
+    window.addEventListener('keydown', handleEscape)
+    return () => {
+      window.removeEventListener('keydown', handleShortcut, true)
+      window.removeEventListener('keydown', handleEscape)
+    }
+  }, [])
+
   if (loading) {
     return (
       <div className="loading-container">
@@ -1275,6 +3075,11 @@ export default function Viewer() {
                 <span>Processing archive...</span>
               )}
             </div>
+            {progress.decompressed > 0 && (
+              <div className="progress-info">
+                {formatBytes(progress.decompressed)} decompressed · {progress.filesExtracted} files extracted
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -1294,6 +3099,31 @@ export default function Viewer() {
   }
 
   const renderFileContent = () => {
+    if (diffView) {
+      const { change } = diffView
+      return (
+        <DiffEditor
+          height="100%"
+          language={getLanguage(change.name)}
+          original={change.original?.content ?? ''}
+          modified={change.modified?.content ?? ''}
+          theme="latex-dark"
+          options={{
+            readOnly: true,
+            renderSideBySide: true,
+            minimap: { enabled: false },
+            fontSize: fontSize,
+            scrollBeyondLastLine: false,
+            automaticLayout: true,
+            scrollbar: {
+              verticalScrollbarSize: 10,
+              horizontalScrollbarSize: 10,
+            },
+          }}
+        />
+      )
+    }
+
     if (!selectedFile) {
       return (
         <div className="welcome-container">
@@ -1312,18 +3142,24 @@ export default function Viewer() {
       if (isPdfFile(selectedFile.name)) {
         return <PdfViewer file={selectedFile} />
       }
+      if (isPostScriptFile(selectedFile.name)) {
+        return <EpsViewer file={selectedFile} />
+      }
       return <BinaryViewer file={selectedFile} />
     }
 
     return (
       <Editor
         height="100%"
+        path={getFileUri(selectedFile.name).toString()}
+        keepCurrentModel
         language={getLanguage(selectedFile.name)}
-        value={selectedFile.content}
+        value={draftsRef.current.get(selectedFile.name) ?? selectedFile.content}
         theme="latex-dark"
         onMount={handleEditorMount}
+        onChange={handleEditorChange}
         options={{
-          readOnly: true,
+          readOnly: !editMode,
           minimap: { enabled: true },
           fontSize: fontSize,
           lineNumbers: 'on',
@@ -1379,12 +3215,63 @@ export default function Viewer() {
             <path d="M3 3h18v2H3V3zm0 4h12v2H3V7zm0 4h18v2H3v-2zm0 4h12v2H3v-2zm0 4h18v2H3v-2z"/>
           </svg>
         </button>
+        <button
+          className={`activity-button ${activeView === 'graph' && !showSearch ? 'active' : ''}`}
+          onClick={() => {
+            setShowSearch(false)
+            setActiveView('graph')
+          }}
+          title="Dependency Graph"
+        >
+          <svg viewBox="0 0 24 24" fill="currentColor">
+            <path d="M9 2h6v5h-2v3h6v4h2v6h-6v-6h2v-2H7v2h2v6H3v-6h2v-4h6V7H9V2zm2 2v1h2V4h-2zM5 16v2h2v-2H5zm12 0v2h2v-2h-2z"/>
+          </svg>
+        </button>
+        <button
+          className={`activity-button ${activeView === 'figures' && !showSearch ? 'active' : ''}`}
+          onClick={() => {
+            setShowSearch(false)
+            setActiveView('figures')
+          }}
+          title="Figures"
+        >
+          <svg viewBox="0 0 24 24" fill="currentColor">
+            <path d="M4 3h16a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2zm0 2v10.6l4.3-4.3a1 1 0 0 1 1.4 0l3.3 3.3 2.3-2.3a1 1 0 0 1 1.4 0L20 15.6V5H4zm11.5 2a1.5 1.5 0 1 1 0 3 1.5 1.5 0 0 1 0-3z"/>
+          </svg>
+        </button>
+        <button
+          className={`activity-button ${activeView === 'compare' && !showSearch ? 'active' : ''}`}
+          onClick={() => {
+            setShowSearch(false)
+            setActiveView('compare')
+          }}
+          title="Compare Versions"
+        >
+          <svg viewBox="0 0 24 24" fill="currentColor">
+            <path d="M10 2h2v20h-2v-2H4a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2h6V2zm0 4H4v12h6V6zm4-2h6a2 2 0 0 1 2 2v12a2 2 0 0 1-2 2h-6v-2h6V6h-6V4zm-8 5h2v2h2v2H8v2H6v-2H4v-2h2V9zm10 4h4v2h-4v-2z"/>
+          </svg>
+        </button>
+        <button
+          className={`activity-button ${activeView === 'problems' && !showSearch ? 'active' : ''}`}
+          onClick={() => {
+            setShowSearch(false)
+            setActiveView('problems')
+          }}
+          title="Problems"
+        >
+          <svg viewBox="0 0 24 24" fill="currentColor">
+            <path d="M12 2a10 10 0 1 0 0 20 10 10 0 0 0 0-20zm0 2a8 8 0 1 1 0 16 8 8 0 0 1 0-16zm-1 3v7h2V7h-2zm0 9v2h2v-2h-2z"/>
+          </svg>
+          {errorCount + warningCount > 0 && (
+            <span className="activity-badge">{errorCount + warningCount}</span>
+          )}
+        </button>
       </div>
 
       {/* Sidebar */}
       <div className="sidebar" style={{ display: showSearch ? 'none' : 'flex' }}>
         <div className="sidebar-header">
-          <span className="sidebar-title">{activeView === 'explorer' ? 'EXPLORER' : 'OUTLINE'}</span>
+          <span className="sidebar-title">{SIDEBAR_TITLES[activeView]}</span>
         </div>
         <div className="sidebar-section" style={{ display: activeView === 'explorer' ? 'flex' : 'none' }}>
           <div className="section-header">
@@ -1405,6 +3292,21 @@ export default function Viewer() {
               />
             ))}
           </div>
+          {unsupported.length > 0 && (
+            <details className="unsupported-entries">
+              <summary>
+                {unsupported.length} archive {unsupported.length === 1 ? 'entry' : 'entries'} not extracted
+              </summary>
+              <div className="unsupported-list">
+                {unsupported.map((entry, i) => (
+                  <div key={`${entry.name}-${i}`} className="unsupported-entry" title={entry.reason}>
+                    <span className="unsupported-name">{entry.name}</span>
+                    <span className="unsupported-type">{entry.type}</span>
+                  </div>
+                ))}
+              </div>
+            </details>
+          )}
         </div>
 
         
@@ -1442,61 +3344,238 @@ export default function Viewer() {
             )}
           </div>
         </div>
+
+        {/* Dependency Graph View */}
+        <div className="sidebar-section" style={{ display: activeView === 'graph' ? 'flex' : 'none' }}>
+          <GraphPanel rows={graphRows} selectedFile={selectedFile} onOpenNode={handleGraphNodeClick} />
+        </div>
+
+        {/* Figures View */}
+        <div className="sidebar-section" style={{ display: activeView === 'figures' ? 'flex' : 'none' }}>
+          <FiguresPanel
+            figures={figures}
+            files={files}
+            onOpenGraphic={(fileName) => {
+              const file = files.find(f => f.name === fileName)
+              if (file) handleFileClick(file)
+            }}
+            onReveal={handleReferenceClick}
+          />
+        </div>
+
+        {/* Compare View */}
+        <div className="sidebar-section" style={{ display: activeView === 'compare' ? 'flex' : 'none' }}>
+          <ComparePanel
+            key={`${version}-${versions.length}`}
+            arxivId={splitArxivVersion(arxivId).arxivId}
+            title={title}
+            versions={versions}
+            currentVersion={version}
+            onOpenChange={setDiffView}
+          />
+        </div>
+
+        {/* Problems View */}
+        <div className="sidebar-section" style={{ display: activeView === 'problems' ? 'flex' : 'none' }}>
+          <ProblemsPanel diagnostics={diagnostics} onOpenProblem={handleReferenceClick} />
+        </div>
       </div>
 
       {/* Search Panel */}
       {showSearch && (
         <SearchPanel
           files={files}
+          runSearch={runSearch}
           onResultClick={handleSearchResultClick}
           onClose={() => setShowSearch(false)}
         />
       )}
 
+      {/* References Panel */}
+      {!showSearch && referenceTarget && (
+        <ReferencesPanel
+          target={referenceTarget}
+          results={references}
+          onResultClick={handleReferenceClick}
+          onClose={() => setReferenceTarget(null)}
+        />
+      )}
+
       {/* Editor Area */}
       <div className="editor-area">
-        {openTabs.length > 0 && (
+        {(openTabs.length > 0 || diffView) && (
           <div className="editor-tabs">
             {openTabs.map((tab) => (
               <div
                 key={tab.name}
-                className={`editor-tab ${selectedFile?.name === tab.name ? 'active' : ''}`}
-                onClick={() => setSelectedFile(tab)}
+                className={`editor-tab ${!diffView && selectedFile?.name === tab.name ? 'active' : ''}`}
+                onClick={() => {
+                  navigatedRef.current = true
+                  setDiffView(null)
+                  setSelectedFile(tab)
+                }}
               >
                 <span className="tab-icon"><FileIcon filename={tab.name} /></span>
                 <span className="tab-name">{tab.name}</span>
                 <span
-                  className="tab-close"
+                  className={`tab-close ${modifiedFiles.has(tab.name) ? 'modified' : ''}`}
                   onClick={(e) => handleCloseTab(tab, e)}
+                  title={modifiedFiles.has(tab.name) ? 'Modified' : undefined}
                 >
                   ×
                 </span>
               </div>
             ))}
+            {diffView && (
+              <div className="editor-tab active">
+                <span className="tab-icon"><FileIcon filename={diffView.change.name} /></span>
+                <span className="tab-name tab-name-diff" title={diffView.change.name}>
+                  {diffView.change.name} ({diffView.originalLabel} ↔ {diffView.modifiedLabel})
+                </span>
+                <span className="tab-close" onClick={() => setDiffView(null)}>×</span>
+              </div>
+            )}
           </div>
         )}
         <div className="editor-content">
-          {renderFileContent()}
+          <div className="editor-main">
+            {renderFileContent()}
+          </div>
+          {showReader && (
+            <ReaderPanel
+              files={files}
+              project={project}
+              onReveal={handleReferenceClick}
+              onOpenFile={(fileName) => {
+                const file = files.find(f => f.name === fileName)
+                if (file) handleFileClick(file)
+              }}
+              onClose={() => setShowReader(false)}
+            />
+          )}
         </div>
+        {showMathPreview && selectedFile?.isTeX && !diffView && (
+          <MathPreview
+            files={files}
+            file={selectedFile}
+            offset={cursor?.file === selectedFile.name ? cursor.offset : -1}
+          />
+        )}
 
         {/* Status Bar */}
         <div className="status-bar">
           <div className="status-left">
-            <span className="status-item">{arxivId}</span>
+            <span className="status-item">{splitArxivVersion(arxivId).arxivId}</span>
+            {versions.length > 0 ? (
+              <select
+                className="status-select"
+                value={version ?? versions[versions.length - 1].version}
+                onChange={(e) => handleVersionChange(parseInt(e.target.value, 10))}
+                title="Switch paper version"
+              >
+                {versions.map(v => (
+                  <option key={v.version} value={v.version}>
+                    v{v.version}{v.date ? ` · ${v.date.replace(/\s+\d{1,2}:\d{2}:\d{2}.*$/, '')}` : ''}
+                  </option>
+                ))}
+              </select>
+            ) : version !== null && (
+              <span className="status-item">v{version}</span>
+            )}
             {title && <span className="status-item status-title" title={title}>{title}</span>}
+            {cachedAt !== null && (
+              <span className="status-item status-cache" title={`Loaded from local cache (${new Date(cachedAt).toLocaleString()})`}>
+                cached on {new Date(cachedAt).toLocaleDateString()}
+                <button className="status-button" onClick={handleRefreshSource} title="Download the source again from arXiv">
+                  Refresh
+                </button>
+              </span>
+            )}
           </div>
           <div className="status-right">
+            {modifiedFiles.size > 0 && (
+              <span className="status-item status-modified">
+                {modifiedFiles.size} modified
+                <button className="status-button" onClick={() => handleExport('tar.gz')} title="Download the edited source as a .tar.gz archive">
+                  .tar.gz
+                </button>
+                <button className="status-button" onClick={() => handleExport('zip')} title="Download the edited source as a .zip archive">
+                  .zip
+                </button>
+              </span>
+            )}
+            {files.length > 0 && (
+              <button
+                className={`status-button status-edit ${editMode ? 'active' : ''}`}
+                onClick={toggleEditMode}
+                title={editMode ? 'Make the files read-only again (changes are kept)' : 'Edit the files in memory'}
+              >
+                {editMode ? 'Editing' : 'Edit'}
+              </button>
+            )}
+            {project.root && (
+              <button
+                className="status-button"
+                onClick={() => setShowReader(prev => !prev)}
+                title={showReader ? 'Close the reader' : 'Read the paper rendered as HTML'}
+              >
+                {showReader ? 'Close Reader' : 'Reader'}
+              </button>
+            )}
+            {files.length > 0 && (
+              <button
+                className="status-button status-problems"
+                onClick={() => {
+                  setShowSearch(false)
+                  setActiveView('problems')
+                }}
+                title="Show problems"
+              >
+                ⊗ {errorCount} ⚠ {warningCount}
+              </button>
+            )}
+            {extracting && (
+              <span className="status-item">
+                Extracting… {progress.filesExtracted} files ({formatBytes(progress.decompressed)})
+                {progress.phase === 'downloading' && progress.percent > 0 && ` · ${progress.percent}% downloaded`}
+              </span>
+            )}
             {selectedFile && !selectedFile.isBinary && (
               <>
+                {selectedFile.isTeX && (
+                  <button
+                    className="status-button status-math"
+                    onClick={() => setShowMathPreview(prev => !prev)}
+                    title={showMathPreview ? 'Hide the math preview' : 'Preview the formula under the cursor'}
+                  >
+                    {showMathPreview ? 'Hide Math' : 'Math Preview'}
+                  </button>
+                )}
                 <span className="status-item">
                   {selectedFile.content.split('\n').length} lines
                 </span>
                 <span className="status-item">
                   {getLanguage(selectedFile.name).toUpperCase()}
                 </span>
+                {selectedFile.rawData || originals.has(selectedFile.name) ? (
+                  <select
+                    className="status-select"
+                    value={selectedFile.encoding || 'utf-8'}
+                    onChange={(e) => handleEncodingChange(selectedFile, e.target.value)}
+                    title={selectedFile.rawData ? 'Reopen the file with a different encoding' : 'Encoding the edited file is exported in'}
+                  >
+                    {!ENCODINGS.some(e => e.label === selectedFile.encoding) && selectedFile.encoding && (
+                      <option value={selectedFile.encoding}>{getEncodingName(selectedFile.encoding)}</option>
+                    )}
+                    {ENCODINGS.map(e => (
+                      <option key={e.label} value={e.label}>{e.name}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="status-item">{getEncodingName(selectedFile.encoding)}</span>
+                )}
               </>
             )}
-            <span className="status-item">UTF-8</span>
           </div>
         </div>
       </div>
@@ -1514,6 +3593,49 @@ export default function Viewer() {
           onCopyAsLatex={handleCopyAsLatex}
           onFindReferences={handleFindReferences}
           onOpenInNewTab={handleOpenInNewTab}
+          isModified={modifiedFiles.has(contextMenu.file.name)}
+          onCompareWithOriginal={handleCompareWithOriginal}
+          onRevert={handleRevertFile}
+        />
+      )}
+
+      {quickOpen !== null && (
+        <QuickOpen
+          value={quickOpen}
+          files={files}
+          recentFiles={recentFiles}
+          commands={commands}
+          keybindings={keybindings}
+          lineCount={textFile ? textFile.content.split('\n').length : null}
+          onChange={setQuickOpen}
+          onOpenFile={(fileName) => {
+            setQuickOpen(null)
+            const file = files.find(f => f.name === fileName)
+            if (file) handleFileClick(file)
+          }}
+          onOpenSymbol={(symbol) => {
+            setQuickOpen(null)
+            handleReferenceClick(symbol.file, symbol.line)
+          }}
+          onRunCommand={(command) => {
+            setQuickOpen(null)
+            command.run()
+          }}
+          onGoToLine={(line) => {
+            setQuickOpen(null)
+            setGoToLine(line)
+          }}
+          onClose={() => setQuickOpen(null)}
+        />
+      )}
+
+      {showKeybindings && (
+        <KeybindingsEditor
+          commands={commands}
+          keybindings={keybindings}
+          overrides={keybindingOverrides}
+          onChange={handleKeybindingsChange}
+          onClose={() => setShowKeybindings(false)}
         />
       )}
     </div>
@@ -0,0 +1,432 @@
+import { FileEntry } from './latex-features'
+import { decodeText, detectEncoding } from './encoding'
+
+// Archive helpers: file type detection and a tar reader that understands
+// POSIX ustar, pax extended headers, GNU long names and links.
+
+export interface UnsupportedEntry {
+  name: string
+  type: string // human-readable entry type, e.g. "character device"
+  reason: string
+}
+
+// --- File types ---
+
+export function getMimeType(filename: string): string {
+  const ext = filename.split('.').pop()?.toLowerCase()
+  switch (ext) {
+    case 'png':
+      return 'image/png'
+    case 'jpg':
+    case 'jpeg':
+      return 'image/jpeg'
+    case 'gif':
+      return 'image/gif'
+    case 'svg':
+      return 'image/svg+xml'
+    case 'pdf':
+      return 'application/pdf'
+    case 'eps':
+    case 'ps':
+      return 'application/postscript'
+    default:
+      return 'application/octet-stream'
+  }
+}
+
+export function isTextFile(filename: string): boolean {
+  const textExtensions = [
+    'tex', 'bib', 'sty', 'cls', 'bst', 'txt', 'md', 'cfg', 'def', 'fd', 'ins', 'dtx', 'ltx', 'bbx', 'cbx', 'lbx'
+  ]
+  const ext = filename.split('.').pop()?.toLowerCase()
+  return ext ? textExtensions.includes(ext) : false
+}
+
+export function createFileEntry(name: string, data: Uint8Array): FileEntry {
+  if (isTextFile(name)) {
+    const encoding = detectEncoding(data)
+    return {
+      name,
+      content: decodeText(data, encoding),
+      isTeX: name.endsWith('.tex'),
+      isBinary: false,
+      encoding,
+      rawData: data
+    }
+  }
+  return {
+    name,
+    content: '',
+    isTeX: false,
+    isBinary: true,
+    binaryData: data,
+    mimeType: getMimeType(name)
+  }
+}
+
+// --- Tar ---
+
+const BLOCK_SIZE = 512
+
+const TYPE_NAMES: Record<string, string> = {
+  '3': 'character device',
+  '4': 'block device',
+  '6': 'FIFO',
+  'S': 'GNU sparse file',
+  'M': 'GNU multi-volume continuation',
+  'N': 'GNU old long name',
+}
+
+interface TarHeader {
+  name: string
+  linkName: string
+  size: number
+  type: string
+  isUstar: boolean
+}
+
+interface PaxAttributes {
+  path?: string
+  linkpath?: string
+  size?: number
+}
+
+const utf8 = new TextDecoder()
+
+function readString(data: Uint8Array, offset: number, length: number): string {
+  let end = offset
+  const limit = offset + length
+  while (end < limit && data[end] !== 0) end++
+  return utf8.decode(data.subarray(offset, end))
+}
+
+function readNumber(data: Uint8Array, offset: number, length: number): number {
+  // GNU base-256 encoding for values that do not fit the octal field
+  if (data[offset] & 0x80) {
+    let value = data[offset] & 0x7f
+    for (let i = 1; i < length; i++) {
+      value = value * 256 + data[offset + i]
+    }
+    return value
+  }
+  const str = readString(data, offset, length).trim()
+  return str ? parseInt(str, 8) || 0 : 0
+}
+
+function isZeroBlock(data: Uint8Array, offset: number): boolean {
+  for (let i = offset; i < offset + BLOCK_SIZE && i < data.length; i++) {
+    if (data[i] !== 0) return false
+  }
+  return true
+}
+
+function hasValidChecksum(data: Uint8Array, offset: number): boolean {
+  const expected = readNumber(data, offset + 148, 8)
+  let sum = 0
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    // The checksum field itself counts as eight spaces
+    sum += i >= 148 && i < 156 ? 32 : data[offset + i]
+  }
+  return sum === expected
+}
+
+function parseHeader(data: Uint8Array, offset: number): TarHeader {
+  const magic = readString(data, offset + 257, 6)
+  // Only POSIX ustar has a prefix field; GNU tar stores timestamps in the same area
+  const isPosixUstar = magic === 'ustar' && data[offset + 262] === 0
+  const prefix = isPosixUstar ? readString(data, offset + 345, 155) : ''
+  const name = readString(data, offset, 100)
+  const typeByte = data[offset + 156]
+
+  return {
+    name: prefix ? `${prefix}/${name}` : name,
+    linkName: readString(data, offset + 157, 100),
+    size: readNumber(data, offset + 124, 12),
+    type: typeByte === 0 ? '0' : String.fromCharCode(typeByte),
+    isUstar: magic.startsWith('ustar')
+  }
+}
+
+function parsePaxRecords(data: Uint8Array): PaxAttributes {
+  const attributes: PaxAttributes = {}
+  let offset = 0
+
+  // Each record is "<length> <key>=<value>\n", where length counts the bytes of the whole record
+  while (offset < data.length) {
+    let space = offset
+    while (space < data.length && data[space] !== 0x20) space++
+    const length = parseInt(utf8.decode(data.subarray(offset, space)), 10)
+    if (!length || offset + length > data.length) break
+
+    const record = utf8.decode(data.subarray(space + 1, offset + length - 1))
+    const eq = record.indexOf('=')
+    if (eq !== -1) {
+      const key = record.slice(0, eq)
+      const value = record.slice(eq + 1)
+      if (key === 'path') attributes.path = value
+      if (key === 'linkpath') attributes.linkpath = value
+      if (key === 'size') attributes.size = parseInt(value, 10)
+    }
+    offset += length
+  }
+
+  return attributes
+}
+
+function normalizePath(path: string): string {
+  const parts: string[] = []
+  for (const part of path.split('/')) {
+    if (part === '' || part === '.') continue
+    if (part === '..') {
+      parts.pop()
+    } else {
+      parts.push(part)
+    }
+  }
+  return parts.join('/')
+}
+
+function resolveLinkTarget(linkPath: string, target: string): string {
+  if (target.startsWith('/')) return normalizePath(target)
+  const dir = linkPath.includes('/') ? linkPath.slice(0, linkPath.lastIndexOf('/')) : ''
+  return normalizePath(dir ? `${dir}/${target}` : target)
+}
+
+export function isTarArchive(data: Uint8Array): boolean {
+  if (data.length < BLOCK_SIZE) return false
+  const magic = readString(data, 257, 6)
+  if (magic.startsWith('ustar')) return true
+  // Pre-POSIX (v7) archives have no magic, but their header checksum still has to match
+  return !isZeroBlock(data, 0) && hasValidChecksum(data, 0)
+}
+
+export interface TarReader {
+  push: (chunk: Uint8Array) => void
+  // Resolves links once the whole archive has been read and returns the entries that were skipped
+  finish: () => UnsupportedEntry[]
+}
+
+// Incremental tar reader: chunks can be pushed as they arrive (e.g. from a streaming gunzip),
+// and every regular file is reported through onFile as soon as its data is complete.
+export function createTarReader(onFile: (file: FileEntry) => void): TarReader {
+  const contents = new Map<string, Uint8Array>()
+  const directories = new Set<string>()
+  const symlinks: { name: string; target: string }[] = []
+  const hardLinks: { name: string; target: string }[] = []
+  const unsupported: UnsupportedEntry[] = []
+
+  let globalPax: PaxAttributes = {}
+  let nextPax: PaxAttributes = {}
+  let longName: string | null = null
+  let longLinkName: string | null = null
+
+  // Buffered input that has not been consumed yet
+  let chunks: Uint8Array[] = []
+  let buffered = 0
+
+  // Entry whose data is being read, and the number of padding bytes to skip after it
+  let current: { header: TarHeader; size: number } | null = null
+  let skip = 0
+  let ended = false
+  let sawZeroBlock = false
+
+  const take = (length: number): Uint8Array | null => {
+    if (buffered < length) return null
+    const result = new Uint8Array(length)
+    let offset = 0
+    while (offset < length) {
+      const chunk = chunks[0]
+      const needed = length - offset
+      if (chunk.length <= needed) {
+        result.set(chunk, offset)
+        offset += chunk.length
+        chunks.shift()
+      } else {
+        result.set(chunk.subarray(0, needed), offset)
+        chunks[0] = chunk.subarray(needed)
+        offset += needed
+      }
+    }
+    buffered -= length
+    return result
+  }
+
+  const discard = (): boolean => {
+    while (skip > 0 && chunks.length > 0) {
+      const chunk = chunks[0]
+      if (chunk.length <= skip) {
+        skip -= chunk.length
+        buffered -= chunk.length
+        chunks.shift()
+      } else {
+        chunks[0] = chunk.subarray(skip)
+        buffered -= skip
+        skip = 0
+      }
+    }
+    return skip === 0
+  }
+
+  const addFile = (name: string, data: Uint8Array) => {
+    contents.set(name, data)
+    onFile(createFileEntry(name, data))
+  }
+
+  const handleEntry = (header: TarHeader, content: Uint8Array) => {
+    // Meta entries describe the entry that follows them
+    if (header.type === 'L') {
+      longName = readString(content, 0, content.length)
+      return
+    }
+    if (header.type === 'K') {
+      longLinkName = readString(content, 0, content.length)
+      return
+    }
+    if (header.type === 'x') {
+      nextPax = parsePaxRecords(content)
+      return
+    }
+    if (header.type === 'g') {
+      globalPax = { ...globalPax, ...parsePaxRecords(content) }
+      return
+    }
+
+    const pax = { ...globalPax, ...nextPax }
+    const name = normalizePath(pax.path ?? longName ?? header.name)
+    const linkName = pax.linkpath ?? longLinkName ?? header.linkName
+    nextPax = {}
+    longName = null
+    longLinkName = null
+
+    if (!name) return
+
+    switch (header.type) {
+      case '0':
+      case '7':
+        // A trailing slash marks a directory in pre-POSIX archives
+        if (!header.isUstar && header.name.endsWith('/')) {
+          directories.add(name)
+        } else {
+          addFile(name, content)
+        }
+        break
+      case '5':
+      case 'D':
+        directories.add(name)
+        break
+      case '1':
+        hardLinks.push({ name, target: normalizePath(linkName) })
+        break
+      case '2':
+        symlinks.push({ name, target: resolveLinkTarget(name, linkName) })
+        break
+      case 'V':
+        // Volume label, carries no file data
+        break
+      default:
+        unsupported.push({
+          name,
+          type: TYPE_NAMES[header.type] || `type '${header.type}'`,
+          reason: 'Entry type is not supported'
+        })
+    }
+  }
+
+  const process = () => {
+    while (!ended) {
+      if (!discard()) return
+
+      if (current) {
+        const content = take(current.size)
+        if (!content) return
+        const { header, size } = current
+        current = null
+        skip = Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE - size
+        handleEntry(header, content)
+        continue
+      }
+
+      const block = take(BLOCK_SIZE)
+      if (!block) return
+
+      if (isZeroBlock(block, 0)) {
+        // Two consecutive zero blocks mark the end of the archive
+        if (sawZeroBlock) ended = true
+        sawZeroBlock = true
+        continue
+      }
+      sawZeroBlock = false
+
+      const header = parseHeader(block, 0)
+      const isMetaEntry = 'LKxg'.includes(header.type)
+      const pax = { ...globalPax, ...nextPax }
+      // Links, directories, devices and FIFOs have no data blocks, whatever their size field says
+      const hasData = !'123456'.includes(header.type)
+      const size = hasData ? (isMetaEntry ? header.size : pax.size ?? header.size) : 0
+      current = { header, size }
+    }
+
+    // Ignore anything after the end-of-archive marker
+    chunks = []
+    buffered = 0
+  }
+
+  return {
+    push: (chunk: Uint8Array) => {
+      if (ended || chunk.length === 0) return
+      chunks.push(chunk)
+      buffered += chunk.length
+      process()
+    },
+
+    finish: () => {
+      if (current) {
+        unsupported.push({
+          name: current.header.name,
+          type: 'file',
+          reason: 'Archive ends before the end of this entry'
+        })
+        current = null
+      }
+
+      for (const link of hardLinks) {
+        const target = contents.get(link.target)
+        if (target) {
+          addFile(link.name, target.slice())
+        } else {
+          unsupported.push({ name: link.name, type: 'hard link', reason: `Target ${link.target} is not in the archive` })
+        }
+      }
+
+      // Symlinks may point at other links, so resolve them until nothing changes
+      let pending = symlinks
+      while (pending.length > 0) {
+        const unresolved: typeof symlinks = []
+        for (const link of pending) {
+          const target = contents.get(link.target)
+          const prefix = `${link.target}/`
+          if (target) {
+            addFile(link.name, target.slice())
+          } else if (directories.has(link.target) || [...contents.keys()].some(path => path.startsWith(prefix))) {
+            for (const [path, fileContent] of [...contents]) {
+              if (path.startsWith(prefix)) {
+                addFile(`${link.name}/${path.slice(prefix.length)}`, fileContent.slice())
+              }
+            }
+          } else {
+            unresolved.push(link)
+          }
+        }
+        if (unresolved.length === pending.length) {
+          for (const link of unresolved) {
+            unsupported.push({ name: link.name, type: 'symbolic link', reason: `Target ${link.target} is not in the archive` })
+          }
+          break
+        }
+        pending = unresolved
+      }
+
+      return unsupported
+    }
+  }
+}
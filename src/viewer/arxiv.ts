@@ -0,0 +1,98 @@
+// arXiv identifier helpers shared by the content script, the viewer and the library page.
+//
+// Identifiers come in two schemes, both optionally followed by a version suffix:
+// - new style (2007+): 0704.0001, 1706.03762, 2301.00001v2
+// - old style: hep-th/9901001, math.AG/0601001v3
+
+export interface ArxivVersion {
+  version: number
+  date: string // submission date as printed by arXiv
+  size?: string // e.g. "1,102 KB"
+}
+
+const NEW_STYLE_ID = /^\d{4}\.\d{4,5}$/
+const OLD_STYLE_ID = /^[a-z-]+(\.[A-Z]{2})?\/\d{7}$/
+
+export function isArxivId(id: string): boolean {
+  const { arxivId } = splitArxivVersion(id)
+  return NEW_STYLE_ID.test(arxivId) || OLD_STYLE_ID.test(arxivId)
+}
+
+export function splitArxivVersion(id: string): { arxivId: string; version: number | null } {
+  const match = /^(.+?)v(\d+)$/.exec(id)
+  if (!match) return { arxivId: id, version: null }
+  return { arxivId: match[1], version: parseInt(match[2], 10) }
+}
+
+export function formatArxivId(arxivId: string, version: number | null): string {
+  return version !== null ? `${arxivId}v${version}` : arxivId
+}
+
+// Extract a (possibly versioned) identifier from an arxiv.org/abs, /pdf or /src URL
+export function getArxivIdFromUrl(url: string): string | null {
+  const match = /arxiv\.org\/(?:abs|pdf|src)\/(.+?)(?:\.pdf)?\/?(?:[?#]|$)/.exec(url)
+  if (!match) return null
+  const id = decodeURIComponent(match[1])
+  return isArxivId(id) ? id : null
+}
+
+// Read the submission history from the abstract page, which lists every version with its date.
+// Falls back to the export API, which only reports the latest version number.
+export async function fetchArxivVersions(arxivId: string): Promise<ArxivVersion[]> {
+  try {
+    const versions = await fetchVersionsFromAbstractPage(arxivId)
+    if (versions.length > 0) return versions
+  } catch (err) {
+    console.warn('arXivTeXplorer: failed to read submission history', err)
+  }
+  return fetchVersionsFromApi(arxivId)
+}
+
+async function fetchVersionsFromAbstractPage(arxivId: string): Promise<ArxivVersion[]> {
+  const response = await fetch(`https://arxiv.org/abs/${arxivId}`)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch abstract page: ${response.status} ${response.statusText}`)
+  }
+
+  const doc = new DOMParser().parseFromString(await response.text(), 'text/html')
+  const history = doc.querySelector('.submission-history')?.textContent || ''
+
+  const versions: ArxivVersion[] = []
+  const regex = /\[v(\d+)\]\s*([^([]+?)\s*(?:\(([^)]+)\))?(?=\s*\[v\d+\]|\s*$)/g
+  let match
+  while ((match = regex.exec(history)) !== null) {
+    versions.push({
+      version: parseInt(match[1], 10),
+      date: match[2].trim(),
+      size: match[3]?.trim(),
+    })
+  }
+
+  return versions.sort((a, b) => a.version - b.version)
+}
+
+async function fetchVersionsFromApi(arxivId: string): Promise<ArxivVersion[]> {
+  const response = await fetch(`https://export.arxiv.org/api/query?id_list=${encodeURIComponent(arxivId)}`)
+  if (!response.ok) {
+    throw new Error(`Failed to query arXiv API: ${response.status} ${response.statusText}`)
+  }
+
+  const doc = new DOMParser().parseFromString(await response.text(), 'application/xml')
+  const entry = doc.querySelector('entry')
+  const latestId = entry?.querySelector('id')?.textContent || ''
+  const latest = /v(\d+)$/.exec(latestId.trim())
+  if (!latest) return []
+
+  const published = entry?.querySelector('published')?.textContent?.slice(0, 10) || ''
+  const updated = entry?.querySelector('updated')?.textContent?.slice(0, 10) || ''
+  const count = parseInt(latest[1], 10)
+
+  const versions: ArxivVersion[] = []
+  for (let version = 1; version <= count; version++) {
+    versions.push({
+      version,
+      date: version === 1 ? published : version === count ? updated : '',
+    })
+  }
+  return versions
+}
@@ -0,0 +1,249 @@
+import { BibEntry, latexToText } from './bibtex'
+import { readGroup, readOptional } from './latex-features'
+
+// Parser for compiled bibliographies (.bbl), which most arXiv submissions ship instead of
+// their .bib files. Handles \bibitem entries of a thebibliography environment, where the
+// author, title and year are recovered on a best-effort basis from the formatted text, and
+// the \entry blocks biblatex writes, which keep every field.
+
+function createLocator(content: string) {
+  const lineStarts = [0]
+  for (let i = 0; i < content.length; i++) {
+    if (content.charCodeAt(i) === 10) lineStarts.push(i + 1)
+  }
+  return (index: number) => {
+    let low = 0
+    let high = lineStarts.length - 1
+    while (low < high) {
+      const mid = (low + high + 1) >> 1
+      if (lineStarts[mid] <= index) low = mid
+      else high = mid - 1
+    }
+    return { line: low + 1, column: index - lineStarts[low] + 1 }
+  }
+}
+
+// Skip whitespace and the "%" line ends biblatex puts between groups
+function skipSpaces(content: string, pos: number): number {
+  while (pos < content.length) {
+    if (content[pos] === '%') {
+      while (pos < content.length && content[pos] !== '\n') pos++
+    } else if (/\s/.test(content[pos])) {
+      pos++
+    } else {
+      break
+    }
+  }
+  return pos
+}
+
+// Punctuation macros biblatex writes into names and ranges
+function expandBiblatexMacros(value: string): string {
+  return value
+    .replace(/\\bibinitperiod\b\s*/g, '.')
+    .replace(/\\(?:bibinitdelim|bibnamedelim[a-z])\b\s*/g, ' ')
+    .replace(/\\bibrangedash\b\s*/g, '--')
+}
+
+// Formatting commands of the common bibliography styles (natbib, apsrev, biblatex)
+function cleanText(value: string): string {
+  const text = latexToText(expandBiblatexMacros(value)
+    .replace(/\\natexlab\s*\{[^}]*\}/g, '')
+    .replace(/\\(?:href|BibitemShut|bibfield|bibinfo)\s*\{[^}]*\}\s*/g, '')
+    .replace(/\\ /g, ' ')
+    .replace(/``|''/g, '"'))
+  // Drop any command latexToText does not know about, keeping its argument
+  return text.replace(/\\[a-zA-Z@]+\*?\s*/g, '').replace(/\s+/g, ' ').trim()
+}
+
+function trimPunctuation(value: string): string {
+  return value.replace(/^[\s"]+|[\s.,;:"]+$/g, '')
+}
+
+// "A. Vaswani, N. Shazeer, and I. Polosukhin" -> "A. Vaswani and N. Shazeer and I. Polosukhin".
+// Styles that print "Vaswani, A., Shazeer, N." keep each family name with its initials.
+function toBibtexAuthors(text: string): string {
+  const parts = text
+    .replace(/\bet\.? al\.?$/, ', others')
+    .split(/\s*,\s*(?:and\s+)?|\s+and\s+|\s*&\s*/)
+    .map(part => part.trim())
+    .filter(Boolean)
+  const names: string[] = []
+  for (const part of parts) {
+    if (/^(?:[A-Z][a-z]?\.\s*-?\s*)*[A-Z](?:[a-z]?\.)?$/.test(part) && names.length > 0 && !names[names.length - 1].includes(',')) {
+      // The block's final period was trimmed off with the other punctuation
+      names[names.length - 1] += `, ${part.endsWith('.') ? part : `${part}.`}`
+    } else {
+      names.push(part)
+    }
+  }
+  return names.join(' and ')
+}
+
+function findYear(text: string): string | undefined {
+  const years = text.match(/\b(?:1[89]|20)\d\d\b/g)
+  return years ? years[years.length - 1] : undefined
+}
+
+function parseBibitem(body: string, label: string | undefined): Record<string, string> {
+  const fields: Record<string, string> = {}
+
+  // revtex styles tag every part of the reference
+  const bibinfo = /\\bibinfo\s*\{([^}]*)\}\s*(?=\{)/g
+  const authors: string[] = []
+  let match
+  while ((match = bibinfo.exec(body)) !== null) {
+    const group = readGroup(body, skipSpaces(body, bibinfo.lastIndex))
+    if (!group) continue
+    const name = match[1].trim()
+    const value = cleanText(group.text)
+    if (name === 'author') authors.push(value)
+    else if (!fields[name]) fields[name] = value
+  }
+  if (authors.length > 0) fields.author = authors.join(' and ')
+
+  const text = cleanText(body)
+  if (!fields.title) {
+    const blocks = body.split(/\\newblock\b/).map(cleanText).map(trimPunctuation).filter(Boolean)
+    if (blocks.length >= 2) {
+      fields.author ??= toBibtexAuthors(blocks[0])
+      fields.title = blocks[1]
+      if (blocks.length > 2) fields.howpublished = blocks.slice(2).join('. ')
+    } else {
+      // Without \newblock only a quoted title can be told apart from the rest
+      const quoted = /^(.*?)"(.+?)[,.]?"/.exec(text)
+      if (quoted) {
+        fields.author ??= toBibtexAuthors(trimPunctuation(quoted[1]))
+        fields.title = trimPunctuation(quoted[2])
+      }
+    }
+  }
+
+  const year = fields.year || findYear(label || '') || findYear(text)
+  if (year) fields.year = year
+  fields.note = text
+  return fields
+}
+
+function parseThebibliography(content: string, file: string, locate: ReturnType<typeof createLocator>): BibEntry[] {
+  const entries: BibEntry[] = []
+  const envRegex = /(\\begin\s*\{thebibliography\})([\s\S]*?)(?:\\end\s*\{thebibliography\}|$)/g
+  let env
+  while ((env = envRegex.exec(content)) !== null) {
+    const envStart = env.index + env[1].length
+    const envEnd = envStart + env[2].length
+    const items: { key: string; label?: string; index: number; start: number; end: number }[] = []
+    const itemRegex = /\\bibitem\b/g
+    itemRegex.lastIndex = envStart
+    let match
+    while ((match = itemRegex.exec(content)) !== null && match.index < envEnd) {
+      const optional = readOptional(content, skipSpaces(content, itemRegex.lastIndex))
+      const key = readGroup(content, skipSpaces(content, optional ? optional.end : itemRegex.lastIndex))
+      if (!key) continue
+      if (items.length > 0) items[items.length - 1].end = match.index
+      items.push({ key: key.text.trim(), label: optional?.text, index: match.index, start: key.end, end: envEnd })
+      itemRegex.lastIndex = key.end
+    }
+
+    for (const item of items) {
+      entries.push({
+        type: '',
+        key: item.key,
+        fields: parseBibitem(content.slice(item.start, item.end), item.label && cleanText(item.label)),
+        file,
+        ...locate(item.index),
+        index: item.index
+      })
+    }
+  }
+  return entries
+}
+
+// biblatex names are either "family={..}, given={..}" lists or positional groups
+// {family}{familyi}{given}{giveni}{prefix}{prefixi}{suffix}{suffixi}
+function parseBiblatexName(group: string): string {
+  const parts: Record<string, string> = {}
+  for (const match of group.matchAll(/\b(family|given|prefix|suffix)=\{((?:[^{}]|\{[^{}]*\})*)\}/g)) {
+    parts[match[1]] = match[2]
+  }
+  if (!parts.family) {
+    const positional: string[] = []
+    let pos = 0
+    let next
+    while ((next = readGroup(group, skipSpaces(group, pos))) !== null) {
+      positional.push(next.text)
+      pos = next.end
+    }
+    // The first group holds the hash and other options
+    const values = positional[0]?.includes('hash=') ? positional.slice(1) : positional
+    parts.family = values[0]
+    parts.given = values[2]
+    parts.prefix = values[4]
+    parts.suffix = values[6]
+  }
+  const family = [parts.prefix, parts.family].filter(Boolean).join(' ')
+  return expandBiblatexMacros([family, parts.suffix, parts.given].filter(Boolean).join(', '))
+}
+
+function parseBiblatexEntries(content: string, file: string, locate: ReturnType<typeof createLocator>): BibEntry[] {
+  const entries: BibEntry[] = []
+  const entryRegex = /\\entry\s*\{([^}]*)\}\s*\{([^}]*)\}\s*\{[^}]*\}([\s\S]*?)\\endentry\b/g
+  let entry
+  while ((entry = entryRegex.exec(content)) !== null) {
+    const body = entry[3]
+    const fields: Record<string, string> = {}
+
+    const fieldRegex = /\\(field|range|name|list)\s*\{([^}]*)\}/g
+    let match
+    while ((match = fieldRegex.exec(body)) !== null) {
+      const [, kind, name] = match
+      let pos = fieldRegex.lastIndex
+      if (kind === 'name' || kind === 'list') {
+        // \name{author}{count}{options}{...} and \list{publisher}{count}{...}
+        for (let skip = kind === 'name' ? 2 : 1; skip > 0; skip--) {
+          pos = readGroup(body, skipSpaces(body, pos))?.end ?? pos
+        }
+      }
+      const group = readGroup(body, skipSpaces(body, pos))
+      if (!group) continue
+      fieldRegex.lastIndex = group.end
+
+      if (kind === 'field' || kind === 'range') {
+        fields[name] = expandBiblatexMacros(group.text)
+        continue
+      }
+      const items: string[] = []
+      let itemPos = 0
+      let item
+      while ((item = readGroup(group.text, skipSpaces(group.text, itemPos))) !== null) {
+        items.push(kind === 'name' ? parseBiblatexName(item.text) : item.text)
+        itemPos = item.end
+      }
+      fields[name] = items.join(' and ')
+    }
+
+    const verbRegex = /\\verb\s*\{([^}]*)\}\s*\\verb\s+([^\n]*)/g
+    while ((match = verbRegex.exec(body)) !== null) {
+      fields[match[1]] = match[2].trim()
+    }
+
+    entries.push({
+      type: entry[2].trim().toLowerCase(),
+      key: entry[1].trim(),
+      fields,
+      file,
+      ...locate(entry.index),
+      index: entry.index
+    })
+  }
+  return entries
+}
+
+// Parse the bibliography of a .bbl file, or a thebibliography environment pasted into a .tex file
+export function parseBbl(content: string, file: string): BibEntry[] {
+  const locate = createLocator(content)
+  return [
+    ...parseThebibliography(content, file, locate),
+    ...parseBiblatexEntries(content, file, locate),
+  ].sort((a, b) => a.index - b.index)
+}
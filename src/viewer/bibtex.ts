@@ -0,0 +1,355 @@
+// BibTeX parser: entries with all of their fields, @string macros with # concatenation,
+// @comment and @preamble blocks, and crossref inheritance. Malformed input is reported
+// as errors with line numbers instead of being silently skipped.
+
+export interface BibEntry {
+  type: string // lowercase entry type, e.g. "article"
+  key: string
+  fields: Record<string, string> // lowercase field names, macros expanded, braces kept
+  file: string
+  line: number
+  column: number // 1-based
+  index: number // offset of the "@" in the file
+}
+
+export interface BibError {
+  file: string
+  line: number
+  column: number
+  message: string
+  severity: 'error' | 'warning'
+}
+
+export interface BibDatabase {
+  entries: BibEntry[]
+  strings: Record<string, string>
+  errors: BibError[]
+}
+
+const MONTHS: Record<string, string> = {
+  jan: 'January', feb: 'February', mar: 'March', apr: 'April', may: 'May', jun: 'June',
+  jul: 'July', aug: 'August', sep: 'September', oct: 'October', nov: 'November', dec: 'December',
+}
+
+// Raised inside the parser to abandon the current block; parsing resumes at the next "@"
+class BibSyntaxError extends Error {
+  constructor(message: string, public index: number) {
+    super(message)
+  }
+}
+
+// Parse one .bib file. Strings defined by earlier files can be passed in, as BibTeX reads
+// all databases of a document in sequence.
+export function parseBibtex(content: string, file: string, strings: Record<string, string> = {}): BibDatabase {
+  const entries: BibEntry[] = []
+  const errors: BibError[] = []
+  const definedStrings: Record<string, string> = { ...strings }
+  const seenKeys = new Set<string>()
+
+  const lineStarts = [0]
+  for (let i = 0; i < content.length; i++) {
+    if (content.charCodeAt(i) === 10) lineStarts.push(i + 1)
+  }
+  const locate = (index: number) => {
+    let low = 0
+    let high = lineStarts.length - 1
+    while (low < high) {
+      const mid = (low + high + 1) >> 1
+      if (lineStarts[mid] <= index) low = mid
+      else high = mid - 1
+    }
+    return { line: low + 1, column: index - lineStarts[low] + 1 }
+  }
+  const report = (message: string, index: number, severity: BibError['severity'] = 'error') => {
+    errors.push({ file, ...locate(index), message, severity })
+  }
+
+  let pos = 0
+
+  const skipSpaces = () => {
+    while (pos < content.length && /\s/.test(content[pos])) pos++
+  }
+
+  const readIdentifier = (): string => {
+    const start = pos
+    while (pos < content.length && !/[\s"#%'(),={}]/.test(content[pos])) pos++
+    return content.slice(start, pos)
+  }
+
+  // Read a {...} group, returning its contents without the outer braces
+  const readBraced = (): string => {
+    const start = pos
+    let depth = 0
+    for (; pos < content.length; pos++) {
+      const ch = content[pos]
+      if (ch === '\\') {
+        pos++
+      } else if (ch === '{') {
+        depth++
+      } else if (ch === '}') {
+        depth--
+        if (depth === 0) {
+          pos++
+          return content.slice(start + 1, pos - 1)
+        }
+      } else if (ch === '@' && depth === 1 && /\n\s*$/.test(content.slice(Math.max(start, pos - 80), pos))) {
+        // An "@" at the start of a line inside a field almost always means a brace was left open
+        break
+      }
+    }
+    throw new BibSyntaxError('Unbalanced braces in field value', start)
+  }
+
+  // Read a "..." string; braces inside it must balance, and quotes inside braces do not end it
+  const readQuoted = (): string => {
+    const start = pos
+    let depth = 0
+    for (pos++; pos < content.length; pos++) {
+      const ch = content[pos]
+      if (ch === '\\') {
+        pos++
+      } else if (ch === '{') {
+        depth++
+      } else if (ch === '}') {
+        depth--
+      } else if (ch === '"' && depth === 0) {
+        pos++
+        return content.slice(start + 1, pos - 1)
+      }
+    }
+    throw new BibSyntaxError('Unterminated quoted field value', start)
+  }
+
+  // value = part { "#" part }, where a part is {...}, "...", a number or a @string name
+  const readValue = (): string => {
+    let value = ''
+    while (true) {
+      skipSpaces()
+      const ch = content[pos]
+      if (ch === '{') {
+        value += readBraced()
+      } else if (ch === '"') {
+        value += readQuoted()
+      } else if (ch !== undefined && /[0-9]/.test(ch)) {
+        const start = pos
+        while (pos < content.length && /[0-9]/.test(content[pos])) pos++
+        value += content.slice(start, pos)
+      } else {
+        const start = pos
+        const name = readIdentifier()
+        if (!name) throw new BibSyntaxError('Expected a field value', start)
+        const lower = name.toLowerCase()
+        if (Object.hasOwn(definedStrings, lower)) {
+          value += definedStrings[lower]
+        } else if (Object.hasOwn(MONTHS, lower)) {
+          value += MONTHS[lower]
+        } else {
+          report(`Undefined string "${name}"`, start, 'warning')
+          value += name
+        }
+      }
+      skipSpaces()
+      if (content[pos] !== '#') return value
+      pos++
+    }
+  }
+
+  const expectClose = (close: string, start: number) => {
+    skipSpaces()
+    if (content[pos] !== close) {
+      throw new BibSyntaxError(pos >= content.length ? 'Entry is not closed' : `Expected "${close}"`, pos >= content.length ? start : pos)
+    }
+    pos++
+  }
+
+  const parseEntry = (start: number) => {
+    pos++ // "@"
+    skipSpaces()
+    const type = readIdentifier().toLowerCase()
+    skipSpaces()
+
+    // Text outside of entries is a comment, and may well contain an "@" (e.g. an email address)
+    const open = content[pos]
+    if (!type || (open !== '{' && open !== '(')) {
+      pos = start + 1
+      return
+    }
+    const close = open === '{' ? '}' : ')'
+
+    if (type === 'comment') {
+      // Everything up to the matching delimiter is ignored
+      if (open === '{') {
+        readBraced()
+      } else {
+        const end = content.indexOf(')', pos)
+        pos = end === -1 ? content.length : end + 1
+      }
+      return
+    }
+
+    pos++
+    skipSpaces()
+
+    if (type === 'preamble') {
+      readValue()
+      expectClose(close, start)
+      return
+    }
+
+    if (type === 'string') {
+      const nameStart = pos
+      const name = readIdentifier()
+      if (!name) throw new BibSyntaxError('Expected a string name', nameStart)
+      skipSpaces()
+      if (content[pos] !== '=') throw new BibSyntaxError(`Expected "=" after string name "${name}"`, pos)
+      pos++
+      definedStrings[name.toLowerCase()] = readValue()
+      expectClose(close, start)
+      return
+    }
+
+    const keyStart = pos
+    while (pos < content.length && !/[\s,]/.test(content[pos]) && content[pos] !== close) pos++
+    const key = content.slice(keyStart, pos)
+    skipSpaces()
+    if (!key) throw new BibSyntaxError(`@${type} entry has no citation key`, start)
+    if (content[pos] !== ',' && content[pos] !== close) {
+      throw new BibSyntaxError(`Expected "," after citation key "${key}"`, pos)
+    }
+
+    const fields: Record<string, string> = {}
+    while (pos < content.length && content[pos] !== close) {
+      pos++ // ","
+      skipSpaces()
+      if (content[pos] === close) break // trailing comma
+      const nameStart = pos
+      const name = readIdentifier().toLowerCase()
+      if (!name) throw new BibSyntaxError(`Expected a field name in entry "${key}"`, nameStart)
+      skipSpaces()
+      if (content[pos] !== '=') throw new BibSyntaxError(`Expected "=" after field "${name}" in entry "${key}"`, pos)
+      pos++
+      if (name in fields) report(`Duplicate field "${name}" in entry "${key}"`, nameStart, 'warning')
+      fields[name] = readValue()
+      skipSpaces()
+      if (content[pos] !== ',' && content[pos] !== close) {
+        throw new BibSyntaxError(
+          pos >= content.length ? `Entry "${key}" is not closed` : `Expected "," or "${close}" after field "${name}"`,
+          pos >= content.length ? start : pos,
+        )
+      }
+    }
+    expectClose(close, start)
+
+    if (seenKeys.has(key)) {
+      report(`Duplicate entry "${key}"`, start, 'warning')
+    }
+    seenKeys.add(key)
+    entries.push({ type, key, fields, file, ...locate(start), index: start })
+  }
+
+  while (pos < content.length) {
+    const start = content.indexOf('@', pos)
+    if (start === -1) break
+    pos = start
+    try {
+      parseEntry(start)
+    } catch (err) {
+      if (!(err instanceof BibSyntaxError)) throw err
+      report(err.message, err.index)
+      // Resume at the next entry
+      pos = Math.max(start + 1, content.indexOf('\n@', start + 1) + 1 || content.length)
+    }
+  }
+
+  return { entries, strings: definedStrings, errors }
+}
+
+// Fill in fields an entry inherits through crossref. As in BibTeX, the parent's title
+// becomes the booktitle of the child.
+export function resolveCrossrefs(entries: BibEntry[]): BibEntry[] {
+  const byKey = new Map<string, BibEntry>()
+  for (const entry of entries) {
+    byKey.set(entry.key.toLowerCase(), entry)
+  }
+
+  return entries.map(entry => {
+    const parentKey = entry.fields.crossref
+    const parent = parentKey ? byKey.get(parentKey.toLowerCase()) : undefined
+    if (!parent || parent === entry) return entry
+
+    const fields = { ...entry.fields }
+    for (const [name, value] of Object.entries(parent.fields)) {
+      if (!(name in fields) && name !== 'crossref') fields[name] = value
+    }
+    if (!entry.fields.booktitle && parent.fields.title) fields.booktitle = parent.fields.title
+    return { ...entry, fields }
+  })
+}
+
+// --- Display ---
+
+const ACCENTS: Record<string, string> = {
+  '`': '̀', "'": '́', '^': '̂', '~': '̃', '=': '̄', 'u': '̆', '.': '̇',
+  '"': '̈', 'r': '̊', 'H': '̋', 'v': '̌', 'c': '̧', 'k': '̨', 'd': '̣',
+}
+
+const SYMBOLS: Record<string, string> = {
+  ss: 'ß', o: 'ø', O: 'Ø', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', aa: 'å', AA: 'Å', l: 'ł', L: 'Ł',
+  i: 'ı', j: 'ȷ', '&': '&', '%': '%', '$': '$', '#': '#', '_': '_', '{': '{', '}': '}',
+}
+
+// Turn a field value into readable text: accents become Unicode, braces and simple markup go away
+export function latexToText(value: string): string {
+  const accent = (_: string, mark: string, braced?: string, bare?: string) =>
+    ((braced || bare) + ACCENTS[mark]).normalize('NFC')
+  return value
+    // Symbol accents may be followed directly by the letter (\"o), letter accents need a brace or space (\v{c})
+    .replace(/\\([`'^~=".])\s*(?:\{\\?([a-zA-Z])\}|\\?([a-zA-Z]))/g, accent)
+    .replace(/\\([uvHrcdk])(?:\s*\{\\?([a-zA-Z])\}|\s+\\?([a-zA-Z]))/g, accent)
+    .replace(/\\(ss|ae|AE|oe|OE|aa|AA|[oOlLij])(?![a-zA-Z])\s*/g, (_, name: string) => SYMBOLS[name])
+    .replace(/\\([&%$#_{}])/g, '$1')
+    .replace(/\\(?:textbf|textit|emph|textsc|texttt|textrm|textsf|mathrm|mathbf|mbox|url)\s*/g, '')
+    .replace(/\$([^$]*)\$/g, '$1')
+    .replace(/---/g, '—')
+    .replace(/--/g, '–')
+    .replace(/~/g, ' ')
+    .replace(/[{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// "Vaswani, Ashish and Shazeer, Noam" -> ["Ashish Vaswani", "Noam Shazeer"]
+export function parseAuthors(author: string): string[] {
+  return author
+    .split(/\s+and\s+(?![^{]*\})/)
+    .map(name => {
+      const text = latexToText(name)
+      if (text === 'others') return 'et al.'
+      const parts = text.split(',').map(part => part.trim())
+      // "von Last, First" and "von Last, Jr, First"
+      if (parts.length === 2) return `${parts[1]} ${parts[0]}`
+      if (parts.length >= 3) return `${parts[2]} ${parts[0]}, ${parts[1]}`
+      return parts[0]
+    })
+    .filter(Boolean)
+}
+
+export function formatAuthorList(author: string, maxAuthors = 6): string {
+  const names = parseAuthors(author)
+  if (names.length > maxAuthors) return `${names.slice(0, maxAuthors - 1).join(', ')} et al.`
+  if (names.length <= 2) return names.join(' and ')
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+}
+
+export function getEntryVenue(entry: BibEntry): string | undefined {
+  const { fields } = entry
+  const venue = fields.journal || fields.journaltitle || fields.booktitle || fields.publisher ||
+    fields.school || fields.institution || fields.howpublished
+  if (venue) return venue
+  // arXiv preprints cited with biblatex fields
+  return fields.eprinttype && fields.eprint ? `${fields.eprinttype}:${fields.eprint}` : undefined
+}
+
+export function getEntryYear(entry: BibEntry): string | undefined {
+  return entry.fields.year || entry.fields.date?.slice(0, 4) || undefined
+}
@@ -0,0 +1,194 @@
+// Quick Open and the command palette: fuzzy matching of file paths and command names, and the
+// keyboard shortcuts of the viewer's commands, which can be rebound and are kept in
+// chrome.storage so they apply to every paper.
+
+export interface FuzzyMatch {
+  score: number
+  positions: number[] // indices of the matched characters in the text
+}
+
+export interface FileMatch {
+  name: string
+  positions: number[]
+  recent: boolean
+}
+
+export interface KeybindingCommand {
+  id: string
+  keybinding?: string // the default shortcut
+}
+
+// Shortcuts changed by the user, by command id; null removes the default shortcut
+export type KeybindingOverrides = Record<string, string | null>
+
+type KeyEvent = Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'shiftKey' | 'altKey'>
+
+const KEYBINDINGS_STORAGE_KEY = 'keybindings'
+
+// Matches in the file name rank above matches spread over the folders
+const FILE_NAME_BONUS = 20
+
+const WORD_SEPARATORS = '/\\_-. '
+
+const MODIFIER_KEYS = new Set(['Control', 'Shift', 'Alt', 'Meta', 'AltGraph', 'CapsLock'])
+
+// Punctuation named by its position on the keyboard, so Shift does not change the name
+const CODE_KEYS: Record<string, string> = {
+  Equal: '=',
+  Minus: '-',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: '\'',
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Backquote: '`',
+  Space: 'Space'
+}
+
+const IS_MAC = /Mac/.test(navigator.platform)
+
+function isWordStart(text: string, index: number): boolean {
+  if (index === 0) return true
+  const previous = text[index - 1]
+  if (WORD_SEPARATORS.includes(previous)) return true
+  // camelCase humps
+  return previous === previous.toLowerCase() && text[index] !== text[index].toLowerCase()
+}
+
+// The characters of `query` in order within `text`, ignoring case. The match ends where the
+// first complete match ends and starts as late as possible, which keeps it compact. Consecutive
+// characters, word starts and exact case score higher; gaps score lower.
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  if (!query) return { score: 0, positions: [] }
+  const lowerQuery = query.toLowerCase()
+  const lowerText = text.toLowerCase()
+
+  let q = 0
+  let end = -1
+  for (let i = 0; i < lowerText.length; i++) {
+    if (lowerText[i] === lowerQuery[q] && ++q === lowerQuery.length) {
+      end = i
+      break
+    }
+  }
+  if (end === -1) return null
+
+  const positions: number[] = []
+  q = lowerQuery.length - 1
+  for (let i = end; i >= 0 && q >= 0; i--) {
+    if (lowerText[i] === lowerQuery[q]) {
+      positions.unshift(i)
+      q--
+    }
+  }
+
+  let score = 0
+  positions.forEach((position, i) => {
+    score += 1
+    if (i > 0 && position === positions[i - 1] + 1) score += 5
+    else if (i > 0) score -= Math.min(position - positions[i - 1] - 1, 5) * 0.5
+    if (isWordStart(text, position)) score += 8
+    if (text[position] === query[i]) score += 1
+  })
+  // Among equal matches, earlier and shorter ones win
+  return { score: score - positions[0] * 0.1 - text.length * 0.01, positions }
+}
+
+// Quick Open: recently opened files first when there is no query, otherwise the best matches,
+// preferring those in the file name and then the recent ones
+export function matchFiles(query: string, names: string[], recent: string[]): FileMatch[] {
+  const pattern = query.replace(/\s+/g, '')
+  const recency = new Map(recent.map((name, i) => [name, i]))
+  const matches: (FileMatch & { score: number })[] = []
+  for (const name of names) {
+    const slash = name.lastIndexOf('/')
+    let match = pattern.includes('/') ? null : fuzzyMatch(pattern, name.slice(slash + 1))
+    if (match) {
+      match = { score: match.score + FILE_NAME_BONUS, positions: match.positions.map(position => position + slash + 1) }
+    } else {
+      match = fuzzyMatch(pattern, name)
+    }
+    if (match) matches.push({ name, positions: match.positions, recent: recency.has(name), score: match.score })
+  }
+  const rank = (name: string) => recency.get(name) ?? recent.length
+  return matches.sort((a, b) => b.score - a.score || rank(a.name) - rank(b.name) || a.name.localeCompare(b.name))
+}
+
+// Ranges [start, end) covering the matched characters, for highlighting
+export function getMatchRanges(positions: number[], offset = 0): [number, number][] {
+  const ranges: [number, number][] = []
+  for (const position of positions) {
+    const last = ranges[ranges.length - 1]
+    if (last && last[1] === position - offset) last[1]++
+    else ranges.push([position - offset, position - offset + 1])
+  }
+  return ranges
+}
+
+// Name of a key combination, e.g. "Ctrl+Shift+P"; Cmd counts as Ctrl. Null while only modifiers are down.
+export function getKeybinding(event: KeyEvent): string | null {
+  if (MODIFIER_KEYS.has(event.key)) return null
+  let key: string
+  if (/^Key[A-Z]$/.test(event.code)) key = event.code.slice(3)
+  else if (/^Digit\d$/.test(event.code)) key = event.code.slice(5)
+  else if (CODE_KEYS[event.code]) key = CODE_KEYS[event.code]
+  else if (event.key.length === 1) key = event.key.toUpperCase()
+  else key = event.key
+
+  const parts: string[] = []
+  if (event.ctrlKey || event.metaKey) parts.push('Ctrl')
+  if (event.shiftKey) parts.push('Shift')
+  if (event.altKey) parts.push('Alt')
+  parts.push(key)
+  return parts.join('+')
+}
+
+// Shortcuts without Ctrl or Alt type text, so they are not taken from text fields
+export function isTypingKeybinding(keybinding: string): boolean {
+  return !/(^|\+)(Ctrl|Alt)\+/.test(keybinding) && !/^(Shift\+)?(F\d+|Escape)$/.test(keybinding)
+}
+
+export function formatKeybinding(keybinding: string): string {
+  if (!IS_MAC) return keybinding
+  return keybinding.replace('Ctrl+', '⌘').replace('Shift+', '⇧').replace('Alt+', '⌥')
+}
+
+// The shortcut of every command, with the user's changes applied
+export function resolveKeybindings(commands: KeybindingCommand[], overrides: KeybindingOverrides): Map<string, string> {
+  const keybindings = new Map<string, string>()
+  for (const command of commands) {
+    const keybinding = command.id in overrides ? overrides[command.id] : command.keybinding
+    if (keybinding) keybindings.set(command.id, keybinding)
+  }
+  return keybindings
+}
+
+// Binds `keybinding` to a command, taking it away from any other command that had it
+export function assignKeybinding(
+  commands: KeybindingCommand[],
+  overrides: KeybindingOverrides,
+  id: string,
+  keybinding: string
+): KeybindingOverrides {
+  const next: KeybindingOverrides = { ...overrides }
+  resolveKeybindings(commands, overrides).forEach((current, commandId) => {
+    if (current === keybinding && commandId !== id) next[commandId] = null
+  })
+  const original = commands.find(command => command.id === id)?.keybinding
+  if (original === keybinding) delete next[id]
+  else next[id] = keybinding
+  return next
+}
+
+export async function loadKeybindings(): Promise<KeybindingOverrides> {
+  const result = await chrome.storage.local.get(KEYBINDINGS_STORAGE_KEY)
+  const overrides = result[KEYBINDINGS_STORAGE_KEY]
+  return overrides && typeof overrides === 'object' ? overrides : {}
+}
+
+export async function saveKeybindings(overrides: KeybindingOverrides): Promise<void> {
+  await chrome.storage.local.set({ [KEYBINDINGS_STORAGE_KEY]: overrides })
+}
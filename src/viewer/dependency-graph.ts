@@ -0,0 +1,267 @@
+import { FileEntry, getPosition } from './latex-features'
+import { LatexProject, dirname, joinPath, stripComments } from './project'
+
+// File dependency graph of a paper: TeX files, local packages and classes, bibliographies
+// and graphics, connected by the commands that pull them in.
+
+export type GraphNodeKind = 'tex' | 'style' | 'bibliography' | 'graphic' | 'missing'
+export type GraphEdgeKind = 'input' | 'package' | 'bibliography' | 'graphic'
+
+export interface GraphNode {
+  id: string // file name, or "missing:<path>" for targets that are not in the sources
+  label: string
+  kind: GraphNodeKind
+  file: string | null
+}
+
+export interface GraphEdge {
+  from: string
+  to: string
+  kind: GraphEdgeKind
+  line: number
+  column: number // 1-based, of the command in the including file
+  endColumn: number // after the command, or the end of its first line
+}
+
+export interface DependencyGraph {
+  root: string | null
+  nodes: GraphNode[]
+  edges: GraphEdge[] // in source order for each file
+}
+
+// A row of the graph drawn as an indented tree: every node is placed once, under the first
+// file that references it; later references become duplicate rows pointing back at it.
+export interface GraphRow {
+  node: GraphNode
+  depth: number
+  edge: GraphEdge | null // edge from the parent row, null for top-level rows
+  parent: number | null // index of the parent row
+  duplicate: boolean
+  detached: boolean // not reachable from the root document
+}
+
+// pdfLaTeX's search order for extension-less graphics, then the formats of latex + dvips and
+// others that turn up in submissions
+const GRAPHIC_EXTENSIONS = ['pdf', 'png', 'jpg', 'mps', 'jpeg', 'jbig2', 'jb2', 'eps', 'ps', 'gif', 'svg', 'tif', 'tiff']
+
+export function getNodeKind(name: string): GraphNodeKind | null {
+  const ext = name.split('.').pop()?.toLowerCase() || ''
+  if (['tex', 'ltx'].includes(ext)) return 'tex'
+  if (['sty', 'cls'].includes(ext)) return 'style'
+  if (ext === 'bib') return 'bibliography'
+  if (GRAPHIC_EXTENSIONS.includes(ext)) return 'graphic'
+  return null
+}
+
+function splitList(list: string): string[] {
+  return list.split(',').map(item => item.trim()).filter(Boolean)
+}
+
+// Paths resolve against the root document's directory, falling back to the referencing file's
+// directory. Extensions are tried in order when the exact name is not among the sources,
+// ignoring case since archives made on Windows or macOS often have "Figure.PNG" for "figure.png".
+function createPathResolver(files: FileEntry[], project: LatexProject) {
+  const byName = new Map(files.map(f => [f.name, f]))
+  const byLowerName = new Map(files.map(f => [f.name.toLowerCase(), f]))
+  const rootDir = project.root ? dirname(project.root.name) : ''
+  const lookup = (name: string) => byName.get(name) || byLowerName.get(name.toLowerCase())
+  return (from: FileEntry, path: string, extensions: string[]): FileEntry | null => {
+    for (const dir of [...new Set([rootDir, dirname(from.name)])]) {
+      const base = joinPath(dir, path)
+      const found = lookup(base) || extensions.map(ext => lookup(`${base}.${ext}`)).find(Boolean)
+      if (found) return found
+    }
+    return null
+  }
+}
+
+// Resolve the path of an \includegraphics like graphicx does: relative to the document, then
+// in each directory of \graphicspath, trying the extensions of \DeclareGraphicsExtensions (or
+// the default order) for names without one. The preamble may be split across several files.
+export function createGraphicResolver(files: FileEntry[], project: LatexProject): (from: FileEntry, path: string) => FileEntry | null {
+  const resolve = createPathResolver(files, project)
+  const graphicsPaths: string[] = []
+  let extensions = GRAPHIC_EXTENSIONS
+  for (const file of project.root ? project.files : files.filter(f => f.isTeX)) {
+    const code = stripComments(file.content)
+    for (const match of code.matchAll(/\\graphicspath\s*\{((?:\s*\{[^}]*\})+)\s*\}/g)) {
+      for (const dir of match[1].matchAll(/\{([^}]*)\}/g)) {
+        const path = dir[1].trim()
+        if (path && !graphicsPaths.includes(path)) graphicsPaths.push(path)
+      }
+    }
+    const declared = /\\DeclareGraphicsExtensions\s*\{([^}]*)\}/.exec(code)
+    if (declared) {
+      const list = splitList(declared[1]).map(ext => ext.replace(/^\./, '').toLowerCase())
+      // Keep the other formats as a fallback, so a figure converted for another engine is still found
+      extensions = [...new Set([...list, ...GRAPHIC_EXTENSIONS])]
+    }
+  }
+
+  return (from, path) => {
+    let target = resolve(from, path, extensions)
+    for (const dir of graphicsPaths) {
+      if (target) break
+      target = resolve(from, joinPath(dir, path), extensions)
+    }
+    return target
+  }
+}
+
+export function buildDependencyGraph(files: FileEntry[], project: LatexProject): DependencyGraph {
+  const byName = new Map(files.map(f => [f.name, f]))
+  const nodes = new Map<string, GraphNode>()
+  const edges: GraphEdge[] = []
+
+  for (const file of files) {
+    const kind = getNodeKind(file.name)
+    if (kind) {
+      nodes.set(file.name, { id: file.name, label: file.name, kind, file: file.name })
+    }
+  }
+
+  const addEdge = (from: FileEntry, target: FileEntry | null, path: string, kind: GraphEdgeKind, start: number, end: number) => {
+    let to = target?.name
+    if (target && !nodes.has(target.name)) {
+      // e.g. an \input of a file without a TeX extension
+      nodes.set(target.name, { id: target.name, label: target.name, kind: 'tex', file: target.name })
+    }
+    if (!to) {
+      to = `missing:${path}`
+      if (!nodes.has(to)) {
+        nodes.set(to, { id: to, label: path, kind: 'missing', file: null })
+      }
+    }
+    // Comments are blanked out in place, so offsets into the stripped code are offsets into the file
+    const { line, column, lineContent } = getPosition(from, start)
+    edges.push({
+      from: from.name,
+      to,
+      kind,
+      line,
+      column,
+      endColumn: column + Math.min(end - start, lineContent.length - column + 1)
+    })
+  }
+
+  const resolve = createPathResolver(files, project)
+
+  // Packages only count when the sources ship them; everything else comes from the TeX distribution
+  const resolveLocal = (from: FileEntry, name: string, ext: string): FileEntry | null => {
+    const local = resolve(from, name, [ext])
+    if (local) return local
+    const suffix = `/${name}.${ext}`
+    return files.find(f => f.name.endsWith(suffix)) || null
+  }
+
+  const root = project.root
+  const resolveGraphic = createGraphicResolver(files, project)
+
+  for (const file of files) {
+    const kind = nodes.get(file.name)?.kind
+    if (kind !== 'tex' && kind !== 'style') continue
+
+    const code = stripComments(file.content)
+    const found: { index: number; add: () => void }[] = []
+
+    for (const include of project.includes) {
+      if (include.from !== file.name) continue
+      found.push({
+        index: include.index,
+        add: () => addEdge(file, include.file ? byName.get(include.file) || null : null, include.path, 'input', include.index, include.end)
+      })
+    }
+
+    const packageRegex = /\\(usepackage|RequirePackage|documentclass|LoadClass)\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/g
+    let match
+    while ((match = packageRegex.exec(code)) !== null) {
+      const ext = match[1] === 'documentclass' || match[1] === 'LoadClass' ? 'cls' : 'sty'
+      const index = match.index
+      const end = index + match[0].length
+      for (const name of splitList(match[2])) {
+        const target = resolveLocal(file, name, ext)
+        if (target && target !== file) {
+          found.push({ index, add: () => addEdge(file, target, name, 'package', index, end) })
+        }
+      }
+    }
+
+    const bibRegex = /\\(bibliography|addbibresource|addglobalbib)\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/g
+    while ((match = bibRegex.exec(code)) !== null) {
+      const index = match.index
+      const end = index + match[0].length
+      for (const name of splitList(match[2])) {
+        const path = name.endsWith('.bib') ? name : `${name}.bib`
+        found.push({
+          index,
+          add: () => addEdge(file, resolve(file, path, []), path, 'bibliography', index, end)
+        })
+      }
+    }
+
+    const graphicRegex = /\\includegraphics\*?\s*(?:\[[^\]]*\])*\s*\{([^}]*)\}/g
+    while ((match = graphicRegex.exec(code)) !== null) {
+      const index = match.index
+      const end = index + match[0].length
+      const path = match[1].trim().replace(/^"(.*)"$/, '$1')
+      if (!path) continue
+      const target = resolveGraphic(file, path)
+      found.push({ index, add: () => addEdge(file, target, path, 'graphic', index, end) })
+    }
+
+    found.sort((a, b) => a.index - b.index)
+    found.forEach(item => item.add())
+  }
+
+  return { root: root?.name ?? null, nodes: [...nodes.values()], edges }
+}
+
+export function layoutDependencyGraph(graph: DependencyGraph): GraphRow[] {
+  const nodes = new Map(graph.nodes.map(node => [node.id, node]))
+  const outgoing = new Map<string, GraphEdge[]>()
+  for (const edge of graph.edges) {
+    const list = outgoing.get(edge.from) || []
+    list.push(edge)
+    outgoing.set(edge.from, list)
+  }
+
+  const rows: GraphRow[] = []
+  const placed = new Set<string>()
+
+  const place = (id: string, depth: number, edge: GraphEdge | null, parent: number | null, detached: boolean) => {
+    const node = nodes.get(id)
+    if (!node) return
+    if (placed.has(id)) {
+      rows.push({ node, depth, edge, parent, duplicate: true, detached })
+      return
+    }
+    placed.add(id)
+    const index = rows.length
+    rows.push({ node, depth, edge, parent, duplicate: false, detached })
+    for (const child of outgoing.get(id) || []) {
+      place(child.to, depth + 1, child, index, detached)
+    }
+  }
+
+  if (graph.root) {
+    place(graph.root, 0, null, null, false)
+  }
+
+  // Files the root never reaches, starting with those nothing references (e.g. a standalone
+  // figure source), so files they pull in are drawn beneath them
+  const referenced = new Set(graph.edges.map(edge => edge.to))
+  const order: GraphNodeKind[] = ['tex', 'style', 'bibliography', 'graphic', 'missing']
+  const rest = graph.nodes
+    .filter(node => !placed.has(node.id))
+    .sort((a, b) =>
+      Number(referenced.has(a.id)) - Number(referenced.has(b.id)) ||
+      order.indexOf(a.kind) - order.indexOf(b.kind) ||
+      a.label.localeCompare(b.label))
+  for (const node of rest) {
+    if (!placed.has(node.id)) {
+      place(node.id, 0, null, null, true)
+    }
+  }
+
+  return rows
+}
@@ -0,0 +1,330 @@
+import {
+  FileEntry,
+  MacroDefinition,
+  collectBibliography,
+  collectCitations,
+  collectKeyUses,
+  collectMacroDefinitions,
+  collectMacros,
+  getPosition
+} from './latex-features'
+import { IncludeReference, LatexProject, stripComments } from './project'
+import { buildDependencyGraph } from './dependency-graph'
+
+// Problems in a paper's sources that would break or degrade a rebuild: dangling references
+// and citations, duplicate labels, files the sources pull in but do not ship, and
+// environments that are never closed. Unused labels and bibliography entries are reported
+// as information only.
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info'
+
+export interface Diagnostic {
+  file: string
+  line: number
+  column: number // 1-based
+  endColumn: number
+  severity: DiagnosticSeverity
+  message: string
+  code: string // e.g. "undefined-reference"
+}
+
+// Environments whose contents are not LaTeX, so \begin and \end inside them do not count
+const VERBATIM_ENVIRONMENTS = new Set(['verbatim', 'verbatim*', 'Verbatim', 'lstlisting', 'minted', 'comment', 'filecontents', 'filecontents*'])
+
+// Inputs that come from the TeX distribution rather than the paper, e.g. arXiv's pdfTeX setup
+const DISTRIBUTION_INPUTS = new Set(['glyphtounicode', 'glyphtounicode.tex'])
+
+function createDiagnostic(file: FileEntry, index: number, length: number, severity: DiagnosticSeverity, code: string, message: string): Diagnostic {
+  const { line, column } = getPosition(file, index)
+  return { file: file.name, line, column, endColumn: column + length, severity, message, code }
+}
+
+// Diagnostic for a problem known by its line, underlining `text` if the line contains it
+function createLineDiagnostic(file: FileEntry, line: number, text: string, severity: DiagnosticSeverity, code: string, message: string): Diagnostic {
+  const lineContent = file.content.split('\n')[line - 1] ?? ''
+  const found = lineContent.indexOf(text)
+  const column = found + 1 || 1
+  return { file: file.name, line, column, endColumn: found === -1 ? lineContent.length + 1 : column + text.length, severity, message, code }
+}
+
+function checkLabels(files: FileEntry[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = []
+  const defined = new Map<string, { file: FileEntry; index: number }>()
+  const definitions: { key: string; file: FileEntry; index: number }[] = []
+
+  for (const file of files) {
+    if (!file.isTeX) continue
+    const content = stripComments(file.content)
+    const regex = /\\label\s*\{([^}]+)\}/g
+    let match
+    while ((match = regex.exec(content)) !== null) {
+      const key = match[1].trim()
+      // Labels built from macro arguments, e.g. \label{#1} in a \newcommand
+      if (key.includes('#')) continue
+      const index = match.index + match[0].indexOf(match[1])
+      const first = defined.get(key)
+      if (first) {
+        const { line } = getPosition(first.file, first.index)
+        diagnostics.push(createDiagnostic(file, index, match[1].length, 'warning', 'duplicate-label',
+          `Label "${key}" is already defined in ${first.file.name}:${line}`))
+        continue
+      }
+      defined.set(key, { file, index })
+      definitions.push({ key, file, index })
+    }
+  }
+
+  const used = new Set<string>()
+  for (const use of collectKeyUses(files, 'label')) {
+    used.add(use.key)
+    if (defined.has(use.key) || use.key.includes('#')) continue
+    const { file, line, column, endColumn } = use.location
+    diagnostics.push({ file, line, column, endColumn, severity: 'warning', code: 'undefined-reference', message: `Reference to undefined label "${use.key}"` })
+  }
+  // \hyperref[key]{text} links to a label without printing its number
+  for (const file of files) {
+    if (!file.isTeX) continue
+    for (const match of stripComments(file.content).matchAll(/\\hyperref\s*\[([^\]]+)\]/g)) {
+      used.add(match[1].trim())
+    }
+  }
+
+  for (const { key, file, index } of definitions) {
+    if (!used.has(key)) {
+      diagnostics.push(createDiagnostic(file, index, key.length, 'info', 'unused-label', `Label "${key}" is never referenced`))
+    }
+  }
+  return diagnostics
+}
+
+function checkCitations(files: FileEntry[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = []
+  const citations = collectCitations(files)
+  const used = new Set<string>()
+
+  for (const use of collectKeyUses(files, 'citation')) {
+    used.add(use.key)
+    if (use.key === '*' || use.key.includes('#') || citations.has(use.key)) continue
+    const { file, line, column, endColumn } = use.location
+    diagnostics.push({ file, line, column, endColumn, severity: 'warning', code: 'undefined-citation', message: `Citation "${use.key}" is not in the bibliography` })
+  }
+
+  // \nocite{*} puts every entry in the bibliography. Compiled bibliographies only contain
+  // cited entries, so only .bib entries can be unused.
+  if (!used.has('*')) {
+    const byName = new Map(files.map(f => [f.name, f]))
+    for (const citation of citations.values()) {
+      const file = byName.get(citation.file)
+      if (used.has(citation.key) || !file || !file.name.toLowerCase().endsWith('.bib')) continue
+      diagnostics.push(createLineDiagnostic(file, citation.line, citation.key, 'info', 'unused-citation',
+        `Bibliography entry "${citation.key}" is never cited`))
+    }
+  }
+
+  for (const error of collectBibliography(files).errors) {
+    diagnostics.push({
+      file: error.file,
+      line: error.line,
+      column: error.column,
+      endColumn: error.column + 1,
+      severity: error.severity,
+      code: 'bibtex',
+      message: error.message
+    })
+  }
+  return diagnostics
+}
+
+function checkMissingFiles(files: FileEntry[], project: LatexProject): Diagnostic[] {
+  const diagnostics: Diagnostic[] = []
+  const byName = new Map(files.map(f => [f.name, f]))
+
+  for (const include of project.includes) {
+    // \InputIfFileExists is meant to tolerate a missing file
+    if (include.file || include.command === 'InputIfFileExists' || DISTRIBUTION_INPUTS.has(include.path)) continue
+    const file = byName.get(include.from)
+    if (!file) continue
+    const { line, column } = getPosition(file, include.index)
+    const length = file.content.indexOf('}', include.index) + 1 - include.index
+    diagnostics.push({
+      file: file.name,
+      line,
+      column,
+      endColumn: column + (length > 0 ? length : include.command.length + 1),
+      severity: 'error',
+      code: 'missing-input',
+      message: `\\${include.command} target "${include.path}" is not in the sources`
+    })
+  }
+
+  // A missing .bib only matters if there is no compiled bibliography to fall back on
+  const hasBbl = files.some(f => f.name.toLowerCase().endsWith('.bbl'))
+  const graph = buildDependencyGraph(files, project)
+  const labels = new Map(graph.nodes.map(node => [node.id, node.label]))
+  for (const edge of graph.edges) {
+    if (!edge.to.startsWith('missing:')) continue
+    const file = byName.get(edge.from)
+    const path = labels.get(edge.to) || edge.to
+    if (!file) continue
+    if (edge.kind === 'graphic') {
+      diagnostics.push(createLineDiagnostic(file, edge.line, path, 'error', 'missing-graphic', `Graphic "${path}" is not in the sources`))
+    } else if (edge.kind === 'bibliography' && !hasBbl) {
+      diagnostics.push(createLineDiagnostic(file, edge.line, path.replace(/\.bib$/, ''), 'error', 'missing-bibliography',
+        `Bibliography "${path}" is not in the sources and there is no .bbl file`))
+    }
+  }
+  return diagnostics
+}
+
+interface EnvironmentToken {
+  kind: 'begin' | 'end'
+  name: string
+  file: FileEntry
+  index: number // of the \begin or \end, or of the command that expands to it
+  length: number
+}
+
+type EnvironmentCommand = Pick<EnvironmentToken, 'kind' | 'name'>
+
+const ENVIRONMENT_REGEX = /\\(begin|end)\s*\{([^}]+)\}/g
+
+// \begin and \end in a definition's body, e.g. the \end{equation} of \def\eeq{\end{equation}}
+function findEnvironmentCommands(body: string | undefined): EnvironmentCommand[] {
+  if (!body) return []
+  return [...body.matchAll(ENVIRONMENT_REGEX)]
+    .filter(match => !match[2].includes('#'))
+    .map(match => ({ kind: match[1] === 'begin' ? 'begin' : 'end', name: match[2].trim() }))
+}
+
+// The \begin and \end of a file in order. Definitions are skipped, and uses of the commands and
+// environments they define are replaced by the \begin and \end in their bodies.
+function collectEnvironmentTokens(file: FileEntry, definitions: MacroDefinition[], macros: Map<string, MacroDefinition>): EnvironmentToken[] {
+  const tokens: EnvironmentToken[] = []
+  const content = stripComments(file.content)
+  const skipped = definitions.filter(definition => definition.file === file.name)
+  let nextSkipped = 0
+  const regex = /\\(begin|end)\s*\{([^}]+)\}|\\[a-zA-Z@]+/g
+  let match
+  while ((match = regex.exec(content)) !== null) {
+    const index = match.index
+    while (nextSkipped < skipped.length && skipped[nextSkipped].index + skipped[nextSkipped].source.length <= index) nextSkipped++
+    const definition = skipped[nextSkipped]
+    if (definition && definition.index <= index) {
+      regex.lastIndex = definition.index + definition.source.length
+      continue
+    }
+    const length = match[0].length
+    const add = (commands: EnvironmentCommand[]) => {
+      for (const command of commands) tokens.push({ ...command, file, index, length })
+    }
+
+    if (!match[1]) {
+      const macro = macros.get(match[0])
+      if (macro?.kind === 'command') add(findEnvironmentCommands(macro.body))
+      continue
+    }
+    const name = match[2].trim()
+    const defined = macros.get(name)
+    const environment = defined?.kind === 'environment' ? defined : undefined
+    if (match[1] === 'end') {
+      add([...findEnvironmentCommands(environment?.endBody), { kind: 'end', name }])
+      continue
+    }
+    add([{ kind: 'begin', name }, ...findEnvironmentCommands(environment?.body)])
+    if (VERBATIM_ENVIRONMENTS.has(name)) {
+      // Skip to the matching \end, which verbatim environments require literally
+      const end = content.indexOf(`\\end{${name}}`, regex.lastIndex)
+      if (end === -1) break
+      regex.lastIndex = end
+    }
+  }
+  return tokens
+}
+
+// Environments are balanced along the include graph, so one begun in the root document may end
+// in a file it \input's. Files the root does not reach are checked on their own.
+function checkEnvironments(files: FileEntry[], project: LatexProject): Diagnostic[] {
+  const diagnostics: Diagnostic[] = []
+  const definitions = collectMacroDefinitions(files)
+  const macros = collectMacros(files)
+  const byName = new Map(files.map(f => [f.name, f]))
+  const includes = new Map<string, IncludeReference[]>()
+  for (const include of project.includes) {
+    const list = includes.get(include.from) || []
+    list.push(include)
+    includes.set(include.from, list)
+  }
+  const isChecked = (file: FileEntry | null | undefined): file is FileEntry => Boolean(file?.isTeX && !file.isBinary)
+  const visited = new Set<string>()
+  let stack: EnvironmentToken[] = []
+
+  const handle = (token: EnvironmentToken) => {
+    if (token.kind === 'begin') {
+      stack.push(token)
+      return
+    }
+    const open = stack.map(env => env.name).lastIndexOf(token.name)
+    if (open === -1) {
+      diagnostics.push(createDiagnostic(token.file, token.index, token.length, 'error', 'unbalanced-environment',
+        `\\end{${token.name}} without a matching \\begin{${token.name}}`))
+      return
+    }
+    // Environments opened after the matching \begin were never closed
+    for (const env of stack.splice(open).slice(1)) {
+      const { line } = getPosition(token.file, token.index)
+      const location = env.file === token.file ? `line ${line}` : `${token.file.name}:${line}`
+      diagnostics.push(createDiagnostic(env.file, env.index, env.length, 'error', 'unbalanced-environment',
+        `\\begin{${env.name}} is ended by \\end{${token.name}} on ${location}`))
+    }
+  }
+
+  const walk = (file: FileEntry) => {
+    visited.add(file.name)
+    const fileIncludes = includes.get(file.name) || []
+    let nextInclude = 0
+    // Included files are read where their \input is
+    const enterIncludes = (until: number) => {
+      while (nextInclude < fileIncludes.length && fileIncludes[nextInclude].index < until) {
+        const include = fileIncludes[nextInclude++]
+        const target = include.file ? byName.get(include.file) : undefined
+        if (isChecked(target) && !visited.has(target.name)) walk(target)
+      }
+    }
+    for (const token of collectEnvironmentTokens(file, definitions, macros)) {
+      enterIncludes(token.index)
+      handle(token)
+    }
+    enterIncludes(Infinity)
+  }
+
+  const check = (file: FileEntry) => {
+    walk(file)
+    for (const env of stack) {
+      diagnostics.push(createDiagnostic(env.file, env.index, env.length, 'error', 'unbalanced-environment',
+        `\\begin{${env.name}} is never ended`))
+    }
+    stack = []
+  }
+
+  if (isChecked(project.root)) check(project.root)
+  // Unreached files that no other file includes come first, so included ones are read in context
+  const included = new Set(project.includes.map(include => include.file))
+  const rest = files.filter(file => isChecked(file) && !visited.has(file.name))
+  for (const file of [...rest.filter(f => !included.has(f.name)), ...rest]) {
+    if (!visited.has(file.name)) check(file)
+  }
+  return diagnostics
+}
+
+export function collectDiagnostics(files: FileEntry[], project: LatexProject): Diagnostic[] {
+  const diagnostics = [
+    ...checkLabels(files),
+    ...checkCitations(files),
+    ...checkMissingFiles(files, project),
+    ...checkEnvironments(files, project)
+  ]
+
+  const order = new Map(files.map((f, i) => [f.name, i]))
+  return diagnostics.sort((a, b) =>
+    (order.get(a.file) ?? 0) - (order.get(b.file) ?? 0) || a.line - b.line || a.column - b.column)
+}
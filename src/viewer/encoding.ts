@@ -0,0 +1,243 @@
+// Character encoding detection for text files in paper sources.
+//
+// Older submissions are often not UTF-8. The encoding is taken from a byte order mark,
+// then from the file's own declaration (\usepackage[...]{inputenc}, a CJK environment or
+// a "% !TEX encoding" magic comment) or the one inherited from the root document that
+// includes it, and finally guessed from the bytes themselves.
+
+export interface EncodingOption {
+  label: string // WHATWG encoding label understood by TextDecoder
+  name: string // name shown in the status bar
+}
+
+export const ENCODINGS: EncodingOption[] = [
+  { label: 'utf-8', name: 'UTF-8' },
+  { label: 'utf-16le', name: 'UTF-16 LE' },
+  { label: 'utf-16be', name: 'UTF-16 BE' },
+  { label: 'iso-8859-1', name: 'ISO-8859-1' },
+  { label: 'windows-1252', name: 'Windows-1252' },
+  { label: 'iso-8859-2', name: 'ISO-8859-2' },
+  { label: 'windows-1250', name: 'Windows-1250' },
+  { label: 'iso-8859-15', name: 'ISO-8859-15' },
+  { label: 'koi8-r', name: 'KOI8-R' },
+  { label: 'koi8-u', name: 'KOI8-U' },
+  { label: 'windows-1251', name: 'Windows-1251' },
+  { label: 'ibm866', name: 'CP866' },
+  { label: 'iso-8859-7', name: 'ISO-8859-7' },
+  { label: 'macintosh', name: 'Mac Roman' },
+  { label: 'shift_jis', name: 'Shift_JIS' },
+  { label: 'euc-jp', name: 'EUC-JP' },
+  { label: 'gbk', name: 'GBK' },
+  { label: 'big5', name: 'Big5' },
+  { label: 'euc-kr', name: 'EUC-KR' },
+]
+
+export function getEncodingName(label: string | undefined): string {
+  if (!label) return 'UTF-8'
+  return ENCODINGS.find(e => e.label === label)?.name || label.toUpperCase()
+}
+
+// inputenc options (and CJK package encodings) mapped to TextDecoder labels
+const INPUTENC_LABELS: Record<string, string> = {
+  utf8: 'utf-8',
+  utf8x: 'utf-8',
+  latin1: 'iso-8859-1',
+  latin2: 'iso-8859-2',
+  latin3: 'iso-8859-3',
+  latin4: 'iso-8859-4',
+  latin5: 'iso-8859-9',
+  latin9: 'iso-8859-15',
+  latin10: 'iso-8859-16',
+  ansinew: 'windows-1252',
+  cp1250: 'windows-1250',
+  cp1251: 'windows-1251',
+  cp1252: 'windows-1252',
+  cp1257: 'windows-1257',
+  cp866: 'ibm866',
+  'koi8-r': 'koi8-r',
+  'koi8-u': 'koi8-u',
+  applemac: 'macintosh',
+  GB: 'gbk',
+  GBK: 'gbk',
+  Bg5: 'big5',
+  SJIS: 'shift_jis',
+  JIS: 'iso-2022-jp',
+  KS: 'euc-kr',
+}
+
+// Most frequent Russian letters (о е а и н т с р) in each single-byte Cyrillic encoding
+const CYRILLIC_FREQUENT: Record<string, number[]> = {
+  'windows-1251': [0xee, 0xe5, 0xe0, 0xe8, 0xed, 0xf2, 0xf1, 0xf0],
+  'koi8-r': [0xcf, 0xc5, 0xc1, 0xc9, 0xce, 0xd4, 0xd3, 0xd2],
+}
+
+// Declarations are only looked for near the top of the file, where the preamble lives
+const DECLARATION_SCAN_BYTES = 16 * 1024
+
+function detectBom(data: Uint8Array): string | null {
+  if (data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) return 'utf-8'
+  if (data[0] === 0xff && data[1] === 0xfe) return 'utf-16le'
+  if (data[0] === 0xfe && data[1] === 0xff) return 'utf-16be'
+  return null
+}
+
+function isValidUtf8(data: Uint8Array): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(data)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function findDeclaredEncoding(data: Uint8Array): string | null {
+  // Declarations are ASCII, so a Latin-1 view of the bytes is enough to find them
+  const head = new TextDecoder('iso-8859-1').decode(data.subarray(0, DECLARATION_SCAN_BYTES))
+  const lines = head.split('\n').map(line => line.replace(/(^|[^\\])%.*$/, '$1'))
+
+  const magic = /^%\s*!TEX\s+encoding\s*=\s*([\w-]+)/im.exec(head)
+  if (magic) {
+    const label = magic[1].toLowerCase().replace(/^utf8$/, 'utf-8')
+    if (isSupportedLabel(label)) return label
+  }
+
+  const code = lines.join('\n')
+  const inputenc = /\\usepackage\s*\[([^\]]*)\]\s*\{inputenc\}/.exec(code)
+  if (inputenc) {
+    // Several encodings may be loaded; the last one is active
+    const options = inputenc[1].split(',').map(o => o.trim()).filter(o => INPUTENC_LABELS[o])
+    if (options.length > 0) return INPUTENC_LABELS[options[options.length - 1]]
+  }
+
+  const switched = /\\inputencoding\s*\{([^}]+)\}/.exec(code)
+  if (switched && INPUTENC_LABELS[switched[1].trim()]) return INPUTENC_LABELS[switched[1].trim()]
+
+  const cjk = /\\begin\s*\{CJK\*?\}\s*(?:\[[^\]]*\])?\s*\{([^}]+)\}/.exec(code)
+  if (cjk && INPUTENC_LABELS[cjk[1].trim()]) return INPUTENC_LABELS[cjk[1].trim()]
+
+  return null
+}
+
+function isSupportedLabel(label: string): boolean {
+  try {
+    new TextDecoder(label)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Guess a single-byte encoding for data that is not valid UTF-8
+function guessFromBytes(data: Uint8Array): string {
+  let high = 0
+  let highInRuns = 0
+  let c1Controls = 0
+  for (let i = 0; i < data.length; i++) {
+    const byte = data[i]
+    if (byte < 0x80) continue
+    high++
+    if (byte < 0xa0) c1Controls++
+    if ((data[i - 1] ?? 0) >= 0x80 || (data[i + 1] ?? 0) >= 0x80) highInRuns++
+  }
+
+  // Cyrillic words are whole runs of high bytes, while accented Latin letters mostly sit between ASCII ones
+  if (high > 0 && highInRuns / high > 0.6) {
+    let best = 'windows-1251'
+    let bestScore = -1
+    for (const [label, letters] of Object.entries(CYRILLIC_FREQUENT)) {
+      let score = 0
+      for (let i = 0; i < data.length; i++) {
+        if (letters.includes(data[i])) score++
+      }
+      if (score > bestScore) {
+        best = label
+        bestScore = score
+      }
+    }
+    return best
+  }
+
+  // 0x80-0x9F are control characters in ISO-8859-1 but printable (quotes, dashes) in Windows-1252
+  return c1Controls > 0 ? 'windows-1252' : 'iso-8859-1'
+}
+
+function hasHighBytes(data: Uint8Array): boolean {
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] >= 0x80) return true
+  }
+  return false
+}
+
+// `inherited` is the encoding declared by the document that includes the file, which TeX
+// keeps reading it in unless the file switches encodings itself
+export function detectEncoding(data: Uint8Array, inherited: string | null = null): string {
+  const bom = detectBom(data)
+  if (bom) return bom
+
+  const declared = findDeclaredEncoding(data) ?? inherited
+  // Pure ASCII decodes the same either way, so report what the file declares
+  if (!hasHighBytes(data)) return declared || 'utf-8'
+  // Non-ASCII text that happens to be valid UTF-8 is almost never anything else
+  if (isValidUtf8(data)) return 'utf-8'
+  if (declared && declared !== 'utf-8') return declared
+
+  return guessFromBytes(data)
+}
+
+export function decodeText(data: Uint8Array, label: string): string {
+  try {
+    // TextDecoder drops a matching BOM by default
+    return new TextDecoder(label).decode(data)
+  } catch {
+    return new TextDecoder().decode(data)
+  }
+}
+
+const SINGLE_BYTE_TABLES = new Map<string, Map<string, number> | null>()
+
+// Characters of a single-byte encoding mapped back to their bytes; null for multi-byte encodings
+function getSingleByteTable(label: string): Map<string, number> | null {
+  if (SINGLE_BYTE_TABLES.has(label)) return SINGLE_BYTE_TABLES.get(label)!
+  let table: Map<string, number> | null = null
+  if (isSupportedLabel(label)) {
+    const bytes = new Uint8Array(128).map((_, i) => 0x80 + i)
+    const chars = [...new TextDecoder(label).decode(bytes)]
+    if (chars.length === 128) {
+      table = new Map()
+      chars.forEach((ch, i) => {
+        if (ch !== '�') table!.set(ch, 0x80 + i)
+      })
+    }
+  }
+  SINGLE_BYTE_TABLES.set(label, table)
+  return table
+}
+
+// The bytes of edited text in the encoding the file was read with. Null when the encoding
+// cannot be written here (the CJK ones) or cannot represent every character of the text.
+export function encodeText(text: string, label: string | undefined): Uint8Array | null {
+  if (!label || label === 'utf-8') return new TextEncoder().encode(text)
+  if (label === 'utf-16le' || label === 'utf-16be') {
+    // With a byte order mark, as detectEncoding relies on it
+    const bytes = new Uint8Array(text.length * 2 + 2)
+    const view = new DataView(bytes.buffer)
+    const littleEndian = label === 'utf-16le'
+    view.setUint16(0, 0xfeff, littleEndian)
+    for (let i = 0; i < text.length; i++) view.setUint16(i * 2 + 2, text.charCodeAt(i), littleEndian)
+    return bytes
+  }
+  const table = getSingleByteTable(label)
+  if (!table) return null
+  const bytes = new Uint8Array(text.length)
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    if (code < 0x80) {
+      bytes[i] = code
+      continue
+    }
+    const byte = table.get(text[i])
+    if (byte === undefined) return null
+    bytes[i] = byte
+  }
+  return bytes
+}
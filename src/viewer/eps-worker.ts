@@ -0,0 +1,44 @@
+import { Matrix, renderPostScript } from './postscript'
+
+// Web Worker that runs a PostScript program on an OffscreenCanvas, so a slow or runaway figure
+// does not block the viewer. The page starts one worker per rendering and terminates it when
+// the rendering is no longer wanted.
+
+export type EpsWorkerRequest = { type: 'render'; program: Uint8Array; width: number; height: number; matrix: Matrix }
+
+export type EpsWorkerMessage =
+  | { type: 'rendered'; url: string; warnings: string[]; error: string | null }
+  | { type: 'error'; message: string }
+
+function post(message: EpsWorkerMessage) {
+  self.postMessage(message)
+}
+
+async function toDataUrl(blob: Blob): Promise<string> {
+  const data = new Uint8Array(await blob.arrayBuffer())
+  let binary = ''
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000))
+  }
+  return `data:${blob.type};base64,${btoa(binary)}`
+}
+
+async function render({ program, width, height, matrix }: EpsWorkerRequest) {
+  const canvas = new OffscreenCanvas(width, height)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Failed to create a canvas')
+  // Figures are drawn on paper, and are often unreadable on a dark background without it
+  ctx.fillStyle = 'white'
+  ctx.fillRect(0, 0, width, height)
+  const { warnings, error } = renderPostScript(program, ctx, matrix)
+  const url = await toDataUrl(await canvas.convertToBlob({ type: 'image/png' }))
+  post({ type: 'rendered', url, warnings, error })
+}
+
+self.onmessage = (event: MessageEvent<EpsWorkerRequest>) => {
+  if (event.data.type === 'render') {
+    render(event.data).catch((err) => {
+      post({ type: 'error', message: err?.message || 'Failed to run the PostScript program' })
+    })
+  }
+}
@@ -0,0 +1,493 @@
+import { FileEntry } from './latex-features'
+import { Matrix } from './postscript'
+import type { EpsWorkerMessage, EpsWorkerRequest } from './eps-worker'
+
+// EPS and PostScript previews. An EPS file may carry its own preview: a TIFF or WMF image in
+// the binary header DOS EPS files start with, or an EPSI bitmap in the comments. Otherwise the
+// PostScript is run to draw the figure. The DSC comments give the bounding box and metadata.
+
+export type EpsPreviewSource = 'postscript' | 'tiff' | 'epsi'
+
+export type BoundingBox = [number, number, number, number]
+
+export interface EpsInfo {
+  boundingBox: BoundingBox | null
+  hiResBoundingBox: BoundingBox | null
+  title: string | null
+  creator: string | null
+  creationDate: string | null
+  for: string | null
+  languageLevel: string | null
+  previews: EpsPreviewSource[] // available ways to show the file, the best first
+  hasWmfPreview: boolean // WMF previews are not drawn, only reported
+}
+
+export interface EpsRendering {
+  url: string // PNG data URL
+  width: number // natural size in CSS pixels, a point being one pixel
+  height: number
+  warnings: string[]
+  error: string | null
+}
+
+interface EpsParts {
+  info: EpsInfo
+  postscript: Uint8Array
+  tiff: Uint8Array | null
+}
+
+// US Letter, for PostScript files without a bounding box
+const DEFAULT_PAGE: BoundingBox = [0, 0, 612, 792]
+
+// Large enough for a sharp figure, small enough to keep the canvas cheap
+const MAX_CANVAS_SIDE = 4096
+
+// Milliseconds a program may run before its worker is terminated. Thumbnails wait in line, so
+// one slow figure gets less time there.
+const RENDER_TIMEOUT = 60_000
+const THUMBNAIL_TIMEOUT = 10_000
+
+const DSC_FIELDS = ['Title', 'Creator', 'CreationDate', 'For', 'LanguageLevel'] as const
+
+const partsCache = new WeakMap<FileEntry, EpsParts>()
+// A thumbnail is shared by everything that shows it, and cancelled once all of them are gone
+interface Thumbnail {
+  url: Promise<string>
+  controller: AbortController
+  waiting: number // callers that can still cancel; one without a signal keeps it for good
+}
+
+const thumbnailCache = new WeakMap<FileEntry, Map<number, Thumbnail>>()
+let thumbnailQueue: Promise<unknown> = Promise.resolve()
+
+export function isPostScriptFile(filename: string): boolean {
+  const ext = filename.split('.').pop()?.toLowerCase()
+  return ext === 'eps' || ext === 'ps'
+}
+
+function readUint32LE(data: Uint8Array, offset: number): number {
+  return (data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16) | (data[offset + 3] << 24)) >>> 0
+}
+
+function latin1(data: Uint8Array): string {
+  let text = ''
+  for (let i = 0; i < data.length; i += 0x8000) {
+    text += String.fromCharCode(...data.subarray(i, i + 0x8000))
+  }
+  return text
+}
+
+// DSC values may be written as PostScript strings
+function unquote(value: string): string {
+  const trimmed = value.trim()
+  const match = /^\((.*)\)$/.exec(trimmed)
+  return match ? match[1].replace(/\\([()\\])/g, '$1') : trimmed
+}
+
+function parseBoundingBox(value: string | undefined): BoundingBox | null {
+  if (!value) return null
+  const numbers = value.trim().split(/\s+/).map(Number)
+  if (numbers.length !== 4 || numbers.some(n => !Number.isFinite(n))) return null
+  const [x1, y1, x2, y2] = numbers
+  return x2 > x1 && y2 > y1 ? [x1, y1, x2, y2] : null
+}
+
+// Comments in the header, with "(atend)" values taken from the trailer
+function readComments(text: string): Map<string, string> {
+  const comments = new Map<string, string>()
+  const regex = /^%%([A-Za-z]+):[ \t]*(.*?)\r?$/gm
+  let match
+  while ((match = regex.exec(text)) !== null) {
+    const [, key, value] = match
+    const existing = comments.get(key)
+    if (existing === undefined || existing === '(atend)') comments.set(key, value)
+  }
+  return comments
+}
+
+function splitEps(data: Uint8Array): EpsParts {
+  let postscript = data
+  let tiff: Uint8Array | null = null
+  let hasWmfPreview = false
+
+  // DOS EPS: a binary header giving the offsets of the PostScript and of the previews
+  if (data.length >= 30 && data[0] === 0xc5 && data[1] === 0xd0 && data[2] === 0xd3 && data[3] === 0xc6) {
+    const section = (offsetAt: number) => {
+      const offset = readUint32LE(data, offsetAt)
+      const length = readUint32LE(data, offsetAt + 4)
+      return offset > 0 && length > 0 && offset + length <= data.length ? data.subarray(offset, offset + length) : null
+    }
+    postscript = section(4) ?? new Uint8Array(0)
+    hasWmfPreview = section(12) !== null
+    tiff = section(20)
+  }
+
+  // Comments sit at the start and, for "(atend)" values, the end of the program
+  const head = latin1(postscript.subarray(0, 65536))
+  const tail = postscript.length > 65536 ? latin1(postscript.subarray(Math.max(65536, postscript.length - 16384))) : ''
+  const comments = readComments(head + '\n' + tail)
+  const field = (key: typeof DSC_FIELDS[number]) => {
+    const value = comments.get(key)
+    return value !== undefined ? unquote(value) || null : null
+  }
+
+  const previews: EpsPreviewSource[] = []
+  if (postscript.length > 0) previews.push('postscript')
+  if (tiff) previews.push('tiff')
+  if (/^%%BeginPreview:/m.test(head)) previews.push('epsi')
+
+  return {
+    info: {
+      boundingBox: parseBoundingBox(comments.get('BoundingBox')),
+      hiResBoundingBox: parseBoundingBox(comments.get('HiResBoundingBox')),
+      title: field('Title'),
+      creator: field('Creator'),
+      creationDate: field('CreationDate'),
+      for: field('For'),
+      languageLevel: field('LanguageLevel'),
+      previews,
+      hasWmfPreview
+    },
+    postscript,
+    tiff
+  }
+}
+
+function getParts(file: FileEntry): EpsParts {
+  let parts = partsCache.get(file)
+  if (!parts) {
+    parts = splitEps(file.binaryData ?? new Uint8Array(0))
+    partsCache.set(file, parts)
+  }
+  return parts
+}
+
+export function getEpsInfo(file: FileEntry): EpsInfo {
+  return getParts(file).info
+}
+
+// --- Embedded previews ---
+
+function readTiffStrip(data: Uint8Array, compression: number): Uint8Array {
+  if (compression === 1) return data
+  if (compression === 32773) {
+    // PackBits
+    const output: number[] = []
+    for (let i = 0; i < data.length;) {
+      const n = (data[i++] << 24) >> 24
+      if (n >= 0) {
+        output.push(...data.subarray(i, i + n + 1))
+        i += n + 1
+      } else if (n !== -128) {
+        output.push(...new Array<number>(1 - n).fill(data[i++]))
+      }
+    }
+    return Uint8Array.from(output)
+  }
+  if (compression === 5) {
+    // LZW, most significant bit first, with codes widening one code early
+    const output: number[] = []
+    let table: number[][] = []
+    let width = 9
+    let previous: number[] | null = null
+    let bitBuffer = 0
+    let bitCount = 0
+    const reset = () => {
+      table = Array.from({ length: 258 }, (_, i) => [i])
+      width = 9
+      previous = null
+    }
+    reset()
+    for (let i = 0; i < data.length; i++) {
+      bitBuffer = ((bitBuffer << 8) | data[i]) >>> 0
+      bitCount += 8
+      while (bitCount >= width) {
+        const code = (bitBuffer >>> (bitCount - width)) & ((1 << width) - 1)
+        bitCount -= width
+        if (code === 256) {
+          reset()
+          continue
+        }
+        if (code === 257) return Uint8Array.from(output)
+        let entry: number[]
+        if (code < table.length) entry = table[code]
+        else if (previous) entry = [...previous, previous[0]]
+        else return Uint8Array.from(output)
+        output.push(...entry)
+        if (previous) table.push([...previous, entry[0]])
+        previous = entry
+        if (table.length + 1 >= 1 << width && width < 12) width++
+      }
+    }
+    return Uint8Array.from(output)
+  }
+  throw new Error(`TIFF compression ${compression} is not supported`)
+}
+
+// Baseline TIFF: uncompressed, PackBits or LZW; bilevel, grayscale, palette or RGB
+function decodeTiff(data: Uint8Array): ImageData {
+  const little = data[0] === 0x49
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const u16 = (offset: number) => view.getUint16(offset, little)
+  const u32 = (offset: number) => view.getUint32(offset, little)
+  if (u16(2) !== 42) throw new Error('Not a TIFF image')
+
+  const tags = new Map<number, number[]>()
+  const ifd = u32(4)
+  const count = u16(ifd)
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12
+    const tag = u16(entry)
+    const type = u16(entry + 2)
+    const n = u32(entry + 4)
+    const size = type === 3 ? 2 : type === 4 ? 4 : 1
+    const offset = n * size <= 4 ? entry + 8 : u32(entry + 8)
+    const values: number[] = []
+    for (let j = 0; j < n && offset + (j + 1) * size <= data.length; j++) {
+      values.push(size === 2 ? u16(offset + j * 2) : size === 4 ? u32(offset + j * 4) : data[offset + j])
+    }
+    tags.set(tag, values)
+  }
+
+  const tag = (id: number, fallback: number) => tags.get(id)?.[0] ?? fallback
+  const width = tag(256, 0)
+  const height = tag(257, 0)
+  const bitsPerSample = tag(258, 1)
+  const compression = tag(259, 1)
+  const photometric = tag(262, 1)
+  const samplesPerPixel = tag(277, 1)
+  const predictor = tag(317, 1)
+  const offsets = tags.get(273) ?? []
+  const byteCounts = tags.get(279) ?? []
+  const colorMap = tags.get(320)
+  if (width <= 0 || height <= 0 || width * height > 25_000_000) throw new Error('Invalid TIFF size')
+  if (tag(284, 1) !== 1) throw new Error('Planar TIFF images are not supported')
+
+  const rowBytes = Math.ceil(width * samplesPerPixel * bitsPerSample / 8)
+  const pixels = new Uint8Array(rowBytes * height)
+  let filled = 0
+  offsets.forEach((offset, i) => {
+    const strip = readTiffStrip(data.subarray(offset, offset + (byteCounts[i] ?? 0)), compression)
+    const bytes = strip.subarray(0, pixels.length - filled)
+    pixels.set(bytes, filled)
+    filled += bytes.length
+  })
+  if (predictor === 2 && bitsPerSample === 8) {
+    for (let y = 0; y < height; y++) {
+      for (let x = samplesPerPixel; x < rowBytes; x++) {
+        pixels[y * rowBytes + x] = (pixels[y * rowBytes + x] + pixels[y * rowBytes + x - samplesPerPixel]) & 0xff
+      }
+    }
+  }
+
+  const maxValue = (1 << bitsPerSample) - 1
+  const sample = (row: number, index: number) => {
+    if (bitsPerSample === 8) return pixels[row * rowBytes + index]
+    const bit = index * bitsPerSample
+    return (pixels[row * rowBytes + (bit >> 3)] >> (8 - bitsPerSample - (bit & 7))) & maxValue
+  }
+  const image = new ImageData(width, height)
+  const out = image.data
+  const paletteSize = 1 << bitsPerSample
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4
+      if (photometric === 2 && samplesPerPixel >= 3) {
+        out[p] = sample(y, x * samplesPerPixel)
+        out[p + 1] = sample(y, x * samplesPerPixel + 1)
+        out[p + 2] = sample(y, x * samplesPerPixel + 2)
+      } else if (photometric === 3 && colorMap) {
+        const index = sample(y, x * samplesPerPixel)
+        out[p] = colorMap[index] >> 8
+        out[p + 1] = colorMap[paletteSize + index] >> 8
+        out[p + 2] = colorMap[2 * paletteSize + index] >> 8
+      } else {
+        const value = Math.round(sample(y, x * samplesPerPixel) * 255 / maxValue)
+        // Photometric 0 is "white is zero"
+        out[p] = out[p + 1] = out[p + 2] = photometric === 0 ? 255 - value : value
+      }
+      out[p + 3] = 255
+    }
+  }
+  return image
+}
+
+// EPSI: a bitmap in hex comment lines between %%BeginPreview and %%EndPreview, 0 being white
+function decodeEpsi(postscript: Uint8Array): ImageData {
+  const text = latin1(postscript.subarray(0, Math.min(postscript.length, 8 * 1024 * 1024)))
+  const match = /^%%BeginPreview:\s*(\d+)\s+(\d+)\s+(\d+)[^\n]*\n([\s\S]*?)^%%EndPreview/m.exec(text)
+  if (!match) throw new Error('No EPSI preview')
+  const width = parseInt(match[1], 10)
+  const height = parseInt(match[2], 10)
+  const depth = parseInt(match[3], 10)
+  if (width <= 0 || height <= 0 || ![1, 2, 4, 8].includes(depth)) throw new Error('Invalid EPSI preview')
+
+  const hex = match[4].replace(/^%/gm, '').replace(/[^0-9a-fA-F]/g, '')
+  const rowBytes = Math.ceil(width * depth / 8)
+  const maxValue = (1 << depth) - 1
+  const image = new ImageData(width, height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const bit = x * depth
+      const byteIndex = y * rowBytes + (bit >> 3)
+      const byte = parseInt(hex.substr(byteIndex * 2, 2), 16) || 0
+      const value = (byte >> (8 - depth - (bit & 7))) & maxValue
+      const p = (y * width + x) * 4
+      image.data[p] = image.data[p + 1] = image.data[p + 2] = 255 - Math.round(value * 255 / maxValue)
+      image.data[p + 3] = 255
+    }
+  }
+  return image
+}
+
+// --- Rendering ---
+
+function imageToRendering(image: ImageData, size: number | null): EpsRendering {
+  const canvas = document.createElement('canvas')
+  canvas.width = image.width
+  canvas.height = image.height
+  canvas.getContext('2d')!.putImageData(image, 0, 0)
+  if (size === null || Math.max(image.width, image.height) <= size) {
+    return { url: canvas.toDataURL('image/png'), width: image.width, height: image.height, warnings: [], error: null }
+  }
+  const scale = size / Math.max(image.width, image.height)
+  const scaled = document.createElement('canvas')
+  scaled.width = Math.max(1, Math.round(image.width * scale))
+  scaled.height = Math.max(1, Math.round(image.height * scale))
+  scaled.getContext('2d')!.drawImage(canvas, 0, 0, scaled.width, scaled.height)
+  return { url: scaled.toDataURL('image/png'), width: scaled.width, height: scaled.height, warnings: [], error: null }
+}
+
+// Run the program in eps-worker. The worker is terminated after `timeout` ms, or when `signal`
+// says the rendering is no longer wanted.
+function renderProgram(parts: EpsParts, scale: number, signal: AbortSignal | undefined, timeout: number): Promise<EpsRendering> {
+  const [x1, y1, x2, y2] = parts.info.hiResBoundingBox ?? parts.info.boundingBox ?? DEFAULT_PAGE
+  const pixelScale = Math.min(scale, MAX_CANVAS_SIDE / (x2 - x1), MAX_CANVAS_SIDE / (y2 - y1))
+  const matrix: Matrix = [pixelScale, 0, 0, -pixelScale, -x1 * pixelScale, y2 * pixelScale]
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Rendering was cancelled', 'AbortError'))
+      return
+    }
+    const worker = new Worker(new URL('./eps-worker.ts', import.meta.url), { type: 'module' })
+    const settle = () => {
+      worker.terminate()
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', cancel)
+    }
+    const cancel = () => {
+      settle()
+      reject(new DOMException('Rendering was cancelled', 'AbortError'))
+    }
+    const timer = setTimeout(() => {
+      settle()
+      reject(new Error('The program ran too long'))
+    }, timeout)
+    signal?.addEventListener('abort', cancel, { once: true })
+
+    worker.onmessage = (event: MessageEvent<EpsWorkerMessage>) => {
+      const message = event.data
+      settle()
+      if (message.type === 'rendered') {
+        resolve({ url: message.url, width: x2 - x1, height: y2 - y1, warnings: message.warnings, error: message.error })
+      } else {
+        reject(new Error(message.message))
+      }
+    }
+
+    worker.onerror = (event) => {
+      settle()
+      reject(new Error(event.message || 'Failed to run the PostScript program'))
+    }
+
+    const request: EpsWorkerRequest = {
+      type: 'render',
+      program: parts.postscript,
+      width: Math.max(1, Math.ceil((x2 - x1) * pixelScale)),
+      height: Math.max(1, Math.ceil((y2 - y1) * pixelScale)),
+      matrix
+    }
+    worker.postMessage(request)
+  })
+}
+
+// Draw the file from `source`. For PostScript, `scale` is canvas pixels per point; embedded
+// previews come at their own resolution, scaled down to `maxSize` pixels when given.
+export async function renderEps(
+  file: FileEntry,
+  source: EpsPreviewSource,
+  scale: number,
+  maxSize: number | null = null,
+  signal?: AbortSignal,
+  timeout = RENDER_TIMEOUT
+): Promise<EpsRendering> {
+  const parts = getParts(file)
+  switch (source) {
+    case 'postscript':
+      return renderProgram(parts, scale, signal, timeout)
+    case 'tiff':
+      if (!parts.tiff) throw new Error('No TIFF preview')
+      return imageToRendering(decodeTiff(parts.tiff), maxSize)
+    case 'epsi':
+      return imageToRendering(decodeEpsi(parts.postscript), maxSize)
+  }
+}
+
+async function createThumbnail(file: FileEntry, size: number, signal: AbortSignal): Promise<string> {
+  const { info } = getParts(file)
+  const [x1, y1, x2, y2] = info.hiResBoundingBox ?? info.boundingBox ?? DEFAULT_PAGE
+  const scale = size * (window.devicePixelRatio || 1) / Math.max(x2 - x1, y2 - y1)
+  let lastError: unknown = new Error('Nothing to preview')
+  for (const source of info.previews) {
+    if (signal.aborted) throw new DOMException('Rendering was cancelled', 'AbortError')
+    try {
+      return (await renderEps(file, source, scale, size, signal, THUMBNAIL_TIMEOUT)).url
+    } catch (err) {
+      // Fall back to the embedded preview when the program cannot be run
+      lastError = err
+    }
+  }
+  throw lastError
+}
+
+// The figure as an image URL no larger than `size` CSS pixels on either side. Aborting `signal`
+// drops a thumbnail that is still queued or rendering, unless another caller is waiting for it.
+export function getEpsThumbnail(file: FileEntry, size: number, signal?: AbortSignal): Promise<string> {
+  let sizes = thumbnailCache.get(file)
+  if (!sizes) {
+    sizes = new Map()
+    thumbnailCache.set(file, sizes)
+  }
+  let thumbnail = sizes.get(size)
+  if (!thumbnail || thumbnail.controller.signal.aborted) {
+    const controller = new AbortController()
+    // One figure at a time, so a page of thumbnails does not start a worker for each
+    const url = thumbnailQueue.then(() => createThumbnail(file, size, controller.signal))
+    thumbnailQueue = url.catch(() => undefined)
+    const created: Thumbnail = { url, controller, waiting: 0 }
+    // Let a failed or cancelled thumbnail be tried again
+    url.catch(() => {
+      if (sizes!.get(size) === created) sizes!.delete(size)
+    })
+    sizes.set(size, created)
+    thumbnail = created
+  }
+
+  const shared = thumbnail
+  if (!signal) {
+    shared.waiting = Infinity
+  } else {
+    shared.waiting++
+    const release = () => {
+      if (--shared.waiting === 0) shared.controller.abort()
+    }
+    if (signal.aborted) {
+      release()
+    } else {
+      signal.addEventListener('abort', release, { once: true })
+      const forget = () => signal.removeEventListener('abort', release)
+      shared.url.then(forget, forget)
+    }
+  }
+  return shared.url
+}
@@ -0,0 +1,190 @@
+import { FileEntry, getPosition, readGroup, readOptional, skipSpaces } from './latex-features'
+import { LatexProject, stripComments } from './project'
+import { createGraphicResolver } from './dependency-graph'
+import { latexToText } from './bibtex'
+
+// Every graphic the document includes, in document order, with the caption and label of the
+// figure around it. Subfigures get their own caption and label, falling back to the figure's.
+
+export interface FigureGraphic {
+  path: string // path as written in the \includegraphics
+  graphic: string | null // name of the resolved file, or null if it is not in the sources
+  caption: string | null // plain text of the caption
+  label: string | null
+  environment: string | null // innermost enclosing figure-like environment, e.g. "subfigure"
+  file: string // location of the \includegraphics
+  line: number
+  column: number
+}
+
+// Environments whose \caption and \label describe the graphics inside them
+const FIGURE_ENVIRONMENTS = new Set([
+  'figure', 'figure*', 'wrapfigure', 'wrapfigure*', 'SCfigure', 'SCfigure*', 'sidewaysfigure', 'sidewaysfigure*',
+  'subfigure', 'subfigure*', 'minipage', 'table', 'table*', 'wraptable', 'sidewaystable'
+])
+
+// A part of the file whose caption and label belong to the graphics inside it
+interface Container {
+  name: string
+  start: number
+  end: number
+  caption?: string // set when the caption is an argument, as for \subfloat[caption]{...}
+}
+
+function findContainers(code: string): Container[] {
+  const containers: Container[] = []
+  const open: { name: string; start: number }[] = []
+  const envRegex = /\\(begin|end)\s*\{([^}]+)\}/g
+  let match
+  while ((match = envRegex.exec(code)) !== null) {
+    const name = match[2].trim()
+    if (!FIGURE_ENVIRONMENTS.has(name)) continue
+    if (match[1] === 'begin') {
+      open.push({ name, start: match.index })
+    } else {
+      const index = open.map(env => env.name).lastIndexOf(name)
+      if (index === -1) continue
+      containers.push({ name, start: open[index].start, end: match.index + match[0].length })
+      open.splice(index)
+    }
+  }
+  // Unclosed environments run to the end of the file
+  for (const env of open) containers.push({ name: env.name, start: env.start, end: code.length })
+
+  // \subfloat[caption]{body} and \subcaptionbox{caption}{body}
+  const subRegex = /\\(subfloat|subcaptionbox)\*?/g
+  while ((match = subRegex.exec(code)) !== null) {
+    let pos = subRegex.lastIndex
+    let caption: string | undefined
+    if (match[1] === 'subfloat') {
+      const optional = readOptional(code, skipSpaces(code, pos))
+      if (optional) {
+        caption = optional.text
+        pos = optional.end
+        pos = readOptional(code, skipSpaces(code, pos))?.end ?? pos
+      }
+    } else {
+      const group = readGroup(code, skipSpaces(code, pos))
+      if (!group) continue
+      caption = group.text
+      pos = readOptional(code, skipSpaces(code, group.end))?.end ?? group.end
+    }
+    const body = readGroup(code, skipSpaces(code, pos))
+    if (body) containers.push({ name: match[1], start: match.index, end: body.end, caption })
+  }
+
+  // Innermost first when several contain the same offset
+  return containers.sort((a, b) => (a.end - a.start) - (b.end - b.start))
+}
+
+// First match of `regex` in a container that is not inside one of its nested containers
+function findOwn(code: string, container: Container, containers: Container[], regex: RegExp): RegExpExecArray | null {
+  const nested = containers.filter(other =>
+    other !== container && other.start > container.start && other.end <= container.end)
+  const pattern = new RegExp(regex.source, 'g')
+  pattern.lastIndex = container.start + 1
+  let match
+  while ((match = pattern.exec(code)) !== null && match.index < container.end) {
+    const index = match.index
+    if (!nested.some(other => index > other.start && index < other.end)) return match
+  }
+  return null
+}
+
+function getCaption(code: string, container: Container, containers: Container[]): string | null {
+  if (container.caption !== undefined) return container.caption.trim() || null
+  const match = findOwn(code, container, containers, /\\(?:sub)?caption(?![a-zA-Z])\*?|\\captionof\*?\s*\{[^}]*\}/)
+  if (!match) return null
+  let pos = match.index + match[0].length
+  // Skip the short caption for the list of figures
+  pos = readOptional(code, skipSpaces(code, pos))?.end ?? pos
+  return readGroup(code, skipSpaces(code, pos))?.text ?? null
+}
+
+function captionToText(caption: string): string {
+  const text = latexToText(caption
+    .replace(/\\label\s*\{[^}]*\}/g, '')
+    .replace(/\\(?:cite[a-zA-Z]*|footnote)\*?\s*(?:\[[^\]]*\]\s*)*\{[^}]*\}/g, '')
+    .replace(/\\(?:ref|eqref|autoref|cref|Cref)\*?\s*\{([^}]*)\}/g, '$1'))
+  // Drop any command latexToText does not know about, keeping its argument
+  return text.replace(/\\[a-zA-Z@]+\*?\s*/g, '').replace(/\s+([,.;:])/g, '$1').replace(/\s+/g, ' ').trim()
+}
+
+function collectFileFigures(file: FileEntry, resolveGraphic: (from: FileEntry, path: string) => FileEntry | null): { index: number; figure: FigureGraphic }[] {
+  const code = stripComments(file.content)
+  const result: { index: number; figure: FigureGraphic }[] = []
+  let containers: Container[] | null = null
+
+  const regex = /\\includegraphics\*?\s*(?:\[[^\]]*\]\s*)*\{([^}]*)\}/g
+  let match
+  while ((match = regex.exec(code)) !== null) {
+    const path = match[1].trim().replace(/^"(.*)"$/, '$1')
+    if (!path) continue
+    containers ??= findContainers(code)
+    const index = match.index
+    const around = containers.filter(container => index > container.start && index < container.end)
+
+    let caption: string | null = null
+    let label: string | null = null
+    for (const container of around) {
+      caption ??= getCaption(code, container, containers)
+      label ??= findOwn(code, container, containers, /\\label\s*\{([^}]*)\}/)?.[1].trim() ?? null
+      if (caption !== null && label !== null) break
+    }
+
+    const { line, column } = getPosition(file, index)
+    result.push({
+      index,
+      figure: {
+        path,
+        graphic: resolveGraphic(file, path)?.name ?? null,
+        caption: caption !== null ? captionToText(caption) : null,
+        label,
+        environment: around[0]?.name ?? null,
+        file: file.name,
+        line,
+        column
+      }
+    })
+  }
+  return result
+}
+
+export function collectFigures(files: FileEntry[], project: LatexProject): FigureGraphic[] {
+  const resolveGraphic = createGraphicResolver(files, project)
+  const figures: FigureGraphic[] = []
+
+  // Follow the include graph from the root, so figures appear in document order
+  if (project.root) {
+    const byName = new Map(files.map(f => [f.name, f]))
+    const visited = new Set<string>()
+
+    const visit = (file: FileEntry) => {
+      visited.add(file.name)
+      const items: { index: number; figure?: FigureGraphic; include?: string }[] = [
+        ...collectFileFigures(file, resolveGraphic),
+        ...project.includes
+          .filter(include => include.from === file.name && include.file)
+          .map(include => ({ index: include.index, include: include.file! }))
+      ]
+      items.sort((a, b) => a.index - b.index)
+
+      for (const item of items) {
+        if (item.figure) {
+          figures.push(item.figure)
+        } else if (item.include && !visited.has(item.include)) {
+          const included = byName.get(item.include)
+          if (included) visit(included)
+        }
+      }
+    }
+
+    visit(project.root)
+    return figures
+  }
+
+  for (const file of files) {
+    if (file.isTeX) figures.push(...collectFileFigures(file, resolveGraphic).map(item => item.figure))
+  }
+  return figures
+}
@@ -1,4 +1,8 @@
 import * as monaco from 'monaco-editor'
+import { LatexProject, buildProject, getLineNumber, stripComments } from './project'
+import { buildDependencyGraph } from './dependency-graph'
+import { BibDatabase, BibEntry, BibError, formatAuthorList, getEntryVenue, getEntryYear, latexToText, parseBibtex, resolveCrossrefs } from './bibtex'
+import { parseBbl } from './bbl'
 
 // Types
 export interface FileEntry {
@@ -8,6 +12,8 @@ export interface FileEntry {
   isBinary: boolean
   binaryData?: Uint8Array
   mimeType?: string
+  encoding?: string // TextDecoder label the content was decoded with (text files only)
+  rawData?: Uint8Array // undecoded bytes of a text file, kept so it can be decoded again
 }
 
 export interface LabelDefinition {
@@ -15,14 +21,34 @@ export interface LabelDefinition {
   file: string
   line: number
   column: number // 1-based
+  index: number // offset in the file's content
 }
 
 export interface CitationEntry {
   key: string
   file: string
   line: number
+  entryType?: string // e.g. "article", "inproceedings"
   title?: string
   author?: string
+  venue?: string // journal, booktitle or publisher
+  year?: string
+  fields: Record<string, string> // every field of the BibTeX entry; "note" holds the formatted text of a \bibitem
+}
+
+export interface MacroDefinition {
+  name: string // "\\vx" for commands, the bare name for environments
+  kind: 'command' | 'environment'
+  command: string // defining command, e.g. "newcommand" or "DeclareMathOperator"
+  args: number
+  optionalDefault?: string // default value of an optional first argument
+  body: string // replacement text; for environments the begin code
+  endBody?: string // end code of an environment
+  source: string // the complete definition as written
+  file: string
+  index: number // offset of the definition in its file
+  line: number
+  column: number // 1-based
 }
 
 export interface SectionInfo {
@@ -33,9 +59,10 @@ export interface SectionInfo {
   id: string // Unique ID for key
 }
 
-// Helper to find line number from index
-function getLineNumber(content: string, index: number): number {
-  return content.substring(0, index).split('\n').length
+export interface TheoremStyle {
+  title: string // e.g. "Theorem" for thm
+  counter: string // the environment whose counter it shares, or its own name
+  numbered: boolean
 }
 
 // Helper to find column number from index
@@ -60,7 +87,8 @@ export function collectLabels(files: FileEntry[]): Map<string, LabelDefinition>
         name: labelName,
         file: file.name,
         line: getLineNumber(file.content, match.index),
-        column: getColumnNumber(file.content, match.index)
+        column: getColumnNumber(file.content, match.index),
+        index: match.index
       })
     }
   }
@@ -68,49 +96,464 @@ export function collectLabels(files: FileEntry[]): Map<string, LabelDefinition>
   return labels
 }
 
-export function collectCitations(files: FileEntry[]): Map<string, CitationEntry> {
-  const citations = new Map<string, CitationEntry>()
+// Models of source files use file:// URIs named after the file's path in the archive
+export function getFileUri(name: string): monaco.Uri {
+  return monaco.Uri.file(name)
+}
 
-  for (const file of files) {
-    // Check .bib files
-    if (file.name.endsWith('.bib')) {
-      // Regex for BibTeX entries: @type{key,
-      const regex = /@\w+\s*\{\s*([^,]+),/g
-      let match
-      while ((match = regex.exec(file.content)) !== null) {
-        const key = match[1].trim()
-        
-        // Try to extract title and author for context (simplified)
-        const entryEndIndex = file.content.indexOf('}', match.index)
-        const entryContent = file.content.substring(match.index, entryEndIndex !== -1 ? entryEndIndex : undefined)
-        
-        const titleMatch = /title\s*=\s*[\"{](.+?)[\"}]/i.exec(entryContent)
-        const authorMatch = /author\s*=\s*[\"{](.+?)[\"}]/i.exec(entryContent)
-        
-        citations.set(key, {
-          key,
-          file: file.name,
-          line: getLineNumber(file.content, match.index),
-          title: titleMatch ? titleMatch[1] : undefined,
-          author: authorMatch ? authorMatch[1] : undefined
-        })
+export function getFileNameFromUri(uri: monaco.Uri): string {
+  return uri.path.replace(/^\//, '')
+}
+
+// --- Macros ---
+
+// Read a balanced {...} group starting at index (which must point at "{")
+export function readGroup(content: string, index: number): { text: string; end: number } | null {
+  if (content[index] !== '{') return null
+  let depth = 0
+  for (let i = index; i < content.length; i++) {
+    const ch = content[i]
+    if (ch === '\\') {
+      i++
+    } else if (ch === '{') {
+      depth++
+    } else if (ch === '}') {
+      depth--
+      if (depth === 0) return { text: content.slice(index + 1, i), end: i + 1 }
+    }
+  }
+  return null
+}
+
+// Read an optional [...] argument starting at index, if there is one. Brackets inside braced
+// groups do not end it, as in \subfloat[{a]b}]{...}.
+export function readOptional(content: string, index: number): { text: string; end: number } | null {
+  if (content[index] !== '[') return null
+  let depth = 0
+  for (let i = index + 1; i < content.length; i++) {
+    const ch = content[i]
+    if (ch === '\\') {
+      i++
+    } else if (ch === '{') {
+      depth++
+    } else if (ch === '}') {
+      depth--
+    } else if (ch === ']' && depth === 0) {
+      return { text: content.slice(index + 1, i), end: i + 1 }
+    }
+  }
+  return null
+}
+
+export function skipSpaces(content: string, index: number): number {
+  while (index < content.length && /\s/.test(content[index])) index++
+  return index
+}
+
+// Read the macro name of \newcommand\name or \newcommand{\name}
+function readMacroName(content: string, index: number): { name: string; end: number } | null {
+  const group = readGroup(content, index)
+  if (group) {
+    const name = group.text.trim()
+    return /^\\([a-zA-Z@]+|.)$/.test(name) ? { name, end: group.end } : null
+  }
+  const match = /^\\([a-zA-Z@]+|.)/.exec(content.slice(index, index + 100))
+  return match ? { name: match[0], end: index + match[0].length } : null
+}
+
+// Count the arguments of an xparse argument specification such as "s o m"
+function countXparseArgs(spec: string): number {
+  let count = 0
+  for (let i = 0; i < spec.length; i++) {
+    const ch = spec[i]
+    if (ch === '{') {
+      i = (readGroup(spec, i)?.end ?? spec.length) - 1
+    } else if ('mosvbeE'.includes(ch) || 'OtrdRD'.includes(ch)) {
+      count++
+      if (ch === 't') i++
+      if ('rdRD'.includes(ch)) i += 2
+    }
+  }
+  return count
+}
+
+const MACRO_REGEX = /\\(newcommand|renewcommand|providecommand|DeclareRobustCommand|NewDocumentCommand|RenewDocumentCommand|ProvideDocumentCommand|DeclareDocumentCommand|DeclareMathOperator|newenvironment|renewenvironment|NewDocumentEnvironment|RenewDocumentEnvironment|[gex]?def|let)(?![a-zA-Z@])(\*?)/g
+
+const definitionCache = new WeakMap<FileEntry[], MacroDefinition[]>()
+const macroCache = new WeakMap<FileEntry[], Map<string, MacroDefinition>>()
+const theoremCache = new WeakMap<FileEntry[], Map<string, TheoremStyle>>()
+
+// Environments LaTeX classes and amsthm-based templates commonly predefine
+const DEFAULT_THEOREMS = [
+  'theorem', 'lemma', 'corollary', 'proposition', 'definition', 'remark', 'example', 'conjecture',
+  'claim', 'assumption', 'observation', 'fact', 'hypothesis', 'problem', 'question', 'exercise', 'note'
+]
+
+function isMacroSourceFile(file: FileEntry): boolean {
+  return !file.isBinary && /\.(tex|sty|cls|ltx)$/i.test(file.name)
+}
+
+function parseMacroDefinition(content: string, match: RegExpExecArray): Omit<MacroDefinition, 'file' | 'index' | 'line' | 'column'> | null {
+  const command = match[1]
+  let index = skipSpaces(content, match.index + match[0].length)
+
+  if (command.endsWith('environment')) {
+    const nameGroup = readGroup(content, index)
+    if (!nameGroup) return null
+    index = skipSpaces(content, nameGroup.end)
+
+    let args = 0
+    let optionalDefault: string | undefined
+    if (command.includes('Document')) {
+      const spec = readGroup(content, index)
+      if (!spec) return null
+      args = countXparseArgs(spec.text)
+      index = skipSpaces(content, spec.end)
+    } else {
+      const count = readOptional(content, index)
+      if (count) {
+        args = parseInt(count.text, 10) || 0
+        index = skipSpaces(content, count.end)
+        const optional = readOptional(content, index)
+        if (optional) {
+          optionalDefault = optional.text
+          index = skipSpaces(content, optional.end)
+        }
+      }
+    }
+
+    const begin = readGroup(content, index)
+    if (!begin) return null
+    const end = readGroup(content, skipSpaces(content, begin.end))
+    return {
+      name: nameGroup.text.trim(),
+      kind: 'environment',
+      command,
+      args,
+      optionalDefault,
+      body: begin.text,
+      endBody: end?.text,
+      source: content.slice(match.index, end?.end ?? begin.end)
+    }
+  }
+
+  const nameMatch = readMacroName(content, index)
+  if (!nameMatch) return null
+  index = skipSpaces(content, nameMatch.end)
+
+  if (command === 'let') {
+    // \let\a\b or \let\a=\b
+    if (content[index] === '=') index = skipSpaces(content, index + 1)
+    const target = /^\\([a-zA-Z@]+|.)/.exec(content.slice(index, index + 100))
+    if (!target) return null
+    return {
+      name: nameMatch.name,
+      kind: 'command',
+      command,
+      args: 0,
+      body: target[0],
+      source: content.slice(match.index, index + target[0].length)
+    }
+  }
+
+  let args = 0
+  let optionalDefault: string | undefined
+  if (command.endsWith('def')) {
+    // \def\name#1#2{...}: the parameter text runs up to the opening brace
+    const brace = content.indexOf('{', index)
+    if (brace === -1) return null
+    args = (content.slice(index, brace).match(/#[1-9]/g) || []).length
+    index = brace
+  } else if (command.includes('Document')) {
+    const spec = readGroup(content, index)
+    if (!spec) return null
+    args = countXparseArgs(spec.text)
+    index = skipSpaces(content, spec.end)
+  } else if (command !== 'DeclareMathOperator') {
+    const count = readOptional(content, index)
+    if (count) {
+      args = parseInt(count.text, 10) || 0
+      index = skipSpaces(content, count.end)
+      const optional = readOptional(content, index)
+      if (optional) {
+        optionalDefault = optional.text
+        index = skipSpaces(content, optional.end)
       }
     }
   }
 
+  const body = readGroup(content, index)
+  if (!body) return null
+  return {
+    name: nameMatch.name,
+    kind: 'command',
+    command: command === 'DeclareMathOperator' && match[2] ? 'DeclareMathOperator*' : command,
+    args,
+    optionalDefault,
+    body: body.text,
+    source: content.slice(match.index, body.end)
+  }
+}
+
+// Every definition of a command or environment in TeX sources and local packages, in order,
+// including those a later definition replaces
+export function collectMacroDefinitions(files: FileEntry[]): MacroDefinition[] {
+  const cached = definitionCache.get(files)
+  if (cached) return cached
+
+  const definitions: MacroDefinition[] = []
+  for (const file of files) {
+    if (!isMacroSourceFile(file)) continue
+
+    const content = stripComments(file.content)
+    const regex = new RegExp(MACRO_REGEX)
+    let match
+    while ((match = regex.exec(content)) !== null) {
+      const definition = parseMacroDefinition(content, match)
+      if (!definition) continue
+      definitions.push({
+        ...definition,
+        file: file.name,
+        index: match.index,
+        line: getLineNumber(content, match.index),
+        column: getColumnNumber(content, match.index)
+      })
+    }
+  }
+
+  definitionCache.set(files, definitions)
+  return definitions
+}
+
+// User-defined commands and environments by name. Later definitions replace earlier ones,
+// except \providecommand which never overrides.
+export function collectMacros(files: FileEntry[]): Map<string, MacroDefinition> {
+  const cached = macroCache.get(files)
+  if (cached) return cached
+
+  const macros = new Map<string, MacroDefinition>()
+  for (const definition of collectMacroDefinitions(files)) {
+    if (/^provide/i.test(definition.command) && macros.has(definition.name)) continue
+    macros.set(definition.name, definition)
+  }
+
+  macroCache.set(files, macros)
+  return macros
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+// Theorem-like environments, from \newtheorem, \spnewtheorem and thmtools' \declaretheorem,
+// on top of the ones classes commonly predefine
+export function collectTheorems(files: FileEntry[]): Map<string, TheoremStyle> {
+  const cached = theoremCache.get(files)
+  if (cached) return cached
+
+  const theorems = new Map<string, TheoremStyle>()
+  for (const name of DEFAULT_THEOREMS) {
+    theorems.set(name, { title: capitalize(name), counter: name, numbered: true })
+  }
+  for (const file of files) {
+    if (!isMacroSourceFile(file)) continue
+    const code = stripComments(file.content)
+    for (const match of code.matchAll(/\\(?:sp)?newtheorem(\*?)\s*\{([^}]+)\}\s*(?:\[([^\]]*)\])?\s*\{([^}]*)\}/g)) {
+      const [, star, name, shared, title] = match
+      theorems.set(name.trim(), { title: latexToText(title) || capitalize(name.trim()), counter: shared?.trim() || name.trim(), numbered: !star })
+    }
+    for (const match of code.matchAll(/\\declaretheorem\s*(?:\[([^\]]*)\])?\s*\{([^}]+)\}/g)) {
+      const options = match[1] || ''
+      const name = match[2].trim()
+      const title = /\bname\s*=\s*\{?([^,}]+)/.exec(options)?.[1].trim()
+      const sibling = /\b(?:sibling|sharenumber|numberlike)\s*=\s*\{?([^,}]+)/.exec(options)?.[1].trim()
+      theorems.set(name, { title: title || capitalize(name), counter: sibling || name, numbered: !/\bnumbered\s*=\s*no\b/.test(options) })
+    }
+  }
+
+  theoremCache.set(files, theorems)
+  return theorems
+}
+
+function formatMacroSignature(macro: MacroDefinition): string {
+  const args = macro.args === 0
+    ? 'no arguments'
+    : `${macro.args} argument${macro.args === 1 ? '' : 's'}`
+  const optional = macro.optionalDefault !== undefined
+    ? ` (first optional, default \`${macro.optionalDefault}\`)`
+    : ''
+  return `${macro.kind === 'environment' ? 'Environment' : 'Command'} defined with \`\\${macro.command}\`, ${args}${optional}`
+}
+
+// Find the command name (with its backslash) or environment name under the cursor
+function findMacroAt(line: string, column: number): { name: string; start: number; end: number } | null {
+  const envRegex = /\\(?:begin|end)\s*\{([^}]+)\}/g
+  let match
+  while ((match = envRegex.exec(line)) !== null) {
+    const start = match.index + 1
+    const end = match.index + match[0].length + 1
+    if (column >= start && column <= end) {
+      return { name: match[1].trim(), start, end }
+    }
+  }
+
+  const commandRegex = /\\([a-zA-Z@]+|[^a-zA-Z@\s])/g
+  while ((match = commandRegex.exec(line)) !== null) {
+    const start = match.index + 1
+    const end = match.index + match[0].length + 1
+    if (column >= start && column <= end) {
+      return { name: match[0], start, end }
+    }
+  }
+  return null
+}
+
+const bibliographyCache = new WeakMap<FileEntry[], { entries: BibEntry[]; errors: BibError[] }>()
+const citationCache = new WeakMap<BibEntry[], Map<string, CitationEntry>>()
+// Parsed files, so an edit or a new batch of files only parses the files that changed. A .bib
+// file is parsed again when the @string definitions it starts with differ.
+const bibFileCache = new WeakMap<FileEntry, { strings: Record<string, string>; database: BibDatabase }>()
+const compiledFileCache = new WeakMap<FileEntry, BibEntry[]>()
+const NO_STRINGS: Record<string, string> = {}
+
+function parseBibFile(file: FileEntry, strings: Record<string, string>): BibDatabase {
+  const cached = bibFileCache.get(file)
+  if (cached && cached.strings === strings) return cached.database
+  const database = parseBibtex(file.content, file.name, strings)
+  bibFileCache.set(file, { strings, database })
+  return database
+}
+
+function parseCompiledFile(file: FileEntry): BibEntry[] {
+  let entries = compiledFileCache.get(file)
+  if (!entries) {
+    entries = parseBbl(file.isTeX ? stripComments(file.content) : file.content, file.name)
+    compiledFileCache.set(file, entries)
+  }
+  return entries
+}
+
+// Parse every .bib file, in order so @string definitions carry over between them, followed by
+// the compiled bibliographies (.bbl files and thebibliography environments in TeX files)
+// that most submissions ship instead
+export function collectBibliography(files: FileEntry[]): { entries: BibEntry[]; errors: BibError[] } {
+  const cached = bibliographyCache.get(files)
+  if (cached) return cached
+
+  const entries: BibEntry[] = []
+  const compiled: BibEntry[] = []
+  const errors: BibError[] = []
+  // Shared by the files before the first @string, so their parses stay cached
+  let strings: Record<string, string> = NO_STRINGS
+  for (const file of files) {
+    if (file.isBinary) continue
+    const name = file.name.toLowerCase()
+    if (name.endsWith('.bib')) {
+      const database = parseBibFile(file, strings)
+      entries.push(...database.entries)
+      errors.push(...database.errors)
+      strings = database.strings
+    } else if (name.endsWith('.bbl') || (file.isTeX && file.content.includes('thebibliography'))) {
+      compiled.push(...parseCompiledFile(file))
+    }
+  }
+
+  const result = { entries: [...resolveCrossrefs(entries), ...compiled], errors }
+  bibliographyCache.set(files, result)
+  return result
+}
+
+export function collectCitations(files: FileEntry[]): Map<string, CitationEntry> {
+  const { entries } = collectBibliography(files)
+  const cached = citationCache.get(entries)
+  if (cached) return cached
+
+  const citations = new Map<string, CitationEntry>()
+  for (const entry of entries) {
+    // The first definition wins, as in BibTeX
+    if (citations.has(entry.key)) continue
+    citations.set(entry.key, {
+      key: entry.key,
+      file: entry.file,
+      line: entry.line,
+      entryType: entry.type || undefined,
+      title: entry.fields.title,
+      author: entry.fields.author,
+      venue: getEntryVenue(entry),
+      year: getEntryYear(entry),
+      fields: entry.fields
+    })
+  }
+
+  citationCache.set(entries, citations)
   return citations
 }
 
-export function parseDocumentOutline(files: FileEntry[], rootFile?: FileEntry): SectionInfo[] {
-  // Simple approach: parse all TeX files.
-  // Ideally we should follow \input structure starting from root, but looking at all files is a robust fallback.
-  // We sort files to try to put root first or follow typical naming.
-  
+function parseSections(file: FileEntry): { index: number; section: SectionInfo }[] {
+  const result: { index: number; section: SectionInfo }[] = []
+  const content = stripComments(file.content)
+  const regex = /\\(part|chapter|section|subsection|subsubsection|paragraph)\*?\{([^}]+)\}/g
+  let match
+  while ((match = regex.exec(content)) !== null) {
+    const type = match[1]
+    const title = match[2]
+
+    let level = 2 // default section
+    if (type === 'part') level = 0
+    if (type === 'chapter') level = 1
+    if (type === 'section') level = 2
+    if (type === 'subsection') level = 3
+    if (type === 'subsubsection') level = 4
+    if (type === 'paragraph') level = 5
+
+    result.push({
+      index: match.index,
+      section: {
+        title,
+        level,
+        line: getLineNumber(content, match.index),
+        file: file.name,
+        id: `${file.name}-${match.index}`
+      }
+    })
+  }
+  return result
+}
+
+export function parseDocumentOutline(files: FileEntry[], project?: LatexProject): SectionInfo[] {
   const sections: SectionInfo[] = []
-  
-  // Weights for sorting files to approximation order
+
+  // Follow the include graph from the root, so sections appear in true document order
+  if (project?.root) {
+    const byName = new Map(files.map(f => [f.name, f]))
+    const visited = new Set<string>()
+
+    const visit = (file: FileEntry) => {
+      visited.add(file.name)
+      const items: { index: number; section?: SectionInfo; include?: string }[] = [
+        ...parseSections(file),
+        ...project.includes
+          .filter(include => include.from === file.name && include.file)
+          .map(include => ({ index: include.index, include: include.file! }))
+      ]
+      items.sort((a, b) => a.index - b.index)
+
+      for (const item of items) {
+        if (item.section) {
+          sections.push(item.section)
+        } else if (item.include && !visited.has(item.include)) {
+          const included = byName.get(item.include)
+          if (included) visit(included)
+        }
+      }
+    }
+
+    visit(project.root)
+    return sections
+  }
+
+  // Without a root document, approximate the order from typical file names
   const getFileWeight = (name: string) => {
-    if (name === rootFile?.name) return -100
     if (name.includes('main') || name.includes('root')) return -50
     if (name.includes('intro')) return -40
     if (name.includes('abstract')) return -45
@@ -122,28 +565,7 @@ export function parseDocumentOutline(files: FileEntry[], rootFile?: FileEntry):
     .sort((a, b) => getFileWeight(a.name) - getFileWeight(b.name) || a.name.localeCompare(b.name))
 
   for (const file of sortedFiles) {
-    const regex = /\\(part|chapter|section|subsection|subsubsection|paragraph)\*?\{([^}]+)\}/g
-    let match
-    while ((match = regex.exec(file.content)) !== null) {
-      const type = match[1]
-      const title = match[2]
-      
-      let level = 2 // default section
-      if (type === 'part') level = 0
-      if (type === 'chapter') level = 1
-      if (type === 'section') level = 2
-      if (type === 'subsection') level = 3
-      if (type === 'subsubsection') level = 4
-      if (type === 'paragraph') level = 5
-
-      sections.push({
-        title,
-        level,
-        line: getLineNumber(file.content, match.index),
-        file: file.name,
-        id: `${file.name}-${match.index}`
-      })
-    }
+    sections.push(...parseSections(file).map(item => item.section))
   }
 
   return sections
@@ -178,7 +600,7 @@ export function createDefinitionProvider(getAllFiles: () => FileEntry[]): monaco
               // Since we might not have models for all files, we rely on the editor app to handle model switching if needed.
               // For now, return the location. The Viewer component needs to ensure the model exists or handle the URI.
               return {
-                uri: monaco.Uri.parse(`file:///${def.file}`), // Virtual URI scheme
+                uri: getFileUri(def.file),
                 range: new monaco.Range(def.line, 1, def.line, 1)
               }
             }
@@ -186,30 +608,17 @@ export function createDefinitionProvider(getAllFiles: () => FileEntry[]): monaco
         }
       }
 
-      // Check for \cite{...}
-      const citeMatch = /\\(cite|citep|citet)\{([^}]+)\}/.exec(lineContent)
-      if (citeMatch) {
-         const startIndex = lineContent.indexOf(citeMatch[0])
-         if (position.column >= startIndex + 1 && position.column <= startIndex + citeMatch[0].length + 1) {
-            const keyString = citeMatch[2]
-            // Handle multiple citations \cite{key1,key2} - find the one under cursor
-            // This is tricky without exact offset. Let's just try to match the full string or first valid key for now.
-            // A better parser would find exact token under cursor.
-            
-            // Assume single key for simplicity or first key found
-            const keys = keyString.split(',').map(k => k.trim())
-            const citations = collectCitations(files)
-            
-            for (const key of keys) {
-                const def = citations.get(key)
-                if (def) {
-                    return {
-                        uri: monaco.Uri.parse(`file:///${def.file}`),
-                        range: new monaco.Range(def.line, 1, def.line, 1)
-                    }
-                }
-            }
-         }
+      // Check for \cite{...}, resolving the key under the cursor (or the first known one)
+      const citeFound = findKeyListAt(lineContent, position.column, CITE_COMMANDS)
+      if (citeFound) {
+        const citations = collectCitations(files)
+        const def = citeFound.keys.map(key => citations.get(key)).find(Boolean)
+        if (def) {
+          return {
+            uri: getFileUri(def.file),
+            range: new monaco.Range(def.line, 1, def.line, 1)
+          }
+        }
       }
       
       // Check for \input{...} / \include{...}
@@ -224,18 +633,511 @@ export function createDefinitionProvider(getAllFiles: () => FileEntry[]): monaco
             if (targetFile) {
                 // Return range 1,1 of that file
                 return {
-                    uri: monaco.Uri.parse(`file:///${targetFile.name}`),
+                    uri: getFileUri(targetFile.name),
                     range: new monaco.Range(1, 1, 1, 1)
                 }
             }
         }
       }
 
+      // User-defined commands and environments, possibly defined in a local package
+      const macroMatch = findMacroAt(lineContent, position.column)
+      if (macroMatch) {
+        const def = collectMacros(files).get(macroMatch.name)
+        if (def) {
+          return {
+            uri: getFileUri(def.file),
+            range: new monaco.Range(def.line, def.column, def.line, def.column)
+          }
+        }
+      }
+
       return []
     }
   }
 }
 
+// --- Hover Cards ---
+
+// Longest source excerpt shown in a hover before it is cut off
+const HOVER_MAX_LINES = 15
+// Lines of an included file previewed when hovering \input
+const INPUT_PREVIEW_LINES = 10
+// Keys shown when hovering the command of a multi-key \cite or \cref
+const HOVER_MAX_KEYS = 5
+
+// Environments that only arrange their contents; a \label inside them belongs to an outer environment
+const LAYOUT_ENVIRONMENTS = new Set([
+  'document', 'center', 'flushleft', 'flushright', 'minipage', 'small', 'footnotesize', 'scriptsize',
+  'tabular', 'tabular*', 'tabularx', 'adjustbox', 'resizebox', 'cases', 'array', 'split', 'aligned',
+  'gathered', 'matrix', 'pmatrix', 'bmatrix', 'vmatrix', 'itemize', 'enumerate', 'description'
+])
+
+const MATH_ENVIRONMENTS = new Set(['equation', 'align', 'gather', 'multline', 'eqnarray', 'flalign', 'alignat'])
+
+// Commands that take a list of label or citation keys, as regex alternatives
+const REF_COMMANDS = 'ref|eqref|autoref|pageref|nameref|vref|cref|Cref|labelcref|cpageref'
+const CITE_COMMANDS = '[a-zA-Z]*cite[a-zA-Z]*|Cite[a-zA-Z]*|nocite'
+
+const projectCache = new WeakMap<FileEntry[], LatexProject>()
+
+function getProject(files: FileEntry[]): LatexProject {
+  let project = projectCache.get(files)
+  if (!project) {
+    project = buildProject(files)
+    projectCache.set(files, project)
+  }
+  return project
+}
+
+function truncateLines(text: string, maxLines: number): string {
+  const lines = text.split('\n')
+  return lines.length > maxLines ? [...lines.slice(0, maxLines), '…'].join('\n') : text
+}
+
+function codeBlock(source: string, language = 'latex'): string {
+  return '```' + language + '\n' + source + '\n```'
+}
+
+function getEnvironmentTitle(env: string, theorems: Map<string, TheoremStyle>): string {
+  const name = env.replace(/\*$/, '')
+  const theorem = theorems.get(name)
+  if (theorem) return theorem.title
+  if (MATH_ENVIRONMENTS.has(name)) return name === 'equation' ? 'Equation' : `Equation (${name})`
+  return name.charAt(0).toUpperCase() + name.slice(1)
+}
+
+// Work out what a \label labels: its innermost enclosing environment, or the sectioning command before it
+function describeLabel(file: FileEntry, labelIndex: number, theorems: Map<string, TheoremStyle>): {
+  title: string
+  caption?: string
+  source: string
+} {
+  const content = stripComments(file.content)
+  const stack: { name: string; index: number }[] = []
+  const envRegex = /\\(begin|end)\s*\{([^}]+)\}/g
+  let match
+  while ((match = envRegex.exec(content)) !== null && match.index < labelIndex) {
+    const name = match[2].trim()
+    if (match[1] === 'begin') {
+      stack.push({ name, index: match.index })
+    } else {
+      const open = stack.map(e => e.name).lastIndexOf(name)
+      if (open !== -1) stack.splice(open)
+    }
+  }
+
+  const env = [...stack].reverse().find(e => !LAYOUT_ENVIRONMENTS.has(e.name))
+  if (env) {
+    // Find the matching \end, allowing nested environments of the same name
+    let depth = 0
+    let end = content.length
+    const pattern = new RegExp(`\\\\(begin|end)\\s*\\{${env.name.replace(/[*]/g, '\\*')}\\}`, 'g')
+    pattern.lastIndex = env.index
+    let envMatch
+    while ((envMatch = pattern.exec(content)) !== null) {
+      depth += envMatch[1] === 'begin' ? 1 : -1
+      if (depth === 0) {
+        end = envMatch.index + envMatch[0].length
+        break
+      }
+    }
+    const source = file.content.slice(env.index, end)
+
+    const captionIndex = content.slice(env.index, end).search(/\\caption\s*(\[[^\]]*\])?\s*\{/)
+    let caption: string | undefined
+    if (captionIndex !== -1) {
+      const braceIndex = content.indexOf('{', env.index + captionIndex + '\\caption'.length)
+      caption = readGroup(content, braceIndex)?.text.replace(/\s+/g, ' ').trim()
+    }
+
+    return { title: getEnvironmentTitle(env.name, theorems), caption, source }
+  }
+
+  // A label right after a heading refers to that section
+  const before = content.slice(0, labelIndex)
+  const sectionRegex = /\\(part|chapter|section|subsection|subsubsection|paragraph)\*?\s*(?:\[[^\]]*\])?\s*\{/g
+  let section: RegExpExecArray | null = null
+  while ((match = sectionRegex.exec(before)) !== null) {
+    section = match
+  }
+  if (section) {
+    const heading = readGroup(content, section.index + section[0].length - 1)
+    const title = section[1].charAt(0).toUpperCase() + section[1].slice(1)
+    const startLine = getLineNumber(content, section.index)
+    const lines = file.content.split('\n')
+    return {
+      title,
+      caption: heading?.text.replace(/\s+/g, ' ').trim(),
+      source: lines.slice(startLine - 1, startLine + 4).join('\n')
+    }
+  }
+
+  // Otherwise show the lines around the label
+  const line = getLineNumber(content, labelIndex)
+  const lines = file.content.split('\n')
+  return { title: 'Label', source: lines.slice(Math.max(0, line - 3), line + 2).join('\n') }
+}
+
+// Find a command with a comma-separated key list under the cursor, e.g. \cite[p. 3]{a,b}.
+// Returns the key under the cursor, or all keys when the cursor is on the command itself.
+function findKeyListAt(line: string, column: number, commands: string): {
+  keys: string[]
+  start: number
+  end: number
+} | null {
+  const regex = new RegExp(`\\\\(${commands})\\*?\\s*(?:\\[[^\\]]*\\]\\s*){0,2}\\{([^}]*)\\}`, 'g')
+  let match
+  while ((match = regex.exec(line)) !== null) {
+    const start = match.index + 1
+    const end = match.index + match[0].length + 1
+    if (column < start || column > end) continue
+
+    const argStart = match.index + match[0].length - match[2].length - 1
+    let offset = argStart
+    for (const part of match[2].split(',')) {
+      const keyStart = offset + 1 + (part.length - part.trimStart().length)
+      const key = part.trim()
+      if (key && column >= keyStart && column <= keyStart + key.length) {
+        return { keys: [key], start: keyStart, end: keyStart + key.length }
+      }
+      offset += part.length + 1
+    }
+    return { keys: match[2].split(',').map(k => k.trim()).filter(Boolean), start, end }
+  }
+  return null
+}
+
+function formatCitation(key: string, citation: CitationEntry | undefined): string {
+  if (!citation) return `\`${key}\` — no bibliography entry found`
+  const parts: string[] = []
+  if (!citation.title && !citation.entryType && citation.fields.note) {
+    // A \bibitem whose author and title could not be told apart: show it as typeset
+    parts.push(citation.fields.note)
+  } else {
+    parts.push(citation.title ? `**${latexToText(citation.title)}**` : `\`${key}\``)
+    if (citation.author) parts.push(formatAuthorList(citation.author))
+    const venue = [citation.venue && `*${latexToText(citation.venue)}*`, citation.year].filter(Boolean).join(', ')
+    if (venue) parts.push(venue)
+  }
+  parts.push(`\`${key}\` · ${citation.entryType ? `@${citation.entryType} · ` : ''}${citation.file}:${citation.line}`)
+  return parts.join('\n\n')
+}
+
+function hoverReference(files: FileEntry[], lineNumber: number, line: string, column: number): monaco.languages.Hover | null {
+  const found = findKeyListAt(line, column, REF_COMMANDS)
+  if (!found) return null
+
+  const labels = collectLabels(files)
+  const theorems = collectTheorems(files)
+  const contents: monaco.IMarkdownString[] = []
+  for (const key of found.keys.slice(0, HOVER_MAX_KEYS)) {
+    const def = labels.get(key)
+    const file = def && files.find(f => f.name === def.file)
+    if (!def || !file) {
+      contents.push({ value: `\`${key}\` — label not found` })
+      continue
+    }
+    const { title, caption, source } = describeLabel(file, def.index, theorems)
+    contents.push({ value: `**${title}** · \`${key}\` · ${def.file}:${def.line}${caption ? `\n\n${caption}` : ''}` })
+    contents.push({ value: codeBlock(truncateLines(source, HOVER_MAX_LINES)) })
+  }
+
+  return { range: new monaco.Range(lineNumber, found.start, lineNumber, found.end), contents }
+}
+
+function hoverCitation(files: FileEntry[], lineNumber: number, line: string, column: number): monaco.languages.Hover | null {
+  const found = findKeyListAt(line, column, CITE_COMMANDS)
+  if (!found) return null
+
+  const citations = collectCitations(files)
+  const keys = found.keys.slice(0, HOVER_MAX_KEYS)
+  const contents = keys.map(key => ({ value: formatCitation(key, citations.get(key)) }))
+  if (found.keys.length > keys.length) {
+    contents.push({ value: `…and ${found.keys.length - keys.length} more` })
+  }
+  return { range: new monaco.Range(lineNumber, found.start, lineNumber, found.end), contents }
+}
+
+function hoverInclude(files: FileEntry[], fileName: string, lineNumber: number, line: string, column: number): monaco.languages.Hover | null {
+  const regex = /\\(?:input|include|subfile|InputIfFileExists|(?:sub)?(?:import|inputfrom|includefrom))\*?\s*\{[^}]*\}(?:\s*\{[^}]*\})?/g
+  let match
+  while ((match = regex.exec(line)) !== null) {
+    const start = match.index + 1
+    const end = match.index + match[0].length + 1
+    if (column < start || column > end) continue
+
+    const file = files.find(f => f.name === fileName)
+    const include = file && getProject(files).includes.find(inc =>
+      inc.from === fileName && inc.line === lineNumber && getColumnNumber(file.content, inc.index) === start)
+    if (!include) return null
+
+    const range = new monaco.Range(lineNumber, start, lineNumber, end)
+    const target = include.file ? files.find(f => f.name === include.file) : undefined
+    if (!target) {
+      return { range, contents: [{ value: `\`${include.path}\` is not in the paper's sources` }] }
+    }
+    const lineCount = target.content.split('\n').length
+    return {
+      range,
+      contents: [
+        { value: `**${target.name}** · ${lineCount} lines` },
+        { value: codeBlock(truncateLines(target.content, INPUT_PREVIEW_LINES)) }
+      ]
+    }
+  }
+  return null
+}
+
+function hoverMacro(files: FileEntry[], lineNumber: number, line: string, column: number): monaco.languages.Hover | null {
+  const found = findMacroAt(line, column)
+  if (!found) return null
+
+  const macro = collectMacros(files).get(found.name)
+  if (!macro) return null
+
+  return {
+    range: new monaco.Range(lineNumber, found.start, lineNumber, found.end),
+    contents: [
+      { value: `\`${macro.kind === 'environment' ? `{${macro.name}}` : macro.name}\` — ${formatMacroSignature(macro)}` },
+      { value: codeBlock(truncateLines(macro.source, HOVER_MAX_LINES)) },
+      { value: `Defined in ${macro.file}:${macro.line}` }
+    ]
+  }
+}
+
+export function createHoverProvider(getAllFiles: () => FileEntry[]): monaco.languages.HoverProvider {
+  return {
+    provideHover: (model, position) => {
+      const files = getAllFiles()
+      const line = model.getLineContent(position.lineNumber)
+      const { lineNumber, column } = position
+
+      return hoverReference(files, lineNumber, line, column)
+        ?? hoverCitation(files, lineNumber, line, column)
+        ?? hoverInclude(files, getFileNameFromUri(model.uri), lineNumber, line, column)
+        ?? hoverMacro(files, lineNumber, line, column)
+    }
+  }
+}
+
+// --- References ---
+
+export interface ReferenceTarget {
+  kind: 'label' | 'citation' | 'macro' | 'file'
+  name: string // label or citation key, macro name ("\\vx", or the bare name of an environment), or file name
+}
+
+export interface ReferenceLocation {
+  file: string
+  line: number
+  column: number // 1-based, start of the referenced name
+  endColumn: number
+  lineContent: string
+  isDefinition: boolean
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+const lineStartsCache = new WeakMap<FileEntry, number[]>()
+
+// Line and column of an offset, using a per-file index of line starts so files with
+// many matches are not rescanned for each one
+export function getPosition(file: FileEntry, index: number): { line: number; column: number; lineContent: string } {
+  let lineStarts = lineStartsCache.get(file)
+  if (!lineStarts) {
+    lineStarts = [0]
+    for (let i = 0; i < file.content.length; i++) {
+      if (file.content.charCodeAt(i) === 10) lineStarts.push(i + 1)
+    }
+    lineStartsCache.set(file, lineStarts)
+  }
+  let low = 0
+  let high = lineStarts.length - 1
+  while (low < high) {
+    const mid = (low + high + 1) >> 1
+    if (lineStarts[mid] <= index) low = mid
+    else high = mid - 1
+  }
+  const end = low + 1 < lineStarts.length ? lineStarts[low + 1] - 1 : file.content.length
+  return { line: low + 1, column: index - lineStarts[low] + 1, lineContent: file.content.slice(lineStarts[low], end) }
+}
+
+function createLocation(file: FileEntry, index: number, length: number, isDefinition = false): ReferenceLocation {
+  const { line, column, lineContent } = getPosition(file, index)
+  return { file: file.name, line, column, endColumn: column + length, lineContent, isDefinition }
+}
+
+// Location of a definition known only by its line, pointing at the name if the line contains it
+function createLineLocation(file: FileEntry, line: number, name: string): ReferenceLocation {
+  const lineContent = file.content.split('\n')[line - 1] ?? ''
+  const column = lineContent.indexOf(name) + 1 || 1
+  return { file: file.name, line, column, endColumn: column + name.length, lineContent, isDefinition: true }
+}
+
+export interface KeyUse {
+  key: string
+  location: ReferenceLocation
+}
+
+// Key uses by file, so only changed files are scanned again
+const keyUseCache = new WeakMap<FileEntry, Partial<Record<'label' | 'citation', KeyUse[]>>>()
+
+// Every key in the key lists of \ref-like or \cite-like commands, e.g. both halves of \cref{a,b}
+export function collectKeyUses(files: FileEntry[], kind: 'label' | 'citation'): KeyUse[] {
+  return files.flatMap(file => file.isTeX ? collectFileKeyUses(file, kind) : [])
+}
+
+function collectFileKeyUses(file: FileEntry, kind: 'label' | 'citation'): KeyUse[] {
+  let byKind = keyUseCache.get(file)
+  if (!byKind) {
+    byKind = {}
+    keyUseCache.set(file, byKind)
+  }
+  const cached = byKind[kind]
+  if (cached) return cached
+
+  const uses: KeyUse[] = []
+  const commands = kind === 'label' ? REF_COMMANDS : CITE_COMMANDS
+  const content = stripComments(file.content)
+  const regex = new RegExp(`\\\\(?:${commands})\\*?\\s*(?:\\[[^\\]]*\\]\\s*){0,2}\\{([^}]*)\\}`, 'g')
+  let match
+  while ((match = regex.exec(content)) !== null) {
+    let offset = match.index + match[0].length - match[1].length - 1
+    for (const part of match[1].split(',')) {
+      const key = part.trim()
+      if (key) {
+        uses.push({ key, location: createLocation(file, offset + part.length - part.trimStart().length, key.length) })
+      }
+      offset += part.length + 1
+    }
+  }
+  byKind[kind] = uses
+  return uses
+}
+
+function findKeyReferences(files: FileEntry[], kind: 'label' | 'citation', key: string): ReferenceLocation[] {
+  return collectKeyUses(files, kind).filter(use => use.key === key).map(use => use.location)
+}
+
+function findMacroReferences(files: FileEntry[], name: string): ReferenceLocation[] {
+  const locations: ReferenceLocation[] = []
+  const isCommand = name.startsWith('\\')
+  const regex = isCommand
+    ? new RegExp(`${escapeRegExp(name)}${/[a-zA-Z@]$/.test(name) ? '(?![a-zA-Z@])' : ''}`, 'g')
+    : new RegExp(`\\\\begin\\s*\\{(${escapeRegExp(name)})\\}`, 'g')
+  for (const file of files) {
+    if (!isMacroSourceFile(file)) continue
+    const content = stripComments(file.content)
+    let match
+    while ((match = regex.exec(content)) !== null) {
+      const index = isCommand ? match.index : match.index + match[0].length - name.length - 1
+      locations.push(createLocation(file, index, name.length))
+    }
+  }
+  return locations
+}
+
+// Commands that pull the file in: \input and friends, \includegraphics, \usepackage of a local
+// package and \bibliography, as drawn in the dependency graph
+function findFileReferences(files: FileEntry[], name: string): ReferenceLocation[] {
+  const stem = (name.split('/').pop() || name).replace(/\.[^.]+$/, '')
+  const locations: ReferenceLocation[] = []
+  for (const edge of buildDependencyGraph(files, getProject(files)).edges) {
+    if (edge.to !== name) continue
+    const file = files.find(f => f.name === edge.from)
+    if (file) locations.push({ ...createLineLocation(file, edge.line, stem), isDefinition: false })
+  }
+  return locations
+}
+
+export function findReferences(files: FileEntry[], target: ReferenceTarget): ReferenceLocation[] {
+  const byName = new Map(files.map(f => [f.name, f]))
+  const definitions: ReferenceLocation[] = []
+  let uses: ReferenceLocation[] = []
+
+  switch (target.kind) {
+    case 'label': {
+      const def = collectLabels(files).get(target.name)
+      const file = def && byName.get(def.file)
+      if (def && file) {
+        definitions.push(createLocation(file, file.content.indexOf(target.name, def.index), target.name.length, true))
+      }
+      uses = findKeyReferences(files, 'label', target.name)
+      break
+    }
+    case 'citation': {
+      const def = collectCitations(files).get(target.name)
+      const file = def && byName.get(def.file)
+      if (def && file) definitions.push(createLineLocation(file, def.line, target.name))
+      uses = findKeyReferences(files, 'citation', target.name)
+      break
+    }
+    case 'macro': {
+      const def = collectMacros(files).get(target.name)
+      const file = def && byName.get(def.file)
+      if (def && file) definitions.push(createLineLocation(file, def.line, target.name))
+      // The name also appears in its own definition
+      uses = findMacroReferences(files, target.name)
+        .filter(loc => !definitions.some(d => d.file === loc.file && d.line === loc.line))
+      break
+    }
+    case 'file':
+      uses = findFileReferences(files, target.name)
+      break
+  }
+
+  return [...definitions, ...uses]
+}
+
+// What Find All References should look for at a position: a key in \ref or \cite, a \label,
+// a bibliography entry, the file of an \input or \includegraphics, or a command or environment
+export function findReferenceTargetAt(files: FileEntry[], fileName: string, lineNumber: number, line: string, column: number): ReferenceTarget | null {
+  const ref = findKeyListAt(line, column, `${REF_COMMANDS}|label`)
+  if (ref) return { kind: 'label', name: ref.keys[0] }
+
+  const cite = findKeyListAt(line, column, CITE_COMMANDS)
+  if (cite) return { kind: 'citation', name: cite.keys[0] }
+
+  const entryRegex = /@[a-zA-Z]+\s*[{(]\s*([^,\s]+)|\\bibitem\s*(?:\[[^\]]*\])?\s*\{([^}]+)\}|\\entry\s*\{([^}]+)\}/g
+  let match
+  while ((match = entryRegex.exec(line)) !== null) {
+    if (column >= match.index + 1 && column <= match.index + match[0].length + 1) {
+      return { kind: 'citation', name: (match[1] ?? match[2] ?? match[3]).trim() }
+    }
+  }
+
+  // The \input or \includegraphics under the cursor, matched by its columns
+  const edge = buildDependencyGraph(files, getProject(files)).edges.find(edge =>
+    edge.from === fileName && edge.line === lineNumber && (edge.kind === 'input' || edge.kind === 'graphic') &&
+    column >= edge.column && column <= edge.endColumn)
+  if (edge) return edge.to.startsWith('missing:') ? null : { kind: 'file', name: edge.to }
+
+  const macro = findMacroAt(line, column)
+  if (macro) return { kind: 'macro', name: macro.name }
+  return null
+}
+
+export function createReferenceProvider(getAllFiles: () => FileEntry[]): monaco.languages.ReferenceProvider {
+  return {
+    provideReferences: (model, position, context) => {
+      const files = getAllFiles()
+      const line = model.getLineContent(position.lineNumber)
+      const target = findReferenceTargetAt(files, getFileNameFromUri(model.uri), position.lineNumber, line, position.column)
+      if (!target) return []
+
+      return findReferences(files, target)
+        .filter(loc => context.includeDeclaration || !loc.isDefinition)
+        .map(loc => ({
+          uri: getFileUri(loc.file),
+          range: new monaco.Range(loc.line, loc.column, loc.line, loc.endColumn)
+        }))
+    }
+  }
+}
+
 export function createCompletionProvider(getAllFiles: () => FileEntry[]): monaco.languages.CompletionItemProvider {
   return {
     triggerCharacters: ['\\', '{', '{', ','],
@@ -291,7 +1193,7 @@ export function createCompletionProvider(getAllFiles: () => FileEntry[]): monaco
           }
       }
 
-      const citeMatch = /\\(cite|citet|citep)\{[^}]*$/.exec(textUntilPosition)
+      const citeMatch = /\\([a-zA-Z]*cite[a-zA-Z]*)\*?(\[[^\]]*\])*\{[^}]*$/.exec(textUntilPosition)
       if (citeMatch) {
           const files = getAllFiles()
           const citations = collectCitations(files)
@@ -300,7 +1202,10 @@ export function createCompletionProvider(getAllFiles: () => FileEntry[]): monaco
                   label: key,
                   kind: monaco.languages.CompletionItemKind.Reference,
                   insertText: key,
-                  detail: def.title ? `${def.title} (${def.author || 'Unknown'})` : def.file,
+                  detail: def.title
+                    ? `${latexToText(def.title)} (${def.author ? formatAuthorList(def.author, 3) : 'Unknown'})`
+                    : def.file,
+                  documentation: { value: formatCitation(key, def) },
                   range: {
                     startLineNumber: position.lineNumber,
                     startColumn: position.column,
@@ -335,7 +1240,7 @@ export function createCompletionProvider(getAllFiles: () => FileEntry[]): monaco
       const inputMatch = /\\(input|include)\{[^}]*$/.exec(textUntilPosition)
       if (inputMatch) {
           const files = getAllFiles()
-          const texFiles = files.filter(f => f.isTeX && f.name !== model.uri.path.split('/').pop())
+          const texFiles = files.filter(f => f.isTeX && f.name !== getFileNameFromUri(model.uri))
           
           suggestions.push(...texFiles.map(f => ({
               label: f.name.replace('.tex', ''), // usually input is without extension
@@ -0,0 +1,94 @@
+import { stripComments } from './project'
+
+// Where the formulas in a source file are: $...$, \(...\), \[...\], $$...$$ and math
+// environments. Kept apart from the MathJax rendering so it can be used in workers.
+
+export interface MathRegion {
+  start: number // offset of the opening delimiter
+  end: number // offset after the closing delimiter
+  tex: string // what is passed to MathJax: the body, or the whole environment
+  display: boolean
+}
+
+// Environments typeset as a whole, including the \begin and \end
+const MATH_ENVIRONMENTS = new Set([
+  'equation', 'align', 'gather', 'multline', 'flalign', 'alignat', 'eqnarray', 'displaymath', 'math', 'dmath'
+])
+
+export function isMathEnvironment(name: string): boolean {
+  return MATH_ENVIRONMENTS.has(name.replace(/\*$/, ''))
+}
+
+// Find the offset of `closing` after `from`, skipping escaped characters. Inline math cannot
+// span a paragraph break, so an unclosed $ does not swallow the rest of the file.
+function findClosing(code: string, from: number, closing: string, stopAtParagraph: boolean): number {
+  for (let i = from; i < code.length; i++) {
+    if (code.startsWith(closing, i)) return i
+    if (code[i] === '\\') {
+      i++
+    } else if (stopAtParagraph && code[i] === '\n' && /^\n[ \t]*\n/.test(code.slice(i, i + 80))) {
+      return -1
+    }
+  }
+  return -1
+}
+
+let regionCache: { content: string; regions: MathRegion[] } | null = null
+
+export function findMathRegions(content: string): MathRegion[] {
+  if (regionCache?.content === content) return regionCache.regions
+
+  const code = stripComments(content)
+  const regions: MathRegion[] = []
+  let i = 0
+  while (i < code.length) {
+    const ch = code[i]
+    if (ch === '\\') {
+      const next = code[i + 1]
+      if (next === '(' || next === '[') {
+        const closing = next === '(' ? '\\)' : '\\]'
+        const end = findClosing(code, i + 2, closing, next === '(')
+        if (end !== -1) {
+          regions.push({ start: i, end: end + 2, tex: code.slice(i + 2, end), display: next === '[' })
+          i = end + 2
+          continue
+        }
+      }
+      const begin = /^\\begin\s*\{([^}]+)\}/.exec(code.slice(i, i + 40))
+      if (begin && isMathEnvironment(begin[1])) {
+        const endTag = `\\end{${begin[1]}}`
+        const end = code.indexOf(endTag, i + begin[0].length)
+        if (end !== -1) {
+          const name = begin[1].replace(/\*$/, '')
+          const tex = name === 'math' || name === 'displaymath' || name === 'dmath'
+            ? code.slice(i + begin[0].length, end)
+            : code.slice(i, end + endTag.length)
+          regions.push({ start: i, end: end + endTag.length, tex, display: name !== 'math' })
+          i = end + endTag.length
+          continue
+        }
+      }
+      i += 2
+      continue
+    }
+
+    if (ch === '$') {
+      const display = code[i + 1] === '$'
+      const open = display ? 2 : 1
+      const end = findClosing(code, i + open, display ? '$$' : '$', !display)
+      if (end !== -1) {
+        regions.push({ start: i, end: end + open, tex: code.slice(i + open, end), display })
+        i = end + open
+        continue
+      }
+    }
+    i++
+  }
+
+  regionCache = { content, regions }
+  return regions
+}
+
+export function findMathAt(content: string, offset: number): MathRegion | null {
+  return findMathRegions(content).find(region => offset >= region.start && offset <= region.end) || null
+}
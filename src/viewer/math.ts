@@ -0,0 +1,156 @@
+import * as monaco from 'monaco-editor'
+import { mathjax } from 'mathjax-full/js/mathjax.js'
+import { TeX } from 'mathjax-full/js/input/tex.js'
+import { SVG } from 'mathjax-full/js/output/svg.js'
+import { liteAdaptor } from 'mathjax-full/js/adaptors/liteAdaptor.js'
+import { RegisterHTMLHandler } from 'mathjax-full/js/handlers/html.js'
+import { AllPackages } from 'mathjax-full/js/input/tex/AllPackages.js'
+import { FileEntry, MacroDefinition, collectMacros } from './latex-features'
+import { findMathAt, isMathEnvironment } from './math-regions'
+
+// Math rendering with a bundled MathJax: finds the formula around a position ($...$, \(...\),
+// \[...\], $$...$$ or a math environment) and typesets it to SVG, with the paper's own
+// \newcommand and \newenvironment definitions applied.
+
+export type MathRender = { svg: string } | { error: string }
+
+// Packages that only make sense in a live page (actions, HTML attributes) or report errors as output
+const EXCLUDED_PACKAGES = new Set(['action', 'html', 'noerrors', 'bussproofs'])
+
+// Commands from common packages that MathJax does not define
+const DEFAULT_MACROS: Record<string, string | [string, number]> = {
+  ensuremath: ['#1', 1],
+  xspace: '',
+  bm: ['\\boldsymbol{#1}', 1],
+  mathbbm: ['\\mathbb{#1}', 1],
+  nobreakspace: '~'
+}
+
+// Foreground of the dark editor theme, for formulas drawn as images where currentColor is black
+const HOVER_COLOR = '#d4d4d4'
+
+// Rendered formulas kept per set of macros
+const RENDER_CACHE_SIZE = 200
+
+const adaptor = liteAdaptor()
+RegisterHTMLHandler(adaptor)
+
+interface MathJaxMacros {
+  macros: Record<string, string | [string, number] | [string, number, string]>
+  environments: Record<string, [string, string] | [string, string, number] | [string, string, number, string]>
+}
+
+const macroOptionsCache = new WeakMap<Map<string, MacroDefinition>, MathJaxMacros>()
+
+// MathJax takes macros as replacement text with an argument count, like \newcommand
+function toMathJaxMacros(definitions: Map<string, MacroDefinition>): MathJaxMacros {
+  const cached = macroOptionsCache.get(definitions)
+  if (cached) return cached
+
+  const result: MathJaxMacros = { macros: { ...DEFAULT_MACROS }, environments: {} }
+  for (const macro of definitions.values()) {
+    if (macro.kind === 'environment') {
+      if (isMathEnvironment(macro.name)) continue
+      result.environments[macro.name] = macro.optionalDefault !== undefined
+        ? [macro.body, macro.endBody ?? '', macro.args, macro.optionalDefault]
+        : [macro.body, macro.endBody ?? '', macro.args]
+      continue
+    }
+
+    const name = macro.name.slice(1)
+    if (macro.command.startsWith('DeclareMathOperator')) {
+      const star = macro.command.endsWith('*') ? '*' : ''
+      result.macros[name] = `\\operatorname${star}{${macro.body}}`
+    } else if (macro.command === 'let') {
+      result.macros[name] = macro.body
+    } else if (/def$/.test(macro.command) && !/^\\[gex]?def\s*\\[a-zA-Z@]+\s*(?:#[1-9]\s*)*\{/.test(macro.source)) {
+      // Delimited parameters (\def\foo#1.{...}) have no MathJax equivalent
+      continue
+    } else if (macro.optionalDefault !== undefined) {
+      result.macros[name] = [macro.body, macro.args, macro.optionalDefault]
+    } else {
+      result.macros[name] = [macro.body, macro.args]
+    }
+  }
+
+  macroOptionsCache.set(definitions, result)
+  return result
+}
+
+interface Renderer {
+  convert: (tex: string, display: boolean) => MathRender
+}
+
+const rendererCache = new WeakMap<Map<string, MacroDefinition>, Renderer>()
+
+function createRenderer(definitions: Map<string, MacroDefinition>): Renderer {
+  const { macros, environments } = toMathJaxMacros(definitions)
+  const tex = new TeX({
+    packages: AllPackages.filter(name => !EXCLUDED_PACKAGES.has(name)),
+    macros,
+    environments,
+    tags: 'none',
+    formatError: (_jax: unknown, error: Error) => { throw error }
+  })
+  const document = mathjax.document('', { InputJax: tex, OutputJax: new SVG({ fontCache: 'local' }) })
+  const cache = new Map<string, MathRender>()
+
+  return {
+    convert: (source, display) => {
+      // Labels are registered per document, so rendering one twice would report it as a duplicate
+      const input = source.replace(/\\label\s*\{[^}]*\}/g, '').trim()
+      const key = `${display ? 'D' : 'I'}${input}`
+      const cached = cache.get(key)
+      if (cached) return cached
+
+      let result: MathRender
+      try {
+        const node = document.convert(input, { display, em: 16, ex: 8, containerWidth: 1280 })
+        result = { svg: adaptor.innerHTML(node) }
+      } catch (err) {
+        result = { error: err instanceof Error ? err.message : String(err) }
+      }
+      if (cache.size >= RENDER_CACHE_SIZE) cache.clear()
+      cache.set(key, result)
+      return result
+    }
+  }
+}
+
+export function renderMath(files: FileEntry[], tex: string, display: boolean): MathRender {
+  const definitions = collectMacros(files)
+  let renderer = rendererCache.get(definitions)
+  if (!renderer) {
+    renderer = createRenderer(definitions)
+    rendererCache.set(definitions, renderer)
+  }
+  return renderer.convert(tex, display)
+}
+
+function toDataUri(svg: string): string {
+  const bytes = new TextEncoder().encode(svg.replace(/currentColor/g, HOVER_COLOR))
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return `data:image/svg+xml;base64,${btoa(binary)}`
+}
+
+export function createMathHoverProvider(getAllFiles: () => FileEntry[]): monaco.languages.HoverProvider {
+  return {
+    provideHover: (model, position) => {
+      const content = model.getValue()
+      const region = findMathAt(content, model.getOffsetAt(position))
+      if (!region || !region.tex.trim()) return null
+
+      const start = model.getPositionAt(region.start)
+      const end = model.getPositionAt(region.end)
+      const range = new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column)
+      const rendered = renderMath(getAllFiles(), region.tex, region.display)
+      if ('error' in rendered) {
+        return { range, contents: [{ value: `Could not render formula: ${rendered.error}` }] }
+      }
+      return { range, contents: [{ value: `![formula](${toDataUri(rendered.svg)})` }] }
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { AbortException, GlobalWorkerOptions, RenderingCancelledException, TextLayer, getDocument } from 'pdfjs-dist'
+import type { PDFDocumentProxy, PDFPageProxy, PageViewport } from 'pdfjs-dist'
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url'
+import { FileEntry } from './latex-features'
+
+// PDF rendering with a bundled PDF.js: pages are drawn to a canvas with a transparent text
+// layer on top for selection, and figures can be rendered to small thumbnails for the views
+// that list them.
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl
+
+export type { PDFDocumentProxy }
+
+export interface RenderedPage {
+  viewport: PageViewport
+  cancel: () => void
+  done: Promise<void> // rejects when cancelled, see isCancelled
+}
+
+// Thumbnails kept per file and size, as data URLs so they need no cleanup
+const thumbnailCache = new WeakMap<FileEntry, Map<number, Promise<string>>>()
+
+// Thumbnails are rendered one at a time, so a view with dozens of figures stays responsive
+let thumbnailQueue: Promise<unknown> = Promise.resolve()
+
+export function isCancelled(err: unknown): boolean {
+  return err instanceof RenderingCancelledException || err instanceof AbortException
+}
+
+export function loadPdf(file: FileEntry): Promise<PDFDocumentProxy> {
+  if (!file.binaryData) return Promise.reject(new Error(`${file.name} has no data`))
+  // The worker takes ownership of the buffer it is given, so hand it a copy
+  return getDocument({
+    data: file.binaryData.slice(),
+    // Extension pages do not allow eval, which PDF.js would otherwise use to compile fonts
+    isEvalSupported: false
+  }).promise
+}
+
+// Draw a page into `canvas` at `scale` CSS pixels per PDF point, sharp on high-DPI screens,
+// and fill `textLayer` (if given) with selectable text positioned over it
+export function renderPage(page: PDFPageProxy, scale: number, canvas: HTMLCanvasElement, textLayer?: HTMLElement): RenderedPage {
+  const viewport = page.getViewport({ scale })
+  const ratio = window.devicePixelRatio || 1
+  canvas.width = Math.floor(viewport.width * ratio)
+  canvas.height = Math.floor(viewport.height * ratio)
+  canvas.style.width = `${Math.floor(viewport.width)}px`
+  canvas.style.height = `${Math.floor(viewport.height)}px`
+
+  const task = page.render({
+    canvasContext: canvas.getContext('2d')!,
+    viewport,
+    transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined
+  })
+
+  let text: TextLayer | null = null
+  if (textLayer) {
+    textLayer.replaceChildren()
+    textLayer.style.setProperty('--scale-factor', String(scale))
+    text = new TextLayer({ textContentSource: page.streamTextContent(), container: textLayer, viewport })
+  }
+
+  return {
+    viewport,
+    cancel: () => {
+      task.cancel()
+      text?.cancel()
+    },
+    done: Promise.all([task.promise, text?.render()]).then(() => undefined)
+  }
+}
+
+async function createThumbnail(file: FileEntry, size: number): Promise<string> {
+  const pdf = await loadPdf(file)
+  try {
+    const page = await pdf.getPage(1)
+    const base = page.getViewport({ scale: 1 })
+    const scale = size / Math.max(base.width, base.height)
+    const canvas = document.createElement('canvas')
+    await renderPage(page, scale, canvas).done
+    return canvas.toDataURL('image/png')
+  } finally {
+    pdf.destroy()
+  }
+}
+
+// First page of a PDF as an image URL no larger than `size` CSS pixels on either side
+export function getPdfThumbnail(file: FileEntry, size: number): Promise<string> {
+  let sizes = thumbnailCache.get(file)
+  if (!sizes) {
+    sizes = new Map()
+    thumbnailCache.set(file, sizes)
+  }
+  let thumbnail = sizes.get(size)
+  if (!thumbnail) {
+    thumbnail = thumbnailQueue.then(() => createThumbnail(file, size))
+    thumbnailQueue = thumbnail.catch(() => undefined)
+    // Let a failed thumbnail be retried, e.g. after the file is replaced
+    thumbnail.catch(() => sizes!.delete(size))
+    sizes.set(size, thumbnail)
+  }
+  return thumbnail
+}
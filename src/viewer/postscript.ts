@@ -0,0 +1,2622 @@
+import { inflateSync, unzlibSync } from 'fflate'
+
+// A small PostScript interpreter that draws on a canvas, for previewing EPS figures. It covers
+// what plotting programs (matplotlib, gnuplot, MATLAB, xfig, dvips) write: paths, transforms,
+// procedures and dictionaries, Type 3 fonts, inline images and the ASCII85, hex, run-length
+// and Flate filters. Other fonts are drawn with a similar browser font, and operators it does
+// not implement are reported and skipped.
+
+export type Matrix = [number, number, number, number, number, number]
+
+export interface PostScriptResult {
+  warnings: string[] // unsupported features and errors the program recovered from
+  error: string | null // why the program stopped early, if it did
+}
+
+interface PSName { kind: 'name'; name: string; executable: boolean }
+interface PSString { kind: 'string'; bytes: Uint8Array; executable: boolean }
+interface PSArray { kind: 'array'; items: Value[]; executable: boolean }
+interface PSDict { kind: 'dict'; map: Map<unknown, { key: Value; value: Value }> }
+interface PSOperator { kind: 'operator'; name: string; run: (ps: Interpreter) => void }
+interface PSFile { kind: 'file'; read: () => number; isCurrentFile: boolean; isInline?: boolean; isJpeg?: boolean }
+interface PSMark { kind: 'mark' }
+interface PSSave { kind: 'save'; depth: number }
+interface PSFontId { kind: 'fontid' }
+
+type Value = number | boolean | null | PSName | PSString | PSArray | PSDict | PSOperator | PSFile | PSMark | PSSave | PSFontId
+
+type PathSegment = ['M', number, number] | ['L', number, number] | ['C', number, number, number, number, number, number] | ['Z']
+
+interface GraphicsState {
+  ctm: Matrix
+  rgb: [number, number, number]
+  colorSpace: Value // name or array given to setcolorspace
+  color: number[] // components in the color space
+  lineWidth: number
+  lineCap: number
+  lineJoin: number
+  miterLimit: number
+  dash: number[]
+  dashOffset: number
+  font: PSDict | null
+  path: PathSegment[] // in device space, like PostScript keeps it
+  point: [number, number] | null
+  subpathStart: [number, number] | null
+}
+
+interface Lexer {
+  data: Uint8Array
+  pos: number
+}
+
+interface Interpreter {
+  stack: Value[]
+  dicts: PSDict[]
+  gs: GraphicsState
+  saved: GraphicsState[]
+  ctx: OffscreenCanvasRenderingContext2D
+  defaultMatrix: Matrix
+  width: number
+  height: number
+  lexer: Lexer
+  operations: number
+  warnings: Set<string>
+  suppressPaint: number // above zero while measuring Type 3 glyphs
+  charWidth: [number, number] | null // set by setcharwidth or setcachedevice in a Type 3 glyph
+  systemdict: PSDict
+  userdict: PSDict
+  fontDirectory: PSDict
+  resources: Map<string, PSDict>
+  widthCache: Map<string, number>
+}
+
+// Raised by operators; the interpreter reports it and carries on with the next token
+class PostScriptError extends Error {
+  constructor(public type: string, public command = '') {
+    super(type)
+  }
+}
+
+// Control flow signals, thrown through the JavaScript stack
+const EXIT = { signal: 'exit' }
+const STOP = { signal: 'stop' }
+const QUIT = { signal: 'quit' }
+const PROCEDURE_END = { kind: 'procedure-end' }
+
+// Upper bound on executed objects, so a runaway program does not keep its worker busy forever
+const MAX_OPERATIONS = 20_000_000
+const MAX_ERRORS = 50
+
+// Size text is drawn at before the font matrix scales it, in canvas pixels
+const TEXT_SIZE = 100
+
+const ASCII_GLYPHS = [
+  'space', 'exclam', 'quotedbl', 'numbersign', 'dollar', 'percent', 'ampersand', 'quoteright', 'parenleft',
+  'parenright', 'asterisk', 'plus', 'comma', 'hyphen', 'period', 'slash', 'zero', 'one', 'two', 'three', 'four',
+  'five', 'six', 'seven', 'eight', 'nine', 'colon', 'semicolon', 'less', 'equal', 'greater', 'question', 'at',
+  ...'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'bracketleft', 'backslash', 'bracketright', 'asciicircum', 'underscore',
+  'quoteleft', ...'abcdefghijklmnopqrstuvwxyz', 'braceleft', 'bar', 'braceright', 'asciitilde'
+]
+
+const GLYPH_TEXT: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&',
+  quoteright: '’', quotesingle: "'", parenleft: '(', parenright: ')', asterisk: '*', plus: '+', comma: ',',
+  hyphen: '-', minus: '−', period: '.', slash: '/', zero: '0', one: '1', two: '2', three: '3', four: '4',
+  five: '5', six: '6', seven: '7', eight: '8', nine: '9', colon: ':', semicolon: ';', less: '<', equal: '=',
+  greater: '>', question: '?', at: '@', bracketleft: '[', backslash: '\\', bracketright: ']', asciicircum: '^',
+  underscore: '_', quoteleft: '‘', grave: '`', braceleft: '{', bar: '|', braceright: '}', asciitilde: '~',
+  endash: '–', emdash: '—', bullet: '•', degree: '°', plusminus: '±', multiply: '×', divide: '÷', mu: 'µ',
+  periodcentered: '·', quotedblleft: '“', quotedblright: '”', quotedblbase: '„', quotesinglbase: '‚',
+  ellipsis: '…', dagger: '†', daggerdbl: '‡', section: '§', paragraph: '¶', copyright: '©', registered: '®',
+  trademark: '™', fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl', dotlessi: 'ı', germandbls: 'ß',
+  ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', oslash: 'ø', Oslash: 'Ø', lslash: 'ł', Lslash: 'Ł', exclamdown: '¡',
+  questiondown: '¿', guillemotleft: '«', guillemotright: '»', sterling: '£', yen: '¥', cent: '¢', Euro: '€',
+  infinity: '∞', approxequal: '≈', notequal: '≠', lessequal: '≤', greaterequal: '≥', partialdiff: '∂',
+  summation: '∑', product: '∏', radical: '√', integral: '∫', arrowright: '→', arrowleft: '←', arrowup: '↑',
+  arrowdown: '↓', arrowboth: '↔', element: '∈', proportional: '∝', nabla: '∇', logicaland: '∧',
+  logicalor: '∨', similar: '∼', prime: '′', angle: '∠', perpendicular: '⊥', circleplus: '⊕',
+  circlemultiply: '⊗', emptyset: '∅', dotmath: '⋅', asteriskmath: '∗', onehalf: '½', onequarter: '¼',
+  threequarters: '¾', ordfeminine: 'ª', ordmasculine: 'º', logicalnot: '¬', brokenbar: '¦', dieresis: '¨',
+  acute: '´', cedilla: '¸', macron: '¯', ring: '˚', tilde: '˜', circumflex: 'ˆ', caron: 'ˇ', breve: '˘',
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', zeta: 'ζ', eta: 'η', theta: 'θ', iota: 'ι',
+  kappa: 'κ', lambda: 'λ', nu: 'ν', xi: 'ξ', omicron: 'ο', pi: 'π', rho: 'ρ', sigma: 'σ', tau: 'τ',
+  upsilon: 'υ', phi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω', Alpha: 'Α', Beta: 'Β', Gamma: 'Γ', Delta: 'Δ',
+  Epsilon: 'Ε', Zeta: 'Ζ', Eta: 'Η', Theta: 'Θ', Iota: 'Ι', Kappa: 'Κ', Lambda: 'Λ', Mu: 'Μ', Nu: 'Ν',
+  Xi: 'Ξ', Omicron: 'Ο', Pi: 'Π', Rho: 'Ρ', Sigma: 'Σ', Tau: 'Τ', Upsilon: 'Υ', Phi: 'Φ', Chi: 'Χ',
+  Psi: 'Ψ', Omega: 'Ω', theta1: 'ϑ', phi1: 'ϕ', omega1: 'ϖ', sigma1: 'ς', Upsilon1: 'ϒ'
+}
+
+const ACCENTS: Record<string, string> = {
+  acute: '́', grave: '̀', circumflex: '̂', dieresis: '̈', tilde: '̃',
+  ring: '̊', cedilla: '̧', caron: '̌', macron: '̄', breve: '̆', ogonek: '̨',
+  dotaccent: '̇', hungarumlaut: '̋'
+}
+
+// The Symbol font's built-in encoding, for codes that differ from Latin-1
+const SYMBOL_TEXT: Record<number, string> = {
+  0x22: '∀', 0x24: '∃', 0x27: '∋', 0x2a: '∗', 0x2d: '−', 0x40: '≅', 0x5c: '∴', 0x5e: '⊥', 0x60: '‾',
+  0xa1: 'ϒ', 0xa2: '′', 0xa3: '≤', 0xa4: '⁄', 0xa5: '∞', 0xa6: 'ƒ', 0xa7: '♣', 0xa8: '♦', 0xa9: '♥',
+  0xaa: '♠', 0xab: '↔', 0xac: '←', 0xad: '↑', 0xae: '→', 0xaf: '↓', 0xb0: '°', 0xb1: '±', 0xb2: '″',
+  0xb3: '≥', 0xb4: '×', 0xb5: '∝', 0xb6: '∂', 0xb7: '•', 0xb8: '÷', 0xb9: '≠', 0xba: '≡', 0xbb: '≈',
+  0xbc: '…', 0xc0: 'ℵ', 0xc4: '⊗', 0xc5: '⊕', 0xc6: '∅', 0xc7: '∩', 0xc8: '∪', 0xc9: '⊃', 0xca: '⊇',
+  0xcc: '⊂', 0xcd: '⊆', 0xce: '∈', 0xcf: '∉', 0xd0: '∠', 0xd1: '∇', 0xd5: '∏', 0xd6: '√', 0xd7: '⋅',
+  0xd8: '¬', 0xd9: '∧', 0xda: '∨', 0xdb: '⇔', 0xdc: '⇐', 0xdd: '⇑', 0xde: '⇒', 0xdf: '⇓', 0xe1: '〈',
+  0xe5: '∑', 0xf1: '〉', 0xf2: '∫'
+}
+const SYMBOL_LETTERS = 'ΑΒΧΔΕΦΓΗΙϑΚΛΜΝΟΠΘΡΣΤΥςΩΞΨΖ'
+const SYMBOL_LOWERCASE = 'αβχδεφγηιϕκλμνοπθρστυϖωξψζ'
+
+// --- Values ---
+
+function createName(name: string, executable = false): PSName {
+  return { kind: 'name', name, executable }
+}
+
+function createString(bytes: Uint8Array): PSString {
+  return { kind: 'string', bytes, executable: false }
+}
+
+function stringFromText(text: string): PSString {
+  const bytes = new Uint8Array(text.length)
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff
+  return createString(bytes)
+}
+
+function textOf(value: PSString | PSName): string {
+  if (value.kind === 'name') return value.name
+  let text = ''
+  for (let i = 0; i < value.bytes.length; i++) text += String.fromCharCode(value.bytes[i])
+  return text
+}
+
+function createArray(items: Value[], executable = false): PSArray {
+  return { kind: 'array', items, executable }
+}
+
+function createDict(): PSDict {
+  return { kind: 'dict', map: new Map() }
+}
+
+function isObject(value: Value | undefined): value is Exclude<Value, number | boolean | null> {
+  return typeof value === 'object' && value !== null
+}
+
+// Names and strings with the same text are the same key
+function keyOf(key: Value): unknown {
+  if (isObject(key) && (key.kind === 'name' || key.kind === 'string')) return textOf(key)
+  return key
+}
+
+function dictGet(dict: PSDict, key: string): Value | undefined {
+  return dict.map.get(key)?.value
+}
+
+function dictPut(dict: PSDict, key: Value, value: Value) {
+  dict.map.set(keyOf(key), { key, value })
+}
+
+function isExecutable(value: Value): boolean {
+  if (!isObject(value)) return false
+  if (value.kind === 'operator') return true
+  return (value.kind === 'name' || value.kind === 'array' || value.kind === 'string') && value.executable
+}
+
+function isProcedure(value: Value): value is PSArray {
+  return isObject(value) && value.kind === 'array' && value.executable
+}
+
+// --- Scanner ---
+
+function isWhitespace(c: number): boolean {
+  return c === 32 || c === 10 || c === 13 || c === 9 || c === 12 || c === 0
+}
+
+function isDelimiter(c: number): boolean {
+  return c === 40 || c === 41 || c === 60 || c === 62 || c === 91 || c === 93 || c === 123 || c === 125 || c === 47 || c === 37
+}
+
+function isHexDigit(c: number): boolean {
+  return (c >= 48 && c <= 57) || (c >= 65 && c <= 70) || (c >= 97 && c <= 102)
+}
+
+function hexValue(c: number): number {
+  return c <= 57 ? c - 48 : (c | 32) - 87
+}
+
+function readLiteralString(lexer: Lexer): PSString {
+  const { data } = lexer
+  const bytes: number[] = []
+  let depth = 1
+  while (lexer.pos < data.length) {
+    let c = data[lexer.pos++]
+    if (c === 40) {
+      depth++
+    } else if (c === 41) {
+      if (--depth === 0) break
+    } else if (c === 92) {
+      c = data[lexer.pos++]
+      if (c === 110) c = 10
+      else if (c === 114) c = 13
+      else if (c === 116) c = 9
+      else if (c === 98) c = 8
+      else if (c === 102) c = 12
+      else if (c === 13 || c === 10) {
+        // A backslash at the end of a line continues the string on the next
+        if (c === 13 && data[lexer.pos] === 10) lexer.pos++
+        continue
+      } else if (c >= 48 && c <= 55) {
+        let code = c - 48
+        for (let n = 0; n < 2 && data[lexer.pos] >= 48 && data[lexer.pos] <= 55; n++) {
+          code = code * 8 + data[lexer.pos++] - 48
+        }
+        c = code & 0xff
+      }
+    }
+    bytes.push(c)
+  }
+  return createString(Uint8Array.from(bytes))
+}
+
+function readHexString(lexer: Lexer): PSString {
+  const { data } = lexer
+  const bytes: number[] = []
+  let high = -1
+  while (lexer.pos < data.length) {
+    const c = data[lexer.pos++]
+    if (c === 62) break
+    if (!isHexDigit(c)) continue
+    if (high === -1) {
+      high = hexValue(c)
+    } else {
+      bytes.push(high * 16 + hexValue(c))
+      high = -1
+    }
+  }
+  if (high !== -1) bytes.push(high * 16)
+  return createString(Uint8Array.from(bytes))
+}
+
+// Decoder for ASCII85 data, reading characters from `next` until "~>" or the end
+function createAscii85Decoder(next: () => number): () => number {
+  const output: number[] = []
+  let index = 0
+  let done = false
+  return () => {
+    while (index >= output.length && !done) {
+      output.length = 0
+      index = 0
+      const group: number[] = []
+      while (group.length < 5) {
+        const c = next()
+        if (c === -1 || c === 126) {
+          done = true
+          break
+        }
+        if (c === 122 && group.length === 0) {
+          output.push(0, 0, 0, 0)
+          break
+        }
+        if (c >= 33 && c <= 117) group.push(c - 33)
+      }
+      if (group.length > 1) {
+        const count = group.length
+        while (group.length < 5) group.push(84)
+        let value = 0
+        for (const digit of group) value = value * 85 + digit
+        const bytes = [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]
+        output.push(...bytes.slice(0, count - 1))
+      }
+    }
+    return index < output.length ? output[index++] : -1
+  }
+}
+
+function readAscii85String(lexer: Lexer): PSString {
+  const read = createAscii85Decoder(() => {
+    if (lexer.pos >= lexer.data.length) return -1
+    const c = lexer.data[lexer.pos++]
+    if (c === 126 && lexer.data[lexer.pos] === 62) lexer.pos++
+    return c
+  })
+  const bytes: number[] = []
+  let c
+  while ((c = read()) !== -1) bytes.push(c)
+  return createString(Uint8Array.from(bytes))
+}
+
+function parseNumber(token: string): number | null {
+  if (/^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/.test(token)) return parseFloat(token)
+  const radix = /^(\d+)#([0-9a-zA-Z]+)$/.exec(token)
+  if (radix) {
+    const base = parseInt(radix[1], 10)
+    if (base >= 2 && base <= 36) return parseInt(radix[2], base)
+  }
+  return null
+}
+
+function readToken(ps: Interpreter, lexer: Lexer): Value | typeof PROCEDURE_END | undefined {
+  const { data } = lexer
+  for (;;) {
+    while (lexer.pos < data.length && isWhitespace(data[lexer.pos])) lexer.pos++
+    if (lexer.pos >= data.length) return undefined
+    if (data[lexer.pos] !== 37) break
+    while (lexer.pos < data.length && data[lexer.pos] !== 10 && data[lexer.pos] !== 13) lexer.pos++
+  }
+
+  const c = data[lexer.pos++]
+  switch (c) {
+    case 40:
+      return readLiteralString(lexer)
+    case 60:
+      if (data[lexer.pos] === 60) {
+        lexer.pos++
+        return createName('<<', true)
+      }
+      if (data[lexer.pos] === 126) {
+        lexer.pos++
+        return readAscii85String(lexer)
+      }
+      return readHexString(lexer)
+    case 62:
+      if (data[lexer.pos] === 62) {
+        lexer.pos++
+        return createName('>>', true)
+      }
+      throw new PostScriptError('syntaxerror', '>')
+    case 91:
+      return createName('[', true)
+    case 93:
+      return createName(']', true)
+    case 123: {
+      const items: Value[] = []
+      for (;;) {
+        const token = readToken(ps, lexer)
+        if (token === undefined) throw new PostScriptError('syntaxerror', '{')
+        if (token === PROCEDURE_END) break
+        items.push(token as Value)
+      }
+      return createArray(items, true)
+    }
+    case 125:
+      return PROCEDURE_END
+    case 41:
+      throw new PostScriptError('syntaxerror', ')')
+  }
+
+  // Names and numbers run to the next delimiter; "/" marks a literal name and "//" one
+  // that is looked up immediately
+  let start = lexer.pos - 1
+  let literal = false
+  let immediate = false
+  if (c === 47) {
+    literal = true
+    start++
+    if (data[lexer.pos] === 47) {
+      immediate = true
+      lexer.pos++
+      start++
+    }
+  }
+  while (lexer.pos < data.length && !isWhitespace(data[lexer.pos]) && !isDelimiter(data[lexer.pos])) lexer.pos++
+  let token = ''
+  for (let i = start; i < lexer.pos; i++) token += String.fromCharCode(data[i])
+
+  // The whitespace that ends a token is part of it, so data read with currentfile starts after it
+  if (lexer.pos < data.length && isWhitespace(data[lexer.pos])) {
+    if (data[lexer.pos] === 13 && data[lexer.pos + 1] === 10) lexer.pos++
+    lexer.pos++
+  }
+
+  if (immediate) return lookup(ps, token)
+  if (literal) return createName(token)
+  const number = parseNumber(token)
+  return number !== null ? number : createName(token, true)
+}
+
+// --- Execution ---
+
+function lookup(ps: Interpreter, name: string): Value {
+  for (let i = ps.dicts.length - 1; i >= 0; i--) {
+    const entry = ps.dicts[i].map.get(name)
+    if (entry) return entry.value
+  }
+  throw new PostScriptError('undefined', name)
+}
+
+function countOperation(ps: Interpreter) {
+  if (++ps.operations > MAX_OPERATIONS) throw new Error('The program ran too long')
+}
+
+// Run an object found in a program or procedure body: names are looked up and executed,
+// procedures and other objects are pushed
+function executeItem(ps: Interpreter, item: Value) {
+  if (isObject(item)) {
+    if (item.kind === 'name' && item.executable) {
+      execute(ps, lookup(ps, item.name))
+      return
+    }
+    if (item.kind === 'operator') {
+      callOperator(ps, item)
+      return
+    }
+  }
+  ps.stack.push(item)
+}
+
+// Execute an object, as exec does
+function execute(ps: Interpreter, value: Value) {
+  countOperation(ps)
+  if (!isObject(value) || !isExecutable(value)) {
+    ps.stack.push(value)
+    return
+  }
+  switch (value.kind) {
+    case 'operator':
+      callOperator(ps, value)
+      return
+    case 'array':
+      for (const item of value.items) executeItem(ps, item)
+      return
+    case 'name':
+      execute(ps, lookup(ps, value.name))
+      return
+    case 'string': {
+      const lexer = { data: value.bytes, pos: 0 }
+      let token
+      while ((token = readToken(ps, lexer)) !== undefined) {
+        if (token === PROCEDURE_END) throw new PostScriptError('syntaxerror', '}')
+        executeItem(ps, token as Value)
+      }
+    }
+  }
+}
+
+function callOperator(ps: Interpreter, operator: PSOperator) {
+  countOperation(ps)
+  const depth = ps.stack.length
+  try {
+    operator.run(ps)
+  } catch (err) {
+    if (err instanceof PostScriptError && !err.command) {
+      err.command = operator.name
+      // Operators leave their operands on the stack when they fail
+      if (ps.stack.length < depth) ps.stack.length = Math.min(ps.stack.length, depth)
+    }
+    throw err
+  }
+}
+
+// --- Operands ---
+
+function pop(ps: Interpreter): Value {
+  if (ps.stack.length === 0) throw new PostScriptError('stackunderflow')
+  return ps.stack.pop()!
+}
+
+function popNumber(ps: Interpreter): number {
+  const value = pop(ps)
+  if (typeof value !== 'number') throw new PostScriptError('typecheck')
+  return value
+}
+
+function popInt(ps: Interpreter): number {
+  return Math.trunc(popNumber(ps))
+}
+
+function popBoolean(ps: Interpreter): boolean {
+  const value = pop(ps)
+  if (typeof value !== 'boolean') throw new PostScriptError('typecheck')
+  return value
+}
+
+function popOf<K extends Exclude<Value, number | boolean | null>['kind']>(ps: Interpreter, kind: K): Extract<Value, { kind: K }> {
+  const value = pop(ps)
+  if (!isObject(value) || value.kind !== kind) throw new PostScriptError('typecheck')
+  return value as Extract<Value, { kind: K }>
+}
+
+function popStringOrName(ps: Interpreter): PSString | PSName {
+  const value = pop(ps)
+  if (!isObject(value) || (value.kind !== 'string' && value.kind !== 'name')) throw new PostScriptError('typecheck')
+  return value
+}
+
+function toMatrix(value: Value): Matrix {
+  if (!isObject(value) || value.kind !== 'array' || value.items.length !== 6 || value.items.some(item => typeof item !== 'number')) {
+    throw new PostScriptError('typecheck')
+  }
+  return value.items as Matrix
+}
+
+function popMatrix(ps: Interpreter): Matrix {
+  return toMatrix(pop(ps))
+}
+
+function isMatrixOnTop(ps: Interpreter): boolean {
+  const top = ps.stack[ps.stack.length - 1]
+  return isObject(top) && top.kind === 'array' && !top.executable
+}
+
+function storeMatrix(ps: Interpreter, target: PSArray, matrix: Matrix) {
+  target.items.splice(0, 6, ...matrix)
+  ps.stack.push(target)
+}
+
+// --- Matrices ---
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+
+// m then n
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5]
+  ]
+}
+
+function invert(m: Matrix): Matrix {
+  const det = m[0] * m[3] - m[1] * m[2]
+  if (det === 0) throw new PostScriptError('undefinedresult')
+  return [
+    m[3] / det,
+    -m[1] / det,
+    -m[2] / det,
+    m[0] / det,
+    (m[2] * m[5] - m[3] * m[4]) / det,
+    (m[1] * m[4] - m[0] * m[5]) / det
+  ]
+}
+
+function transformPoint(m: Matrix, x: number, y: number): [number, number] {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]]
+}
+
+function transformDelta(m: Matrix, x: number, y: number): [number, number] {
+  return [m[0] * x + m[2] * y, m[1] * x + m[3] * y]
+}
+
+// --- Graphics state ---
+
+function createGraphicsState(ctm: Matrix): GraphicsState {
+  return {
+    ctm,
+    rgb: [0, 0, 0],
+    colorSpace: createName('DeviceGray'),
+    color: [0],
+    lineWidth: 1,
+    lineCap: 0,
+    lineJoin: 0,
+    miterLimit: 10,
+    dash: [],
+    dashOffset: 0,
+    font: null,
+    path: [],
+    point: null,
+    subpathStart: null
+  }
+}
+
+function cloneGraphicsState(gs: GraphicsState): GraphicsState {
+  return { ...gs, rgb: [...gs.rgb], color: [...gs.color], dash: [...gs.dash], path: [...gs.path] }
+}
+
+function gsave(ps: Interpreter) {
+  ps.saved.push(cloneGraphicsState(ps.gs))
+  ps.ctx.save()
+}
+
+function grestore(ps: Interpreter) {
+  const state = ps.saved.pop()
+  if (!state) return
+  ps.gs = state
+  ps.ctx.restore()
+}
+
+function cssColor(rgb: [number, number, number]): string {
+  const channel = (v: number) => Math.round(Math.min(1, Math.max(0, v)) * 255)
+  return `rgb(${channel(rgb[0])}, ${channel(rgb[1])}, ${channel(rgb[2])})`
+}
+
+function cmykToRgb(c: number, m: number, y: number, k: number): [number, number, number] {
+  return [1 - Math.min(1, c + k), 1 - Math.min(1, m + k), 1 - Math.min(1, y + k)]
+}
+
+function hsbToRgb(h: number, s: number, b: number): [number, number, number] {
+  const i = Math.floor(h * 6) % 6
+  const f = h * 6 - Math.floor(h * 6)
+  const p = b * (1 - s)
+  const q = b * (1 - f * s)
+  const t = b * (1 - (1 - f) * s)
+  return ([[b, t, p], [q, b, p], [p, b, t], [p, q, b], [t, p, b], [b, p, q]] as [number, number, number][])[i]
+}
+
+function rgbToHsb([r, g, b]: [number, number, number]): [number, number, number] {
+  const max = Math.max(r, g, b)
+  const delta = max - Math.min(r, g, b)
+  let h = 0
+  if (delta > 0) {
+    if (max === r) h = ((g - b) / delta + 6) % 6
+    else if (max === g) h = (b - r) / delta + 2
+    else h = (r - g) / delta + 4
+  }
+  return [h / 6, max === 0 ? 0 : delta / max, max]
+}
+
+function getColorSpaceName(space: Value): string {
+  if (isObject(space) && space.kind === 'name') return space.name
+  if (isObject(space) && space.kind === 'array' && isObject(space.items[0]) && space.items[0].kind === 'name') {
+    return space.items[0].name
+  }
+  return 'DeviceGray'
+}
+
+function getComponentCount(space: Value): number {
+  switch (getColorSpaceName(space)) {
+    case 'DeviceRGB':
+    case 'CalRGB':
+    case 'Lab':
+      return 3
+    case 'DeviceCMYK':
+      return 4
+    case 'ICCBased': {
+      const stream = isObject(space) && space.kind === 'array' ? space.items[1] : null
+      const n = isObject(stream) && stream.kind === 'dict' ? dictGet(stream, 'N') : undefined
+      return typeof n === 'number' ? n : 3
+    }
+    default:
+      return 1
+  }
+}
+
+// RGB of a color given in any color space, with Indexed, Separation and DeviceN approximated
+function componentsToRgb(space: Value, components: number[]): [number, number, number] {
+  const name = getColorSpaceName(space)
+  if (name === 'Indexed' && isObject(space) && space.kind === 'array') {
+    const base = space.items[1]
+    const lookupTable = space.items[3]
+    const count = getComponentCount(base)
+    const index = Math.round(components[0] ?? 0)
+    const values: number[] = []
+    if (isObject(lookupTable) && lookupTable.kind === 'string') {
+      for (let i = 0; i < count; i++) values.push((lookupTable.bytes[index * count + i] ?? 0) / 255)
+    }
+    return componentsToRgb(base, values)
+  }
+  if (name === 'Separation' || name === 'DeviceN') {
+    const tint = components[0] ?? 0
+    return [1 - tint, 1 - tint, 1 - tint]
+  }
+  const count = getComponentCount(space)
+  if (count === 4) return cmykToRgb(components[0] ?? 0, components[1] ?? 0, components[2] ?? 0, components[3] ?? 0)
+  if (count === 3) return [components[0] ?? 0, components[1] ?? 0, components[2] ?? 0]
+  const gray = components[0] ?? 0
+  return [gray, gray, gray]
+}
+
+function setColor(ps: Interpreter, space: string, components: number[]) {
+  ps.gs.colorSpace = createName(space)
+  ps.gs.color = components
+  ps.gs.rgb = componentsToRgb(ps.gs.colorSpace, components)
+}
+
+// --- Paths ---
+
+function currentPoint(ps: Interpreter): [number, number] {
+  if (!ps.gs.point) throw new PostScriptError('nocurrentpoint')
+  return ps.gs.point
+}
+
+function moveTo(ps: Interpreter, x: number, y: number) {
+  const point = transformPoint(ps.gs.ctm, x, y)
+  const last = ps.gs.path[ps.gs.path.length - 1]
+  // Consecutive movetos replace each other
+  if (last && last[0] === 'M') ps.gs.path[ps.gs.path.length - 1] = ['M', point[0], point[1]]
+  else ps.gs.path.push(['M', point[0], point[1]])
+  ps.gs.point = point
+  ps.gs.subpathStart = point
+}
+
+function lineTo(ps: Interpreter, x: number, y: number) {
+  currentPoint(ps)
+  const point = transformPoint(ps.gs.ctm, x, y)
+  ps.gs.path.push(['L', point[0], point[1]])
+  ps.gs.point = point
+}
+
+function curveTo(ps: Interpreter, x1: number, y1: number, x2: number, y2: number, x3: number, y3: number) {
+  currentPoint(ps)
+  const [a, b] = transformPoint(ps.gs.ctm, x1, y1)
+  const [c, d] = transformPoint(ps.gs.ctm, x2, y2)
+  const [e, f] = transformPoint(ps.gs.ctm, x3, y3)
+  ps.gs.path.push(['C', a, b, c, d, e, f])
+  ps.gs.point = [e, f]
+}
+
+function userPoint(ps: Interpreter): [number, number] {
+  const [x, y] = currentPoint(ps)
+  return transformPoint(invert(ps.gs.ctm), x, y)
+}
+
+// Append an arc from angle a1 to a2 (degrees, counterclockwise when a2 > a1) as Bézier curves
+function appendArc(ps: Interpreter, x: number, y: number, r: number, a1: number, a2: number) {
+  const start = a1 * Math.PI / 180
+  const end = a2 * Math.PI / 180
+  const sx = x + r * Math.cos(start)
+  const sy = y + r * Math.sin(start)
+  if (ps.gs.point) lineTo(ps, sx, sy)
+  else moveTo(ps, sx, sy)
+
+  const segments = Math.max(1, Math.ceil(Math.abs(end - start) / (Math.PI / 2)))
+  const step = (end - start) / segments
+  const k = 4 / 3 * Math.tan(step / 4)
+  for (let i = 0; i < segments; i++) {
+    const t1 = start + i * step
+    const t2 = t1 + step
+    const cos1 = Math.cos(t1), sin1 = Math.sin(t1), cos2 = Math.cos(t2), sin2 = Math.sin(t2)
+    curveTo(ps,
+      x + r * (cos1 - k * sin1), y + r * (sin1 + k * cos1),
+      x + r * (cos2 + k * sin2), y + r * (sin2 - k * cos2),
+      x + r * cos2, y + r * sin2)
+  }
+}
+
+// Tangent points of arct/arcto, drawing the line and arc between them
+function appendArcTo(ps: Interpreter, x1: number, y1: number, x2: number, y2: number, r: number): [number, number, number, number] {
+  const [x0, y0] = userPoint(ps)
+  const ux = x0 - x1, uy = y0 - y1, vx = x2 - x1, vy = y2 - y1
+  const lu = Math.hypot(ux, uy), lv = Math.hypot(vx, vy)
+  const cross = ux * vy - uy * vx
+  if (lu === 0 || lv === 0 || Math.abs(cross) < 1e-9 * lu * lv) {
+    lineTo(ps, x1, y1)
+    return [x1, y1, x1, y1]
+  }
+  const angle = Math.acos(Math.max(-1, Math.min(1, (ux * vx + uy * vy) / (lu * lv))))
+  const distance = r / Math.tan(angle / 2)
+  const t1x = x1 + ux / lu * distance, t1y = y1 + uy / lu * distance
+  const t2x = x1 + vx / lv * distance, t2y = y1 + vy / lv * distance
+  // The center lies on the bisector, at r from both tangent points
+  const bx = ux / lu + vx / lv, by = uy / lu + vy / lv
+  const bl = Math.hypot(bx, by)
+  const centerDistance = r / Math.sin(angle / 2)
+  const cx = x1 + bx / bl * centerDistance, cy = y1 + by / bl * centerDistance
+  let a1 = Math.atan2(t1y - cy, t1x - cx) * 180 / Math.PI
+  let a2 = Math.atan2(t2y - cy, t2x - cx) * 180 / Math.PI
+  // Turning left (cross < 0 from the incoming to the outgoing direction) goes counterclockwise
+  if (cross < 0) {
+    while (a2 < a1) a2 += 360
+  } else {
+    while (a2 > a1) a2 -= 360
+  }
+  appendArc(ps, cx, cy, r, a1, a2)
+  return [t1x, t1y, t2x, t2y]
+}
+
+function toPath2D(segments: PathSegment[]): Path2D {
+  const path = new Path2D()
+  for (const segment of segments) {
+    switch (segment[0]) {
+      case 'M': path.moveTo(segment[1], segment[2]); break
+      case 'L': path.lineTo(segment[1], segment[2]); break
+      case 'C': path.bezierCurveTo(segment[1], segment[2], segment[3], segment[4], segment[5], segment[6]); break
+      case 'Z': path.closePath(); break
+    }
+  }
+  return path
+}
+
+function newPath(ps: Interpreter) {
+  ps.gs.path = []
+  ps.gs.point = null
+  ps.gs.subpathStart = null
+}
+
+function fillPath(ps: Interpreter, evenOdd: boolean) {
+  if (ps.suppressPaint === 0 && ps.gs.path.length > 0) {
+    const { ctx } = ps
+    ctx.setTransform(1, 0, 0, 1, 0, 0)
+    ctx.fillStyle = cssColor(ps.gs.rgb)
+    ctx.fill(toPath2D(ps.gs.path), evenOdd ? 'evenodd' : 'nonzero')
+  }
+  newPath(ps)
+}
+
+// Strokes are drawn in user space, so line widths and dashes follow the transform exactly
+function strokePath(ps: Interpreter) {
+  const { gs, ctx } = ps
+  if (ps.suppressPaint === 0 && gs.path.length > 0) {
+    const m = gs.ctm
+    const scale = Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]))
+    if (scale > 0) {
+      const path = new Path2D()
+      const inverse = invert(m)
+      path.addPath(toPath2D(gs.path), { a: inverse[0], b: inverse[1], c: inverse[2], d: inverse[3], e: inverse[4], f: inverse[5] })
+      ctx.setTransform(m[0], m[1], m[2], m[3], m[4], m[5])
+      // Devices draw lines at least one pixel wide
+      ctx.lineWidth = Math.max(gs.lineWidth, 1 / scale)
+      ctx.lineCap = (['butt', 'round', 'square'] as const)[gs.lineCap] ?? 'butt'
+      ctx.lineJoin = (['miter', 'round', 'bevel'] as const)[gs.lineJoin] ?? 'miter'
+      ctx.miterLimit = gs.miterLimit
+      ctx.setLineDash(gs.dash.every(length => length === 0) ? [] : gs.dash)
+      ctx.lineDashOffset = gs.dashOffset
+      ctx.strokeStyle = cssColor(gs.rgb)
+      ctx.stroke(path)
+      ctx.setTransform(1, 0, 0, 1, 0, 0)
+    }
+  }
+  newPath(ps)
+}
+
+function clipPath(ps: Interpreter, evenOdd: boolean) {
+  ps.ctx.setTransform(1, 0, 0, 1, 0, 0)
+  ps.ctx.clip(toPath2D(ps.gs.path), evenOdd ? 'evenodd' : 'nonzero')
+}
+
+function pathBounds(segments: PathSegment[]): [number, number, number, number] | null {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity
+  for (const segment of segments) {
+    for (let i = 1; i < segment.length; i += 2) {
+      const x = segment[i] as number, y = segment[i + 1] as number
+      minX = Math.min(minX, x); maxX = Math.max(maxX, x)
+      minY = Math.min(minY, y); maxY = Math.max(maxY, y)
+    }
+  }
+  return minX === Infinity ? null : [minX, minY, maxX, maxY]
+}
+
+function popRectangles(ps: Interpreter): [number, number, number, number][] {
+  const top = ps.stack[ps.stack.length - 1]
+  if (isObject(top) && top.kind === 'array') {
+    const numbers = popOf(ps, 'array').items.filter((item): item is number => typeof item === 'number')
+    const rects: [number, number, number, number][] = []
+    for (let i = 0; i + 3 < numbers.length; i += 4) rects.push([numbers[i], numbers[i + 1], numbers[i + 2], numbers[i + 3]])
+    return rects
+  }
+  const h = popNumber(ps), w = popNumber(ps), y = popNumber(ps), x = popNumber(ps)
+  return [[x, y, w, h]]
+}
+
+function appendRectangles(ps: Interpreter, rects: [number, number, number, number][]) {
+  newPath(ps)
+  for (const [x, y, w, h] of rects) {
+    moveTo(ps, x, y)
+    lineTo(ps, x + w, y)
+    lineTo(ps, x + w, y + h)
+    lineTo(ps, x, y + h)
+    closePath(ps)
+  }
+}
+
+function closePath(ps: Interpreter) {
+  if (!ps.gs.point || !ps.gs.subpathStart) return
+  ps.gs.path.push(['Z'])
+  ps.gs.point = ps.gs.subpathStart
+}
+
+// --- Fonts and text ---
+
+function getFontMatrix(font: PSDict): Matrix {
+  const matrix = dictGet(font, 'FontMatrix')
+  try {
+    return matrix !== undefined ? toMatrix(matrix) : [0.001, 0, 0, 0.001, 0, 0]
+  } catch {
+    return [0.001, 0, 0, 0.001, 0, 0]
+  }
+}
+
+function getFontName(font: PSDict): string {
+  const name = dictGet(font, 'FontName')
+  return isObject(name) && (name.kind === 'name' || name.kind === 'string') ? textOf(name) : ''
+}
+
+// A browser font that looks like the PostScript one
+function getCssFont(font: PSDict): string {
+  const name = getFontName(font).toLowerCase()
+  const family = /courier|mono|typewriter|^cmtt|^sfti|consol/.test(name) ? 'Courier New, monospace'
+    : /sans|helvetica|arial|dejavusans|^cmss|verdana|tahoma/.test(name) ? 'Helvetica, Arial, sans-serif'
+      : /times|roman|serif|^cm|^lm|^sf|palatino|bookman|century|garamond|georgia|nimbusrom|utopia|charter|symbol/.test(name)
+        ? 'Times New Roman, Times, serif'
+        : 'Helvetica, Arial, sans-serif'
+  const bold = /bold|black|heavy|demi|^cmbx|^cmb\d|^sfbx/.test(name) ? 'bold ' : ''
+  const italic = /italic|oblique|^cmmi|^cmti|^cmsl|^sfti|^sfsl/.test(name) ? 'italic ' : ''
+  return `${italic}${bold}${TEXT_SIZE}px ${family}`
+}
+
+function glyphNameToText(name: string): string | null {
+  if (name in GLYPH_TEXT) return GLYPH_TEXT[name]
+  if (/^[A-Za-z]$/.test(name)) return name
+  const unicode = /^uni([0-9A-Fa-f]{4})/.exec(name) || /^u([0-9A-Fa-f]{4,6})$/.exec(name)
+  if (unicode) return String.fromCodePoint(parseInt(unicode[1], 16))
+  const accented = /^([A-Za-z])(acute|grave|circumflex|dieresis|tilde|ring|cedilla|caron|macron|breve|ogonek|dotaccent|hungarumlaut)$/.exec(name)
+  if (accented) return (accented[1] + ACCENTS[accented[2]]).normalize('NFC')
+  return null
+}
+
+// Unicode text for a character code of a font without glyph outlines of its own
+function getGlyphText(font: PSDict, code: number): string | null {
+  const encoding = dictGet(font, 'Encoding')
+  if (isObject(encoding) && encoding.kind === 'array') {
+    const glyph = encoding.items[code]
+    if (!isObject(glyph) || glyph.kind !== 'name') return null
+    if (glyph.name === '.notdef') return ''
+    return glyphNameToText(glyph.name)
+  }
+  if (/^symbol/i.test(getFontName(font))) {
+    if (code >= 65 && code <= 90) return SYMBOL_LETTERS[code - 65]
+    if (code >= 97 && code <= 122) return SYMBOL_LOWERCASE[code - 97]
+    if (code in SYMBOL_TEXT) return SYMBOL_TEXT[code]
+  }
+  if (code === 39) return '’'
+  if (code === 96) return '‘'
+  return code >= 32 ? String.fromCharCode(code) : ''
+}
+
+function getEncodingName(font: PSDict, code: number): PSName | null {
+  const encoding = dictGet(font, 'Encoding')
+  if (isObject(encoding) && encoding.kind === 'array') {
+    const glyph = encoding.items[code]
+    return isObject(glyph) && glyph.kind === 'name' ? glyph : null
+  }
+  return createName(code >= 32 && code <= 126 ? ASCII_GLYPHS[code - 32] : '.notdef')
+}
+
+function measureText(ps: Interpreter, css: string, text: string): number {
+  const key = `${css}\u0000${text}`
+  let width = ps.widthCache.get(key)
+  if (width === undefined) {
+    ps.ctx.font = css
+    width = ps.ctx.measureText(text).width / TEXT_SIZE
+    ps.widthCache.set(key, width)
+  }
+  return width
+}
+
+// Run a Type 3 glyph procedure at the current point, returning its advance in glyph space
+function runType3Glyph(ps: Interpreter, font: PSDict, code: number, glyphName: PSName | null, paint: boolean): [number, number] {
+  const buildGlyph = dictGet(font, 'BuildGlyph')
+  const buildChar = dictGet(font, 'BuildChar')
+  const [px, py] = currentPoint(ps)
+  const ctm = ps.gs.ctm
+  const outerWidth = ps.charWidth
+  gsave(ps)
+  if (!paint) ps.suppressPaint++
+  try {
+    ps.gs.ctm = multiply(getFontMatrix(font), [ctm[0], ctm[1], ctm[2], ctm[3], px, py])
+    newPath(ps)
+    ps.charWidth = null
+    if (buildGlyph !== undefined && glyphName) {
+      ps.stack.push(font, glyphName)
+      execute(ps, buildGlyph)
+    } else if (buildChar !== undefined) {
+      ps.stack.push(font, code)
+      execute(ps, buildChar)
+    }
+    return ps.charWidth ?? [0, 0]
+  } finally {
+    if (!paint) ps.suppressPaint--
+    grestore(ps)
+    ps.charWidth = outerWidth
+  }
+}
+
+// Show or measure a string. `adjust` returns extra displacement in user space after each
+// character, for ashow, widthshow, xshow and the like. Returns the total user space advance.
+function showText(ps: Interpreter, bytes: Uint8Array, paint: boolean, adjust?: (index: number, code: number) => [number, number]): [number, number] {
+  const font = ps.gs.font
+  if (!font) throw new PostScriptError('invalidfont')
+  if (!ps.gs.point) {
+    if (paint) throw new PostScriptError('nocurrentpoint')
+    ps.gs.point = [0, 0]
+  }
+  const start = ps.gs.point
+  const fontMatrix = getFontMatrix(font)
+  const isType3 = dictGet(font, 'FontType') === 3
+  const unitsPerEm = dictGet(font, 'FontType') === 42 ? 1 : 1000
+  const css = getCssFont(font)
+
+  for (let i = 0; i < bytes.length; i++) {
+    const code = bytes[i]
+    let advance: [number, number]
+    if (isType3) {
+      advance = runType3Glyph(ps, font, code, getEncodingName(font, code), paint)
+    } else {
+      const text = getGlyphText(font, code)
+      // Glyphs with no Unicode equivalent are left blank
+      advance = [(text === null ? 0.5 : measureText(ps, css, text)) * unitsPerEm, 0]
+      if (paint && text && ps.suppressPaint === 0) drawText(ps, font, text, css, unitsPerEm)
+    }
+    let [dx, dy] = transformDelta(fontMatrix, advance[0], advance[1])
+    if (adjust) {
+      const [ax, ay] = adjust(i, code)
+      dx += ax
+      dy += ay
+    }
+    const [ddx, ddy] = transformDelta(ps.gs.ctm, dx, dy)
+    ps.gs.point = [ps.gs.point![0] + ddx, ps.gs.point![1] + ddy]
+  }
+
+  const end = ps.gs.point!
+  const delta = transformDelta(invert(ps.gs.ctm), end[0] - start[0], end[1] - start[1])
+  if (!paint) ps.gs.point = start
+  return delta
+}
+
+function drawText(ps: Interpreter, font: PSDict, text: string, css: string, unitsPerEm: number) {
+  const [px, py] = ps.gs.point!
+  const ctm = ps.gs.ctm
+  const glyphToDevice = multiply(getFontMatrix(font), [ctm[0], ctm[1], ctm[2], ctm[3], px, py])
+  // Canvas text runs downwards in pixels of the font size, glyph space upwards in font units
+  const scale = unitsPerEm / TEXT_SIZE
+  const m = multiply([scale, 0, 0, -scale, 0, 0], glyphToDevice)
+  const { ctx } = ps
+  ctx.setTransform(m[0], m[1], m[2], m[3], m[4], m[5])
+  ctx.font = css
+  ctx.fillStyle = cssColor(ps.gs.rgb)
+  ctx.textBaseline = 'alphabetic'
+  ctx.fillText(text, 0, 0)
+  ctx.setTransform(1, 0, 0, 1, 0, 0)
+}
+
+function findFont(ps: Interpreter, key: Value): PSDict {
+  const name = isObject(key) && (key.kind === 'name' || key.kind === 'string') ? textOf(key) : String(key)
+  const existing = ps.fontDirectory.map.get(name)?.value
+  if (isObject(existing) && existing.kind === 'dict') return existing
+  // Fonts that are not embedded are drawn with a browser font chosen by name
+  const font = createDict()
+  dictPut(font, createName('FontName'), createName(name))
+  dictPut(font, createName('FontType'), 1)
+  dictPut(font, createName('FontMatrix'), createArray([0.001, 0, 0, 0.001, 0, 0]))
+  dictPut(font, createName('FontBBox'), createArray([0, -250, 1000, 750]))
+  dictPut(font, createName('PaintType'), 0)
+  dictPut(font, createName('FID'), { kind: 'fontid' })
+  if (!/^symbol/i.test(name)) dictPut(font, createName('Encoding'), lookup(ps, 'StandardEncoding'))
+  dictPut(ps.fontDirectory, createName(name), font)
+  return font
+}
+
+function transformFont(font: PSDict, matrix: Matrix): PSDict {
+  const copy: PSDict = { kind: 'dict', map: new Map(font.map) }
+  dictPut(copy, createName('FontMatrix'), createArray(multiply(getFontMatrix(font), matrix)))
+  return copy
+}
+
+function defineFont(ps: Interpreter, key: Value, font: PSDict): PSDict {
+  dictPut(font, createName('FID'), { kind: 'fontid' })
+  dictPut(ps.fontDirectory, key, font)
+  return font
+}
+
+// --- Files and filters ---
+
+function createFile(read: () => number, isCurrentFile = false): PSFile {
+  return { kind: 'file', read, isCurrentFile }
+}
+
+function readAll(file: PSFile): Uint8Array {
+  const bytes: number[] = []
+  let c
+  while ((c = file.read()) !== -1) bytes.push(c)
+  return Uint8Array.from(bytes)
+}
+
+function createBufferFile(bytes: Uint8Array): PSFile {
+  let index = 0
+  return createFile(() => index < bytes.length ? bytes[index++] : -1)
+}
+
+function createFilter(ps: Interpreter, source: PSFile, name: string): PSFile {
+  switch (name) {
+    case 'ASCIIHexDecode': {
+      let done = false
+      return createFile(() => {
+        let high = -1
+        while (!done) {
+          const c = source.read()
+          if (c === -1 || c === 62) {
+            done = true
+            return high === -1 ? -1 : high * 16
+          }
+          if (!isHexDigit(c)) continue
+          if (high === -1) high = hexValue(c)
+          else return high * 16 + hexValue(c)
+        }
+        return -1
+      })
+    }
+    case 'ASCII85Decode': {
+      let tilde = false
+      return createFile(createAscii85Decoder(() => {
+        if (tilde) return -1
+        const c = source.read()
+        if (c === 126) {
+          // Consume the ">" of the end marker too
+          source.read()
+          tilde = true
+        }
+        return c
+      }))
+    }
+    case 'RunLengthDecode': {
+      let literal = 0
+      let repeat = 0
+      let repeated = 0
+      return createFile(() => {
+        for (;;) {
+          if (literal > 0) {
+            literal--
+            return source.read()
+          }
+          if (repeat > 0) {
+            repeat--
+            return repeated
+          }
+          const length = source.read()
+          if (length === -1 || length === 128) return -1
+          if (length < 128) {
+            literal = length + 1
+          } else {
+            repeat = 257 - length
+            repeated = source.read()
+          }
+        }
+      })
+    }
+    case 'FlateDecode': {
+      // The end of compressed data is only known by inflating it, so it must come from another filter
+      if (source.isCurrentFile) throw new PostScriptError('unsupported: FlateDecode of binary data')
+      const compressed = readAll(source)
+      let bytes: Uint8Array
+      try {
+        bytes = unzlibSync(compressed)
+      } catch {
+        bytes = inflateSync(compressed)
+      }
+      return createBufferFile(bytes)
+    }
+    case 'DCTDecode': {
+      if (source.isCurrentFile) throw new PostScriptError('unsupported: DCTDecode of binary data')
+      const file = createBufferFile(readAll(source))
+      file.isJpeg = true
+      return file
+    }
+    case 'SubFileDecode': {
+      const marker = popStringOrName(ps)
+      const count = popInt(ps)
+      const eod = marker.kind === 'string' ? marker.bytes : stringFromText(marker.name).bytes
+      const buffer: number[] = []
+      let remaining = count
+      let done = false
+      // Read ahead by the marker's length to recognise it before handing out its bytes
+      return createFile(() => {
+        if (eod.length === 0) {
+          if (remaining <= 0) return -1
+          remaining--
+          return source.read()
+        }
+        while (!done && buffer.length < eod.length) {
+          const c = source.read()
+          if (c === -1) {
+            done = true
+            break
+          }
+          buffer.push(c)
+          if (buffer.length === eod.length && buffer.every((b, i) => b === eod[i])) {
+            if (remaining-- <= 0) {
+              done = true
+              buffer.length = 0
+              return -1
+            }
+          }
+        }
+        return buffer.length > 0 ? buffer.shift()! : -1
+      })
+    }
+    case 'NullEncode':
+      return source
+    default:
+      throw new PostScriptError(`unsupported: ${name}`)
+  }
+}
+
+function readIntoString(file: PSFile, target: PSString, hex: boolean): number {
+  let count = 0
+  let high = -1
+  while (count < target.bytes.length) {
+    const c = file.read()
+    if (c === -1) break
+    if (!hex) {
+      target.bytes[count++] = c
+    } else if (isHexDigit(c)) {
+      if (high === -1) {
+        high = hexValue(c)
+      } else {
+        target.bytes[count++] = high * 16 + hexValue(c)
+        high = -1
+      }
+    }
+  }
+  return count
+}
+
+// --- Images ---
+
+function readImageData(ps: Interpreter, sources: Value[], length: number): Uint8Array[] {
+  return sources.map(source => {
+    const data = new Uint8Array(length)
+    let filled = 0
+    if (isProcedure(source)) {
+      while (filled < length) {
+        execute(ps, source)
+        const chunk = pop(ps)
+        if (!isObject(chunk) || chunk.kind !== 'string' || chunk.bytes.length === 0) break
+        const bytes = chunk.bytes.subarray(0, length - filled)
+        data.set(bytes, filled)
+        filled += bytes.length
+      }
+    } else if (isObject(source) && source.kind === 'string') {
+      if (source.bytes.length === 0) return data
+      while (filled < length) {
+        const bytes = source.bytes.subarray(0, length - filled)
+        data.set(bytes, filled)
+        filled += bytes.length
+      }
+    } else if (isObject(source) && source.kind === 'file') {
+      if (source.isJpeg) throw new PostScriptError('unsupported: JPEG images')
+      let c
+      while (filled < length && (c = source.read()) !== -1) data[filled++] = c
+      // Skip to the end of data written inline, so the program carries on after its marker
+      if (source.isInline) readAll(source)
+    } else {
+      throw new PostScriptError('typecheck')
+    }
+    return data
+  })
+}
+
+interface ImageParams {
+  width: number
+  height: number
+  bitsPerComponent: number
+  matrix: Matrix
+  sources: Value[]
+  multipleSources: boolean
+  colorSpace: Value
+  components: number
+  decode: number[] | null
+  interpolate: boolean
+  mask: boolean
+  polarity: boolean
+}
+
+function drawImage(ps: Interpreter, params: ImageParams) {
+  const { width, height, bitsPerComponent: bpc, components } = params
+  if (width <= 0 || height <= 0 || width * height > 25_000_000) throw new PostScriptError('limitcheck')
+  const perSource = params.multipleSources ? 1 : components
+  const rowBytes = Math.ceil(width * perSource * bpc / 8)
+  const planes = readImageData(ps, params.sources, rowBytes * height)
+  if (ps.suppressPaint > 0) return
+
+  const maxSample = (1 << bpc) - 1
+  const readSample = (plane: Uint8Array, row: number, index: number): number => {
+    const offset = row * rowBytes
+    if (bpc === 8) return plane[offset + index]
+    if (bpc === 16) return plane[offset + index * 2]
+    const bit = index * bpc
+    return (plane[offset + (bit >> 3)] >> (8 - bpc - (bit & 7))) & maxSample
+  }
+  const sampleScale = bpc === 16 ? 255 : maxSample
+  const isIndexed = getColorSpaceName(params.colorSpace) === 'Indexed'
+  const decode = params.decode ?? Array.from({ length: components }, () => [0, isIndexed ? maxSample : 1]).flat()
+
+  const image = new ImageData(width, height)
+  const pixels = image.data
+  const values = new Array<number>(components)
+  const [mr, mg, mb] = ps.gs.rgb
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4
+      if (params.mask) {
+        const bit = readSample(planes[0], y, x)
+        if ((bit === 1) === params.polarity) {
+          pixels[p] = mr * 255
+          pixels[p + 1] = mg * 255
+          pixels[p + 2] = mb * 255
+          pixels[p + 3] = 255
+        }
+        continue
+      }
+      for (let c = 0; c < components; c++) {
+        const sample = params.multipleSources ? readSample(planes[c], y, x) : readSample(planes[0], y, x * components + c)
+        const [d0, d1] = [decode[c * 2], decode[c * 2 + 1]]
+        values[c] = d0 + sample * (d1 - d0) / sampleScale
+      }
+      const [r, g, b] = componentsToRgb(params.colorSpace, values)
+      pixels[p] = r * 255
+      pixels[p + 1] = g * 255
+      pixels[p + 2] = b * 255
+      pixels[p + 3] = 255
+    }
+  }
+
+  const canvas = new OffscreenCanvas(width, height)
+  canvas.getContext('2d')!.putImageData(image, 0, 0)
+
+  const m = multiply(invert(params.matrix), ps.gs.ctm)
+  const { ctx } = ps
+  ctx.save()
+  ctx.setTransform(m[0], m[1], m[2], m[3], m[4], m[5])
+  // Upscaled images keep sharp pixels unless they ask for interpolation
+  ctx.imageSmoothingEnabled = params.interpolate || Math.abs(m[0] * m[3] - m[1] * m[2]) < 1
+  ctx.drawImage(canvas, 0, 0)
+  ctx.restore()
+}
+
+function popImageDict(ps: Interpreter, mask: boolean): ImageParams {
+  const dict = popOf(ps, 'dict')
+  const get = (key: string) => dictGet(dict, key)
+  const number = (key: string, fallback: number) => {
+    const value = get(key)
+    return typeof value === 'number' ? value : fallback
+  }
+  const source = get('DataSource')
+  const multiple = get('MultipleDataSources') === true
+  const colorSpace = mask ? createName('DeviceGray') : ps.gs.colorSpace
+  const decodeValue = get('Decode')
+  const decode = isObject(decodeValue) && decodeValue.kind === 'array'
+    ? decodeValue.items.map(item => typeof item === 'number' ? item : 0)
+    : null
+  const imageType = number('ImageType', 1)
+  if (imageType !== 1) throw new PostScriptError(`unsupported: ImageType ${imageType}`)
+  return {
+    width: number('Width', 0),
+    height: number('Height', 0),
+    bitsPerComponent: mask ? 1 : number('BitsPerComponent', 8),
+    matrix: toMatrix(get('ImageMatrix') ?? createArray([1, 0, 0, 1, 0, 0])),
+    sources: multiple && isObject(source) && source.kind === 'array' ? source.items : [source ?? null],
+    multipleSources: multiple,
+    colorSpace,
+    components: mask ? 1 : getComponentCount(colorSpace),
+    decode,
+    interpolate: get('Interpolate') === true,
+    mask,
+    // For masks, Decode [1 0] paints the zero bits
+    polarity: !(decode && decode[0] === 1)
+  }
+}
+
+// --- Operators ---
+
+function pushAll(ps: Interpreter, ...values: Value[]) {
+  ps.stack.push(...values)
+}
+
+function compare(a: Value, b: Value): boolean {
+  if (isObject(a) && isObject(b)) {
+    if ((a.kind === 'name' || a.kind === 'string') && (b.kind === 'name' || b.kind === 'string')) return textOf(a) === textOf(b)
+    if (a.kind === 'array' && b.kind === 'array') return a.items === b.items
+  }
+  return a === b
+}
+
+function typeName(value: Value): string {
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integertype' : 'realtype'
+  if (typeof value === 'boolean') return 'booleantype'
+  if (value === null) return 'nulltype'
+  switch (value.kind) {
+    case 'fontid': return 'fonttype'
+    default: return `${value.kind}type`
+  }
+}
+
+function toText(value: Value): string {
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : String(parseFloat(value.toPrecision(6)))
+  if (typeof value === 'boolean') return String(value)
+  if (value === null) return 'null'
+  if (value.kind === 'name' || value.kind === 'string') return textOf(value)
+  if (value.kind === 'operator') return value.name
+  return '--nostringval--'
+}
+
+// Run a loop body, ending the loop on exit
+function runLoop(body: () => void) {
+  try {
+    body()
+  } catch (err) {
+    if (err !== EXIT) throw err
+  }
+}
+
+function pathOperators(): Record<string, (ps: Interpreter) => void> {
+  return {
+    newpath: newPath,
+    moveto: (ps) => { const y = popNumber(ps); moveTo(ps, popNumber(ps), y) },
+    rmoveto: (ps) => {
+      const dy = popNumber(ps), dx = popNumber(ps)
+      const [x, y] = userPoint(ps)
+      moveTo(ps, x + dx, y + dy)
+    },
+    lineto: (ps) => { const y = popNumber(ps); lineTo(ps, popNumber(ps), y) },
+    rlineto: (ps) => {
+      const dy = popNumber(ps), dx = popNumber(ps)
+      const [x, y] = userPoint(ps)
+      lineTo(ps, x + dx, y + dy)
+    },
+    curveto: (ps) => {
+      const [y3, x3, y2, x2, y1, x1] = [popNumber(ps), popNumber(ps), popNumber(ps), popNumber(ps), popNumber(ps), popNumber(ps)]
+      curveTo(ps, x1, y1, x2, y2, x3, y3)
+    },
+    rcurveto: (ps) => {
+      const [y3, x3, y2, x2, y1, x1] = [popNumber(ps), popNumber(ps), popNumber(ps), popNumber(ps), popNumber(ps), popNumber(ps)]
+      const [x, y] = userPoint(ps)
+      curveTo(ps, x + x1, y + y1, x + x2, y + y2, x + x3, y + y3)
+    },
+    closepath: closePath,
+    arc: (ps) => {
+      const [a2, a1, r, y, x] = [popNumber(ps), popNumber(ps), popNumber(ps), popNumber(ps), popNumber(ps)]
+      let end = a2
+      while (end < a1) end += 360
+      appendArc(ps, x, y, r, a1, end)
+    },
+    arcn: (ps) => {
+      const [a2, a1, r, y, x] = [popNumber(ps), popNumber(ps), popNumber(ps), popNumber(ps), popNumber(ps)]
+      let end = a2
+      while (end > a1) end -= 360
+      appendArc(ps, x, y, r, a1, end)
+    },
+    arct: (ps) => {
+      const [r, y2, x2, y1, x1] = [popNumber(ps), popNumber(ps), popNumber(ps), popNumber(ps), popNumber(ps)]
+      appendArcTo(ps, x1, y1, x2, y2, r)
+    },
+    arcto: (ps) => {
+      const [r, y2, x2, y1, x1] = [popNumber(ps), popNumber(ps), popNumber(ps), popNumber(ps), popNumber(ps)]
+      pushAll(ps, ...appendArcTo(ps, x1, y1, x2, y2, r))
+    },
+    currentpoint: (ps) => pushAll(ps, ...userPoint(ps)),
+    fill: (ps) => fillPath(ps, false),
+    eofill: (ps) => fillPath(ps, true),
+    stroke: strokePath,
+    clip: (ps) => clipPath(ps, false),
+    eoclip: (ps) => clipPath(ps, true),
+    initclip: () => {},
+    clippath: (ps) => {
+      newPath(ps)
+      ps.gs.path = [['M', 0, 0], ['L', ps.width, 0], ['L', ps.width, ps.height], ['L', 0, ps.height], ['Z']]
+      ps.gs.point = [0, 0]
+      ps.gs.subpathStart = [0, 0]
+    },
+    pathbbox: (ps) => {
+      const bounds = pathBounds(ps.gs.path)
+      if (!bounds) throw new PostScriptError('nocurrentpoint')
+      const inverse = invert(ps.gs.ctm)
+      const corners = [[bounds[0], bounds[1]], [bounds[2], bounds[1]], [bounds[0], bounds[3]], [bounds[2], bounds[3]]]
+        .map(([x, y]) => transformPoint(inverse, x, y))
+      pushAll(ps,
+        Math.min(...corners.map(c => c[0])), Math.min(...corners.map(c => c[1])),
+        Math.max(...corners.map(c => c[0])), Math.max(...corners.map(c => c[1])))
+    },
+    flattenpath: () => {},
+    reversepath: () => {},
+    strokepath: (ps) => { ps.warnings.add('strokepath is not supported') },
+    rectfill: (ps) => {
+      const rects = popRectangles(ps)
+      gsave(ps)
+      appendRectangles(ps, rects)
+      fillPath(ps, false)
+      grestore(ps)
+    },
+    rectstroke: (ps) => {
+      if (isMatrixOnTop(ps) && ps.stack.length >= 5) popMatrix(ps)
+      const rects = popRectangles(ps)
+      gsave(ps)
+      appendRectangles(ps, rects)
+      strokePath(ps)
+      grestore(ps)
+    },
+    rectclip: (ps) => {
+      const rects = popRectangles(ps)
+      appendRectangles(ps, rects)
+      clipPath(ps, false)
+      newPath(ps)
+    },
+    shfill: (ps) => {
+      pop(ps)
+      ps.warnings.add('Smooth shading (shfill) is not supported')
+    }
+  }
+}
+
+function graphicsOperators(): Record<string, (ps: Interpreter) => void> {
+  const transformOperator = (apply: (ps: Interpreter, m: Matrix, x: number, y: number) => [number, number]) => (ps: Interpreter) => {
+    const m = isMatrixOnTop(ps) ? popMatrix(ps) : ps.gs.ctm
+    const y = popNumber(ps), x = popNumber(ps)
+    pushAll(ps, ...apply(ps, m, x, y))
+  }
+  // translate, scale and rotate change the CTM, or fill in a matrix given as the last operand
+  const matrixOperator = (count: number, create: (args: number[]) => Matrix) => (ps: Interpreter) => {
+    const target = isMatrixOnTop(ps) ? popOf(ps, 'array') : null
+    const args: number[] = []
+    for (let i = 0; i < count; i++) args.unshift(popNumber(ps))
+    const m = create(args)
+    if (target) storeMatrix(ps, target, m)
+    else ps.gs.ctm = multiply(m, ps.gs.ctm)
+  }
+
+  return {
+    gsave,
+    grestore,
+    grestoreall: (ps) => { while (ps.saved.length > 0) grestore(ps) },
+    initgraphics: (ps) => {
+      const font = ps.gs.font
+      ps.gs = createGraphicsState(ps.defaultMatrix)
+      ps.gs.font = font
+    },
+    setlinewidth: (ps) => { ps.gs.lineWidth = Math.abs(popNumber(ps)) },
+    currentlinewidth: (ps) => pushAll(ps, ps.gs.lineWidth),
+    setlinecap: (ps) => { ps.gs.lineCap = popInt(ps) },
+    currentlinecap: (ps) => pushAll(ps, ps.gs.lineCap),
+    setlinejoin: (ps) => { ps.gs.lineJoin = popInt(ps) },
+    currentlinejoin: (ps) => pushAll(ps, ps.gs.lineJoin),
+    setmiterlimit: (ps) => { ps.gs.miterLimit = Math.max(1, popNumber(ps)) },
+    currentmiterlimit: (ps) => pushAll(ps, ps.gs.miterLimit),
+    setdash: (ps) => {
+      ps.gs.dashOffset = popNumber(ps)
+      ps.gs.dash = popOf(ps, 'array').items.map(item => typeof item === 'number' ? Math.abs(item) : 0)
+    },
+    currentdash: (ps) => pushAll(ps, createArray([...ps.gs.dash]), ps.gs.dashOffset),
+    setgray: (ps) => setColor(ps, 'DeviceGray', [popNumber(ps)]),
+    setrgbcolor: (ps) => {
+      const b = popNumber(ps), g = popNumber(ps), r = popNumber(ps)
+      setColor(ps, 'DeviceRGB', [r, g, b])
+    },
+    setcmykcolor: (ps) => {
+      const k = popNumber(ps), y = popNumber(ps), m = popNumber(ps), c = popNumber(ps)
+      setColor(ps, 'DeviceCMYK', [c, m, y, k])
+    },
+    sethsbcolor: (ps) => {
+      const b = popNumber(ps), s = popNumber(ps), h = popNumber(ps)
+      setColor(ps, 'DeviceRGB', hsbToRgb(h, s, b))
+    },
+    currentgray: (ps) => {
+      const [r, g, b] = ps.gs.rgb
+      pushAll(ps, 0.3 * r + 0.59 * g + 0.11 * b)
+    },
+    currentrgbcolor: (ps) => pushAll(ps, ...ps.gs.rgb),
+    currenthsbcolor: (ps) => pushAll(ps, ...rgbToHsb(ps.gs.rgb)),
+    currentcmykcolor: (ps) => {
+      const [r, g, b] = ps.gs.rgb
+      const k = 1 - Math.max(r, g, b)
+      pushAll(ps, 1 - r - k, 1 - g - k, 1 - b - k, k)
+    },
+    setcolorspace: (ps) => {
+      const space = pop(ps)
+      ps.gs.colorSpace = space
+      const count = getColorSpaceName(space) === 'DeviceCMYK' ? 4 : 1
+      ps.gs.color = getColorSpaceName(space) === 'DeviceCMYK' ? [0, 0, 0, 1] : new Array(count).fill(0)
+      ps.gs.rgb = componentsToRgb(space, ps.gs.color)
+    },
+    currentcolorspace: (ps) => pushAll(ps, isObject(ps.gs.colorSpace) && ps.gs.colorSpace.kind === 'array'
+      ? ps.gs.colorSpace
+      : createArray([ps.gs.colorSpace])),
+    setcolor: (ps) => {
+      if (getColorSpaceName(ps.gs.colorSpace) === 'Pattern') {
+        pop(ps)
+        ps.warnings.add('Pattern fills are drawn in the previous color')
+        return
+      }
+      const count = getColorSpaceName(ps.gs.colorSpace) === 'Indexed' ? 1 : getComponentCount(ps.gs.colorSpace)
+      const components: number[] = []
+      for (let i = 0; i < count; i++) components.unshift(popNumber(ps))
+      ps.gs.color = components
+      ps.gs.rgb = componentsToRgb(ps.gs.colorSpace, components)
+    },
+    currentcolor: (ps) => pushAll(ps, ...ps.gs.color),
+    setpattern: (ps) => {
+      pop(ps)
+      ps.warnings.add('Pattern fills are drawn in the previous color')
+    },
+    makepattern: (ps) => {
+      popMatrix(ps)
+    },
+    translate: matrixOperator(2, ([x, y]) => [1, 0, 0, 1, x, y]),
+    scale: matrixOperator(2, ([x, y]) => [x, 0, 0, y, 0, 0]),
+    rotate: matrixOperator(1, ([angle]) => {
+      const r = angle * Math.PI / 180
+      return [Math.cos(r), Math.sin(r), -Math.sin(r), Math.cos(r), 0, 0]
+    }),
+    concat: (ps) => { ps.gs.ctm = multiply(popMatrix(ps), ps.gs.ctm) },
+    setmatrix: (ps) => { ps.gs.ctm = popMatrix(ps) },
+    currentmatrix: (ps) => storeMatrix(ps, popOf(ps, 'array'), ps.gs.ctm),
+    defaultmatrix: (ps) => storeMatrix(ps, popOf(ps, 'array'), ps.defaultMatrix),
+    initmatrix: (ps) => { ps.gs.ctm = ps.defaultMatrix },
+    matrix: (ps) => pushAll(ps, createArray([...IDENTITY])),
+    identmatrix: (ps) => storeMatrix(ps, popOf(ps, 'array'), IDENTITY),
+    invertmatrix: (ps) => {
+      const target = popOf(ps, 'array')
+      storeMatrix(ps, target, invert(popMatrix(ps)))
+    },
+    concatmatrix: (ps) => {
+      const target = popOf(ps, 'array')
+      const n = popMatrix(ps)
+      storeMatrix(ps, target, multiply(popMatrix(ps), n))
+    },
+    transform: transformOperator((_, m, x, y) => transformPoint(m, x, y)),
+    itransform: transformOperator((_, m, x, y) => transformPoint(invert(m), x, y)),
+    dtransform: transformOperator((_, m, x, y) => transformDelta(m, x, y)),
+    idtransform: transformOperator((_, m, x, y) => transformDelta(invert(m), x, y)),
+    showpage: () => { throw QUIT },
+    copypage: () => {},
+    erasepage: () => {}
+  }
+}
+
+function textOperators(): Record<string, (ps: Interpreter) => void> {
+  const popShowString = (ps: Interpreter) => popOf(ps, 'string').bytes
+  return {
+    findfont: (ps) => pushAll(ps, findFont(ps, pop(ps))),
+    scalefont: (ps) => {
+      const size = popNumber(ps)
+      pushAll(ps, transformFont(popOf(ps, 'dict'), [size, 0, 0, size, 0, 0]))
+    },
+    makefont: (ps) => {
+      const matrix = popMatrix(ps)
+      pushAll(ps, transformFont(popOf(ps, 'dict'), matrix))
+    },
+    setfont: (ps) => { ps.gs.font = popOf(ps, 'dict') },
+    selectfont: (ps) => {
+      const scale = pop(ps)
+      const font = findFont(ps, pop(ps))
+      ps.gs.font = typeof scale === 'number' ? transformFont(font, [scale, 0, 0, scale, 0, 0]) : transformFont(font, toMatrix(scale))
+    },
+    currentfont: (ps) => pushAll(ps, ps.gs.font ?? findFont(ps, createName('Helvetica'))),
+    rootfont: (ps) => pushAll(ps, ps.gs.font ?? findFont(ps, createName('Helvetica'))),
+    definefont: (ps) => {
+      const font = popOf(ps, 'dict')
+      pushAll(ps, defineFont(ps, pop(ps), font))
+    },
+    undefinefont: (ps) => { ps.fontDirectory.map.delete(keyOf(pop(ps))) },
+    show: (ps) => { showText(ps, popShowString(ps), true) },
+    ashow: (ps) => {
+      const bytes = popShowString(ps)
+      const ay = popNumber(ps), ax = popNumber(ps)
+      showText(ps, bytes, true, () => [ax, ay])
+    },
+    widthshow: (ps) => {
+      const bytes = popShowString(ps)
+      const char = popInt(ps), cy = popNumber(ps), cx = popNumber(ps)
+      showText(ps, bytes, true, (_, code) => code === char ? [cx, cy] : [0, 0])
+    },
+    awidthshow: (ps) => {
+      const bytes = popShowString(ps)
+      const ay = popNumber(ps), ax = popNumber(ps), char = popInt(ps), cy = popNumber(ps), cx = popNumber(ps)
+      showText(ps, bytes, true, (_, code) => code === char ? [cx + ax, cy + ay] : [ax, ay])
+    },
+    kshow: (ps) => {
+      const bytes = popShowString(ps)
+      const proc = popOf(ps, 'array')
+      for (let i = 0; i < bytes.length; i++) {
+        showText(ps, bytes.subarray(i, i + 1), true)
+        if (i + 1 < bytes.length) {
+          ps.stack.push(bytes[i], bytes[i + 1])
+          execute(ps, proc)
+        }
+      }
+    },
+    // xshow and friends position each character explicitly, replacing the font's advance
+    xshow: (ps) => showPositioned(ps, 'x'),
+    yshow: (ps) => showPositioned(ps, 'y'),
+    xyshow: (ps) => showPositioned(ps, 'xy'),
+    cshow: (ps) => {
+      const bytes = popShowString(ps)
+      const proc = popOf(ps, 'array')
+      for (const code of bytes) {
+        const [wx, wy] = showText(ps, Uint8Array.of(code), false)
+        ps.stack.push(code, wx, wy)
+        execute(ps, proc)
+      }
+    },
+    glyphshow: (ps) => {
+      const glyph = popStringOrName(ps)
+      const font = ps.gs.font
+      if (!font) throw new PostScriptError('invalidfont')
+      if (dictGet(font, 'FontType') === 3) {
+        const advance = runType3Glyph(ps, font, 0, createName(textOf(glyph)), true)
+        const [dx, dy] = transformDelta(ps.gs.ctm, ...transformDelta(getFontMatrix(font), advance[0], advance[1]))
+        ps.gs.point = [currentPoint(ps)[0] + dx, currentPoint(ps)[1] + dy]
+        return
+      }
+      // Show the glyph through a one-character encoding
+      const encoded = transformFont(font, IDENTITY)
+      dictPut(encoded, createName('Encoding'), createArray([createName(textOf(glyph))]))
+      const saved = ps.gs.font
+      ps.gs.font = encoded
+      try {
+        showText(ps, Uint8Array.of(0), true)
+      } finally {
+        ps.gs.font = saved
+      }
+    },
+    stringwidth: (ps) => pushAll(ps, ...showText(ps, popShowString(ps), false)),
+    charpath: (ps) => {
+      popBoolean(ps)
+      popShowString(ps)
+      ps.warnings.add('Text outlines (charpath) are not supported')
+    },
+    setcharwidth: (ps) => {
+      const wy = popNumber(ps), wx = popNumber(ps)
+      ps.charWidth = [wx, wy]
+    },
+    setcachedevice: (ps) => {
+      for (let i = 0; i < 4; i++) popNumber(ps)
+      const wy = popNumber(ps), wx = popNumber(ps)
+      ps.charWidth = [wx, wy]
+    },
+    setcachedevice2: (ps) => {
+      for (let i = 0; i < 8; i++) popNumber(ps)
+      const wy = popNumber(ps), wx = popNumber(ps)
+      ps.charWidth = [wx, wy]
+    }
+  }
+}
+
+function showPositioned(ps: Interpreter, mode: 'x' | 'y' | 'xy') {
+  const displacements = pop(ps)
+  const bytes = popOf(ps, 'string').bytes
+  const numbers = isObject(displacements) && displacements.kind === 'array'
+    ? displacements.items.map(item => typeof item === 'number' ? item : 0)
+    : []
+  for (let i = 0; i < bytes.length; i++) {
+    const start = ps.gs.point
+    showText(ps, bytes.subarray(i, i + 1), true)
+    if (!start) continue
+    const dx = mode === 'y' ? 0 : numbers[mode === 'xy' ? i * 2 : i] ?? 0
+    const dy = mode === 'x' ? 0 : numbers[mode === 'xy' ? i * 2 + 1 : i] ?? 0
+    const [ddx, ddy] = transformDelta(ps.gs.ctm, dx, dy)
+    ps.gs.point = [start[0] + ddx, start[1] + ddy]
+  }
+}
+
+function imageOperators(): Record<string, (ps: Interpreter) => void> {
+  return {
+    image: (ps) => {
+      if (isObject(ps.stack[ps.stack.length - 1]) && (ps.stack[ps.stack.length - 1] as PSDict).kind === 'dict') {
+        drawImage(ps, popImageDict(ps, false))
+        return
+      }
+      const source = pop(ps)
+      const matrix = popMatrix(ps)
+      const bpc = popInt(ps), height = popInt(ps), width = popInt(ps)
+      drawImage(ps, {
+        width, height, bitsPerComponent: bpc, matrix, sources: [source], multipleSources: false,
+        colorSpace: createName('DeviceGray'), components: 1, decode: null, interpolate: false, mask: false, polarity: true
+      })
+    },
+    imagemask: (ps) => {
+      if (isObject(ps.stack[ps.stack.length - 1]) && (ps.stack[ps.stack.length - 1] as PSDict).kind === 'dict') {
+        drawImage(ps, popImageDict(ps, true))
+        return
+      }
+      const source = pop(ps)
+      const matrix = popMatrix(ps)
+      const polarity = popBoolean(ps), height = popInt(ps), width = popInt(ps)
+      drawImage(ps, {
+        width, height, bitsPerComponent: 1, matrix, sources: [source], multipleSources: false,
+        colorSpace: createName('DeviceGray'), components: 1, decode: null, interpolate: false, mask: true, polarity
+      })
+    },
+    colorimage: (ps) => {
+      const components = popInt(ps)
+      const multiple = popBoolean(ps)
+      const sources: Value[] = []
+      for (let i = multiple ? components : 1; i > 0; i--) sources.unshift(pop(ps))
+      const matrix = popMatrix(ps)
+      const bpc = popInt(ps), height = popInt(ps), width = popInt(ps)
+      const colorSpace = createName(components === 4 ? 'DeviceCMYK' : components === 3 ? 'DeviceRGB' : 'DeviceGray')
+      drawImage(ps, {
+        width, height, bitsPerComponent: bpc, matrix, sources, multipleSources: multiple,
+        colorSpace, components, decode: null, interpolate: false, mask: false, polarity: true
+      })
+    }
+  }
+}
+
+function fileOperators(): Record<string, (ps: Interpreter) => void> {
+  return {
+    currentfile: (ps) => {
+      const lexer = ps.lexer
+      pushAll(ps, createFile(() => lexer.pos < lexer.data.length ? lexer.data[lexer.pos++] : -1, true))
+    },
+    readhexstring: (ps) => {
+      const target = popOf(ps, 'string')
+      const count = readIntoString(popOf(ps, 'file'), target, true)
+      pushAll(ps, createString(target.bytes.subarray(0, count)), count === target.bytes.length)
+    },
+    readstring: (ps) => {
+      const target = popOf(ps, 'string')
+      const count = readIntoString(popOf(ps, 'file'), target, false)
+      pushAll(ps, createString(target.bytes.subarray(0, count)), count === target.bytes.length)
+    },
+    readline: (ps) => {
+      const target = popOf(ps, 'string')
+      const file = popOf(ps, 'file')
+      let count = 0
+      let c
+      while ((c = file.read()) !== -1 && c !== 10) {
+        if (c === 13) continue
+        if (count < target.bytes.length) target.bytes[count++] = c
+      }
+      pushAll(ps, createString(target.bytes.subarray(0, count)), c !== -1)
+    },
+    read: (ps) => {
+      const c = popOf(ps, 'file').read()
+      if (c === -1) pushAll(ps, false)
+      else pushAll(ps, c, true)
+    },
+    closefile: (ps) => { popOf(ps, 'file') },
+    flushfile: (ps) => {
+      const file = popOf(ps, 'file')
+      if (!file.isCurrentFile) readAll(file)
+    },
+    bytesavailable: (ps) => {
+      popOf(ps, 'file')
+      pushAll(ps, -1)
+    },
+    filter: (ps) => {
+      const name = popStringOrName(ps)
+      const filterName = textOf(name)
+      // Parameters are optional, except for SubFileDecode which takes them as operands
+      if (filterName !== 'SubFileDecode' && isObject(ps.stack[ps.stack.length - 1]) && (ps.stack[ps.stack.length - 1] as PSDict).kind === 'dict') {
+        pop(ps)
+      }
+      let source: PSFile
+      if (filterName === 'SubFileDecode') {
+        const marker = pop(ps)
+        const count = pop(ps)
+        const file = pop(ps)
+        if (!isObject(file) || file.kind !== 'file') throw new PostScriptError('typecheck')
+        source = file
+        ps.stack.push(count, marker)
+      } else {
+        const file = pop(ps)
+        if (isObject(file) && file.kind === 'string') source = createBufferFile(file.bytes)
+        else if (isObject(file) && file.kind === 'file') source = file
+        else if (isProcedure(file)) {
+          // Procedure sources are read to the end up front
+          const chunks: number[] = []
+          for (;;) {
+            execute(ps, file)
+            const chunk = popOf(ps, 'string')
+            if (chunk.bytes.length === 0) break
+            chunks.push(...chunk.bytes)
+          }
+          source = createBufferFile(Uint8Array.from(chunks))
+        } else {
+          throw new PostScriptError('typecheck')
+        }
+      }
+      const filter = createFilter(ps, source, filterName)
+      // Decoded data ends with a marker, except when read to a fixed length with SubFileDecode
+      filter.isInline = filter !== source && filterName !== 'SubFileDecode' && (source.isCurrentFile || source.isInline)
+      pushAll(ps, filter)
+    },
+    // Encrypted Type 1 font programs cannot be used, but the font dictionary built before the
+    // encrypted part names the font, so it is defined with a browser font in its place
+    eexec: (ps) => {
+      popOf(ps, 'file')
+      const top = ps.stack[ps.stack.length - 1]
+      if (isObject(top) && top.kind === 'dict' && dictGet(top, 'FontName') !== undefined) {
+        pop(ps)
+        const name = dictGet(top, 'FontName')!
+        if (dictGet(top, 'FontType') !== 3) top.map.delete('CharStrings')
+        defineFont(ps, name, top)
+      }
+      ps.stack.push({ kind: 'mark' })
+      // Skip to the 512 zeros that end the encrypted section; cleartomark follows them
+      const { lexer } = ps
+      const zeros = '0'.repeat(64)
+      let text = ''
+      while (lexer.pos < lexer.data.length) {
+        const c = lexer.data[lexer.pos]
+        if (c === 48) {
+          text += '0'
+          if (text.length === zeros.length) {
+            lexer.pos -= zeros.length - 1
+            return
+          }
+        } else if (!isWhitespace(c)) {
+          text = ''
+        }
+        lexer.pos++
+      }
+    },
+    file: () => { throw new PostScriptError('invalidfileaccess') },
+    run: () => { throw new PostScriptError('invalidfileaccess') }
+  }
+}
+
+function stackOperators(): Record<string, (ps: Interpreter) => void> {
+  return {
+    pop: (ps) => { pop(ps) },
+    exch: (ps) => {
+      const b = pop(ps), a = pop(ps)
+      pushAll(ps, b, a)
+    },
+    dup: (ps) => {
+      const a = pop(ps)
+      pushAll(ps, a, a)
+    },
+    copy: (ps) => {
+      const top = pop(ps)
+      if (typeof top === 'number') {
+        if (top < 0 || top > ps.stack.length) throw new PostScriptError('rangecheck')
+        pushAll(ps, ...ps.stack.slice(ps.stack.length - top))
+        return
+      }
+      const source = pop(ps)
+      if (!isObject(top) || !isObject(source)) throw new PostScriptError('typecheck')
+      if (top.kind === 'array' && source.kind === 'array') {
+        top.items.splice(0, source.items.length, ...source.items)
+        pushAll(ps, createArray(top.items.slice(0, source.items.length), top.executable))
+      } else if (top.kind === 'string' && source.kind === 'string') {
+        top.bytes.set(source.bytes.subarray(0, top.bytes.length))
+        pushAll(ps, createString(top.bytes.subarray(0, source.bytes.length)))
+      } else if (top.kind === 'dict' && source.kind === 'dict') {
+        for (const [key, entry] of source.map) top.map.set(key, entry)
+        pushAll(ps, top)
+      } else {
+        throw new PostScriptError('typecheck')
+      }
+    },
+    index: (ps) => {
+      const n = popInt(ps)
+      if (n < 0 || n >= ps.stack.length) throw new PostScriptError('rangecheck')
+      pushAll(ps, ps.stack[ps.stack.length - 1 - n])
+    },
+    roll: (ps) => {
+      const j = popInt(ps), n = popInt(ps)
+      if (n < 0 || n > ps.stack.length) throw new PostScriptError('rangecheck')
+      if (n === 0) return
+      const items = ps.stack.splice(ps.stack.length - n, n)
+      const shift = ((j % n) + n) % n
+      pushAll(ps, ...items.slice(n - shift), ...items.slice(0, n - shift))
+    },
+    clear: (ps) => { ps.stack.length = 0 },
+    count: (ps) => pushAll(ps, ps.stack.length),
+    mark: (ps) => pushAll(ps, { kind: 'mark' }),
+    '[': (ps) => pushAll(ps, { kind: 'mark' }),
+    '<<': (ps) => pushAll(ps, { kind: 'mark' }),
+    cleartomark: (ps) => {
+      const index = findMark(ps)
+      ps.stack.length = index
+    },
+    counttomark: (ps) => pushAll(ps, ps.stack.length - 1 - findMark(ps)),
+    ']': (ps) => {
+      const index = findMark(ps)
+      const items = ps.stack.splice(index)
+      items.shift()
+      pushAll(ps, createArray(items))
+    },
+    '>>': (ps) => {
+      const index = findMark(ps)
+      const items = ps.stack.splice(index)
+      items.shift()
+      const dict = createDict()
+      for (let i = 0; i + 1 < items.length; i += 2) dictPut(dict, items[i], items[i + 1])
+      pushAll(ps, dict)
+    }
+  }
+}
+
+function findMark(ps: Interpreter): number {
+  for (let i = ps.stack.length - 1; i >= 0; i--) {
+    const value = ps.stack[i]
+    if (isObject(value) && value.kind === 'mark') return i
+  }
+  throw new PostScriptError('unmatchedmark')
+}
+
+function mathOperators(): Record<string, (ps: Interpreter) => void> {
+  const binary = (fn: (a: number, b: number) => number) => (ps: Interpreter) => {
+    const b = popNumber(ps), a = popNumber(ps)
+    pushAll(ps, fn(a, b))
+  }
+  const unary = (fn: (a: number) => number) => (ps: Interpreter) => pushAll(ps, fn(popNumber(ps)))
+  const logical = (fn: (a: number, b: number) => number, bool: (a: boolean, b: boolean) => boolean) => (ps: Interpreter) => {
+    const b = pop(ps), a = pop(ps)
+    if (typeof a === 'boolean' && typeof b === 'boolean') pushAll(ps, bool(a, b))
+    else if (typeof a === 'number' && typeof b === 'number') pushAll(ps, fn(a, b))
+    else throw new PostScriptError('typecheck')
+  }
+  const relation = (fn: (a: number | string, b: number | string) => boolean) => (ps: Interpreter) => {
+    const b = pop(ps), a = pop(ps)
+    if (typeof a === 'number' && typeof b === 'number') pushAll(ps, fn(a, b))
+    else if (isObject(a) && isObject(b) && a.kind === 'string' && b.kind === 'string') pushAll(ps, fn(textOf(a), textOf(b)))
+    else throw new PostScriptError('typecheck')
+  }
+  let seed = 1
+
+  return {
+    add: binary((a, b) => a + b),
+    sub: binary((a, b) => a - b),
+    mul: binary((a, b) => a * b),
+    div: binary((a, b) => {
+      if (b === 0) throw new PostScriptError('undefinedresult')
+      return a / b
+    }),
+    idiv: binary((a, b) => {
+      if (Math.trunc(b) === 0) throw new PostScriptError('undefinedresult')
+      return Math.trunc(Math.trunc(a) / Math.trunc(b))
+    }),
+    mod: binary((a, b) => {
+      if (Math.trunc(b) === 0) throw new PostScriptError('undefinedresult')
+      return Math.trunc(a) % Math.trunc(b)
+    }),
+    neg: unary(a => -a),
+    abs: unary(Math.abs),
+    ceiling: unary(Math.ceil),
+    floor: unary(Math.floor),
+    round: unary(a => Math.floor(a + 0.5)),
+    truncate: unary(Math.trunc),
+    sqrt: unary(a => {
+      if (a < 0) throw new PostScriptError('rangecheck')
+      return Math.sqrt(a)
+    }),
+    sin: unary(a => Math.sin(a * Math.PI / 180)),
+    cos: unary(a => Math.cos(a * Math.PI / 180)),
+    atan: binary((num, den) => {
+      const angle = Math.atan2(num, den) * 180 / Math.PI
+      return angle < 0 ? angle + 360 : angle
+    }),
+    exp: binary((base, exponent) => Math.pow(base, exponent)),
+    ln: unary(Math.log),
+    log: unary(Math.log10),
+    cvi: unary(Math.trunc),
+    cvr: unary(a => a),
+    rand: (ps) => {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff
+      pushAll(ps, seed)
+    },
+    srand: (ps) => { seed = popInt(ps) },
+    rrand: (ps) => pushAll(ps, seed),
+    eq: (ps) => {
+      const b = pop(ps), a = pop(ps)
+      pushAll(ps, compare(a, b))
+    },
+    ne: (ps) => {
+      const b = pop(ps), a = pop(ps)
+      pushAll(ps, !compare(a, b))
+    },
+    gt: relation((a, b) => a > b),
+    ge: relation((a, b) => a >= b),
+    lt: relation((a, b) => a < b),
+    le: relation((a, b) => a <= b),
+    and: logical((a, b) => a & b, (a, b) => a && b),
+    or: logical((a, b) => a | b, (a, b) => a || b),
+    xor: logical((a, b) => a ^ b, (a, b) => a !== b),
+    not: (ps) => {
+      const a = pop(ps)
+      if (typeof a === 'boolean') pushAll(ps, !a)
+      else if (typeof a === 'number') pushAll(ps, ~a)
+      else throw new PostScriptError('typecheck')
+    },
+    bitshift: binary((a, shift) => shift >= 0 ? a << shift : a >> -shift),
+    true: (ps) => pushAll(ps, true),
+    false: (ps) => pushAll(ps, false),
+    null: (ps) => pushAll(ps, null)
+  }
+}
+
+function controlOperators(): Record<string, (ps: Interpreter) => void> {
+  return {
+    exec: (ps) => execute(ps, pop(ps)),
+    if: (ps) => {
+      const proc = pop(ps)
+      if (popBoolean(ps)) execute(ps, proc)
+    },
+    ifelse: (ps) => {
+      const otherwise = pop(ps), then = pop(ps)
+      execute(ps, popBoolean(ps) ? then : otherwise)
+    },
+    for: (ps) => {
+      const proc = pop(ps)
+      const limit = popNumber(ps), increment = popNumber(ps), initial = popNumber(ps)
+      runLoop(() => {
+        for (let i = initial; increment >= 0 ? i <= limit : i >= limit; i += increment) {
+          ps.stack.push(i)
+          execute(ps, proc)
+          if (increment === 0) countOperation(ps)
+        }
+      })
+    },
+    repeat: (ps) => {
+      const proc = pop(ps)
+      const count = popInt(ps)
+      if (count < 0) throw new PostScriptError('rangecheck')
+      runLoop(() => {
+        for (let i = 0; i < count; i++) execute(ps, proc)
+      })
+    },
+    loop: (ps) => {
+      const proc = pop(ps)
+      runLoop(() => {
+        for (;;) execute(ps, proc)
+      })
+    },
+    forall: (ps) => {
+      const proc = pop(ps)
+      const target = pop(ps)
+      if (!isObject(target)) throw new PostScriptError('typecheck')
+      runLoop(() => {
+        if (target.kind === 'array') {
+          for (const item of [...target.items]) {
+            ps.stack.push(item)
+            execute(ps, proc)
+          }
+        } else if (target.kind === 'string') {
+          for (const byte of [...target.bytes]) {
+            ps.stack.push(byte)
+            execute(ps, proc)
+          }
+        } else if (target.kind === 'dict') {
+          for (const { key, value } of [...target.map.values()]) {
+            ps.stack.push(key, value)
+            execute(ps, proc)
+          }
+        } else {
+          throw new PostScriptError('typecheck')
+        }
+      })
+    },
+    exit: () => { throw EXIT },
+    stop: () => { throw STOP },
+    stopped: (ps) => {
+      const proc = pop(ps)
+      const saved = ps.saved.length
+      try {
+        execute(ps, proc)
+        pushAll(ps, false)
+      } catch (err) {
+        if (err !== STOP && !(err instanceof PostScriptError)) throw err
+        while (ps.saved.length > saved) grestore(ps)
+        pushAll(ps, true)
+      }
+    },
+    quit: () => { throw QUIT },
+    countexecstack: (ps) => pushAll(ps, 0),
+    bind: (ps) => {
+      const proc = pop(ps)
+      if (isProcedure(proc)) bindProcedure(ps, proc, new Set())
+      pushAll(ps, proc)
+    }
+  }
+}
+
+// Replace names of operators in a procedure by the operators themselves
+function bindProcedure(ps: Interpreter, proc: PSArray, seen: Set<PSArray>) {
+  seen.add(proc)
+  proc.items.forEach((item, i) => {
+    if (isObject(item) && item.kind === 'name' && item.executable) {
+      try {
+        const value = lookup(ps, item.name)
+        if (isObject(value) && value.kind === 'operator') proc.items[i] = value
+      } catch {
+        // Names defined later stay names
+      }
+    } else if (isProcedure(item) && !seen.has(item)) {
+      bindProcedure(ps, item, seen)
+    }
+  })
+}
+
+function dataOperators(): Record<string, (ps: Interpreter) => void> {
+  const identity = (ps: Interpreter) => pushAll(ps, pop(ps))
+  return {
+    dict: (ps) => {
+      popInt(ps)
+      pushAll(ps, createDict())
+    },
+    begin: (ps) => { ps.dicts.push(popOf(ps, 'dict')) },
+    end: (ps) => {
+      // systemdict and userdict stay
+      if (ps.dicts.length <= 2) throw new PostScriptError('dictstackunderflow')
+      ps.dicts.pop()
+    },
+    def: (ps) => {
+      const value = pop(ps), key = pop(ps)
+      dictPut(ps.dicts[ps.dicts.length - 1], key, value)
+    },
+    load: (ps) => {
+      const key = pop(ps)
+      pushAll(ps, lookup(ps, String(keyOf(key))))
+    },
+    store: (ps) => {
+      const value = pop(ps), key = pop(ps)
+      const k = keyOf(key)
+      const dict = [...ps.dicts].reverse().find(d => d.map.has(k)) ?? ps.dicts[ps.dicts.length - 1]
+      dictPut(dict, key, value)
+    },
+    known: (ps) => {
+      const key = pop(ps)
+      pushAll(ps, popOf(ps, 'dict').map.has(keyOf(key)))
+    },
+    where: (ps) => {
+      const key = keyOf(pop(ps))
+      const dict = [...ps.dicts].reverse().find(d => d.map.has(key))
+      if (dict) pushAll(ps, dict, true)
+      else pushAll(ps, false)
+    },
+    undef: (ps) => {
+      const key = pop(ps)
+      popOf(ps, 'dict').map.delete(keyOf(key))
+    },
+    currentdict: (ps) => pushAll(ps, ps.dicts[ps.dicts.length - 1]),
+    countdictstack: (ps) => pushAll(ps, ps.dicts.length),
+    cleardictstack: (ps) => { ps.dicts.length = 2 },
+    maxlength: (ps) => pushAll(ps, popOf(ps, 'dict').map.size + 100),
+    length: (ps) => {
+      const value = pop(ps)
+      if (!isObject(value)) throw new PostScriptError('typecheck')
+      if (value.kind === 'array') pushAll(ps, value.items.length)
+      else if (value.kind === 'string') pushAll(ps, value.bytes.length)
+      else if (value.kind === 'dict') pushAll(ps, value.map.size)
+      else if (value.kind === 'name') pushAll(ps, value.name.length)
+      else throw new PostScriptError('typecheck')
+    },
+    get: (ps) => {
+      const key = pop(ps)
+      const container = pop(ps)
+      if (!isObject(container)) throw new PostScriptError('typecheck')
+      if (container.kind === 'dict') {
+        const entry = container.map.get(keyOf(key))
+        if (!entry) throw new PostScriptError('undefined', `get ${toText(key)}`)
+        pushAll(ps, entry.value)
+        return
+      }
+      if (typeof key !== 'number') throw new PostScriptError('typecheck')
+      if (container.kind === 'array') {
+        if (key < 0 || key >= container.items.length) throw new PostScriptError('rangecheck')
+        pushAll(ps, container.items[key])
+      } else if (container.kind === 'string') {
+        if (key < 0 || key >= container.bytes.length) throw new PostScriptError('rangecheck')
+        pushAll(ps, container.bytes[key])
+      } else {
+        throw new PostScriptError('typecheck')
+      }
+    },
+    put: (ps) => {
+      const value = pop(ps), key = pop(ps), container = pop(ps)
+      if (!isObject(container)) throw new PostScriptError('typecheck')
+      if (container.kind === 'dict') {
+        dictPut(container, key, value)
+      } else if (container.kind === 'array' && typeof key === 'number') {
+        if (key < 0 || key >= container.items.length) throw new PostScriptError('rangecheck')
+        container.items[key] = value
+      } else if (container.kind === 'string' && typeof key === 'number' && typeof value === 'number') {
+        if (key < 0 || key >= container.bytes.length) throw new PostScriptError('rangecheck')
+        container.bytes[key] = value
+      } else {
+        throw new PostScriptError('typecheck')
+      }
+    },
+    getinterval: (ps) => {
+      const count = popInt(ps), index = popInt(ps)
+      const container = pop(ps)
+      if (!isObject(container)) throw new PostScriptError('typecheck')
+      if (container.kind === 'array') {
+        if (index < 0 || index + count > container.items.length) throw new PostScriptError('rangecheck')
+        pushAll(ps, createArray(container.items.slice(index, index + count), container.executable))
+      } else if (container.kind === 'string') {
+        if (index < 0 || index + count > container.bytes.length) throw new PostScriptError('rangecheck')
+        pushAll(ps, createString(container.bytes.subarray(index, index + count)))
+      } else {
+        throw new PostScriptError('typecheck')
+      }
+    },
+    putinterval: (ps) => {
+      const source = pop(ps)
+      const index = popInt(ps)
+      const target = pop(ps)
+      if (!isObject(source) || !isObject(target)) throw new PostScriptError('typecheck')
+      if (target.kind === 'array' && source.kind === 'array') {
+        target.items.splice(index, source.items.length, ...source.items)
+      } else if (target.kind === 'string' && source.kind === 'string') {
+        if (index < 0 || index + source.bytes.length > target.bytes.length) throw new PostScriptError('rangecheck')
+        target.bytes.set(source.bytes, index)
+      } else {
+        throw new PostScriptError('typecheck')
+      }
+    },
+    array: (ps) => {
+      const size = popInt(ps)
+      if (size < 0 || size > 1_000_000) throw new PostScriptError('rangecheck')
+      pushAll(ps, createArray(new Array<Value>(size).fill(null)))
+    },
+    string: (ps) => {
+      const size = popInt(ps)
+      if (size < 0 || size > 10_000_000) throw new PostScriptError('rangecheck')
+      pushAll(ps, createString(new Uint8Array(size)))
+    },
+    aload: (ps) => {
+      const array = popOf(ps, 'array')
+      pushAll(ps, ...array.items, array)
+    },
+    astore: (ps) => {
+      const array = popOf(ps, 'array')
+      const n = array.items.length
+      if (n > ps.stack.length) throw new PostScriptError('stackunderflow')
+      array.items.splice(0, n, ...ps.stack.splice(ps.stack.length - n, n))
+      pushAll(ps, array)
+    },
+    search: (ps) => {
+      const seek = popOf(ps, 'string').bytes
+      const string = popOf(ps, 'string')
+      const text = textOf(string)
+      const index = text.indexOf(textOf(createString(seek)))
+      if (index === -1) {
+        pushAll(ps, string, false)
+        return
+      }
+      const { bytes } = string
+      pushAll(ps,
+        createString(bytes.subarray(index + seek.length)),
+        createString(bytes.subarray(index, index + seek.length)),
+        createString(bytes.subarray(0, index)),
+        true)
+    },
+    anchorsearch: (ps) => {
+      const seek = popOf(ps, 'string').bytes
+      const string = popOf(ps, 'string')
+      const matches = seek.length <= string.bytes.length && seek.every((b, i) => string.bytes[i] === b)
+      if (!matches) {
+        pushAll(ps, string, false)
+        return
+      }
+      pushAll(ps, createString(string.bytes.subarray(seek.length)), createString(string.bytes.subarray(0, seek.length)), true)
+    },
+    type: (ps) => pushAll(ps, createName(typeName(pop(ps)), true)),
+    cvlit: (ps) => {
+      const value = pop(ps)
+      pushAll(ps, isObject(value) && (value.kind === 'array' || value.kind === 'name' || value.kind === 'string')
+        ? { ...value, executable: false }
+        : value)
+    },
+    cvx: (ps) => {
+      const value = pop(ps)
+      pushAll(ps, isObject(value) && (value.kind === 'array' || value.kind === 'name' || value.kind === 'string')
+        ? { ...value, executable: true }
+        : value)
+    },
+    xcheck: (ps) => pushAll(ps, isExecutable(pop(ps))),
+    rcheck: (ps) => { pop(ps); pushAll(ps, true) },
+    wcheck: (ps) => { pop(ps); pushAll(ps, true) },
+    readonly: identity,
+    executeonly: identity,
+    noaccess: identity,
+    cvn: (ps) => {
+      const value = popStringOrName(ps)
+      pushAll(ps, createName(textOf(value), value.executable))
+    },
+    cvs: (ps) => {
+      const target = popOf(ps, 'string')
+      const text = toText(pop(ps))
+      if (text.length > target.bytes.length) throw new PostScriptError('rangecheck')
+      target.bytes.set(stringFromText(text).bytes)
+      pushAll(ps, createString(target.bytes.subarray(0, text.length)))
+    },
+    cvrs: (ps) => {
+      const target = popOf(ps, 'string')
+      const radix = popInt(ps)
+      const number = popNumber(ps)
+      const text = (radix === 10 ? number : Math.trunc(number) >>> 0).toString(radix).toUpperCase()
+      if (text.length > target.bytes.length) throw new PostScriptError('rangecheck')
+      target.bytes.set(stringFromText(text).bytes)
+      pushAll(ps, createString(target.bytes.subarray(0, text.length)))
+    },
+    cvi: (ps) => {
+      const value = pop(ps)
+      if (typeof value === 'number') pushAll(ps, Math.trunc(value))
+      else if (isObject(value) && value.kind === 'string') pushAll(ps, Math.trunc(parseNumber(textOf(value).trim()) ?? NaN))
+      else throw new PostScriptError('typecheck')
+    },
+    cvr: (ps) => {
+      const value = pop(ps)
+      if (typeof value === 'number') pushAll(ps, value)
+      else if (isObject(value) && value.kind === 'string') pushAll(ps, parseNumber(textOf(value).trim()) ?? NaN)
+      else throw new PostScriptError('typecheck')
+    },
+    save: (ps) => {
+      const state: PSSave = { kind: 'save', depth: ps.saved.length }
+      gsave(ps)
+      pushAll(ps, state)
+    },
+    restore: (ps) => {
+      const state = popOf(ps, 'save')
+      while (ps.saved.length > state.depth) grestore(ps)
+    }
+  }
+}
+
+// Operators that only configure a printer or report on the interpreter
+function environmentOperators(): Record<string, (ps: Interpreter) => void> {
+  const ignore = (count: number) => (ps: Interpreter) => {
+    for (let i = 0; i < count; i++) pop(ps)
+  }
+  const constant = (...values: (() => Value)[]) => (ps: Interpreter) => pushAll(ps, ...values.map(value => value()))
+  const print = (ps: Interpreter) => { pop(ps) }
+  return {
+    setflat: ignore(1), setstrokeadjust: ignore(1), setoverprint: ignore(1), setsmoothness: ignore(1),
+    setscreen: ignore(3), settransfer: ignore(1), setcolortransfer: ignore(4), setblackgeneration: ignore(1),
+    setundercolorremoval: ignore(1), sethalftone: ignore(1), setcolorrendering: ignore(1), setpacking: ignore(1),
+    setglobal: ignore(1), setuserparams: ignore(1), setsystemparams: ignore(1), setobjectformat: ignore(1),
+    setvmthreshold: ignore(1), setpagedevice: ignore(1), setshared: ignore(1), setcachelimit: ignore(1),
+    setdevparams: ignore(2), setbbox: ignore(4), setcolorscreen: ignore(12), setrenderingintent: ignore(1),
+    currentflat: constant(() => 1),
+    currentstrokeadjust: constant(() => false),
+    currentoverprint: constant(() => false),
+    currentpacking: constant(() => false),
+    currentglobal: constant(() => false),
+    currentshared: constant(() => false),
+    currentsmoothness: constant(() => 0.02),
+    currentscreen: constant(() => 60, () => 0, () => createArray([createName('pop', true), createName('pop', true), 0], true)),
+    currenttransfer: constant(() => createArray([], true)),
+    currentblackgeneration: constant(() => createArray([], true)),
+    currentundercolorremoval: constant(() => createArray([], true)),
+    currentcolortransfer: constant(...Array.from({ length: 4 }, () => () => createArray([], true) as Value)),
+    currenthalftone: constant(() => createDict()),
+    currentpagedevice: (ps) => {
+      const dict = createDict()
+      dictPut(dict, createName('PageSize'), createArray([ps.width, ps.height]))
+      pushAll(ps, dict)
+    },
+    languagelevel: constant(() => 3),
+    version: constant(() => stringFromText('3010')),
+    product: constant(() => stringFromText('arXivTeXplorer')),
+    revision: constant(() => 0),
+    serialnumber: constant(() => 0),
+    realtime: constant(() => Date.now() % 0x7fffffff),
+    usertime: constant(() => Math.round(performance.now())),
+    vmstatus: constant(() => 0, () => 0, () => 10_000_000),
+    print,
+    '=': print,
+    '==': print,
+    pstack: () => {},
+    stack: () => {},
+    flush: () => {},
+    echo: ignore(1),
+    prompt: () => {},
+    executive: () => {},
+    handleerror: () => {},
+    findresource: (ps) => {
+      const category = textOf(popStringOrName(ps))
+      const key = pop(ps)
+      if (category === 'Font') {
+        pushAll(ps, findFont(ps, key))
+        return
+      }
+      const entry = ps.resources.get(category)?.map.get(keyOf(key))
+      if (!entry) throw new PostScriptError('undefinedresource', `findresource ${toText(key)}`)
+      pushAll(ps, entry.value)
+    },
+    defineresource: (ps) => {
+      const category = textOf(popStringOrName(ps))
+      const instance = pop(ps)
+      const key = pop(ps)
+      if (category === 'Font' && isObject(instance) && instance.kind === 'dict') {
+        pushAll(ps, defineFont(ps, key, instance))
+        return
+      }
+      let resources = ps.resources.get(category)
+      if (!resources) {
+        resources = createDict()
+        ps.resources.set(category, resources)
+      }
+      dictPut(resources, key, instance)
+      pushAll(ps, instance)
+    },
+    undefineresource: ignore(2),
+    resourcestatus: (ps) => {
+      const category = textOf(popStringOrName(ps))
+      const key = keyOf(pop(ps))
+      const known = category === 'Font' ? ps.fontDirectory.map.has(key) : Boolean(ps.resources.get(category)?.map.has(key))
+      if (known) pushAll(ps, 0, 0, true)
+      else pushAll(ps, false)
+    },
+    resourceforall: ignore(4)
+  }
+}
+
+function createEncoding(names: (string | undefined)[]): PSArray {
+  return createArray(Array.from({ length: 256 }, (_, code) => createName(names[code] ?? '.notdef')))
+}
+
+function createSystemDict(ps: Interpreter): PSDict {
+  const dict = createDict()
+  const operators = {
+    ...stackOperators(), ...mathOperators(), ...controlOperators(), ...dataOperators(), ...pathOperators(),
+    ...graphicsOperators(), ...textOperators(), ...imageOperators(), ...fileOperators(), ...environmentOperators()
+  }
+  for (const [name, run] of Object.entries(operators)) {
+    dictPut(dict, createName(name), { kind: 'operator', name, run })
+  }
+
+  const ascii: (string | undefined)[] = []
+  ASCII_GLYPHS.forEach((name, i) => { ascii[32 + i] = name })
+  dictPut(dict, createName('StandardEncoding'), createEncoding(ascii))
+  const latin1 = [...ascii]
+  for (let code = 160; code < 256; code++) latin1[code] = `uni00${code.toString(16).toUpperCase()}`
+  latin1[45] = 'hyphen'
+  dictPut(dict, createName('ISOLatin1Encoding'), createEncoding(latin1))
+
+  dictPut(dict, createName('systemdict'), dict)
+  dictPut(dict, createName('userdict'), ps.userdict)
+  dictPut(dict, createName('globaldict'), ps.userdict)
+  dictPut(dict, createName('FontDirectory'), ps.fontDirectory)
+  dictPut(dict, createName('GlobalFontDirectory'), ps.fontDirectory)
+  dictPut(dict, createName('SharedFontDirectory'), ps.fontDirectory)
+  for (const name of ['statusdict', 'errordict', '$error', 'serverdict']) {
+    dictPut(dict, createName(name), createDict())
+  }
+  return dict
+}
+
+// Run a PostScript program, drawing on `ctx`. `matrix` maps the default user space (points,
+// origin at the bottom left) to canvas pixels; drawing stops at the first showpage. Programs
+// can run for seconds, so this is called from eps-worker rather than the page.
+export function renderPostScript(program: Uint8Array, ctx: OffscreenCanvasRenderingContext2D, matrix: Matrix): PostScriptResult {
+  const ps: Interpreter = {
+    stack: [],
+    dicts: [],
+    gs: createGraphicsState(matrix),
+    saved: [],
+    ctx,
+    defaultMatrix: matrix,
+    width: ctx.canvas.width,
+    height: ctx.canvas.height,
+    lexer: { data: program, pos: 0 },
+    operations: 0,
+    warnings: new Set(),
+    suppressPaint: 0,
+    charWidth: null,
+    systemdict: createDict(),
+    userdict: createDict(),
+    fontDirectory: createDict(),
+    resources: new Map(),
+    widthCache: new Map()
+  }
+  ps.systemdict = createSystemDict(ps)
+  ps.dicts = [ps.systemdict, ps.userdict]
+
+  let errors = 0
+  let error: string | null = null
+  ctx.save()
+  for (;;) {
+    try {
+      let token
+      while ((token = readToken(ps, ps.lexer)) !== undefined) {
+        if (token === PROCEDURE_END) throw new PostScriptError('syntaxerror', '}')
+        executeItem(ps, token as Value)
+      }
+      break
+    } catch (err) {
+      if (err === QUIT || err === STOP) break
+      if (err === EXIT) continue
+      if (err instanceof PostScriptError) {
+        ps.warnings.add(err.type.startsWith('unsupported: ')
+          ? `${err.type.slice(13)} is not supported`
+          : `${err.type} in ${err.command || 'program'}`)
+        if (++errors >= MAX_ERRORS) {
+          error = 'Too many errors'
+          break
+        }
+        continue
+      }
+      error = err instanceof Error ? err.message : String(err)
+      break
+    }
+  }
+  while (ps.saved.length > 0) grestore(ps)
+  ctx.restore()
+  return { warnings: [...ps.warnings], error }
+}
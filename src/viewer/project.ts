@@ -0,0 +1,236 @@
+import { FileEntry } from './latex-features'
+import { decodeText, detectEncoding, findDeclaredEncoding } from './encoding'
+
+// Project model of a paper's sources: the root document and the files it pulls in through
+// \input, \include, \subfile, \import (and friends) and \InputIfFileExists, in document order.
+
+export interface IncludeReference {
+  command: string // e.g. "input", "subimport"
+  path: string // path as written in the source
+  from: string // name of the including file
+  file: string | null // name of the included file, or null if it is not in the sources
+  index: number // offset of the command in the including file
+  end: number // offset after the command
+  line: number
+}
+
+export interface LatexProject {
+  root: FileEntry | null
+  files: FileEntry[] // files reachable from the root, in the order they are first included
+  includes: IncludeReference[]
+}
+
+// \import and \subimport take a directory and a file name, everything else a single path.
+// Plain TeX also allows \input without braces.
+const INCLUDE_REGEX = new RegExp(
+  '\\\\(?:(import|subimport|inputfrom|subinputfrom|includefrom|subincludefrom)\\*?\\s*\\{([^}]*)\\}\\s*\\{([^}]*)\\}' +
+  '|(input|include|subfile|InputIfFileExists)\\s*\\{([^}]*)\\}' +
+  '|(input)\\s+([\\w./-]+))',
+  'g',
+)
+
+const ROOT_NAME = /(^|\/)(main|ms|paper|root|article|manuscript)\.tex$/i
+
+// Blank out comments, keeping offsets intact so matches still map onto the original content
+export function stripComments(content: string): string {
+  return content.replace(/(^|[^\\])(%.*)$/gm, (_, before: string, comment: string) => before + ' '.repeat(comment.length))
+}
+
+export function getLineNumber(content: string, index: number): number {
+  let line = 1
+  for (let i = 0; i < index; i++) {
+    if (content.charCodeAt(i) === 10) line++
+  }
+  return line
+}
+
+export function dirname(path: string): string {
+  const slash = path.lastIndexOf('/')
+  return slash === -1 ? '' : path.slice(0, slash)
+}
+
+export function joinPath(dir: string, path: string): string {
+  const parts: string[] = []
+  for (const part of (path.startsWith('/') ? path : `${dir}/${path}`).split('/')) {
+    if (part === '' || part === '.') continue
+    if (part === '..') {
+      parts.pop()
+    } else {
+      parts.push(part)
+    }
+  }
+  return parts.join('/')
+}
+
+function isRootCandidate(file: FileEntry): boolean {
+  const code = stripComments(file.content)
+  return /\\documentclass\b/.test(code) && /\\begin\s*\{document\}/.test(code)
+}
+
+// Find a file among the sources, trying the name with ".tex" appended first like TeX does
+function lookupFile(byName: Map<string, FileEntry>, path: string, forceTex: boolean): FileEntry | null {
+  if (!path) return null
+  const withTex = path.endsWith('.tex') ? path : `${path}.tex`
+  return byName.get(withTex) || (forceTex ? null : byName.get(path) || null)
+}
+
+interface ParsedInclude {
+  command: string
+  path: string
+  index: number
+  end: number
+  candidates: string[] // possible resolved paths, most likely first
+  baseDir: string // directory relative paths resolve against inside the included file
+}
+
+// baseDir is the directory relative paths resolve against: the root document's directory,
+// or the directory set by an enclosing \import.
+function parseIncludes(file: FileEntry, baseDir: string, rootDir: string): ParsedInclude[] {
+  const code = stripComments(file.content)
+  const fileDir = dirname(file.name)
+  const result: ParsedInclude[] = []
+
+  INCLUDE_REGEX.lastIndex = 0
+  let match
+  while ((match = INCLUDE_REGEX.exec(code)) !== null) {
+    const unquote = (s: string) => s.trim().replace(/^"(.*)"$/, '$1')
+
+    if (match[1]) {
+      // \import{dir}{file} is relative to the root, \subimport{dir}{file} to the current import directory
+      const command = match[1]
+      const dir = joinPath(command.startsWith('sub') ? baseDir : rootDir, unquote(match[2]))
+      const path = unquote(match[3])
+      result.push({
+        command,
+        path: joinPath(unquote(match[2]), path),
+        index: match.index,
+        end: match.index + match[0].length,
+        candidates: [joinPath(dir, path)],
+        baseDir: dir,
+      })
+    } else {
+      const command = match[4] || match[6]
+      const path = unquote(match[5] ?? match[7])
+      if (!path) continue
+      // \subfile paths are relative to the including file; \input paths to the base directory,
+      // though many sources also rely on the including file's directory or the archive root
+      const candidates = command === 'subfile'
+        ? [joinPath(fileDir, path), joinPath(baseDir, path)]
+        : [joinPath(baseDir, path), joinPath(fileDir, path), joinPath('', path)]
+      result.push({
+        command,
+        path,
+        index: match.index,
+        end: match.index + match[0].length,
+        candidates: [...new Set(candidates)],
+        baseDir,
+      })
+    }
+  }
+
+  return result
+}
+
+function resolveInclude(byName: Map<string, FileEntry>, include: ParsedInclude): FileEntry | null {
+  for (const candidate of include.candidates) {
+    const file = lookupFile(byName, candidate, include.command === 'include' || include.command.endsWith('includefrom'))
+    if (file) return file
+  }
+  return null
+}
+
+// The root is a file with both \documentclass and \begin{document}. If there are several
+// (e.g. standalone figures or a supplement), prefer one that no other file includes,
+// then conventional names, then the largest.
+export function findRootFile(files: FileEntry[]): FileEntry | null {
+  const texFiles = files.filter(f => f.isTeX)
+  const candidates = texFiles.filter(isRootCandidate)
+  if (candidates.length === 0) {
+    return texFiles.find(f => /\\documentclass\b/.test(stripComments(f.content))) || texFiles[0] || null
+  }
+  if (candidates.length === 1) return candidates[0]
+
+  const byName = new Map(files.map(f => [f.name, f]))
+  const included = new Set<string>()
+  for (const file of candidates) {
+    for (const include of parseIncludes(file, dirname(file.name), dirname(file.name))) {
+      const target = resolveInclude(byName, include)
+      if (target && target !== file) included.add(target.name)
+    }
+  }
+
+  const score = (file: FileEntry) =>
+    (included.has(file.name) ? 0 : 4) + (ROOT_NAME.test(file.name) ? 2 : 0) + (file.name.includes('/') ? 0 : 1)
+  return [...candidates].sort((a, b) => score(b) - score(a) || b.content.length - a.content.length)[0]
+}
+
+export function buildProject(files: FileEntry[]): LatexProject {
+  const root = findRootFile(files)
+  const byName = new Map(files.map(f => [f.name, f]))
+  const includes: IncludeReference[] = []
+  const ordered: FileEntry[] = []
+  const visited = new Set<string>()
+
+  const addIncludes = (file: FileEntry, parsed: ParsedInclude[], targets: (FileEntry | null)[]) => {
+    parsed.forEach((include, i) => {
+      includes.push({
+        command: include.command,
+        path: include.path,
+        from: file.name,
+        file: targets[i]?.name ?? null,
+        index: include.index,
+        end: include.end,
+        line: getLineNumber(file.content, include.index),
+      })
+    })
+  }
+
+  const visit = (file: FileEntry, baseDir: string, rootDir: string) => {
+    visited.add(file.name)
+    ordered.push(file)
+    const parsed = parseIncludes(file, baseDir, rootDir)
+    const targets = parsed.map(include => resolveInclude(byName, include))
+    addIncludes(file, parsed, targets)
+    parsed.forEach((include, i) => {
+      const target = targets[i]
+      if (target && !visited.has(target.name)) {
+        if (include.command === 'subfile') {
+          // A subfile is compiled from its own directory
+          visit(target, dirname(target.name), dirname(target.name))
+        } else {
+          visit(target, include.baseDir, rootDir)
+        }
+      }
+    })
+  }
+
+  if (root) {
+    visit(root, dirname(root.name), dirname(root.name))
+  }
+
+  // Files the root never reaches still get their own includes recorded
+  for (const file of files) {
+    if (!file.isTeX || visited.has(file.name)) continue
+    const dir = root ? dirname(root.name) : dirname(file.name)
+    const parsed = parseIncludes(file, dir, dir)
+    addIncludes(file, parsed, parsed.map(include => resolveInclude(byName, include)))
+  }
+
+  return { root, files: ordered, includes }
+}
+
+// Decode the files as TeX reads them. Files the root includes inherit the encoding it declares
+// unless they have a byte order mark or declaration of their own; `overrides` are encodings the
+// user picked for single files, by name, and win over both.
+export function applyEncodings(files: FileEntry[], overrides: Record<string, string> = {}): FileEntry[] {
+  const project = buildProject(files)
+  const declared = project.root?.rawData ? findDeclaredEncoding(project.root.rawData) : null
+  const included = new Set(project.files.map(f => f.name))
+  return files.map(file => {
+    if (!file.rawData) return file
+    const encoding = overrides[file.name]
+      ?? (declared && included.has(file.name) ? detectEncoding(file.rawData, declared) : file.encoding)
+    if (!encoding || encoding === file.encoding) return file
+    return { ...file, encoding, content: decodeText(file.rawData, encoding) }
+  })
+}
@@ -0,0 +1,1609 @@
+import {
+  CitationEntry,
+  FileEntry,
+  MacroDefinition,
+  TheoremStyle,
+  collectBibliography,
+  collectCitations,
+  collectMacros,
+  collectTheorems,
+  getPosition,
+  readGroup,
+  readOptional
+} from './latex-features'
+import { IncludeReference, LatexProject, stripComments } from './project'
+import { createGraphicResolver } from './dependency-graph'
+import { renderMath } from './math'
+import { MathRegion, findMathRegions } from './math-regions'
+import { formatAuthorList, latexToText } from './bibtex'
+
+// Reader mode: converts the root document and the files it includes into HTML. Covers what
+// papers are made of (sectioning, paragraphs, lists, math, floats, tables, theorems,
+// cross-references, citations and footnotes); unknown commands are dropped and their
+// arguments kept as text. Every element records the file and line it came from, so the
+// reader can reveal its source.
+
+export interface ReaderOptions {
+  showComments: boolean // render comments, \iffalse blocks and comment environments
+  getImageUrl: (file: FileEntry) => string | null
+}
+
+// Text being converted: a file, or the expansion of a macro, which maps to the line of its use
+interface Source {
+  text: string
+  file: FileEntry
+  line?: number
+  code?: string // text with comments blanked out
+  regions?: Map<number, MathRegion>
+}
+
+interface Location {
+  file: string
+  line: number
+}
+
+// What a \label refers to: the innermost numbered element around it
+interface Anchor {
+  id: string
+  number: string
+  kind: string // e.g. "Section", "Figure", "Lemma"
+  title?: string
+}
+
+// Paragraphs being assembled: finished blocks, and the paragraph still open
+interface Output {
+  blocks: string[]
+  inline: string
+  start: Location | null
+  span: Location | null // location of the open line span
+}
+
+interface Context {
+  files: FileEntry[]
+  options: ReaderOptions
+  includes: Map<string, IncludeReference>
+  macros: Map<string, MacroDefinition>
+  citations: Map<string, CitationEntry>
+  citeStyle: 'numeric' | 'author-year'
+  citeOrder: string[] // keys in the order of the compiled bibliography, when there is one
+  cited: Map<string, { id: string; number: number }>
+  citeAll: boolean
+  resolveGraphic: (from: FileEntry, path: string) => FileEntry | null
+  theorems: Map<string, TheoremStyle>
+  counters: Map<string, number>
+  counterParents: Map<string, number> // counters reset by a sectioning level
+  sections: number[]
+  topLevel: number // 1 when the document has chapters, 2 otherwise
+  appendix: boolean
+  labels: Map<string, Anchor>
+  anchor: Anchor | null
+  float: { counter: string; id: string; number?: string; subfloats: number } | null
+  subfloat: string | null // letter of the subfigure being rendered
+  enumDepth: number
+  footnotes: { id: string; number: number; html: string; location: Location }[]
+  frontMatter: { command: string; source: Source; from: number; to: number }[]
+  regions: Map<FileEntry, Map<number, MathRegion>>
+  active: Set<string> // files being included, against include cycles
+  depth: number // macro expansion depth
+  nextId: number
+  hasBibliography: boolean
+}
+
+const SECTION_LEVELS: Record<string, number> = {
+  part: 0, chapter: 1, section: 2, subsection: 3, subsubsection: 4, paragraph: 5, subparagraph: 6
+}
+
+const CITE_COMMAND = /^(?:[a-zA-Z]*cite[a-zA-Z]*|Cite[a-zA-Z]*)$/
+const REF_COMMAND = /^(?:ref|eqref|autoref|Autoref|pageref|nameref|vref|cref|Cref|labelcref|cpageref|subref)$/
+
+// Argument specifications of commands whose arguments are not content: o = optional,
+// m = mandatory, N = command name, P = \def parameter text, L = \let target
+const IGNORED_COMMANDS: Record<string, string> = {
+  documentclass: 'om', usepackage: 'om', RequirePackage: 'om', bibliographystyle: 'm', pagestyle: 'm',
+  thispagestyle: 'm', pagenumbering: 'm', setlength: 'mm', addtolength: 'mm', settowidth: 'mm',
+  setcounter: 'mm', addtocounter: 'mm', stepcounter: 'm', refstepcounter: 'm', newcounter: 'mo',
+  newlength: 'm', vspace: 'm', hspace: 'm', addvspace: 'm', enlargethispage: 'm', graphicspath: 'm',
+  theoremstyle: 'm', numberwithin: 'omm', hypersetup: 'm', definecolor: 'omm', colorlet: 'mm',
+  captionsetup: 'om', color: 'om', fontsize: 'mm', linespread: 'm', setcitestyle: 'm', urlstyle: 'm',
+  includeonly: 'm', index: 'm', glossary: 'm', addcontentsline: 'mmm', addtocontents: 'mm',
+  markboth: 'mm', markright: 'm', DeclareGraphicsExtensions: 'm', crefname: 'mmm', Crefname: 'mmm',
+  crefformat: 'mm', Crefformat: 'mm', newacronym: 'ommm', setmainfont: 'om', setsansfont: 'om',
+  newcommand: 'Noom', renewcommand: 'Noom', providecommand: 'Noom', DeclareRobustCommand: 'Noom',
+  NewDocumentCommand: 'Nmm', RenewDocumentCommand: 'Nmm', ProvideDocumentCommand: 'Nmm',
+  DeclareDocumentCommand: 'Nmm', DeclareMathOperator: 'Nm', newenvironment: 'moomm',
+  renewenvironment: 'moomm', NewDocumentEnvironment: 'mmmm', RenewDocumentEnvironment: 'mmmm',
+  def: 'NPm', gdef: 'NPm', edef: 'NPm', xdef: 'NPm', let: 'L', newif: 'N', newtheorem: 'momo',
+  declaretheorem: 'om', newcolumntype: 'mom', spnewtheorem: 'momm', DeclareMathAlphabet: 'mmmmm',
+  SetMathAlphabet: 'mmmmmm', DeclareFontFamily: 'mmm', DeclareFontShape: 'mmmmmm', bibpunct: 'ommmmmm',
+  AtBeginDocument: 'm', AtEndDocument: 'm', hyphenation: 'm', pdfinfo: 'm', bibliography: 'm',
+  addbibresource: 'om', label: 'm', nocite: 'm', and: '', affiliation: 'om', icmlaffiliation: 'mm',
+  icmlsetsymbol: 'mm', icmlcorrespondingauthor: 'mm', icmlkeywords: 'm'
+}
+
+// Commands that box or position their last argument: the arguments before it
+const WRAPPER_COMMANDS: Record<string, string> = {
+  mbox: '', hbox: '', text: '', textnormal: '', textrm: '', textup: '', textmd: '', fbox: '',
+  centerline: '', makebox: 'oo', framebox: 'oo', parbox: 'ooom', raisebox: 'moo', resizebox: 'mm',
+  scalebox: 'mo', rotatebox: 'om', adjustbox: 'm', colorbox: 'om', fcolorbox: 'omm', hyperlink: 'm',
+  hypertarget: 'm', smash: 'o', NoHyper: '', protect: '', ensuremath: ''
+}
+
+const TEXT_STYLES: Record<string, [string, string]> = {
+  textbf: ['<strong>', '</strong>'],
+  textit: ['<em>', '</em>'],
+  emph: ['<em>', '</em>'],
+  textsl: ['<em>', '</em>'],
+  texttt: ['<code>', '</code>'],
+  underline: ['<u>', '</u>'],
+  uline: ['<u>', '</u>'],
+  textsc: ['<span class="reader-sc">', '</span>'],
+  textsf: ['<span class="reader-sf">', '</span>'],
+  textsuperscript: ['<sup>', '</sup>'],
+  textsubscript: ['<sub>', '</sub>'],
+  sout: ['<s>', '</s>']
+}
+
+// Declarations that change the font until the end of the group
+const STYLE_SWITCHES: Record<string, [string, string]> = {
+  bf: TEXT_STYLES.textbf, bfseries: TEXT_STYLES.textbf,
+  it: TEXT_STYLES.textit, itshape: TEXT_STYLES.textit, em: TEXT_STYLES.emph, sl: TEXT_STYLES.textit, slshape: TEXT_STYLES.textit,
+  tt: TEXT_STYLES.texttt, ttfamily: TEXT_STYLES.texttt,
+  sc: TEXT_STYLES.textsc, scshape: TEXT_STYLES.textsc,
+  sf: TEXT_STYLES.textsf, sffamily: TEXT_STYLES.textsf
+}
+
+const TEXT_SYMBOLS: Record<string, string> = {
+  ldots: '…', dots: '…', textellipsis: '…', LaTeX: 'LaTeX', TeX: 'TeX', LaTeXe: 'LaTeX2ε', BibTeX: 'BibTeX',
+  textbackslash: '\\', textasciitilde: '~', textasciicircum: '^', textendash: '–', textemdash: '—',
+  textbullet: '•', textquoteleft: '‘', textquoteright: '’', textquotedblleft: '“', textquotedblright: '”',
+  S: '§', P: '¶', dag: '†', ddag: '‡', textdagger: '†', textdaggerdbl: '‡', copyright: '©',
+  textcopyright: '©', textregistered: '®', texttrademark: '™', textdegree: '°', pounds: '£',
+  textsterling: '£', euro: '€', texteuro: '€', textless: '<', textgreater: '>', textbar: '|',
+  textunderscore: '_', quad: ' ', qquad: '  ', enspace: ' ', thinspace: ' ',
+  nobreakspace: ' ', slash: '/', textperiodcentered: '·', checkmark: '✓', cmark: '✓', xmark: '✗',
+  textasteriskcentered: '*', textsection: '§', textparagraph: '¶', textmu: 'µ', textpm: '±', texttimes: '×'
+}
+
+const ACCENT_COMMANDS = new Set(['u', 'v', 'H', 'c', 'd', 'k', 'r', 't', 'b'])
+const SYMBOL_LETTERS = new Set(['ss', 'o', 'O', 'ae', 'AE', 'oe', 'OE', 'aa', 'AA', 'l', 'L', 'i', 'j'])
+
+const LIST_ENVIRONMENTS = new Set(['itemize', 'enumerate', 'description', 'compactitem', 'compactenum', 'compactdesc', 'inparaenum', 'asparaenum', 'asparaitem'])
+const FLOAT_ENVIRONMENTS: Record<string, string> = {
+  figure: 'figure', 'figure*': 'figure', wrapfigure: 'figure', SCfigure: 'figure', sidewaysfigure: 'figure',
+  table: 'table', 'table*': 'table', wraptable: 'table', sidewaystable: 'table',
+  algorithm: 'algorithm', 'algorithm*': 'algorithm', listing: 'listing'
+}
+const TABULAR_ENVIRONMENTS = new Set(['tabular', 'tabular*', 'tabularx', 'tabulary', 'longtable', 'tabu', 'supertabular', 'xtabular'])
+const VERBATIM_ENVIRONMENTS = new Set(['verbatim', 'verbatim*', 'Verbatim', 'BVerbatim', 'lstlisting', 'minted', 'alltt', 'algorithmic', 'algorithmic*', 'algorithmicx'])
+const PICTURE_ENVIRONMENTS = new Set(['tikzpicture', 'pgfpicture', 'picture', 'forest', 'circuitikz'])
+
+// Arguments after \begin{...} that are not content
+const ENVIRONMENT_ARGS: Record<string, string> = {
+  wrapfigure: 'omom', wraptable: 'omom', minipage: 'oooom', subfigure: 'om', subtable: 'om',
+  tabular: 'om', 'tabular*': 'mom', tabularx: 'mom', tabulary: 'mom', longtable: 'om', tabu: 'm', supertabular: 'm', xtabular: 'om',
+  multicols: 'm', 'multicols*': 'm', minted: 'om', thebibliography: 'm', adjustbox: 'm', tcolorbox: 'o'
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, '').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&').trim()
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+function toLetter(n: number): string {
+  let result = ''
+  for (; n > 0; n = Math.floor((n - 1) / 26)) {
+    result = String.fromCharCode(65 + (n - 1) % 26) + result
+  }
+  return result
+}
+
+function toRoman(n: number): string {
+  const numerals: [number, string][] = [[1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'], [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']]
+  let result = ''
+  for (const [value, numeral] of numerals) {
+    for (; n >= value; n -= value) result += numeral
+  }
+  return result
+}
+
+// --- Scanning ---
+
+function getCode(src: Source): string {
+  if (src.code === undefined) src.code = stripComments(src.text)
+  return src.code
+}
+
+function locate(src: Source, index: number): Location {
+  return { file: src.file.name, line: src.line ?? getPosition(src.file, index).line }
+}
+
+function locationAttributes(location: Location): string {
+  return `data-file="${escapeHtml(location.file)}" data-line="${location.line}"`
+}
+
+// Skip whitespace, without crossing a paragraph break unless `paragraphs` is set
+function skipSpaces(code: string, index: number, paragraphs = false): number {
+  while (index < code.length && /\s/.test(code[index])) {
+    if (!paragraphs && code[index] === '\n' && /^\n[ \t]*\n/.test(code.slice(index, index + 40))) break
+    index++
+  }
+  return index
+}
+
+function skipLineSpaces(text: string, index: number): number {
+  while (text[index] === ' ' || text[index] === '\t') index++
+  return index
+}
+
+// Offset of the brace closing the group that opens at `index`
+function findGroupEnd(code: string, index: number): number {
+  const group = readGroup(code, index)
+  return group ? group.end - 1 : -1
+}
+
+interface Argument {
+  from: number // start of the argument's content
+  to: number // end of the argument's content
+  next: number // offset after the argument
+}
+
+function toArgument(group: { text: string; end: number } | null): Argument | null {
+  return group && { from: group.end - 1 - group.text.length, to: group.end - 1, next: group.end }
+}
+
+function readGroupArgument(code: string, index: number): Argument | null {
+  return toArgument(readGroup(code, skipSpaces(code, index)))
+}
+
+function readOptionalArgument(code: string, index: number): Argument | null {
+  return toArgument(readOptional(code, skipSpaces(code, index)))
+}
+
+// A mandatory argument: a group, or a single command or character
+function readArgument(code: string, index: number): Argument | null {
+  const group = readGroupArgument(code, index)
+  if (group) return group
+  const start = skipSpaces(code, index)
+  const token = /^\\(?:[a-zA-Z@]+|.)|^[^\s{}%]/.exec(code.slice(start, start + 100))
+  return token ? { from: start, to: start + token[0].length, next: start + token[0].length } : null
+}
+
+// Skip arguments following an argument specification (see IGNORED_COMMANDS)
+function skipArguments(code: string, index: number, spec: string): number {
+  for (const type of spec) {
+    if (type === 'o') {
+      index = readOptionalArgument(code, index)?.next ?? index
+    } else if (type === 'm') {
+      index = readArgument(code, index)?.next ?? index
+    } else if (type === 'N') {
+      const group = readGroupArgument(code, index)
+      const start = skipSpaces(code, index)
+      const name = /^\\(?:[a-zA-Z@]+|.)/.exec(code.slice(start, start + 100))
+      index = group ? group.next : name ? start + name[0].length : index
+    } else if (type === 'P') {
+      const brace = code.indexOf('{', index)
+      index = brace === -1 ? index : brace
+    } else if (type === 'L') {
+      index = skipArguments(code, index, 'N')
+      const start = skipSpaces(code, index)
+      index = skipArguments(code, code[start] === '=' ? start + 1 : start, 'N')
+    }
+  }
+  return index
+}
+
+// Split code[from, to) at a separator that is not nested in a group or environment
+function splitTopLevel(code: string, from: number, to: number, separator: string): { from: number; to: number }[] {
+  const segments: { from: number; to: number }[] = []
+  const isCommand = /^\\[a-zA-Z]+$/.test(separator)
+  let depth = 0
+  let start = from
+  for (let i = from; i < to; i++) {
+    const ch = code[i]
+    if (depth === 0 && code.startsWith(separator, i) && !(isCommand && /[a-zA-Z@]/.test(code[i + separator.length] || ''))) {
+      segments.push({ from: start, to: i })
+      start = i + separator.length
+      i = start - 1
+      continue
+    }
+    if (ch === '\\') {
+      const env = /^\\(begin|end)\s*\{[^}]*\}/.exec(code.slice(i, i + 60))
+      if (env) {
+        depth += env[1] === 'begin' ? 1 : -1
+        i += env[0].length - 1
+      } else {
+        i++
+      }
+    } else if (ch === '{') {
+      depth++
+    } else if (ch === '}') {
+      depth--
+    }
+  }
+  segments.push({ from: start, to })
+  return segments
+}
+
+// Find the \end matching the environment whose body starts at `from`
+function findEnvironmentEnd(code: string, from: number, name: string): { bodyEnd: number; next: number } | null {
+  const regex = /\\(begin|end)\s*\{([^}]+)\}/g
+  regex.lastIndex = from
+  let depth = 0
+  let match
+  while ((match = regex.exec(code)) !== null) {
+    if (match[2].trim() !== name) continue
+    if (match[1] === 'begin') {
+      depth++
+    } else if (depth === 0) {
+      return { bodyEnd: match.index, next: match.index + match[0].length }
+    } else {
+      depth--
+    }
+  }
+  return null
+}
+
+function getMathRegions(ctx: Context, src: Source): Map<number, MathRegion> {
+  if (!src.regions) {
+    const cached = src.line === undefined ? ctx.regions.get(src.file) : undefined
+    src.regions = cached || new Map(findMathRegions(src.text).map(region => [region.start, region]))
+    if (src.line === undefined) ctx.regions.set(src.file, src.regions)
+  }
+  return src.regions
+}
+
+// --- Output ---
+
+function createOutput(): Output {
+  return { blocks: [], inline: '', start: null, span: null }
+}
+
+function closeSpan(out: Output) {
+  if (out.span) {
+    out.inline += '</span>'
+    out.span = null
+  }
+}
+
+// Inline content is wrapped in one span per source line, so clicks resolve to the exact line
+function addInline(out: Output, html: string, location: Location) {
+  if (!html.trim()) {
+    out.inline += html
+    return
+  }
+  if (!out.start) out.start = location
+  if (!out.span || out.span.file !== location.file || out.span.line !== location.line) {
+    closeSpan(out)
+    out.inline += `<span ${locationAttributes(location)}>`
+    out.span = location
+  }
+  out.inline += html
+}
+
+function endParagraph(out: Output) {
+  closeSpan(out)
+  if (out.inline.trim() && out.start) {
+    out.blocks.push(`<p ${locationAttributes(out.start)}>${out.inline.trim()}</p>`)
+  }
+  out.inline = ''
+  out.start = null
+}
+
+function addBlock(out: Output, html: string) {
+  endParagraph(out)
+  out.blocks.push(html)
+}
+
+function finishBlocks(out: Output): string {
+  endParagraph(out)
+  return out.blocks.join('\n')
+}
+
+function finishInline(out: Output): string {
+  closeSpan(out)
+  return [...out.blocks, out.inline.trim()].join(' ')
+}
+
+// Content of a group that turned out to hold whole paragraphs keeps them as blocks
+function mergeOutput(out: Output, inner: Output, location: Location, wrap: [string, string] = ['', '']) {
+  closeSpan(inner)
+  if (inner.blocks.length > 0) {
+    for (const block of inner.blocks) addBlock(out, block)
+    out.start = inner.start
+  }
+  if (inner.inline.trim()) addInline(out, `${wrap[0]}${inner.inline}${wrap[1]}`, inner.start || location)
+}
+
+function nextId(ctx: Context): string {
+  return `reader-${ctx.nextId++}`
+}
+
+// --- Counters ---
+
+function getSectionNumber(ctx: Context, level: number): string {
+  const parts: string[] = []
+  for (let l = ctx.topLevel; l <= level; l++) {
+    const n = ctx.sections[l] || 0
+    parts.push(l === ctx.topLevel && ctx.appendix ? toLetter(n) : String(n))
+  }
+  return parts.join('.')
+}
+
+function stepCounter(ctx: Context, counter: string): string {
+  const n = (ctx.counters.get(counter) || 0) + 1
+  ctx.counters.set(counter, n)
+  const parent = ctx.counterParents.get(counter)
+  return parent !== undefined && ctx.sections[parent] ? `${getSectionNumber(ctx, parent)}.${n}` : String(n)
+}
+
+function registerLabels(ctx: Context, code: string, anchor: Anchor | null) {
+  for (const match of code.matchAll(/\\label\s*\{([^}]+)\}/g)) {
+    if (anchor) ctx.labels.set(match[1].trim(), anchor)
+  }
+}
+
+// --- Parsing ---
+
+function renderInline(ctx: Context, src: Source, from: number, to: number): string {
+  const out = createOutput()
+  parse(ctx, src, from, to, out, true)
+  return finishInline(out)
+}
+
+function renderBlocks(ctx: Context, src: Source, from: number, to: number): string {
+  const out = createOutput()
+  parse(ctx, src, from, to, out)
+  return finishBlocks(out)
+}
+
+function parse(ctx: Context, src: Source, start: number, end: number, out: Output, inGroup = false) {
+  const text = src.text
+  let buffer = ''
+  let bufferStart = start
+
+  const flushText = () => {
+    if (buffer) addInline(out, escapeHtml(buffer), locate(src, bufferStart))
+    buffer = ''
+  }
+  const emit = (html: string, index: number) => {
+    flushText()
+    addInline(out, html, locate(src, index))
+  }
+
+  let i = start
+  while (i < end) {
+    const ch = text[i]
+    if (!buffer) bufferStart = i
+
+    if (ch === '%') {
+      flushText()
+      i = handleComment(ctx, src, i, end, out)
+      continue
+    }
+    if (ch === '\n') {
+      flushText()
+      const next = skipLineSpaces(text, i + 1)
+      if (text[next] === '\n' || next >= end) {
+        endParagraph(out)
+        i = skipSpaces(text, i, true)
+      } else {
+        buffer = ' '
+        bufferStart = next
+        i = next
+      }
+      continue
+    }
+    if (ch === '{') {
+      const close = findGroupEnd(text, i)
+      const groupEnd = close === -1 || close > end ? end : close
+      flushText()
+      const inner = createOutput()
+      parse(ctx, src, i + 1, groupEnd, inner, true)
+      mergeOutput(out, inner, locate(src, i))
+      i = groupEnd + 1
+      continue
+    }
+    if (ch === '}' || ch === '&') {
+      i++
+      continue
+    }
+    if (ch === '$') {
+      const region = getMathRegions(ctx, src).get(i)
+      if (region) {
+        flushText()
+        renderMathRegion(ctx, src, region, out)
+        i = region.end
+        continue
+      }
+    }
+    if (ch === '~') {
+      buffer += ' '
+      i++
+      continue
+    }
+    if (ch === '`' || ch === '\'') {
+      const double = text[i + 1] === ch
+      buffer += ch === '`' ? (double ? '“' : '‘') : (double ? '”' : '’')
+      i += double ? 2 : 1
+      continue
+    }
+    if (ch === '-' && text[i + 1] === '-') {
+      const triple = text[i + 2] === '-'
+      buffer += triple ? '—' : '–'
+      i += triple ? 3 : 2
+      continue
+    }
+    if (ch === '\\') {
+      flushText()
+      const result = handleCommand(ctx, src, i, end, out, inGroup)
+      if (result.html) emit(result.html, i)
+      i = Math.max(result.next, i + 1)
+      continue
+    }
+    buffer += /\s/.test(ch) ? ' ' : ch
+    i++
+  }
+  flushText()
+}
+
+function handleComment(ctx: Context, src: Source, index: number, end: number, out: Output): number {
+  const text = src.text
+  const lineStart = text.lastIndexOf('\n', index - 1) + 1
+  const fullLine = !text.slice(lineStart, index).trim()
+  let eol = text.indexOf('\n', index)
+  if (eol === -1 || eol > end) eol = end
+
+  if (!fullLine) {
+    if (ctx.options.showComments) {
+      addInline(out, `<span class="reader-comment">${escapeHtml(text.slice(index, eol))}</span>`, locate(src, index))
+    }
+  } else {
+    // Consecutive comment lines form one block
+    const lines = [text.slice(index, eol)]
+    while (eol < end) {
+      const next = skipSpaces(text, eol + 1)
+      if (text[next] !== '%' || text.slice(eol + 1, next).includes('\n')) break
+      let nextEol = text.indexOf('\n', next)
+      if (nextEol === -1 || nextEol > end) nextEol = end
+      lines.push(text.slice(next, nextEol))
+      eol = nextEol
+    }
+    if (ctx.options.showComments) {
+      addBlock(out, `<div class="reader-comment" ${locationAttributes(locate(src, index))}>${escapeHtml(lines.join('\n'))}</div>`)
+    }
+  }
+
+  // TeX drops the end of the line, and an empty line right after a comment still ends the paragraph
+  if (eol >= end) return end
+  const next = skipLineSpaces(text, eol + 1)
+  if (text[next] === '\n') {
+    endParagraph(out)
+    return skipSpaces(text, next, true)
+  }
+  return next
+}
+
+interface CommandResult {
+  next: number
+  html?: string
+}
+
+function handleCommand(ctx: Context, src: Source, index: number, end: number, out: Output, inGroup: boolean): CommandResult {
+  const text = src.text
+  const code = getCode(src)
+  const nameMatch = /^\\([a-zA-Z@]+|.)/.exec(text.slice(index, index + 100))
+  if (!nameMatch) return { next: index + 1 }
+  const name = nameMatch[1]
+  let next = index + nameMatch[0].length
+  const star = text[next] === '*' && /[a-zA-Z]/.test(name)
+  if (star) next++
+  const location = locate(src, index)
+
+  // Control symbols
+  if (!/[a-zA-Z]/.test(name)) {
+    if (name === '\\') {
+      next = readOptionalArgument(code, text[next] === '*' ? next + 1 : next)?.next ?? (text[next] === '*' ? next + 1 : next)
+      return { next, html: '<br>' }
+    }
+    if (name === '(' || name === '[') {
+      const region = getMathRegions(ctx, src).get(index)
+      if (region) {
+        renderMathRegion(ctx, src, region, out)
+        return { next: region.end }
+      }
+      return { next }
+    }
+    if ('%&$#_{}'.includes(name)) return { next, html: escapeHtml(name) }
+    if (name === ',') return { next, html: ' ' }
+    if (name === ' ' || name === '\n') return { next, html: ' ' }
+    if ('`\'^"~=.'.includes(name)) {
+      const arg = readArgument(text, next)
+      if (!arg) return { next }
+      return { next: arg.next, html: escapeHtml(latexToText(`\\${name}{${text.slice(arg.from, arg.to)}}`)) }
+    }
+    return { next }
+  }
+
+  if (name === 'begin') {
+    return handleEnvironment(ctx, src, index, end, out)
+  }
+  if (name === 'end') {
+    // A stray \end, e.g. of an environment opened in another file
+    return { next: readGroupArgument(code, next)?.next ?? next }
+  }
+
+  if (name in SECTION_LEVELS) {
+    renderSection(ctx, src, name, star, next, out, location)
+    return { next: skipArguments(code, next, 'om') }
+  }
+  if (name === 'appendix') {
+    ctx.appendix = true
+    ctx.sections[ctx.topLevel] = 0
+    return { next }
+  }
+  if (name === 'maketitle') {
+    renderTitle(ctx, out)
+    return { next }
+  }
+  if (name === 'title' || name === 'author' || name === 'date') {
+    const optional = readOptionalArgument(code, next)
+    const arg = readGroupArgument(code, optional?.next ?? next)
+    if (!arg) return { next }
+    ctx.frontMatter.push({ command: name, source: src, from: arg.from, to: arg.to })
+    return { next: arg.next }
+  }
+  if (name === 'par') {
+    endParagraph(out)
+    return { next }
+  }
+  if (name === 'iffalse') {
+    return handleIffalse(ctx, src, index, next, out)
+  }
+  if (name === 'verb') {
+    const delimiter = text[next]
+    const close = text.indexOf(delimiter, next + 1)
+    if (!delimiter || close === -1) return { next }
+    return { next: close + 1, html: `<code>${escapeHtml(text.slice(next + 1, close))}</code>` }
+  }
+  if (name === 'url' || name === 'nolinkurl') {
+    const arg = readGroupArgument(text, next)
+    if (!arg) return { next }
+    const url = text.slice(arg.from, arg.to).trim()
+    return { next: arg.next, html: renderLink(url, `<code>${escapeHtml(url)}</code>`) }
+  }
+  if (name === 'href') {
+    const urlArg = readGroupArgument(text, next)
+    const content = urlArg && readArgument(code, urlArg.next)
+    if (!urlArg || !content) return { next }
+    const url = text.slice(urlArg.from, urlArg.to).trim()
+    return { next: content.next, html: renderLink(url, renderInline(ctx, src, content.from, content.to)) }
+  }
+  if (name === 'label') {
+    const arg = readGroupArgument(code, next)
+    if (!arg) return { next }
+    const key = text.slice(arg.from, arg.to).trim()
+    if (ctx.anchor) {
+      ctx.labels.set(key, ctx.anchor)
+      return { next: arg.next }
+    }
+    const id = nextId(ctx)
+    ctx.labels.set(key, { id, number: '', kind: '' })
+    return { next: arg.next, html: `<span id="${id}"></span>` }
+  }
+  if (REF_COMMAND.test(name)) {
+    const arg = readGroupArgument(code, next)
+    if (!arg) return { next }
+    const keys = text.slice(arg.from, arg.to).split(',').map(key => key.trim()).filter(Boolean)
+    return { next: arg.next, html: keys.map(key => `\u0000ref:${name}:${key}\u0000`).join(', ') }
+  }
+  if (name === 'hyperref') {
+    const target = readOptionalArgument(code, next)
+    const content = readArgument(code, target?.next ?? next)
+    if (!content) return { next }
+    const inner = renderInline(ctx, src, content.from, content.to)
+    if (!target) return { next: content.next, html: inner }
+    return { next: content.next, html: `\u0000link:${text.slice(target.from, target.to).trim()}\u0000${inner}\u0000/link\u0000` }
+  }
+  if (name === 'nocite') {
+    const arg = readGroupArgument(code, next)
+    if (!arg) return { next }
+    for (const key of text.slice(arg.from, arg.to).split(',').map(key => key.trim())) {
+      if (key === '*') ctx.citeAll = true
+      else if (key) getCitation(ctx, key)
+    }
+    return { next: arg.next }
+  }
+  if (CITE_COMMAND.test(name)) {
+    return renderCitation(ctx, src, name, next)
+  }
+  if (name === 'footnote' || name === 'thanks' || name === 'footnotetext') {
+    const optional = readOptionalArgument(code, next)
+    const arg = readGroupArgument(code, optional?.next ?? next)
+    if (!arg) return { next }
+    return { next: arg.next, html: renderFootnote(ctx, src, arg, location, name !== 'footnotetext') }
+  }
+  if (name === 'caption' || name === 'captionof' || name === 'subcaption') {
+    return renderCaption(ctx, src, name, next, out, location)
+  }
+  if (name === 'subfloat') {
+    // \subfloat[list entry][caption]{content}
+    const first = readOptionalArgument(code, next)
+    const caption = (first && readOptionalArgument(code, first.next)) || first
+    const content = readGroupArgument(code, caption?.next ?? next)
+    if (!content) return { next }
+    renderSubfloat(ctx, src, content.from, content.to, out, location, caption)
+    return { next: content.next }
+  }
+  if (name === 'includegraphics') {
+    const options = readOptionalArgument(code, next)
+    const arg = readGroupArgument(text, options?.next ?? next)
+    if (!arg) return { next }
+    return { next: arg.next, html: renderGraphic(ctx, src, text.slice(arg.from, arg.to).trim(), options ? text.slice(options.from, options.to) : '', location) }
+  }
+  if (/^(?:input|include|subfile|import|subimport|inputfrom|subinputfrom|includefrom|subincludefrom|InputIfFileExists)$/.test(name)) {
+    return handleInclude(ctx, src, name, index, next, out)
+  }
+  if (name === 'bibliography' || name === 'printbibliography') {
+    addBibliography(ctx, out)
+    return { next: name === 'bibliography' ? skipArguments(code, next, 'm') : skipArguments(code, next, 'o') }
+  }
+  if (name === 'item') {
+    // \item outside a list
+    return { next: readOptionalArgument(code, next)?.next ?? next }
+  }
+  if (name === 'textcolor') {
+    const color = readGroupArgument(code, readOptionalArgument(code, next)?.next ?? next)
+    const content = color && readArgument(code, color.next)
+    if (!color || !content) return { next }
+    const value = text.slice(color.from, color.to).trim()
+    const inner = renderInline(ctx, src, content.from, content.to)
+    return { next: content.next, html: /^[a-zA-Z]+$/.test(value) ? `<span style="color: ${value}">${inner}</span>` : inner }
+  }
+
+  if (name in TEXT_STYLES) {
+    const arg = readArgument(code, next)
+    if (!arg) return { next }
+    const inner = createOutput()
+    parse(ctx, src, arg.from, arg.to, inner, true)
+    mergeOutput(out, inner, location, TEXT_STYLES[name])
+    return { next: arg.next }
+  }
+  if (name in STYLE_SWITCHES) {
+    // The declaration lasts until the end of the enclosing group
+    if (!inGroup) return { next }
+    const inner = createOutput()
+    parse(ctx, src, next, end, inner, true)
+    mergeOutput(out, inner, location, STYLE_SWITCHES[name])
+    return { next: end }
+  }
+  if (name in TEXT_SYMBOLS) {
+    return { next, html: escapeHtml(TEXT_SYMBOLS[name]) }
+  }
+  if (name === 'today') {
+    return { next, html: new Date().toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' }) }
+  }
+  if (name === 'newline' || name === 'linebreak') {
+    return { next: skipArguments(code, next, 'o'), html: '<br>' }
+  }
+  if (ACCENT_COMMANDS.has(name)) {
+    const arg = readGroupArgument(text, next)
+    if (!arg) return { next }
+    return { next: arg.next, html: escapeHtml(latexToText(`\\${name}{${text.slice(arg.from, arg.to)}}`)) }
+  }
+  if (SYMBOL_LETTERS.has(name)) {
+    return { next, html: escapeHtml(latexToText(`\\${name}`)) }
+  }
+  if (name in IGNORED_COMMANDS) {
+    return { next: skipArguments(code, next, IGNORED_COMMANDS[name]) }
+  }
+  if (name in WRAPPER_COMMANDS) {
+    const arg = readArgument(code, skipArguments(code, next, WRAPPER_COMMANDS[name]))
+    if (!arg) return { next }
+    const inner = createOutput()
+    parse(ctx, src, arg.from, arg.to, inner, true)
+    mergeOutput(out, inner, location)
+    return { next: arg.next }
+  }
+
+  const macro = ctx.macros.get(`\\${name}`)
+  if (macro && macro.kind === 'command' && !macro.command.startsWith('DeclareMathOperator') && ctx.depth < 16) {
+    return expandMacro(ctx, src, macro, next, out, location, inGroup)
+  }
+
+  // Unknown command: drop it and an optional argument written right after it, keep the rest
+  return { next: text[next] === '[' ? readOptionalArgument(code, next)?.next ?? next : next }
+}
+
+function renderLink(url: string, html: string): string {
+  if (!/^(?:https?:|mailto:|ftp:)/i.test(url)) return html
+  return `<a href="${escapeHtml(url)}" target="_blank" rel="noopener noreferrer">${html}</a>`
+}
+
+function expandMacro(ctx: Context, src: Source, macro: MacroDefinition, next: number, out: Output, location: Location, inGroup: boolean): CommandResult {
+  const code = getCode(src)
+  const args: string[] = []
+  let index = next
+  for (let n = 0; n < macro.args; n++) {
+    if (n === 0 && macro.optionalDefault !== undefined) {
+      const optional = readOptionalArgument(code, index)
+      args.push(optional ? src.text.slice(optional.from, optional.to) : macro.optionalDefault)
+      index = optional?.next ?? index
+      continue
+    }
+    const arg = readArgument(code, index)
+    if (!arg) break
+    args.push(src.text.slice(arg.from, arg.to))
+    index = arg.next
+  }
+
+  const expansion = macro.body.replace(/##|#([1-9])/g, (match, n?: string) => n ? args[Number(n) - 1] ?? '' : '#')
+  const expanded: Source = { text: expansion, file: src.file, line: location.line }
+  ctx.depth++
+  parse(ctx, expanded, 0, expansion.length, out, inGroup)
+  ctx.depth--
+  return { next: index }
+}
+
+function handleIffalse(ctx: Context, src: Source, index: number, next: number, out: Output): CommandResult {
+  const code = getCode(src)
+  const regex = /\\(if[a-zA-Z@]*|fi)(?![a-zA-Z@])/g
+  regex.lastIndex = next
+  let depth = 0
+  let match
+  while ((match = regex.exec(code)) !== null) {
+    if (match[1] !== 'fi') {
+      depth++
+    } else if (depth === 0) {
+      if (ctx.options.showComments) {
+        addBlock(out, `<div class="reader-comment" ${locationAttributes(locate(src, index))}>${escapeHtml(src.text.slice(index, regex.lastIndex))}</div>`)
+      }
+      return { next: regex.lastIndex }
+    } else {
+      depth--
+    }
+  }
+  return { next }
+}
+
+function renderMathRegion(ctx: Context, src: Source, region: MathRegion, out: Output) {
+  const location = locate(src, region.start)
+  const id = nextId(ctx)
+  let tex = region.tex
+  const env = /^\\begin\s*\{([^}]+)\}/.exec(tex)?.[1].trim()
+  if (env && !env.endsWith('*')) {
+    tex = numberEquations(ctx, tex, env, id)
+  } else if (region.display) {
+    registerLabels(ctx, tex, ctx.anchor)
+  }
+
+  const rendered = renderMath(ctx.files, tex, region.display)
+  const html = 'svg' in rendered
+    ? rendered.svg
+    : `<span class="reader-math-error" title="${escapeHtml(rendered.error)}">${escapeHtml(region.tex)}</span>`
+  if (region.display) {
+    addBlock(out, `<div class="reader-display-math" id="${id}" ${locationAttributes(location)}>${html}</div>`)
+  } else {
+    addInline(out, `<span class="reader-math">${html}</span>`, location)
+  }
+}
+
+// Number an equation environment with \tag, one number per row of the multi-line ones,
+// and point the labels in it at the numbers
+function numberEquations(ctx: Context, tex: string, env: string, id: string): string {
+  const begin = /^\\begin\s*\{[^}]+\}(?:\s*\{[^}]*\})?/.exec(tex)
+  const endTag = tex.lastIndexOf('\\end')
+  if (!begin || endTag === -1) return tex
+
+  const numberRow = (row: string): string => {
+    if (!row.trim() || /\\(?:nonumber|notag)\b/.test(row)) {
+      registerLabels(ctx, row, ctx.anchor)
+      return row
+    }
+    const tag = /\\tag\*?\s*\{([^}]*)\}/.exec(row)
+    const number = tag ? tag[1] : stepCounter(ctx, 'equation')
+    registerLabels(ctx, row, { id, number: `(${number})`, kind: 'Equation' })
+    return tag ? row : `${row.replace(/\s+$/, '')} \\tag{${number}}`
+  }
+
+  const body = tex.slice(begin[0].length, endTag)
+  if (/^(?:equation|multline|dmath)$/.test(env)) {
+    return tex.slice(0, begin[0].length) + numberRow(body) + tex.slice(endTag)
+  }
+  const rows = splitTopLevel(body, 0, body.length, '\\\\').map(segment => body.slice(segment.from, segment.to))
+  return tex.slice(0, begin[0].length) + rows.map(numberRow).join('\\\\') + tex.slice(endTag)
+}
+
+function renderSection(ctx: Context, src: Source, command: string, star: boolean, next: number, out: Output, location: Location) {
+  const code = getCode(src)
+  const level = SECTION_LEVELS[command]
+  const title = readGroupArgument(code, readOptionalArgument(code, next)?.next ?? next)
+  if (!title) return
+
+  let number = ''
+  const numbered = !star && level <= ctx.topLevel + 2
+  if (!star) {
+    if (level === 0) {
+      ctx.sections[0]++
+    } else {
+      ctx.sections[level]++
+      for (let l = level + 1; l < ctx.sections.length; l++) ctx.sections[l] = 0
+      for (const [counter, parent] of ctx.counterParents) {
+        if (parent >= level) ctx.counters.set(counter, 0)
+      }
+    }
+    if (numbered) number = level === 0 ? toRoman(ctx.sections[0]).toUpperCase() : getSectionNumber(ctx, level)
+  }
+
+  const id = nextId(ctx)
+  const kind = level === 0 ? 'Part' : level === ctx.topLevel && ctx.appendix ? 'Appendix' : level === 1 ? 'Chapter' : 'Section'
+  ctx.anchor = { id, number, kind }
+  const html = renderInline(ctx, src, title.from, title.to)
+  ctx.anchor.title = stripTags(html)
+
+  if (level >= 5) {
+    // \paragraph headings run into the paragraph that follows
+    endParagraph(out)
+    addInline(out, `<strong class="reader-run-in" id="${id}">${html}</strong> `, location)
+    return
+  }
+  const heading = Math.min(6, Math.max(2, level - ctx.topLevel + 2))
+  const prefix = number ? `<span class="reader-section-number">${level === 0 ? `Part ${number}` : number}</span>` : ''
+  addBlock(out, `<h${heading} id="${id}" ${locationAttributes(location)}>${prefix}${html}</h${heading}>`)
+}
+
+function renderTitle(ctx: Context, out: Output) {
+  const parts = ctx.frontMatter
+  const title = parts.filter(part => part.command === 'title').pop()
+  const date = parts.filter(part => part.command === 'date').pop()
+  const authors = parts.filter(part => part.command === 'author')
+  if (!title && authors.length === 0) return
+
+  let html = ''
+  if (title) {
+    html += `<h1 ${locationAttributes(locate(title.source, title.from))}>${renderInline(ctx, title.source, title.from, title.to)}</h1>`
+  }
+  if (authors.length > 0) {
+    html += '<div class="reader-authors">'
+    for (const author of authors) {
+      const code = getCode(author.source)
+      for (const segment of splitTopLevel(code, author.from, author.to, '\\and')) {
+        const names = renderInline(ctx, author.source, segment.from, segment.to)
+        if (stripTags(names)) {
+          html += `<div class="reader-author" ${locationAttributes(locate(author.source, segment.from))}>${names}</div>`
+        }
+      }
+    }
+    html += '</div>'
+  }
+  if (date) {
+    const value = renderInline(ctx, date.source, date.from, date.to)
+    if (stripTags(value)) html += `<div class="reader-date">${value}</div>`
+  }
+  addBlock(out, `<header class="reader-title">${html}</header>`)
+}
+
+function renderFootnote(ctx: Context, src: Source, arg: Argument, location: Location, marked: boolean): string {
+  const id = nextId(ctx)
+  const number = ctx.footnotes.length + 1
+  const previous = ctx.anchor
+  ctx.anchor = { id, number: String(number), kind: 'Footnote' }
+  const html = renderInline(ctx, src, arg.from, arg.to)
+  ctx.anchor = previous
+  ctx.footnotes.push({ id, number, html, location })
+  return marked ? `<sup class="reader-footnote-ref"><a data-target="${id}">${number}</a></sup>` : ''
+}
+
+// --- Citations ---
+
+function getCitation(ctx: Context, key: string): { id: string; number: number } {
+  let cited = ctx.cited.get(key)
+  if (!cited) {
+    // Entries of the compiled bibliography keep its numbering, others follow in citation order
+    const order = ctx.citeOrder.indexOf(key)
+    const extra = [...ctx.cited.values()].filter(other => other.number > ctx.citeOrder.length).length
+    cited = { id: nextId(ctx), number: order === -1 ? ctx.citeOrder.length + extra + 1 : order + 1 }
+    ctx.cited.set(key, cited)
+  }
+  return cited
+}
+
+function getShortAuthors(entry: CitationEntry | undefined): string | null {
+  if (!entry?.author) return null
+  const names = entry.author.split(/\s+and\s+(?![^{]*\})/).map(name => {
+    const text = latexToText(name)
+    if (text === 'others') return ''
+    return text.includes(',') ? text.split(',')[0].trim() : text.split(' ').pop() || text
+  }).filter(Boolean)
+  if (names.length === 0) return null
+  if (names.length === 1) return names[0]
+  if (names.length === 2 && !/\bothers\b/.test(entry.author)) return `${names[0]} and ${names[1]}`
+  return `${names[0]} et al.`
+}
+
+function renderCitation(ctx: Context, src: Source, command: string, next: number): CommandResult {
+  const code = getCode(src)
+  const first = readOptionalArgument(code, next)
+  const second = first && readOptionalArgument(code, first.next)
+  const arg = readGroupArgument(code, second?.next ?? first?.next ?? next)
+  if (!arg) return { next }
+  const note = (optional: Argument | null) => optional ? stripTags(renderInline(ctx, src, optional.from, optional.to)) : ''
+  const pre = second ? note(first) : ''
+  const post = second ? note(second) : note(first)
+
+  const keys = src.text.slice(arg.from, arg.to).split(',').map(key => key.trim()).filter(Boolean)
+  const textual = /^(?:citet|Citet|citealt|textcite|Textcite|citeauthor|Citeauthor)\*?$/.test(command) ||
+    (command === 'cite' && ctx.citeStyle === 'author-year')
+  const parts = keys.map(key => {
+    const entry = ctx.citations.get(key)
+    if (!entry) return `<span class="reader-cite reader-ref-missing">${escapeHtml(key)}?</span>`
+    const { id, number } = getCitation(ctx, key)
+    const authors = escapeHtml(getShortAuthors(entry) || key)
+    const year = escapeHtml(entry.year || 'n.d.')
+    let label: string
+    if (/^[cC]iteauthor/.test(command)) label = authors
+    else if (/^citeyear/.test(command)) label = year
+    else if (ctx.citeStyle === 'numeric') label = textual ? `${authors} [${number}]` : String(number)
+    else label = textual ? `${authors} (${year})` : `${authors}, ${year}`
+    return `<a class="reader-cite" data-target="${id}">${label}</a>`
+  })
+
+  const join = ctx.citeStyle === 'numeric' && !textual ? ', ' : '; '
+  let html = parts.join(join)
+  if (pre) html = `${escapeHtml(pre)} ${html}`
+  if (post) html = `${html}, ${escapeHtml(post)}`
+  if (/^[cC]iteauthor|^citeyear|^citealt|^citealp|^citenum/.test(command)) return { next: arg.next, html }
+  if (ctx.citeStyle === 'numeric' && !textual) return { next: arg.next, html: `[${html}]` }
+  if (ctx.citeStyle === 'author-year' && !textual) return { next: arg.next, html: `(${html})` }
+  return { next: arg.next, html }
+}
+
+function addBibliography(ctx: Context, out: Output) {
+  if (ctx.hasBibliography) return
+  ctx.hasBibliography = true
+  addBlock(out, '\u0000bibliography\u0000')
+}
+
+function formatBibliographyEntry(entry: CitationEntry): string {
+  if (!entry.entryType && entry.fields.note && !entry.title) return escapeHtml(entry.fields.note)
+  const parts: string[] = []
+  if (entry.author) parts.push(escapeHtml(formatAuthorList(entry.author)))
+  if (entry.title) parts.push(`<span class="reader-bib-title">${escapeHtml(latexToText(entry.title))}</span>`)
+  if (entry.venue) parts.push(`<em>${escapeHtml(latexToText(entry.venue))}</em>`)
+  if (entry.year) parts.push(escapeHtml(entry.year))
+  let html = parts.join('. ') + '.'
+  const url = entry.fields.doi ? `https://doi.org/${entry.fields.doi}` : entry.fields.url
+  if (url) html += ` ${renderLink(url, escapeHtml(url))}`
+  return html
+}
+
+function renderBibliography(ctx: Context): string {
+  if (ctx.citeAll) {
+    for (const key of ctx.citations.keys()) getCitation(ctx, key)
+  }
+  const entries = [...ctx.cited.entries()]
+    .map(([key, cited]) => ({ key, ...cited, entry: ctx.citations.get(key)! }))
+    .filter(item => item.entry)
+  if (ctx.citeStyle === 'numeric') {
+    entries.sort((a, b) => a.number - b.number)
+  } else {
+    entries.sort((a, b) => (getShortAuthors(a.entry) || a.key).localeCompare(getShortAuthors(b.entry) || b.key))
+  }
+  if (entries.length === 0) return ''
+
+  const items = entries.map(({ id, number, entry }) => {
+    const marker = ctx.citeStyle === 'numeric' ? `<span class="reader-bib-number">[${number}]</span>` : ''
+    return `<li id="${id}" ${locationAttributes({ file: entry.file, line: entry.line })}>${marker}${formatBibliographyEntry(entry)}</li>`
+  })
+  return `<section class="reader-bibliography"><h2>References</h2><ol>${items.join('')}</ol></section>`
+}
+
+// --- Environments ---
+
+function getEnvironmentArgs(ctx: Context, name: string): string {
+  if (name in ENVIRONMENT_ARGS) return ENVIRONMENT_ARGS[name]
+  const macro = ctx.macros.get(name)
+  if (macro?.kind !== 'environment') return ''
+  const optional = macro.optionalDefault !== undefined
+  return (optional ? 'o' : '') + 'm'.repeat(Math.max(0, macro.args - (optional ? 1 : 0)))
+}
+
+function handleEnvironment(ctx: Context, src: Source, index: number, end: number, out: Output): CommandResult {
+  const text = src.text
+  const code = getCode(src)
+  const location = locate(src, index)
+
+  const region = getMathRegions(ctx, src).get(index)
+  if (region) {
+    renderMathRegion(ctx, src, region, out)
+    return { next: region.end }
+  }
+
+  const nameArg = readGroupArgument(code, index + '\\begin'.length)
+  if (!nameArg) return { next: index + '\\begin'.length }
+  const name = text.slice(nameArg.from, nameArg.to).trim()
+
+  if (VERBATIM_ENVIRONMENTS.has(name) || name === 'comment') {
+    const endTag = `\\end{${name}}`
+    const close = text.indexOf(endTag, nameArg.next)
+    const bodyEnd = close === -1 ? end : close
+    const next = close === -1 ? end : close + endTag.length
+    if (name === 'comment') {
+      if (ctx.options.showComments) {
+        addBlock(out, `<div class="reader-comment" ${locationAttributes(location)}>${escapeHtml(text.slice(index, next))}</div>`)
+      }
+      return { next }
+    }
+    const bodyStart = skipArguments(text, nameArg.next, ENVIRONMENT_ARGS[name] ?? 'o')
+    const body = text.slice(bodyStart, bodyEnd).replace(/^[ \t]*\n/, '').replace(/\s+$/, '')
+    addBlock(out, `<pre class="reader-code" ${locationAttributes(location)}>${escapeHtml(body)}</pre>`)
+    return { next }
+  }
+
+  const bounds = findEnvironmentEnd(code, nameArg.next, name)
+  const bodyEnd = bounds ? Math.min(bounds.bodyEnd, end) : end
+  const next = bounds ? Math.min(bounds.next, end) : end
+  const argSpec = getEnvironmentArgs(ctx, name)
+  const bodyStart = skipArguments(code, nameArg.next, argSpec)
+
+  if (name === 'document') {
+    parse(ctx, src, bodyStart, bodyEnd, out)
+  } else if (name === 'abstract') {
+    const body = renderBlocks(ctx, src, bodyStart, bodyEnd)
+    addBlock(out, `<section class="reader-abstract" ${locationAttributes(location)}><h2>Abstract</h2>${body}</section>`)
+  } else if (LIST_ENVIRONMENTS.has(name)) {
+    renderList(ctx, src, name, skipArguments(code, bodyStart, 'o'), bodyEnd, out, location)
+  } else if (name in FLOAT_ENVIRONMENTS) {
+    renderFloat(ctx, src, FLOAT_ENVIRONMENTS[name], skipArguments(code, bodyStart, 'o'), bodyEnd, out, location)
+  } else if (name === 'subfigure' || name === 'subtable') {
+    renderSubfloat(ctx, src, bodyStart, bodyEnd, out, location, null)
+  } else if (TABULAR_ENVIRONMENTS.has(name)) {
+    // The column specification is the last argument, after the width of tabular* and tabularx
+    const spec = readGroupArgument(code, skipArguments(code, nameArg.next, argSpec.slice(0, -1)))
+    renderTabular(ctx, src, spec ? text.slice(spec.from, spec.to) : '', bodyStart, bodyEnd, out, location)
+  } else if (name === 'center' || name === 'flushleft' || name === 'flushright') {
+    const align = name === 'center' ? 'center' : name === 'flushleft' ? 'left' : 'right'
+    addBlock(out, `<div class="reader-${align}">${renderBlocks(ctx, src, bodyStart, bodyEnd)}</div>`)
+  } else if (name === 'quote' || name === 'quotation' || name === 'verse') {
+    addBlock(out, `<blockquote>${renderBlocks(ctx, src, bodyStart, bodyEnd)}</blockquote>`)
+  } else if (name === 'proof') {
+    renderProof(ctx, src, bodyStart, bodyEnd, out, location)
+  } else if (ctx.theorems.has(name) || ctx.theorems.has(name.replace(/\*$/, ''))) {
+    renderTheorem(ctx, src, name, bodyStart, bodyEnd, out, location)
+  } else if (PICTURE_ENVIRONMENTS.has(name)) {
+    addBlock(out, `<div class="reader-placeholder" ${locationAttributes(location)}>${escapeHtml(name)}</div>`)
+  } else if (name === 'thebibliography') {
+    addBibliography(ctx, out)
+  } else if (name === 'appendices') {
+    ctx.appendix = true
+    ctx.sections[ctx.topLevel] = 0
+    parse(ctx, src, bodyStart, bodyEnd, out)
+  } else {
+    // Other environments (minipage, multicols, user environments, ...) only contribute their content
+    parse(ctx, src, bodyStart, bodyEnd, out)
+  }
+  return { next }
+}
+
+function renderList(ctx: Context, src: Source, name: string, from: number, to: number, out: Output, location: Location) {
+  const code = getCode(src)
+  const kind = name.includes('enum') ? 'enumerate' : name.includes('desc') ? 'description' : 'itemize'
+  const items = splitTopLevel(code, from, to, '\\item').slice(1)
+  if (kind === 'enumerate') ctx.enumDepth++
+
+  let n = 0
+  const rendered = items.map(item => {
+    const label = readOptionalArgument(code, item.from)
+    const bodyStart = label?.next ?? item.from
+    const labelHtml = label ? renderInline(ctx, src, label.from, label.to) : ''
+    const itemLocation = locate(src, item.from)
+    const previous = ctx.anchor
+    if (kind === 'enumerate' && !label) {
+      n++
+      const depth = ctx.enumDepth
+      const number = depth === 1 ? String(n) : depth === 2 ? String.fromCharCode(96 + n) : depth === 3 ? toRoman(n) : toLetter(n)
+      ctx.anchor = { id: nextId(ctx), number, kind: 'Item' }
+    }
+    const body = renderBlocks(ctx, src, bodyStart, item.to)
+    const anchor = ctx.anchor
+    ctx.anchor = previous
+
+    if (kind === 'description') {
+      return `<dt ${locationAttributes(itemLocation)}>${labelHtml}</dt><dd>${body}</dd>`
+    }
+    let marker = labelHtml
+    if (kind === 'enumerate' && !label && anchor) {
+      marker = ctx.enumDepth === 2 ? `(${anchor.number})` : `${anchor.number}.`
+    }
+    const id = kind === 'enumerate' && !label && anchor ? ` id="${anchor.id}"` : ''
+    return `<li${id} ${locationAttributes(itemLocation)}>${marker ? `<span class="reader-item-label">${marker}</span>` : ''}${body}</li>`
+  })
+
+  if (kind === 'enumerate') ctx.enumDepth--
+  const tag = kind === 'description' ? 'dl' : kind === 'enumerate' ? 'ol' : 'ul'
+  addBlock(out, `<${tag} class="reader-list reader-${kind}" ${locationAttributes(location)}>${rendered.join('')}</${tag}>`)
+}
+
+function renderFloat(ctx: Context, src: Source, counter: string, from: number, to: number, out: Output, location: Location) {
+  const id = nextId(ctx)
+  const previousFloat = ctx.float
+  const previousAnchor = ctx.anchor
+  ctx.float = { counter, id, subfloats: 0 }
+  const body = renderBlocks(ctx, src, from, to)
+  ctx.float = previousFloat
+  ctx.anchor = previousAnchor
+  addBlock(out, `<figure class="reader-float reader-${counter}" id="${id}" ${locationAttributes(location)}>${body}</figure>`)
+}
+
+function renderSubfloat(ctx: Context, src: Source, from: number, to: number, out: Output, location: Location, caption: Argument | null) {
+  const float = ctx.float
+  const id = nextId(ctx)
+  const previous = { anchor: ctx.anchor, subfloat: ctx.subfloat }
+  if (float) {
+    float.subfloats++
+    // The figure is numbered by its own caption, usually after its subfigures
+    const parent = float.number ?? String((ctx.counters.get(float.counter) || 0) + 1)
+    ctx.subfloat = String.fromCharCode(96 + float.subfloats)
+    ctx.anchor = { id, number: `${parent}${ctx.subfloat}`, kind: capitalize(float.counter) }
+  }
+  let body = renderBlocks(ctx, src, from, to)
+  if (caption) {
+    const label = ctx.subfloat ? `(${ctx.subfloat}) ` : ''
+    body += `<figcaption ${locationAttributes(location)}>${label}${renderInline(ctx, src, caption.from, caption.to)}</figcaption>`
+  }
+  ctx.anchor = previous.anchor
+  ctx.subfloat = previous.subfloat
+  addBlock(out, `<figure class="reader-subfloat" id="${id}" ${locationAttributes(location)}>${body}</figure>`)
+}
+
+function renderCaption(ctx: Context, src: Source, command: string, next: number, out: Output, location: Location): CommandResult {
+  const code = getCode(src)
+  let counter = ctx.float?.counter || 'figure'
+  if (command === 'captionof') {
+    const type = readGroupArgument(code, next)
+    if (!type) return { next }
+    counter = src.text.slice(type.from, type.to).trim()
+    next = type.next
+  }
+  const arg = readGroupArgument(code, readOptionalArgument(code, next)?.next ?? next)
+  if (!arg) return { next }
+
+  let label: string
+  if (ctx.subfloat) {
+    label = `(${ctx.subfloat})`
+  } else {
+    const number = stepCounter(ctx, counter)
+    const id = ctx.float?.id || nextId(ctx)
+    if (ctx.float) ctx.float.number = number
+    ctx.anchor = { id, number, kind: capitalize(counter) }
+    label = `${capitalize(counter)} ${number}:`
+  }
+  const html = renderInline(ctx, src, arg.from, arg.to)
+  addBlock(out, `<figcaption ${locationAttributes(location)}><span class="reader-caption-label">${escapeHtml(label)}</span> ${html}</figcaption>`)
+  return { next: arg.next }
+}
+
+function renderGraphic(ctx: Context, src: Source, path: string, options: string, location: Location): string {
+  const file = ctx.resolveGraphic(src.file, path.replace(/^"(.*)"$/, '$1'))
+  const attributes = locationAttributes(location)
+  if (!file) {
+    return `<span class="reader-graphic-missing" ${attributes}>Missing graphic: ${escapeHtml(path)}</span>`
+  }
+  const isImage = file.mimeType?.startsWith('image/') && !/tiff/.test(file.mimeType)
+  const url = isImage ? ctx.options.getImageUrl(file) : null
+  if (!url) {
+    // Formats a browser cannot show in an <img>, e.g. PDF and EPS figures
+    return `<span class="reader-graphic-file" data-open="${escapeHtml(file.name)}" ${attributes} title="Open ${escapeHtml(file.name)}">${escapeHtml(file.name)}</span>`
+  }
+  const width = /\bwidth\s*=\s*([\d.]*)\s*\\(?:linewidth|textwidth|columnwidth|hsize)/.exec(options)
+  const style = width ? ` style="width: ${Math.min(100, Math.round(parseFloat(width[1] || '1') * 100))}%"` : ''
+  return `<img class="reader-graphic" src="${url}" alt="${escapeHtml(file.name)}"${style} ${attributes}>`
+}
+
+// Column alignments of a tabular specification such as "l|c|r" or "@{}lp{3cm}*{2}{c}@{}"
+function parseColumnSpec(spec: string): string[] {
+  const columns: string[] = []
+  for (let i = 0; i < spec.length; i++) {
+    const ch = spec[i]
+    if (ch === '*') {
+      const count = readGroupArgument(spec, i + 1)
+      const repeated = count && readGroupArgument(spec, count.next)
+      if (!count || !repeated) break
+      const inner = parseColumnSpec(spec.slice(repeated.from, repeated.to))
+      for (let n = parseInt(spec.slice(count.from, count.to), 10) || 0; n > 0; n--) columns.push(...inner)
+      i = repeated.next - 1
+    } else if ('@!<>'.includes(ch) || 'pmbw'.includes(ch)) {
+      const group = readGroupArgument(spec, i + 1)
+      if ('pmbw'.includes(ch)) columns.push('left')
+      if (group) i = group.next - 1
+    } else if (ch === 'l' || ch === 'X' || ch === 'L') {
+      columns.push('left')
+    } else if (ch === 'c' || ch === 'C' || ch === 'S') {
+      columns.push('center')
+    } else if (ch === 'r' || ch === 'R') {
+      columns.push('right')
+    }
+  }
+  return columns
+}
+
+const TABLE_RULES = /^\s*\\(hline|toprule|midrule|bottomrule|cline|cmidrule|specialrule|addlinespace|hhline|morecmidrules|rowcolor|arrayrulecolor|noalign|endhead|endfirsthead|endfoot|endlastfoot|hdashline|cdashline|Xhline)\b/
+const RULE_ARGS: Record<string, string> = { cline: 'm', cmidrule: 'm', specialrule: 'mmm', addlinespace: 'o', hhline: 'm', rowcolor: 'om', arrayrulecolor: 'm', noalign: 'm', cdashline: 'm', Xhline: 'm' }
+
+function renderTabular(ctx: Context, src: Source, spec: string, from: number, to: number, out: Output, location: Location) {
+  const code = getCode(src)
+  const alignments = parseColumnSpec(spec)
+  const rows: { ruleAbove: boolean; ruleBelow: boolean; location: Location; cells: string[] }[] = []
+  let ruled = false
+
+  for (const row of splitTopLevel(code, from, to, '\\\\')) {
+    let start = readOptionalArgument(code, row.from)?.next ?? row.from
+    if (code[row.from] === '*') start = row.from + 1
+    let rule
+    while ((rule = TABLE_RULES.exec(code.slice(start, row.to))) !== null) {
+      if (rule[1] !== 'rowcolor' && rule[1] !== 'arrayrulecolor' && rule[1] !== 'addlinespace' && !rule[1].startsWith('end')) ruled = true
+      start += rule[0].length
+      if (rule[1] === 'cmidrule' && code[skipSpaces(code, start)] === '(') start = code.indexOf(')', start) + 1
+      start = skipArguments(code, start, RULE_ARGS[rule[1]] ?? '')
+    }
+    const cells = splitTopLevel(code, start, row.to, '&')
+    if (cells.every(cell => !code.slice(cell.from, cell.to).trim())) {
+      if (ruled && rows.length > 0) rows[rows.length - 1].ruleBelow = true
+      continue
+    }
+
+    let column = 0
+    const cellsHtml = cells.map(cell => {
+      let cellStart = cell.from
+      let colspan = 1
+      let align = alignments[column]
+      const multicolumn = /^\s*\\multicolumn\s*/.exec(code.slice(cellStart, cell.to))
+      if (multicolumn) {
+        const count = readGroupArgument(code, cellStart + multicolumn[0].length)
+        const columnSpec = count && readGroupArgument(code, count.next)
+        const content = columnSpec && readGroupArgument(code, columnSpec.next)
+        if (count && columnSpec && content) {
+          colspan = parseInt(code.slice(count.from, count.to), 10) || 1
+          align = parseColumnSpec(code.slice(columnSpec.from, columnSpec.to))[0] || align
+          const html = renderInline(ctx, src, content.from, content.to)
+          column += colspan
+          return `<td colspan="${colspan}"${align ? ` style="text-align: ${align}"` : ''}>${html}</td>`
+        }
+      }
+      const multirow = /^\s*\\multirow\s*/.exec(code.slice(cellStart, cell.to))
+      if (multirow) {
+        const content = readGroupArgument(code, skipArguments(code, cellStart + multirow[0].length, 'omom'))
+        if (content) cellStart = content.from
+        const html = content ? renderInline(ctx, src, content.from, content.to) : ''
+        column++
+        return `<td${align ? ` style="text-align: ${align}"` : ''}>${html}</td>`
+      }
+      column++
+      return `<td${align ? ` style="text-align: ${align}"` : ''}>${renderInline(ctx, src, cellStart, cell.to)}</td>`
+    })
+    rows.push({ ruleAbove: ruled, ruleBelow: false, location: locate(src, start), cells: cellsHtml })
+    ruled = false
+  }
+
+  const rowsHtml = rows.map(row => {
+    const classes = [row.ruleAbove && 'reader-rule-above', row.ruleBelow && 'reader-rule-below'].filter(Boolean).join(' ')
+    return `<tr${classes ? ` class="${classes}"` : ''} ${locationAttributes(row.location)}>${row.cells.join('')}</tr>`
+  })
+  addBlock(out, `<div class="reader-table-wrapper" ${locationAttributes(location)}><table class="reader-table">${rowsHtml.join('')}</table></div>`)
+}
+
+function renderTheorem(ctx: Context, src: Source, name: string, from: number, to: number, out: Output, location: Location) {
+  const style = ctx.theorems.get(name) || ctx.theorems.get(name.replace(/\*$/, ''))!
+  const code = getCode(src)
+  const note = readOptionalArgument(code, from)
+  const bodyStart = note?.next ?? from
+  const id = nextId(ctx)
+  const number = style.numbered && !name.endsWith('*') ? stepCounter(ctx, style.counter) : ''
+
+  const previous = ctx.anchor
+  ctx.anchor = { id, number, kind: style.title }
+  const inner = createOutput()
+  const head = `<span class="reader-theorem-head">${escapeHtml(style.title)}${number ? ` ${number}` : ''}</span>` +
+    (note ? ` <span class="reader-theorem-note">(${renderInline(ctx, src, note.from, note.to)})</span>` : '') + '. '
+  addInline(inner, head, location)
+  parse(ctx, src, bodyStart, to, inner)
+  ctx.anchor = previous
+  addBlock(out, `<div class="reader-theorem" id="${id}" ${locationAttributes(location)}>${finishBlocks(inner)}</div>`)
+}
+
+function renderProof(ctx: Context, src: Source, from: number, to: number, out: Output, location: Location) {
+  const code = getCode(src)
+  const title = readOptionalArgument(code, from)
+  const inner = createOutput()
+  const head = title ? renderInline(ctx, src, title.from, title.to) : 'Proof'
+  addInline(inner, `<em class="reader-proof-head">${head}.</em> `, location)
+  parse(ctx, src, title?.next ?? from, to, inner)
+  if (inner.inline.trim()) {
+    addInline(inner, ' <span class="reader-qed">∎</span>', inner.span || location)
+  } else {
+    addBlock(inner, '<div class="reader-qed">∎</div>')
+  }
+  addBlock(out, `<div class="reader-proof" ${locationAttributes(location)}>${finishBlocks(inner)}</div>`)
+}
+
+// --- Includes ---
+
+function handleInclude(ctx: Context, src: Source, command: string, index: number, next: number, out: Output): CommandResult {
+  const code = getCode(src)
+  const twoArgs = /import|from$/.test(command)
+  let end = skipArguments(code, next, twoArgs ? 'mm' : command === 'InputIfFileExists' ? 'mmm' : 'm')
+  if (command === 'input' && code[skipSpaces(code, next)] !== '{') {
+    // Plain TeX \input file
+    const bare = /^\s+[\w./-]+/.exec(code.slice(next, next + 200))
+    end = bare ? next + bare[0].length : next
+  }
+
+  const include = src.line === undefined ? ctx.includes.get(`${src.file.name}:${index}`) : undefined
+  const file = include?.file ? ctx.files.find(f => f.name === include.file) : undefined
+  if (!file || ctx.active.has(file.name)) return { next: end }
+  if (!file.isTeX) {
+    // e.g. a .pgf or .tikz figure
+    addInline(out, `<span class="reader-graphic-file" data-open="${escapeHtml(file.name)}" ${locationAttributes(locate(src, index))}>${escapeHtml(file.name)}</span>`, locate(src, index))
+    return { next: end }
+  }
+
+  if (command === 'include') endParagraph(out)
+  ctx.active.add(file.name)
+  const included: Source = { text: file.content, file }
+  const fileCode = getCode(included)
+  // A \subfile is a complete document of its own
+  const begin = /\\begin\s*\{document\}/.exec(fileCode)
+  const bodyStart = begin ? begin.index + begin[0].length : 0
+  const bodyEnd = begin ? fileCode.indexOf('\\end{document}', bodyStart) : -1
+  parse(ctx, included, bodyStart, bodyEnd === -1 ? fileCode.length : bodyEnd, out)
+  ctx.active.delete(file.name)
+  if (command === 'include') endParagraph(out)
+  return { next: end }
+}
+
+// --- Document ---
+
+// Counters numbered within a section, from \newtheorem{name}{Title}[section] and \numberwithin
+function collectCounterParents(files: FileEntry[], topLevel: number): Map<string, number> {
+  const parents = new Map<string, number>()
+  if (topLevel === 1) {
+    for (const counter of ['equation', 'figure', 'table']) parents.set(counter, 1)
+  }
+  for (const file of files) {
+    if (!/\.(tex|sty|cls)$/i.test(file.name) || file.isBinary) continue
+    const code = stripComments(file.content)
+    for (const match of code.matchAll(/\\newtheorem\s*\{([^}]+)\}\s*\{[^}]*\}\s*\[([^\]]+)\]/g)) {
+      const level = SECTION_LEVELS[match[2].trim()]
+      if (level !== undefined) parents.set(match[1].trim(), level)
+    }
+    for (const match of code.matchAll(/\\numberwithin\s*\{([^}]+)\}\s*\{([^}]+)\}/g)) {
+      const level = SECTION_LEVELS[match[2].trim()]
+      if (level !== undefined) parents.set(match[1].trim(), level)
+    }
+    for (const match of code.matchAll(/\\declaretheorem\s*\[([^\]]*)\]\s*\{([^}]+)\}/g)) {
+      const within = /\b(?:numberwithin|parent)\s*=\s*\{?([^,}]+)/.exec(match[1])?.[1].trim()
+      const level = within ? SECTION_LEVELS[within] : undefined
+      if (level !== undefined) parents.set(match[2].trim(), level)
+    }
+  }
+  return parents
+}
+
+// Numeric citations unless natbib or biblatex are set up for author-year ones
+function detectCiteStyle(files: FileEntry[]): 'numeric' | 'author-year' {
+  let style: 'numeric' | 'author-year' = 'numeric'
+  for (const file of files) {
+    if (!file.isTeX) continue
+    const code = stripComments(file.content)
+    const natbib = /\\usepackage\s*(?:\[([^\]]*)\])?\s*\{[^}]*\bnatbib\b[^}]*\}/.exec(code)
+    if (natbib) style = /\bnumbers\b/.test(natbib[1] || '') ? 'numeric' : 'author-year'
+    const biblatex = /\\usepackage\s*(?:\[([^\]]*)\])?\s*\{biblatex\}/.exec(code)
+    if (biblatex) style = /\bstyle\s*=\s*(?:authoryear|apa|chicago)/.test(biblatex[1] || '') ? 'author-year' : 'numeric'
+    if (/\\setcitestyle\s*\{[^}]*\bnumbers\b/.test(code)) style = 'numeric'
+    if (/\\bibliographystyle\s*\{\s*(?:plain|unsrt|abbrv|ieeetr|IEEEtran|alpha|splncs\w*|acm|siam|ama|vancouver|naturemag)\s*\}/.test(code)) style = 'numeric'
+  }
+  return style
+}
+
+function resolveReferences(ctx: Context, html: string): string {
+  return html
+    .replace(/\u0000ref:([a-zA-Z]+):([^\u0000]*)\u0000/g, (_, command: string, key: string) => {
+      const anchor = ctx.labels.get(key)
+      if (!anchor) return `<span class="reader-ref reader-ref-missing" title="${escapeHtml(key)}">??</span>`
+      let label = anchor.number || '?'
+      if (command === 'eqref' && !label.startsWith('(')) label = `(${label})`
+      if (command === 'nameref') label = anchor.title || label
+      if (/^(?:cref|Cref|autoref|Autoref|vref)$/.test(command) && anchor.kind) {
+        const short = anchor.kind === 'Equation' ? 'eq.' : anchor.kind === 'Figure' ? 'fig.' : anchor.kind.toLowerCase()
+        const name = command === 'cref' ? short : command === 'Cref' ? capitalize(short) : anchor.kind
+        label = `${name} ${label}`
+      }
+      return `<a class="reader-ref" data-target="${anchor.id}">${escapeHtml(label)}</a>`
+    })
+    .replace(/\u0000link:([^\u0000]*)\u0000([\s\S]*?)\u0000\/link\u0000/g, (_, key: string, inner: string) => {
+      const anchor = ctx.labels.get(key)
+      return anchor ? `<a class="reader-ref" data-target="${anchor.id}">${inner}</a>` : inner
+    })
+}
+
+// Convert the paper to HTML, starting from the root document of the project
+export function renderReaderHtml(files: FileEntry[], project: LatexProject, options: ReaderOptions): string {
+  const root = project.root
+  if (!root) return ''
+
+  const hasChapters = project.files.some(file => /\\chapter\*?\s*[{[]/.test(stripComments(file.content)))
+  const topLevel = hasChapters ? 1 : 2
+  const compiled = collectBibliography(files).entries.filter(entry => /\.bbl$/i.test(entry.file) || !entry.type)
+
+  const ctx: Context = {
+    files,
+    options,
+    includes: new Map(project.includes.map(include => [`${include.from}:${include.index}`, include])),
+    macros: collectMacros(files),
+    citations: collectCitations(files),
+    citeStyle: detectCiteStyle(files),
+    citeOrder: compiled.map(entry => entry.key),
+    cited: new Map(),
+    citeAll: false,
+    resolveGraphic: createGraphicResolver(files, project),
+    theorems: collectTheorems(files),
+    counters: new Map(),
+    counterParents: collectCounterParents(files, topLevel),
+    sections: [0, 0, 0, 0, 0, 0, 0],
+    topLevel,
+    appendix: false,
+    labels: new Map(),
+    anchor: null,
+    float: null,
+    subfloat: null,
+    enumDepth: 0,
+    footnotes: [],
+    frontMatter: [],
+    regions: new Map(),
+    active: new Set([root.name]),
+    depth: 0,
+    nextId: 0,
+    hasBibliography: false
+  }
+
+  const src: Source = { text: root.content, file: root }
+  const code = getCode(src)
+  const begin = /\\begin\s*\{document\}/.exec(code)
+  const bodyStart = begin ? begin.index + begin[0].length : 0
+  const bodyEnd = begin ? code.indexOf('\\end{document}', bodyStart) : -1
+
+  // The preamble only contributes the title, authors and date
+  if (begin) {
+    const regex = /\\(title|author|date)\s*(?:\[[^\]]*\])?\s*\{/g
+    let match
+    while ((match = regex.exec(code.slice(0, begin.index))) !== null) {
+      const from = match.index + match[0].length - 1
+      const close = findGroupEnd(code, from)
+      if (close === -1) continue
+      ctx.frontMatter.push({ command: match[1], source: src, from: from + 1, to: close })
+      regex.lastIndex = close
+    }
+  }
+
+  const out = createOutput()
+  parse(ctx, src, bodyStart, bodyEnd === -1 ? code.length : bodyEnd, out)
+  let html = finishBlocks(out)
+
+  if (ctx.footnotes.length > 0) {
+    const items = ctx.footnotes.map(note =>
+      `<li id="${note.id}" value="${note.number}" ${locationAttributes(note.location)}>${note.html}</li>`)
+    html += `\n<section class="reader-footnotes"><h2>Notes</h2><ol>${items.join('')}</ol></section>`
+  }
+
+  const bibliography = renderBibliography(ctx)
+  html = ctx.hasBibliography
+    ? html.replace('\u0000bibliography\u0000', () => bibliography)
+    : html + (bibliography ? `\n${bibliography}` : '')
+  return resolveReferences(ctx, html)
+}
@@ -0,0 +1,79 @@
+import { SearchOptions, SearchResults, createSearchIndex, indexFile, removeFromIndex, searchIndex } from './search'
+
+// Web Worker that keeps the search index of the paper's text files and runs queries against it.
+// The viewer sends the files that were added or changed as they load; a search runs in short
+// slices so that a newer query, or an update of the files, replaces it without waiting.
+
+export type SearchWorkerRequest =
+  | { type: 'update'; files: { name: string; content: string }[] }
+  | { type: 'remove'; names: string[] }
+  | { type: 'search'; id: number; options: SearchOptions }
+  | { type: 'cancel'; id: number }
+
+export type SearchWorkerMessage =
+  | { type: 'results'; id: number; results: SearchResults }
+  | { type: 'error'; id: number; message: string }
+
+// Milliseconds a search runs before letting pending messages in
+const SLICE_DURATION = 15
+
+interface SearchTask {
+  id: number
+  steps: Generator<void, SearchResults>
+}
+
+const index = createSearchIndex()
+let current: SearchTask | null = null
+// The latest query, run again when the files change so its results stay up to date
+let lastSearch: { id: number; options: SearchOptions } | null = null
+
+function post(message: SearchWorkerMessage) {
+  self.postMessage(message)
+}
+
+function runSlice(task: SearchTask) {
+  if (current !== task) return
+  const deadline = performance.now() + SLICE_DURATION
+  try {
+    for (;;) {
+      const step = task.steps.next()
+      if (step.done) {
+        post({ type: 'results', id: task.id, results: step.value })
+        current = null
+        return
+      }
+      if (performance.now() >= deadline) break
+    }
+  } catch (err) {
+    post({ type: 'error', id: task.id, message: err instanceof Error ? err.message : String(err) })
+    current = null
+    return
+  }
+  setTimeout(() => runSlice(task), 0)
+}
+
+function startSearch(id: number, options: SearchOptions) {
+  current = { id, steps: searchIndex(index, options) }
+  runSlice(current)
+}
+
+function refreshSearch() {
+  if (lastSearch) startSearch(lastSearch.id, lastSearch.options)
+}
+
+self.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
+  const request = event.data
+  if (request.type === 'update') {
+    for (const file of request.files) indexFile(index, file.name, file.content)
+    refreshSearch()
+  } else if (request.type === 'remove') {
+    for (const name of request.names) removeFromIndex(index, name)
+    refreshSearch()
+  } else if (request.type === 'search') {
+    lastSearch = { id: request.id, options: request.options }
+    startSearch(request.id, request.options)
+  } else if (request.type === 'cancel') {
+    if (current?.id === request.id) current = null
+    if (lastSearch?.id === request.id) lastSearch = null
+  }
+}
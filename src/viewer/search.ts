@@ -0,0 +1,265 @@
+import { findMathRegions } from './math-regions'
+
+// Search across the source files: plain text or regular expressions, case sensitivity, whole
+// words, include and exclude globs on file names, and a scope that limits matches to prose,
+// math or comments. Runs in the search worker over an index of the files that is updated as
+// they load, so that huge generated tables or bibliographies do not stall typing.
+
+export type SearchScope = 'everywhere' | 'prose' | 'math' | 'comments'
+
+export interface SearchOptions {
+  query: string
+  isRegex: boolean
+  matchCase: boolean
+  wholeWord: boolean
+  include: string // comma-separated globs, empty for all files
+  exclude: string
+  scope: SearchScope
+}
+
+export interface SearchLineMatch {
+  line: number
+  preview: string // the line, shortened before the first match when it is long
+  ranges: [number, number][] // matches within the preview
+}
+
+export interface FileSearchResult {
+  fileName: string
+  lines: SearchLineMatch[]
+  matchCount: number
+}
+
+export interface SearchResults {
+  files: FileSearchResult[]
+  matchCount: number
+  truncated: boolean // stopped at MAX_SEARCH_MATCHES
+}
+
+export interface SearchIndex {
+  files: Map<string, IndexedFile>
+}
+
+interface IndexedFile {
+  content: string
+  lowerContent: string | null // null when lowercasing changes the length, so offsets would not line up
+  lineStarts: number[]
+  comments: [number, number][] | null // computed by the first scoped search
+  math: [number, number][] | null
+}
+
+export const MAX_SEARCH_MATCHES = 50000
+
+// Characters of context kept before the first match of a long line, and the most kept in all
+const PREVIEW_CONTEXT = 30
+const PREVIEW_LENGTH = 300
+
+// Lines searched between two yields of searchIndex
+const LINES_PER_STEP = 2000
+
+// Throws a SyntaxError when the query is not a valid regular expression
+export function createSearchRegExp(options: SearchOptions): RegExp {
+  const flags = options.matchCase ? 'g' : 'gi'
+  let source = options.isRegex ? new RegExp(options.query, flags).source : options.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  if (options.wholeWord) source = `(?<![A-Za-z0-9_])(?:${source})(?![A-Za-z0-9_])`
+  return new RegExp(source, flags)
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = ''
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" also matches no directory at all
+        source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*'
+        i += glob[i + 2] === '/' ? 2 : 1
+      } else {
+        source += '[^/]*'
+      }
+    } else if (ch === '?') {
+      source += '[^/]'
+    } else if (ch === '{') {
+      const end = glob.indexOf('}', i)
+      if (end === -1) {
+        source += '\\{'
+        continue
+      }
+      source += `(?:${glob.slice(i + 1, end).split(',').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`
+      i = end
+    } else {
+      source += ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`, 'i')
+}
+
+// Globs with a slash match the whole path or a folder in it; others match any file or folder name
+function createGlobMatcher(globs: string): ((name: string) => boolean) | null {
+  const patterns = globs.split(',').map(glob => glob.trim().replace(/^\.\//, '')).filter(Boolean)
+  if (patterns.length === 0) return null
+  const matchers = patterns.map((pattern) => {
+    if (pattern.includes('/')) {
+      const regex = globToRegExp(pattern.replace(/\/$/, ''))
+      return (name: string) => {
+        const parts = name.split('/')
+        return parts.some((_, i) => regex.test(parts.slice(0, i + 1).join('/')))
+      }
+    }
+    const regex = globToRegExp(pattern)
+    return (name: string) => name.split('/').some(part => regex.test(part))
+  })
+  return (name: string) => matchers.some(matches => matches(name))
+}
+
+// Offsets of the comments in a file, as [start, end) pairs in order
+function findCommentRanges(content: string): [number, number][] {
+  const ranges: [number, number][] = []
+  const regex = /(^|[^\\])(%.*)$/gm
+  let match
+  while ((match = regex.exec(content)) !== null) {
+    const start = match.index + match[1].length
+    ranges.push([start, start + match[2].length])
+  }
+  return ranges
+}
+
+function isInRanges(ranges: [number, number][], offset: number): boolean {
+  let low = 0
+  let high = ranges.length - 1
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    if (offset < ranges[mid][0]) high = mid - 1
+    else if (offset >= ranges[mid][1]) low = mid + 1
+    else return true
+  }
+  return false
+}
+
+function createScopeFilter(file: IndexedFile, scope: SearchScope): ((offset: number) => boolean) | null {
+  if (scope === 'everywhere') return null
+  const comments = file.comments ??= findCommentRanges(file.content)
+  if (scope === 'comments') return offset => isInRanges(comments, offset)
+  const math = file.math ??= findMathRegions(file.content).map((region): [number, number] => [region.start, region.end])
+  if (scope === 'math') return offset => isInRanges(math, offset)
+  return offset => !isInRanges(comments, offset) && !isInRanges(math, offset)
+}
+
+function createLineMatch(line: number, text: string, ranges: [number, number][]): SearchLineMatch {
+  const cut = ranges[0][0] > PREVIEW_CONTEXT * 2 ? ranges[0][0] - PREVIEW_CONTEXT : 0
+  const shift = cut > 0 ? cut - 1 : 0
+  const preview = (cut > 0 ? '…' : '') + text.slice(cut, cut + PREVIEW_LENGTH)
+  return {
+    line,
+    preview,
+    ranges: ranges
+      .map(([start, end]): [number, number] => [start - shift, Math.min(end - shift, preview.length)])
+      .filter(([start, end]) => start < end)
+  }
+}
+
+// Matches of `regex` in one line, counted in `results`; `offset` is where the line starts in the file
+function findLineMatches(
+  text: string,
+  offset: number,
+  regex: RegExp,
+  inScope: ((offset: number) => boolean) | null,
+  results: SearchResults
+): [number, number][] {
+  const ranges: [number, number][] = []
+  regex.lastIndex = 0
+  let match
+  while ((match = regex.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      // Empty matches (e.g. "^" or "x*") are skipped, not reported
+      regex.lastIndex++
+      continue
+    }
+    if (inScope && !inScope(offset + match.index)) continue
+    ranges.push([match.index, match.index + match[0].length])
+    if (++results.matchCount >= MAX_SEARCH_MATCHES) {
+      results.truncated = true
+      break
+    }
+  }
+  return ranges
+}
+
+// The line containing `offset`, searching from line `from` on
+function findLine(lineStarts: number[], offset: number, from: number): number {
+  let low = from
+  let high = lineStarts.length - 1
+  while (low < high) {
+    const mid = (low + high + 1) >> 1
+    if (lineStarts[mid] <= offset) low = mid
+    else high = mid - 1
+  }
+  return low
+}
+
+export function createSearchIndex(): SearchIndex {
+  return { files: new Map() }
+}
+
+export function indexFile(index: SearchIndex, name: string, content: string) {
+  const lowerContent = content.toLowerCase()
+  const lineStarts = [0]
+  for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) lineStarts.push(i + 1)
+  index.files.set(name, {
+    content,
+    lowerContent: lowerContent.length === content.length ? lowerContent : null,
+    lineStarts,
+    comments: null,
+    math: null
+  })
+}
+
+export function removeFromIndex(index: SearchIndex, name: string) {
+  index.files.delete(name)
+}
+
+// A generator that yields every few thousand lines, so the worker can spread a search over
+// several tasks and drop it when a newer query comes in. Plain queries jump from one occurrence
+// to the next with indexOf and only run the regular expression on those lines.
+export function* searchIndex(index: SearchIndex, options: SearchOptions): Generator<void, SearchResults> {
+  const results: SearchResults = { files: [], matchCount: 0, truncated: false }
+  if (!options.query) return results
+  const regex = createSearchRegExp(options)
+  const include = createGlobMatcher(options.include)
+  const exclude = createGlobMatcher(options.exclude)
+  // Without the u flag, ASCII letters only match ASCII letters case-insensitively, so the
+  // lowercased content finds every candidate line of an ASCII query
+  const isPlain = !options.isRegex && (options.matchCase || /^[\x00-\x7f]*$/.test(options.query))
+  const needle = options.matchCase ? options.query : options.query.toLowerCase()
+
+  let budget = LINES_PER_STEP
+  for (const [name, file] of index.files) {
+    if (include && !include(name)) continue
+    if (exclude && exclude(name)) continue
+
+    const { content, lineStarts } = file
+    const haystack = !isPlain ? null : options.matchCase ? content : file.lowerContent
+    const inScope = createScopeFilter(file, options.scope)
+    const result: FileSearchResult = { fileName: name, lines: [], matchCount: 0 }
+    for (let line = 0; line < lineStarts.length && !results.truncated; line++) {
+      if (haystack !== null) {
+        const found = haystack.indexOf(needle, lineStarts[line])
+        if (found === -1) break
+        line = findLine(lineStarts, found, line)
+      }
+      const start = lineStarts[line]
+      const text = content.slice(start, line + 1 < lineStarts.length ? lineStarts[line + 1] - 1 : content.length)
+      const ranges = findLineMatches(text, start, regex, inScope, results)
+      if (ranges.length > 0) {
+        result.lines.push(createLineMatch(line + 1, text, ranges))
+        result.matchCount += ranges.length
+      }
+      if (--budget === 0) {
+        budget = LINES_PER_STEP
+        yield
+      }
+    }
+    if (result.matchCount > 0) results.files.push(result)
+    if (results.truncated) break
+  }
+  return results
+}
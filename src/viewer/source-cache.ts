@@ -0,0 +1,296 @@
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate'
+import { FileEntry } from './latex-features'
+import { splitArxivVersion, formatArxivId } from './arxiv'
+import { UnsupportedEntry } from './archive'
+import { decodeText } from './encoding'
+
+// Persistent cache of extracted paper sources, stored in IndexedDB.
+// Metadata and file contents live in separate object stores so that listing
+// cached papers never has to load the (potentially large) file payloads.
+
+export interface CachedPaperInfo {
+  key: string // arXiv ID including version when known, e.g. 1706.03762v7
+  arxivId: string // arXiv ID without version
+  version: number | null
+  title: string
+  size: number // total bytes of all files
+  fileCount: number
+  cachedAt: number
+  lastOpened: number
+  unsupported?: UnsupportedEntry[] // archive entries that could not be extracted
+  encodings?: Record<string, string> // encodings the user reopened files with, by file name
+}
+
+export interface CachedPaper {
+  info: CachedPaperInfo
+  files: FileEntry[]
+}
+
+const DB_NAME = 'arxiv-texplorer'
+const DB_VERSION = 1
+const PAPER_STORE = 'papers'
+const SOURCE_STORE = 'sources'
+
+const QUOTA_STORAGE_KEY = 'cacheQuotaBytes'
+export const DEFAULT_CACHE_QUOTA = 500 * 1024 * 1024
+
+const LIBRARY_FORMAT = 'arxiv-texplorer-library'
+const LIBRARY_MANIFEST = 'library.json'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(PAPER_STORE)) {
+          const papers = db.createObjectStore(PAPER_STORE, { keyPath: 'key' })
+          papers.createIndex('arxivId', 'arxivId', { unique: false })
+        }
+        if (!db.objectStoreNames.contains(SOURCE_STORE)) {
+          db.createObjectStore(SOURCE_STORE)
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function promisifyTransaction(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+export function getFilesSize(files: FileEntry[]): number {
+  let size = 0
+  for (const file of files) {
+    size += (file.binaryData ?? file.rawData)?.length ?? file.content.length
+  }
+  return size
+}
+
+// Look up a cached source. Without an explicit version the newest cached version is used.
+export async function getCachedPaper(id: string): Promise<CachedPaper | null> {
+  const { arxivId, version } = splitArxivVersion(id)
+  const db = await openDatabase()
+
+  const tx = db.transaction([PAPER_STORE, SOURCE_STORE], 'readonly')
+  let info: CachedPaperInfo | undefined
+  if (version !== null) {
+    info = await promisifyRequest<CachedPaperInfo | undefined>(
+      tx.objectStore(PAPER_STORE).get(formatArxivId(arxivId, version)),
+    )
+  } else {
+    const candidates = await promisifyRequest<CachedPaperInfo[]>(
+      tx.objectStore(PAPER_STORE).index('arxivId').getAll(arxivId),
+    )
+    info = candidates.sort((a, b) => (b.version ?? 0) - (a.version ?? 0) || b.cachedAt - a.cachedAt)[0]
+  }
+  if (!info) return null
+
+  const files = await promisifyRequest<FileEntry[] | undefined>(
+    tx.objectStore(SOURCE_STORE).get(info.key),
+  )
+  if (!files) return null
+
+  return { info, files }
+}
+
+export async function putCachedPaper(
+  arxivId: string,
+  version: number | null,
+  title: string,
+  files: FileEntry[],
+  unsupported: UnsupportedEntry[] = [],
+): Promise<CachedPaperInfo> {
+  const now = Date.now()
+  const info: CachedPaperInfo = {
+    key: formatArxivId(arxivId, version),
+    arxivId,
+    version,
+    title,
+    size: getFilesSize(files),
+    fileCount: files.length,
+    cachedAt: now,
+    lastOpened: now,
+    unsupported,
+  }
+
+  await writePaper(info, files)
+  await enforceCacheQuota(await getCacheQuota(), info.key)
+
+  return info
+}
+
+async function writePaper(info: CachedPaperInfo, files: FileEntry[]): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction([PAPER_STORE, SOURCE_STORE], 'readwrite')
+  tx.objectStore(PAPER_STORE).put(info)
+  tx.objectStore(SOURCE_STORE).put(files, info.key)
+  await promisifyTransaction(tx)
+}
+
+async function readFiles(key: string): Promise<FileEntry[] | undefined> {
+  const db = await openDatabase()
+  const tx = db.transaction(SOURCE_STORE, 'readonly')
+  return promisifyRequest<FileEntry[] | undefined>(tx.objectStore(SOURCE_STORE).get(key))
+}
+
+export async function listCachedPapers(): Promise<CachedPaperInfo[]> {
+  const db = await openDatabase()
+  const tx = db.transaction(PAPER_STORE, 'readonly')
+  return promisifyRequest<CachedPaperInfo[]>(tx.objectStore(PAPER_STORE).getAll())
+}
+
+export async function touchCachedPaper(key: string): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction(PAPER_STORE, 'readwrite')
+  const store = tx.objectStore(PAPER_STORE)
+  const info = await promisifyRequest<CachedPaperInfo | undefined>(store.get(key))
+  if (info) {
+    store.put({ ...info, lastOpened: Date.now() })
+  }
+  await promisifyTransaction(tx)
+}
+
+// Remember the encoding a file was reopened with, so it is decoded the same way next time
+export async function setCachedEncoding(key: string, fileName: string, encoding: string): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction(PAPER_STORE, 'readwrite')
+  const store = tx.objectStore(PAPER_STORE)
+  const info = await promisifyRequest<CachedPaperInfo | undefined>(store.get(key))
+  if (info) {
+    store.put({ ...info, encodings: { ...info.encodings, [fileName]: encoding } })
+  }
+  await promisifyTransaction(tx)
+}
+
+export async function deleteCachedPaper(key: string): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction([PAPER_STORE, SOURCE_STORE], 'readwrite')
+  tx.objectStore(PAPER_STORE).delete(key)
+  tx.objectStore(SOURCE_STORE).delete(key)
+  await promisifyTransaction(tx)
+}
+
+// --- Storage quota ---
+
+export async function getCacheQuota(): Promise<number> {
+  const result = await chrome.storage.local.get(QUOTA_STORAGE_KEY)
+  const quota = result[QUOTA_STORAGE_KEY]
+  return typeof quota === 'number' && quota > 0 ? quota : DEFAULT_CACHE_QUOTA
+}
+
+export async function setCacheQuota(quota: number): Promise<void> {
+  await chrome.storage.local.set({ [QUOTA_STORAGE_KEY]: quota })
+}
+
+// Evict least recently opened papers until the cache fits into the quota.
+// The paper identified by keepKey (usually the one just written) is never evicted.
+export async function enforceCacheQuota(quota: number, keepKey?: string): Promise<string[]> {
+  const papers = await listCachedPapers()
+  let total = papers.reduce((sum, paper) => sum + paper.size, 0)
+  const evicted: string[] = []
+
+  const candidates = papers
+    .filter(paper => paper.key !== keepKey)
+    .sort((a, b) => a.lastOpened - b.lastOpened)
+
+  for (const paper of candidates) {
+    if (total <= quota) break
+    await deleteCachedPaper(paper.key)
+    total -= paper.size
+    evicted.push(paper.key)
+  }
+
+  return evicted
+}
+
+// --- Export / Import ---
+
+// The library is exported as a zip archive: library.json holds the paper metadata and
+// the per-file flags, and each file's bytes are stored under <paper key>/<file name>.
+
+type ExportedFileEntry = Omit<FileEntry, 'content' | 'binaryData' | 'rawData'>
+
+interface LibraryManifest {
+  format: typeof LIBRARY_FORMAT
+  version: 1
+  papers: { info: CachedPaperInfo; files: ExportedFileEntry[] }[]
+}
+
+export async function exportLibrary(): Promise<Uint8Array> {
+  const manifest: LibraryManifest = { format: LIBRARY_FORMAT, version: 1, papers: [] }
+  const entries: Record<string, Uint8Array> = {}
+
+  for (const info of await listCachedPapers()) {
+    const cachedFiles = await readFiles(info.key)
+    if (!cachedFiles) continue
+
+    const files: ExportedFileEntry[] = []
+    for (const file of cachedFiles) {
+      const { content, binaryData, rawData, ...meta } = file
+      files.push(meta)
+      // Text files are exported with their original bytes, so their encoding is preserved
+      entries[`${info.key}/${file.name}`] = binaryData ?? rawData ?? strToU8(content)
+    }
+    manifest.papers.push({ info, files })
+  }
+
+  entries[LIBRARY_MANIFEST] = strToU8(JSON.stringify(manifest, null, 2))
+  return zipSync(entries, { level: 6 })
+}
+
+export async function importLibrary(data: Uint8Array): Promise<number> {
+  let entries: Record<string, Uint8Array>
+  try {
+    entries = unzipSync(data)
+  } catch {
+    throw new Error('The selected file is not a library export')
+  }
+
+  const manifestData = entries[LIBRARY_MANIFEST]
+  if (!manifestData) {
+    throw new Error('The archive does not contain a library.json manifest')
+  }
+  const manifest = JSON.parse(strFromU8(manifestData)) as LibraryManifest
+  if (manifest.format !== LIBRARY_FORMAT) {
+    throw new Error('Unsupported library format')
+  }
+
+  let imported = 0
+  for (const { info, files: fileMetas } of manifest.papers) {
+    const files: FileEntry[] = []
+    for (const meta of fileMetas) {
+      const bytes = entries[`${info.key}/${meta.name}`]
+      if (!bytes) continue
+      files.push(
+        meta.isBinary
+          ? { ...meta, content: '', binaryData: bytes }
+          : { ...meta, content: decodeText(bytes, meta.encoding ?? 'utf-8'), rawData: bytes },
+      )
+    }
+    await writePaper({ ...info, size: getFilesSize(files), fileCount: files.length }, files)
+    imported++
+  }
+
+  await enforceCacheQuota(await getCacheQuota())
+  return imported
+}
@@ -0,0 +1,92 @@
+import { FileEntry } from './latex-features'
+
+// File-level comparison of two extracted source trees (e.g. two versions of a paper)
+
+export type FileChangeKind = 'added' | 'removed' | 'modified'
+
+export interface FileChange {
+  name: string
+  kind: FileChangeKind
+  original?: FileEntry // file in the base tree (missing for added files)
+  modified?: FileEntry // file in the target tree (missing for removed files)
+  linesAdded: number
+  linesRemoved: number
+}
+
+function bytesEqual(a?: Uint8Array, b?: Uint8Array): boolean {
+  if (!a || !b) return a === b
+  if (a.length !== b.length) return false
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false
+  }
+  return true
+}
+
+function filesEqual(a: FileEntry, b: FileEntry): boolean {
+  if (a.isBinary !== b.isBinary) return false
+  return a.isBinary ? bytesEqual(a.binaryData, b.binaryData) : a.content === b.content
+}
+
+// Approximate line statistics: lines are compared as multisets, so moved lines do not count
+export function countLineChanges(original: string, modified: string): { linesAdded: number; linesRemoved: number } {
+  if (!original) return { linesAdded: modified ? modified.split('\n').length : 0, linesRemoved: 0 }
+  if (!modified) return { linesAdded: 0, linesRemoved: original.split('\n').length }
+
+  const counts = new Map<string, number>()
+  for (const line of original.split('\n')) {
+    counts.set(line, (counts.get(line) || 0) + 1)
+  }
+
+  let linesAdded = 0
+  for (const line of modified.split('\n')) {
+    const count = counts.get(line) || 0
+    if (count > 0) {
+      counts.set(line, count - 1)
+    } else {
+      linesAdded++
+    }
+  }
+
+  let linesRemoved = 0
+  for (const count of counts.values()) {
+    linesRemoved += count
+  }
+
+  return { linesAdded, linesRemoved }
+}
+
+export function diffSources(base: FileEntry[], target: FileEntry[]): FileChange[] {
+  const baseFiles = new Map(base.map(f => [f.name, f]))
+  const targetFiles = new Map(target.map(f => [f.name, f]))
+  const changes: FileChange[] = []
+
+  for (const [name, modified] of targetFiles) {
+    const original = baseFiles.get(name)
+    if (!original) {
+      changes.push({
+        name,
+        kind: 'added',
+        modified,
+        ...countLineChanges('', modified.isBinary ? '' : modified.content),
+      })
+    } else if (!filesEqual(original, modified)) {
+      const lines = original.isBinary || modified.isBinary
+        ? { linesAdded: 0, linesRemoved: 0 }
+        : countLineChanges(original.content, modified.content)
+      changes.push({ name, kind: 'modified', original, modified, ...lines })
+    }
+  }
+
+  for (const [name, original] of baseFiles) {
+    if (!targetFiles.has(name)) {
+      changes.push({
+        name,
+        kind: 'removed',
+        original,
+        ...countLineChanges(original.isBinary ? '' : original.content, ''),
+      })
+    }
+  }
+
+  return changes.sort((a, b) => a.name.localeCompare(b.name))
+}
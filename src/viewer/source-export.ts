@@ -0,0 +1,130 @@
+import { gzipSync, zipSync } from 'fflate'
+import { FileEntry } from './latex-features'
+import { encodeText } from './encoding'
+
+// Packs the files of a paper, with the edits made in the viewer, back into an archive that
+// keeps the folder structure of the submission, so it can be compiled or resubmitted.
+
+export type ExportFormat = 'tar.gz' | 'zip'
+
+export interface SourceExport {
+  data: Uint8Array
+  fileName: string
+  reencoded: string[] // edited files whose encoding could not represent the text, written as UTF-8
+}
+
+const BLOCK_SIZE = 512
+
+// The bytes of a file as it should be written out: the original bytes while it is unchanged,
+// otherwise its text in the encoding it was read with
+export function getFileBytes(file: FileEntry): { data: Uint8Array; reencoded: boolean } {
+  const original = file.binaryData ?? file.rawData
+  if (original) return { data: original, reencoded: false }
+  const encoded = encodeText(file.content, file.encoding)
+  if (encoded) return { data: encoded, reencoded: false }
+  return { data: new TextEncoder().encode(file.content), reencoded: true }
+}
+
+function writeString(header: Uint8Array, offset: number, length: number, value: string | Uint8Array) {
+  const bytes = typeof value === 'string' ? new TextEncoder().encode(value) : value
+  header.set(bytes.subarray(0, length), offset)
+}
+
+function writeOctal(header: Uint8Array, offset: number, length: number, value: number) {
+  writeString(header, offset, length, value.toString(8).padStart(length - 1, '0'))
+}
+
+function createHeader(name: Uint8Array, prefix: Uint8Array, size: number, type: string, mtime: number): Uint8Array {
+  const header = new Uint8Array(BLOCK_SIZE)
+  writeString(header, 0, 100, name)
+  writeOctal(header, 100, 8, type === '5' ? 0o755 : 0o644)
+  writeOctal(header, 108, 8, 0)
+  writeOctal(header, 116, 8, 0)
+  writeOctal(header, 124, 12, size)
+  writeOctal(header, 136, 12, mtime)
+  writeString(header, 156, 1, type)
+  writeString(header, 257, 6, 'ustar')
+  writeString(header, 263, 2, '00')
+  writeString(header, 345, 155, prefix)
+
+  // The checksum is computed with its own field filled with spaces
+  header.fill(0x20, 148, 156)
+  const checksum = header.reduce((sum, byte) => sum + byte, 0)
+  writeString(header, 148, 8, checksum.toString(8).padStart(6, '0') + '\0 ')
+  return header
+}
+
+// Header blocks of one entry. Paths over 100 bytes are split into the ustar prefix and name
+// fields where a slash allows it, and otherwise preceded by a GNU long name entry.
+function createEntryHeaders(path: string, size: number, type: string, mtime: number): Uint8Array[] {
+  const encoder = new TextEncoder()
+  const bytes = encoder.encode(path)
+  const empty = new Uint8Array(0)
+  if (bytes.length <= 100) return [createHeader(bytes, empty, size, type, mtime)]
+
+  for (let slash = path.indexOf('/'); slash !== -1; slash = path.indexOf('/', slash + 1)) {
+    const prefix = encoder.encode(path.slice(0, slash))
+    const name = encoder.encode(path.slice(slash + 1))
+    if (prefix.length <= 155 && name.length > 0 && name.length <= 100) {
+      return [createHeader(name, prefix, size, type, mtime)]
+    }
+  }
+
+  const longName = new Uint8Array(bytes.length + 1)
+  longName.set(bytes)
+  return [
+    createHeader(encoder.encode('././@LongLink'), empty, longName.length, 'L', mtime),
+    ...padToBlocks(longName),
+    createHeader(bytes.subarray(0, 100), empty, size, type, mtime)
+  ]
+}
+
+function padToBlocks(data: Uint8Array): Uint8Array[] {
+  const remainder = data.length % BLOCK_SIZE
+  return remainder === 0 ? [data] : [data, new Uint8Array(BLOCK_SIZE - remainder)]
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.length
+  }
+  return result
+}
+
+function createTar(entries: [string, Uint8Array][]): Uint8Array {
+  const mtime = Math.floor(Date.now() / 1000)
+  const chunks: Uint8Array[] = []
+  const directories = new Set<string>()
+  for (const [path, data] of entries) {
+    // Folders get their own entries, before the first file in them
+    const parts = path.split('/')
+    for (let i = 1; i < parts.length; i++) {
+      const directory = parts.slice(0, i).join('/')
+      if (directories.has(directory)) continue
+      directories.add(directory)
+      chunks.push(...createEntryHeaders(`${directory}/`, 0, '5', mtime))
+    }
+    chunks.push(...createEntryHeaders(path, data.length, '0', mtime), ...padToBlocks(data))
+  }
+  // Two zero blocks end the archive
+  chunks.push(new Uint8Array(BLOCK_SIZE * 2))
+  return concat(chunks)
+}
+
+export function exportSource(files: FileEntry[], format: ExportFormat, baseName: string): SourceExport {
+  const entries: [string, Uint8Array][] = []
+  const reencoded: string[] = []
+  for (const file of files) {
+    const { data, reencoded: isReencoded } = getFileBytes(file)
+    entries.push([file.name, data])
+    if (isReencoded) reencoded.push(file.name)
+  }
+
+  const data = format === 'zip'
+    ? zipSync(Object.fromEntries(entries), { level: 6 })
+    : gzipSync(createTar(entries), { level: 6 })
+  return { data, fileName: `${baseName}.${format}`, reencoded }
+}
@@ -0,0 +1,217 @@
+import { Gunzip, unzipSync } from 'fflate'
+import { FileEntry } from './latex-features'
+import { UnsupportedEntry, TarReader, createFileEntry, createTarReader, isTarArchive } from './archive'
+import { splitArxivVersion } from './arxiv'
+
+// Web Worker that downloads a paper's source and extracts it off the main thread.
+// The response is decompressed and parsed as it streams in, and extracted files are
+// posted back in batches so the viewer can populate the file tree progressively.
+
+export interface DownloadProgress {
+  phase: 'downloading' | 'extracting' | 'done'
+  loaded: number
+  total: number
+  percent: number
+  decompressed: number // bytes of archive data after decompression
+  filesExtracted: number
+}
+
+export type SourceWorkerRequest = { type: 'load'; arxivId: string }
+
+export type SourceWorkerMessage =
+  | { type: 'progress'; progress: DownloadProgress }
+  | { type: 'files'; files: FileEntry[] }
+  | { type: 'done'; unsupported: UnsupportedEntry[]; version: number | null }
+  | { type: 'error'; message: string }
+
+// Files are posted when this many have accumulated or after FLUSH_INTERVAL ms, whichever comes first
+const BATCH_SIZE = 50
+const FLUSH_INTERVAL = 100
+
+function post(message: SourceWorkerMessage) {
+  self.postMessage(message)
+}
+
+function concatChunks(chunks: Uint8Array[], length: number): Uint8Array {
+  const data = new Uint8Array(length)
+  let offset = 0
+  for (const chunk of chunks) {
+    data.set(chunk, offset)
+    offset += chunk.length
+  }
+  return data
+}
+
+function isZipArchive(data: Uint8Array): boolean {
+  return data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04
+}
+
+async function loadSource(arxivId: string) {
+  const response = await fetch(`https://arxiv.org/src/${arxivId}`)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch TeX source: ${response.status} ${response.statusText}`)
+  }
+
+  const contentLength = response.headers.get('content-length')
+  const total = contentLength ? parseInt(contentLength, 10) : 0
+
+  const reader = response.body?.getReader()
+  if (!reader) {
+    throw new Error('Failed to get response reader')
+  }
+
+  let loaded = 0
+  let decompressed = 0
+  let filesExtracted = 0
+  let batch: FileEntry[] = []
+  let lastFlush = Date.now()
+
+  const reportProgress = (phase: DownloadProgress['phase']) => {
+    post({
+      type: 'progress',
+      progress: {
+        phase,
+        loaded,
+        total: total || loaded,
+        percent: total ? Math.round((loaded / total) * 100) : phase === 'downloading' ? 0 : 100,
+        decompressed,
+        filesExtracted
+      }
+    })
+  }
+
+  const flush = (force: boolean) => {
+    if (batch.length === 0) return
+    if (!force && batch.length < BATCH_SIZE && Date.now() - lastFlush < FLUSH_INTERVAL) return
+    post({ type: 'files', files: batch })
+    batch = []
+    lastFlush = Date.now()
+  }
+
+  const addFile = (file: FileEntry) => {
+    batch.push(file)
+    filesExtracted++
+    flush(false)
+  }
+
+  // The payload (after gunzip, if any) is buffered until its first block shows whether it is a tar
+  // archive. Tar data is then streamed into the tar reader; anything else is kept for the end.
+  let tarReader: TarReader | null = null
+  let buffered: Uint8Array[] = []
+  let bufferedLength = 0
+  let sniffed = false
+
+  const writePayload = (chunk: Uint8Array) => {
+    decompressed += chunk.length
+    if (tarReader) {
+      tarReader.push(chunk)
+      return
+    }
+
+    buffered.push(chunk)
+    bufferedLength += chunk.length
+    if (!sniffed && bufferedLength >= 512) {
+      sniffed = true
+      const head = concatChunks(buffered, bufferedLength)
+      if (isTarArchive(head)) {
+        tarReader = createTarReader(addFile)
+        buffered = []
+        bufferedLength = 0
+        tarReader.push(head)
+      }
+    }
+  }
+
+  const singleFileName = `${arxivId.replace(/\//g, '_')}.tex`
+
+  const finishPayload = (wasGzipped: boolean): UnsupportedEntry[] => {
+    if (tarReader) {
+      return tarReader.finish()
+    }
+
+    const data = concatChunks(buffered, bufferedLength)
+    if (!wasGzipped && isZipArchive(data)) {
+      try {
+        for (const [filename, fileData] of Object.entries(unzipSync(data))) {
+          // Directory entries end with a slash and carry no data
+          if (!filename.endsWith('/')) {
+            addFile(createFileEntry(filename, fileData))
+          }
+        }
+        return []
+      } catch {
+        // Not a readable zip after all, show the payload as a single file below
+      }
+    }
+
+    // Single-file submissions are a bare (possibly gzipped) .tex file
+    addFile(createFileEntry(singleFileName, data))
+    return []
+  }
+
+  let gunzip: Gunzip | null = null
+  let header: Uint8Array | null = new Uint8Array(0)
+
+  const write = (chunk: Uint8Array) => {
+    if (gunzip) {
+      gunzip.push(chunk)
+    } else {
+      writePayload(chunk)
+    }
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    loaded += value.length
+
+    // Wait for the first two bytes to detect gzip compression
+    if (header) {
+      const joined = concatChunks([header, value], header.length + value.length)
+      if (joined.length < 2) {
+        header = joined
+        continue
+      }
+      header = null
+      if (joined[0] === 0x1f && joined[1] === 0x8b) {
+        gunzip = new Gunzip((chunk) => writePayload(chunk))
+      }
+      write(joined)
+    } else {
+      write(value)
+    }
+
+    flush(false)
+    reportProgress('downloading')
+  }
+
+  if (header && header.length > 0) {
+    writePayload(header)
+  }
+
+  reportProgress('extracting')
+  try {
+    gunzip?.push(new Uint8Array(0), true)
+  } catch {
+    throw new Error('Failed to decompress the source archive')
+  }
+  const unsupported = finishPayload(gunzip !== null)
+  flush(true)
+
+  // arXiv names the download after the resolved version, e.g. arXiv-1706.03762v7.tar.gz
+  const disposition = response.headers.get('content-disposition') || ''
+  const versionMatch = /v(\d+)(?:\.[\w.]+)?"?\s*$/.exec(disposition)
+  const version = versionMatch ? parseInt(versionMatch[1], 10) : splitArxivVersion(arxivId).version
+
+  reportProgress('done')
+  post({ type: 'done', unsupported, version })
+}
+
+self.onmessage = (event: MessageEvent<SourceWorkerRequest>) => {
+  if (event.data.type === 'load') {
+    loadSource(event.data.arxivId).catch((err) => {
+      post({ type: 'error', message: err?.message || 'Failed to load TeX source' })
+    })
+  }
+}
@@ -0,0 +1,225 @@
+import * as monaco from 'monaco-editor'
+import {
+  FileEntry,
+  collectCitations,
+  collectLabels,
+  collectMacros,
+  collectTheorems,
+  getFileNameFromUri,
+  getPosition,
+  parseDocumentOutline,
+  readGroup
+} from './latex-features'
+import { buildProject, stripComments } from './project'
+import { latexToText } from './bibtex'
+
+// One index of the named things in a paper: sections, labels, citation keys, user macros,
+// theorem-like environments and captions. It backs Go to Symbol in Workspace and the editor's
+// document symbols (Ctrl+Shift+O and breadcrumbs).
+
+export type SymbolKind = 'section' | 'label' | 'citation' | 'macro' | 'environment' | 'theorem' | 'caption'
+
+export interface WorkspaceSymbol {
+  name: string
+  kind: SymbolKind
+  detail?: string // e.g. the title of a cited entry or the label of a theorem
+  level?: number // of sections, as in SectionInfo
+  file: string
+  line: number
+  column: number // 1-based
+}
+
+export const SYMBOL_KIND_LABELS: Record<SymbolKind, string> = {
+  section: 'section',
+  label: 'label',
+  citation: 'citation',
+  macro: 'command',
+  environment: 'environment',
+  theorem: 'theorem',
+  caption: 'caption'
+}
+
+// Longest caption kept as a symbol name
+const MAX_CAPTION_LENGTH = 120
+
+const SECTION_COMMAND = /\\(part|chapter|section|subsection|subsubsection|paragraph)\b/
+
+const SYMBOL_KINDS: Record<SymbolKind, monaco.languages.SymbolKind> = {
+  section: monaco.languages.SymbolKind.Module,
+  label: monaco.languages.SymbolKind.Key,
+  citation: monaco.languages.SymbolKind.Field,
+  macro: monaco.languages.SymbolKind.Function,
+  environment: monaco.languages.SymbolKind.Struct,
+  theorem: monaco.languages.SymbolKind.Class,
+  caption: monaco.languages.SymbolKind.String
+}
+
+const symbolCache = new WeakMap<FileEntry[], WorkspaceSymbol[]>()
+
+// Sections of every TeX file: those reachable from the root in document order, then the rest
+function collectSections(files: FileEntry[]): WorkspaceSymbol[] {
+  const outline = parseDocumentOutline(files, buildProject(files))
+  const covered = new Set(outline.map(section => section.file))
+  const sections = [
+    ...outline,
+    ...files.filter(file => file.isTeX && !covered.has(file.name)).flatMap(file => parseDocumentOutline([file]))
+  ]
+  const byName = new Map(files.map(file => [file.name, file]))
+  const lines = new Map<string, string[]>()
+  return sections.map((section) => {
+    let fileLines = lines.get(section.file)
+    if (!fileLines) {
+      fileLines = byName.get(section.file)?.content.split('\n') ?? []
+      lines.set(section.file, fileLines)
+    }
+    const lineContent = fileLines[section.line - 1] ?? ''
+    return {
+      name: section.title,
+      kind: 'section',
+      level: section.level,
+      file: section.file,
+      line: section.line,
+      column: lineContent.search(SECTION_COMMAND) + 1 || 1
+    }
+  })
+}
+
+// Every \begin of a theorem-like environment, named after its title and optional note
+function collectTheoremSymbols(files: FileEntry[]): WorkspaceSymbol[] {
+  const theorems = collectTheorems(files)
+  const symbols: WorkspaceSymbol[] = []
+  for (const file of files) {
+    if (!file.isTeX) continue
+    const content = stripComments(file.content)
+    for (const match of content.matchAll(/\\begin\s*\{([^}]+)\}(?:\s*\[([^\]]*)\])?/g)) {
+      const env = match[1].trim()
+      const title = theorems.get(env.replace(/\*$/, ''))?.title
+      if (!title) continue
+      const end = content.indexOf(`\\end{${env}}`, match.index)
+      const label = content.slice(match.index, end === -1 ? undefined : end).match(/\\label\s*\{([^}]+)\}/)
+      const note = match[2] ? latexToText(match[2]) : ''
+      const { line, column } = getPosition(file, match.index)
+      symbols.push({
+        name: note ? `${title}: ${note}` : title,
+        kind: 'theorem',
+        detail: label?.[1],
+        file: file.name,
+        line,
+        column
+      })
+    }
+  }
+  return symbols
+}
+
+// Every \caption, with the environment it captions
+function collectCaptions(files: FileEntry[]): WorkspaceSymbol[] {
+  const symbols: WorkspaceSymbol[] = []
+  for (const file of files) {
+    if (!file.isTeX) continue
+    const content = stripComments(file.content)
+    const begins = [...content.matchAll(/\\begin\s*\{((?:sub)?(?:figure|table)\*?)\}/g)]
+    let environment: string | undefined
+    let next = 0
+    for (const match of content.matchAll(/\\caption\s*(?:\[[^\]]*\])?\s*(?=\{)/g)) {
+      // The last figure or table begun before the caption
+      while (next < begins.length && begins[next].index < match.index) environment = begins[next++][1]
+      const group = readGroup(content, match.index + match[0].length)
+      const text = group && latexToText(group.text)
+      if (!text) continue
+      const { line, column } = getPosition(file, match.index)
+      symbols.push({
+        name: text.length > MAX_CAPTION_LENGTH ? text.slice(0, MAX_CAPTION_LENGTH - 1) + '…' : text,
+        kind: 'caption',
+        detail: environment?.replace(/\*$/, ''),
+        file: file.name,
+        line,
+        column
+      })
+    }
+  }
+  return symbols
+}
+
+export function collectSymbols(files: FileEntry[]): WorkspaceSymbol[] {
+  const cached = symbolCache.get(files)
+  if (cached) return cached
+
+  const symbols: WorkspaceSymbol[] = [
+    ...collectSections(files),
+    ...collectTheoremSymbols(files),
+    ...collectCaptions(files)
+  ]
+  for (const label of collectLabels(files).values()) {
+    symbols.push({ name: label.name, kind: 'label', file: label.file, line: label.line, column: label.column })
+  }
+  for (const macro of collectMacros(files).values()) {
+    symbols.push({
+      name: macro.name,
+      kind: macro.kind === 'command' ? 'macro' : 'environment',
+      detail: `\\${macro.command}`,
+      file: macro.file,
+      line: macro.line,
+      column: macro.column
+    })
+  }
+  for (const citation of collectCitations(files).values()) {
+    symbols.push({
+      name: citation.key,
+      kind: 'citation',
+      detail: citation.title ? latexToText(citation.title) : citation.entryType,
+      file: citation.file,
+      line: citation.line,
+      column: 1
+    })
+  }
+
+  symbolCache.set(files, symbols)
+  return symbols
+}
+
+// Symbols of one file as a tree: sections contain the sections below them and everything
+// else up to the next section of the same or a higher level
+export function createDocumentSymbolProvider(getAllFiles: () => FileEntry[]): monaco.languages.DocumentSymbolProvider {
+  return {
+    displayName: 'LaTeX',
+    provideDocumentSymbols: (model) => {
+      const fileName = getFileNameFromUri(model.uri)
+      const lastLine = model.getLineCount()
+      const symbols = collectSymbols(getAllFiles())
+        .filter(symbol => symbol.file === fileName && symbol.line <= lastLine)
+        .sort((a, b) => a.line - b.line || a.column - b.column)
+
+      const toDocumentSymbol = (symbol: WorkspaceSymbol, endLine: number): monaco.languages.DocumentSymbol => {
+        const endColumn = model.getLineMaxColumn(endLine)
+        return {
+          name: symbol.name,
+          detail: symbol.detail ?? '',
+          kind: SYMBOL_KINDS[symbol.kind],
+          tags: [],
+          range: new monaco.Range(symbol.line, symbol.column, endLine, endColumn),
+          selectionRange: new monaco.Range(symbol.line, symbol.column, symbol.line, model.getLineMaxColumn(symbol.line)),
+          children: []
+        }
+      }
+
+      const roots: monaco.languages.DocumentSymbol[] = []
+      const open: { level: number; symbol: monaco.languages.DocumentSymbol }[] = []
+      symbols.forEach((symbol, i) => {
+        if (symbol.kind === 'section') {
+          const level = symbol.level ?? 2
+          while (open.length > 0 && open[open.length - 1].level >= level) open.pop()
+          const next = symbols.slice(i + 1).find(s => s.kind === 'section' && (s.level ?? 2) <= level)
+          const item = toDocumentSymbol(symbol, next ? Math.max(symbol.line, next.line - 1) : lastLine)
+          const parent = open.length > 0 ? open[open.length - 1].symbol.children! : roots
+          parent.push(item)
+          open.push({ level, symbol: item })
+        } else {
+          const parent = open.length > 0 ? open[open.length - 1].symbol.children! : roots
+          parent.push(toDocumentSymbol(symbol, symbol.line))
+        }
+      })
+      return roots
+    }
+  }
+}
@@ -39,6 +39,11 @@ export default defineConfig(({ command }) => {
 
     plugins: [crx({ manifest }), react()],
 
+    // The source download worker is a module worker that shares code with the viewer
+    worker: {
+      format: 'es',
+    },
+
     // Optimize Monaco Editor
     optimizeDeps: {
       include: ['monaco-editor'],